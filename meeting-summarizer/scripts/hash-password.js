@@ -0,0 +1,13 @@
+// Creates a password hash for AUTH_USERS (same format as hashPassword in src/lib/authProvider.ts).
+// Usage: node scripts/hash-password.js <password>
+const crypto = require('crypto');
+
+const password = process.argv[2];
+if (!password) {
+  console.error('Usage: node scripts/hash-password.js <password>');
+  process.exit(1);
+}
+
+const salt = crypto.randomBytes(16);
+const key = crypto.scryptSync(password.normalize('NFKC'), salt, 64);
+console.log(`scrypt.${salt.toString('base64url')}.${key.toString('base64url')}`);
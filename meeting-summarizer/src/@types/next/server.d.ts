@@ -1,5 +1,29 @@
 declare module "next/server" {
-  export class NextResponse {
-    static json(data: any, init?: { status?: number }): Response;
+  interface CookieOptions {
+    httpOnly?: boolean;
+    secure?: boolean;
+    sameSite?: 'lax' | 'strict' | 'none';
+    path?: string;
+    maxAge?: number;
   }
+
+  export class NextResponse extends Response {
+    cookies: {
+      get(name: string): { name: string; value: string } | undefined;
+      set(name: string, value: string, options?: CookieOptions): void;
+    };
+    static json(data: any, init?: { status?: number; headers?: HeadersInit }): NextResponse;
+    static redirect(url: string | URL, status?: number): NextResponse;
+    static next(): NextResponse;
+  }
+
+  export class NextRequest extends Request {
+    nextUrl: URL;
+    cookies: {
+      get(name: string): { name: string; value: string } | undefined;
+    };
+  }
+
+  // Runs a task after the response has been sent, within the function's maxDuration
+  export function after(task: Promise<unknown> | (() => unknown)): void;
 }
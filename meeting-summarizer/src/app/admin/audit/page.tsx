@@ -0,0 +1,16 @@
+// src/app/admin/audit/page.tsx
+import Header from '../../components/Header';
+import AuditLog from '../../components/AuditLog';
+
+export const metadata = {
+  title: 'Auditlog - Super Kees Online',
+};
+
+export default function AuditPage() {
+  return (
+    <main className="min-h-screen bg-background text-foreground pb-20">
+      <Header />
+      <AuditLog />
+    </main>
+  );
+}
@@ -0,0 +1,16 @@
+// src/app/admin/page.tsx
+import Header from '../components/Header';
+import AdminPanel from '../components/AdminPanel';
+
+export const metadata = {
+  title: 'Beheer - Super Kees Online',
+};
+
+export default function AdminPage() {
+  return (
+    <main className="min-h-screen bg-background text-foreground pb-20">
+      <Header />
+      <AdminPanel />
+    </main>
+  );
+}
@@ -0,0 +1,86 @@
+// src/app/api/ask/route.ts
+
+import { NextResponse } from 'next/server';
+import { calculateTextCost } from '@/lib/tokenCounter';
+import { getChatModel } from '@/lib/chatProvider';
+import { formatTranscript, parseSegments } from '@/lib/transcript';
+import { wantsEventStream, createEventStream } from '@/lib/sse';
+import { answerQuestion, QaMessage } from '@/lib/transcriptQa';
+
+export const maxDuration = 120; // 2 minutes timeout
+export const dynamic = 'force-dynamic';
+
+// Keeps the well-formed earlier messages of the chat
+const parseHistory = (value: unknown): QaMessage[] =>
+  Array.isArray(value)
+    ? value
+        .filter(message => (message?.role === 'user' || message?.role === 'assistant') && typeof message.content === 'string' && message.content.trim())
+        .map(message => ({ role: message.role, content: message.content }))
+    : [];
+
+// Answers a question about the transcript, with quotes that point back into the transcript
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { question, summary, model = 'gpt-4o' } = body;
+
+    // Same transcript as the summary was made from: the speaker-attributed segments when available
+    const segments = parseSegments(body.segments);
+    const text: string = segments ? formatTranscript(segments) : body.text;
+
+    if (!question || typeof question !== 'string' || !question.trim()) {
+      return NextResponse.json({ error: 'Geen vraag gesteld' }, { status: 400 });
+    }
+    if (!text) {
+      return NextResponse.json({ error: 'Geen transcriptie aangeleverd om vragen over te stellen' }, { status: 400 });
+    }
+
+    const selectedModel = getChatModel(model, 'gpt-4o');
+    const history = parseHistory(body.history);
+
+    const ask = async ({ onDelta, signal }: { onDelta?: (text: string) => void; signal?: AbortSignal } = {}) => {
+      const result = await answerQuestion(question.trim(), text, segments, {
+        model: selectedModel,
+        summary: typeof summary === 'string' ? summary : undefined,
+        history,
+        redactPii: Boolean(body.redactPii),
+        onDelta,
+        signal
+      });
+      console.log(`💬 Answered question with ${result.quotes.filter(quote => quote.found).length}/${result.quotes.length} quotes found${result.complete ? '' : ' (retrieved fragments)'}`);
+      return {
+        answer: result.answer,
+        quotes: result.quotes,
+        complete: result.complete,
+        usage: {
+          model: result.model.name,
+          inputTokens: result.inputTokens,
+          outputTokens: result.outputTokens,
+          totalTokens: result.inputTokens + result.outputTokens,
+          cost: calculateTextCost(result.inputTokens, result.outputTokens, result.model.inputCost, result.model.outputCost)
+        }
+      };
+    };
+
+    // Clients that accept an event stream get the answer as it is written
+    if (wantsEventStream(request)) {
+      return createEventStream(async (send, signal) => {
+        try {
+          send('result', await ask({ onDelta: text => send('delta', { text }), signal }));
+        } catch (error) {
+          if (signal.aborted) throw error;
+          console.error('Error answering question:', error);
+          send('error', { error: error instanceof Error ? `Beantwoorden mislukt: ${error.message}` : 'Beantwoorden mislukt' });
+        }
+      }, request.signal);
+    }
+
+    return NextResponse.json(await ask({ signal: request.signal }));
+  } catch (error) {
+    console.error('Error answering question:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? `Beantwoorden mislukt: ${error.message}` : 'Beantwoorden mislukt' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+// src/app/api/audit/route.ts
+
+import { NextResponse } from 'next/server';
+import { getUserContext, listTeams } from '@/lib/organization';
+import { AUDIT_ACTIONS, AuditFilter, queryAudit, auditToCsv, isAuditAction } from '@/lib/audit';
+
+export const runtime = 'nodejs'; // The audit log is stored on the filesystem
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Query the audit log (admins only), newest first. Filters: ?from= and ?to= (YYYY-MM-DD), ?action=,
+// ?actor= (e-mail address or name), ?meetingId= and ?limit=. ?format=csv downloads every match as CSV.
+export async function GET(request: Request) {
+  try {
+    const context = await getUserContext(request);
+    if (!context?.isAdmin) {
+      return NextResponse.json({ error: 'Alleen beheerders kunnen het auditlog inzien' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from') || undefined;
+    const to = searchParams.get('to') || undefined;
+    const action = searchParams.get('action') || undefined;
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json({ error: 'Gebruik datums in de vorm JJJJ-MM-DD' }, { status: 400 });
+    }
+    if (action && !isAuditAction(action)) {
+      return NextResponse.json({ error: 'Onbekende actie' }, { status: 400 });
+    }
+    const csv = searchParams.get('format') === 'csv';
+    const limit = Number(searchParams.get('limit'));
+    const filter: AuditFilter = {
+      from,
+      to,
+      action: action as AuditFilter['action'],
+      actor: searchParams.get('actor') || undefined,
+      meetingId: searchParams.get('meetingId') || undefined,
+      limit: csv ? null : Number.isFinite(limit) && limit > 0 ? limit : undefined,
+    };
+
+    const [{ entries, total }, teams] = await Promise.all([queryAudit(filter), listTeams()]);
+    const teamNames: Record<string, string> = {};
+    teams.forEach(team => { teamNames[team.id] = team.name; });
+
+    if (csv) {
+      console.log(`📋 Audit log exported (${entries.length} entries) by ${context.user.email}`);
+      return new Response(auditToCsv(entries, teamNames), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="auditlog-${new Date().toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+    return NextResponse.json({ entries, total, actions: AUDIT_ACTIONS, teamNames });
+  } catch (error) {
+    console.error('Error querying audit log:', error);
+    return NextResponse.json({ error: 'Auditlog kon niet worden geladen' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+// src/app/api/auth/login/route.ts
+
+import { NextResponse } from 'next/server';
+import { isProviderEnabled, verifyCredentials } from '@/lib/authProvider';
+import { SESSION_COOKIE, SESSION_MAX_AGE_SECONDS, authConfigured, cookieOptions, createSessionToken } from '@/lib/session';
+
+export const runtime = 'nodejs'; // Password hashing uses node:crypto
+export const dynamic = 'force-dynamic';
+
+// Sign in with e-mail address and password; sets the session cookie
+export async function POST(request: Request) {
+  try {
+    if (!authConfigured()) {
+      return NextResponse.json({ error: 'Inloggen is niet geconfigureerd: AUTH_SECRET ontbreekt' }, { status: 500 });
+    }
+    if (!isProviderEnabled('credentials')) {
+      return NextResponse.json({ error: 'Inloggen met wachtwoord is niet ingeschakeld' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const email = typeof body?.email === 'string' ? body.email : '';
+    const password = typeof body?.password === 'string' ? body.password : '';
+    if (!email || !password) {
+      return NextResponse.json({ error: 'Vul e-mailadres en wachtwoord in' }, { status: 400 });
+    }
+
+    const user = await verifyCredentials(email, password);
+    if (!user) {
+      console.warn(`🔒 Failed sign-in for ${email}`);
+      return NextResponse.json({ error: 'Onjuist e-mailadres of wachtwoord' }, { status: 401 });
+    }
+
+    console.log(`🔑 Signed in: ${user.email}`);
+    const response = NextResponse.json({ user });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), cookieOptions(SESSION_MAX_AGE_SECONDS));
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json({ error: 'Inloggen mislukt' }, { status: 500 });
+  }
+}
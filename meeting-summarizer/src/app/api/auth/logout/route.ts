@@ -0,0 +1,13 @@
+// src/app/api/auth/logout/route.ts
+
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE, cookieOptions } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+// Sign out: removes the session cookie
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(SESSION_COOKIE, '', cookieOptions(0));
+  return response;
+}
@@ -0,0 +1,29 @@
+// src/app/api/auth/oidc/callback/route.ts
+
+import { NextResponse } from 'next/server';
+import { OidcState, completeOidcLogin } from '@/lib/authProvider';
+import { OIDC_STATE_COOKIE, SESSION_COOKIE, SESSION_MAX_AGE_SECONDS, cookieOptions, createSessionToken, readCookie, verifySignedValue } from '@/lib/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// The identity provider redirects here after signing in; sets the session cookie
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const state = await verifySignedValue<OidcState>(readCookie(request, OIDC_STATE_COOKIE));
+
+  try {
+    const user = await completeOidcLogin(url.origin, url.searchParams, state);
+    console.log(`🔑 Signed in via OIDC: ${user.email || user.id}`);
+    const response = NextResponse.redirect(new URL(state?.next || '/', url.origin));
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), cookieOptions(SESSION_MAX_AGE_SECONDS));
+    response.cookies.set(OIDC_STATE_COOKIE, '', cookieOptions(0));
+    return response;
+  } catch (error) {
+    console.error('Error completing OIDC sign-in:', error);
+    const message = error instanceof Error ? error.message : 'Onbekende fout';
+    const response = NextResponse.redirect(new URL(`/login?error=${encodeURIComponent(message)}`, url.origin));
+    response.cookies.set(OIDC_STATE_COOKIE, '', cookieOptions(0));
+    return response;
+  }
+}
@@ -0,0 +1,27 @@
+// src/app/api/auth/oidc/login/route.ts
+
+import { NextResponse } from 'next/server';
+import { isProviderEnabled, startOidcLogin } from '@/lib/authProvider';
+import { OIDC_STATE_COOKIE, authConfigured, cookieOptions, safeNextPath, signValue } from '@/lib/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Redirects to the identity provider; ?next= is the page to return to afterwards
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  try {
+    if (!authConfigured() || !isProviderEnabled('oidc')) {
+      return NextResponse.json({ error: 'Single sign-on is niet ingeschakeld' }, { status: 400 });
+    }
+
+    const { url: authorizationUrl, state, maxAge } = await startOidcLogin(url.origin, safeNextPath(url.searchParams.get('next')));
+    const response = NextResponse.redirect(authorizationUrl);
+    response.cookies.set(OIDC_STATE_COOKIE, await signValue(state), cookieOptions(maxAge));
+    return response;
+  } catch (error) {
+    console.error('Error starting OIDC sign-in:', error);
+    const message = error instanceof Error ? error.message : 'Onbekende fout';
+    return NextResponse.redirect(new URL(`/login?error=${encodeURIComponent(message)}`, url.origin));
+  }
+}
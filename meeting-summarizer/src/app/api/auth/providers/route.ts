@@ -0,0 +1,17 @@
+// src/app/api/auth/providers/route.ts
+
+import { NextResponse } from 'next/server';
+import { enabledAuthProviders } from '@/lib/authProvider';
+import { authConfigured, authDisabled } from '@/lib/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// The sign-in methods for the login page
+export async function GET() {
+  return NextResponse.json({
+    providers: enabledAuthProviders(),
+    configured: authConfigured(),
+    disabled: authDisabled(),
+  });
+}
@@ -0,0 +1,13 @@
+// src/app/api/auth/session/route.ts
+
+import { NextResponse } from 'next/server';
+import { getSession, userUploadPrefix } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+// The signed-in user, or null; uploadPrefix is the blob path the user may upload to
+export async function GET(request: Request) {
+  const session = await getSession(request);
+  if (!session) return NextResponse.json({ user: null, expiresAt: null, uploadPrefix: null });
+  return NextResponse.json({ user: session.user, expiresAt: session.expiresAt, uploadPrefix: await userUploadPrefix(session.user) });
+}
@@ -2,6 +2,7 @@
 import { handleUpload } from '@vercel/blob/client';
 import { NextResponse } from 'next/server';
 import { formatBytes } from '@/lib/enhancedAudioChunker';
+import { getSession, userUploadPrefix } from '@/lib/session';
 
 export const runtime = 'edge';
 export const maxDuration = 60; // 60 seconds to match transcribe-segment endpoint
@@ -61,8 +62,12 @@ export async function POST(request: Request) {
         body,
         request,
         onBeforeGenerateToken: async (pathname, clientPayload) => {
-          // We could add authentication here if needed
-          // This is where we validate the upload before it starts
+          // This is where we validate the upload before it starts: only signed-in users get a
+          // token, for paths under their own prefix
+          const session = await getSession(request);
+          if (!session) throw new Error('Niet ingelogd');
+          if (!pathname.startsWith(await userUploadPrefix(session.user))) throw new Error('Uploaden naar dit pad is niet toegestaan');
+          const tokenPayload = JSON.stringify({ userId: session.user.id });
           
           // Create a comprehensive list of allowed MIME types
           const allowedContentTypes = [
@@ -91,7 +96,7 @@ export async function POST(request: Request) {
           
           // Update requestDetails with the pathname for better logging
           requestDetails = pathname.split('/').pop() || 'unknown file';
-          console.log(`Client upload token requested for: ${pathname} (${Date.now() - startTime}ms elapsed)`);
+          console.log(`Client upload token requested for: ${pathname} by ${session.user.id} (${Date.now() - startTime}ms elapsed)`);
           
           // Reduce maximum size to avoid timeouts
           const maximumSizeInBytes = 200 * 1024 * 1024; // 200MB max
@@ -110,7 +115,7 @@ export async function POST(request: Request) {
                 contentLength = Number(contentLengthValue);
               } else {
                 // Skip validation if we can't parse the content length
-                return { allowedContentTypes, maximumSizeInBytes };
+                return { allowedContentTypes, maximumSizeInBytes, tokenPayload, addRandomSuffix: true };
               }
               
               console.log(`Content length: ${safeFormatBytes(contentLength)} (${contentLength} bytes)`);
@@ -127,12 +132,15 @@ export async function POST(request: Request) {
           return {
             allowedContentTypes,
             maximumSizeInBytes,
+            tokenPayload,
+            addRandomSuffix: true, // Uploads of files with the same name do not overwrite each other
           };
         },
-        onUploadCompleted: async ({ blob }) => {
+        onUploadCompleted: async ({ blob, tokenPayload }) => {
           // This happens after the upload is complete
+          const { userId } = JSON.parse(tokenPayload || '{}');
           console.log(
-            `Blob upload completed: ${blob.pathname}, ` +
+            `Blob upload completed: ${blob.pathname} by ${userId || 'unknown user'}, ` +
             `Duration: ${(Date.now() - startTime) / 1000}s`
           );
         },
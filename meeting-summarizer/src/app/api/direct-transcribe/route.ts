@@ -1,8 +1,12 @@
 // src/app/api/direct-transcribe/route.ts
 import { NextResponse } from 'next/server';
-// Corrected import: Use default import if 'openai' is the default export
-import openai from '../../../lib/openai'; // Ensure correct path
-import { formatBytes } from '../../../lib/enhancedAudioChunker'; // Ensure correct path
+import { fetchAudioFile, transcribeAudioFile, deleteTranscribedRecording } from '../../../lib/audioTranscription';
+import { getUserContext } from '../../../lib/organization';
+import { findRecording } from '../../../lib/recordings';
+import { canAccessRecording } from '../../../lib/meetings';
+import { transcriptionPairError } from '../../../lib/transcriptionProvider';
+import { wantsEventStream, createEventStream } from '../../../lib/sse';
+import { type StageProgress } from '../../../lib/progress';
 import { Readable } from 'stream'; // Needed for older Node versions if fetch body isn't directly usable
 
 // Vercel Serverless function config (best set in vercel.json)
@@ -10,15 +14,16 @@ import { Readable } from 'stream'; // Needed for older Node versions if fetch bo
 export const runtime = 'nodejs'; // Can potentially be 'edge' if OpenAI SDK supports it fully
 export const maxDuration = 720; // 12 minutes
 
-// OpenAI Whisper limit (slightly less for safety margin)
-const WHISPER_MAX_SIZE_BYTES = 25 * 1024 * 1024 * 0.98; // ~24.5 MB
-
 // Define an interface for the expected request body
 interface RequestBody {
-  audioUrl?: string; // Changed from blobUrl to audioUrl for clarity
+  pathname?: string; // Pathname of an uploaded recording in Vercel Blob; its URL is looked up on the server (see recordings.ts)
   model?: string;    // Optional: Model ID override
-  language?: string; // Optional: Language override
+  provider?: string; // Optional: Transcription provider ('openai' | 'local' | 'fake'), defaults to the model's provider
+  language?: string; // Optional: ISO 639-1 language code, or 'auto' (default) to detect it
   prompt?: string;   // Optional: Prompt for context
+  diarization?: string; // Optional: Diarization provider override ('none' | 'pause' | 'http')
+  offsetSeconds?: number; // Optional: Start time of this audio within the full recording (for chunks)
+  deleteAfterTranscription?: boolean; // Optional: Delete the recording once it is transcribed, if the retention policy allows it (full recordings only, not chunks)
 }
 
 export async function POST(request: Request) {
@@ -29,7 +34,7 @@ export async function POST(request: Request) {
     // Ensure the request body is parsed as JSON
     if (!request.headers.get('content-type')?.includes('application/json')) {
       console.error('❌ Invalid content type, expected application/json');
-      return NextResponse.json({ error: 'Invalid request body. Expected JSON with audioUrl.' }, { status: 400 });
+      return NextResponse.json({ error: 'Invalid request body. Expected JSON with pathname.' }, { status: 400 });
     }
     requestBody = await request.json();
   } catch (error) {
@@ -37,120 +42,64 @@ export async function POST(request: Request) {
      return NextResponse.json({ error: 'Invalid request body format.' }, { status: 400 });
    }
 
-   const { audioUrl, model: modelId = 'gpt-4o-mini-transcribe', language = 'nl', prompt } = requestBody; // Changed default model
+   const { pathname, model: modelId = 'gpt-4o-mini-transcribe', provider: providerId, language, prompt, diarization, offsetSeconds = 0, deleteAfterTranscription = false } = requestBody; // Changed default model
 
-   if (!audioUrl) {
-    console.error('❌ Missing audioUrl in request body');
-    return NextResponse.json({ error: 'Missing audioUrl in request body' }, { status: 400 });
+  // Only uploaded recordings are transcribed: the server never fetches a URL from the client
+  if ((requestBody as { audioUrl?: unknown }).audioUrl !== undefined) {
+    return NextResponse.json({ error: 'audioUrl wordt niet meer ondersteund; stuur de pathname van de upload' }, { status: 400 });
   }
-
-  // Use try-catch for URL parsing as URL.canParse might not exist in all Node versions
-  try {
-    new URL(audioUrl);
-  } catch (_) {
-    console.error(`❌ Invalid audioUrl received: ${audioUrl}`);
-    return NextResponse.json({ error: 'Invalid audio URL format provided' }, { status: 400 });
+  if (!pathname || typeof pathname !== 'string') {
+    console.error('❌ Missing pathname in request body');
+    return NextResponse.json({ error: 'Missing pathname in request body' }, { status: 400 });
+  }
+  const pairError = transcriptionPairError(providerId, modelId);
+  if (pairError) {
+    return NextResponse.json({ error: pairError }, { status: 400 });
   }
 
+  // Recordings in Vercel Blob are only transcribed for users who may use them
+  const context = await getUserContext(request);
+  if (!context || !(await canAccessRecording(context, pathname))) {
+    console.error(`❌ Recording not accessible for this user: ${pathname}`);
+    return NextResponse.json({ error: 'Opname niet gevonden' }, { status: 404 });
+  }
+  const recording = await findRecording(pathname).catch(error => { console.error('❌ Error looking up recording:', error); return null; });
+  if (!recording) {
+    return NextResponse.json({ error: 'De opname bestaat niet meer; mogelijk is die al verwijderd' }, { status: 404 });
+  }
 
-  console.log(`🔄 Received request to transcribe audio from URL: ${audioUrl}`);
-
-  try {
-    // 1. Fetch the audio file from Vercel Blob (or any URL)
-    console.log('⬇️ Fetching audio from Blob URL...');
-    const audioResponse = await fetch(audioUrl);
-
-    if (!audioResponse.ok) {
-      throw new Error(`Failed to fetch audio from source: ${audioResponse.status} ${audioResponse.statusText} (URL: ${audioUrl})`);
-    }
-    if (!audioResponse.body) {
-        throw new Error('Audio response body is missing');
-    }
-
-    // Get file size from headers if available, otherwise read the blob
-    const contentLength = audioResponse.headers.get('content-length');
-    let fileSize: number;
-    let audioBlob: Blob;
-
-    if (contentLength) {
-      fileSize = parseInt(contentLength, 10);
-      console.log(`📄 Audio file size from header: ${formatBytes(fileSize)}`);
-      // Check size against Whisper limit *before* reading the full blob if possible
-      if (fileSize > WHISPER_MAX_SIZE_BYTES) {
-        throw new Error(`Audio file (${formatBytes(fileSize)}) exceeds Whisper API limit (${formatBytes(WHISPER_MAX_SIZE_BYTES)}). Please use segmented transcription.`);
-      }
-      audioBlob = await audioResponse.blob();
-    } else {
-      // If no content-length, read the blob to get the size
-      audioBlob = await audioResponse.blob();
-      fileSize = audioBlob.size;
-      console.warn(`⚠️ Content-Length header missing. Read blob size: ${formatBytes(fileSize)}`);
-      if (fileSize > WHISPER_MAX_SIZE_BYTES) {
-        throw new Error(`Audio file (${formatBytes(fileSize)}) exceeds Whisper API limit (${formatBytes(WHISPER_MAX_SIZE_BYTES)}). Please use segmented transcription.`);
-      }
-    }
-
-    console.log('✅ Audio fetched successfully from source.');
-
-    // 2. Prepare the file for OpenAI SDK
-    // Extract a filename from the URL for OpenAI, fallback to a default
-    let filename = 'audio_from_url.tmp'; // Default filename
-    try {
-        const urlPath = new URL(audioUrl).pathname;
-        const lastSegment = urlPath.split('/').pop();
-        if (lastSegment) {
-            // Basic sanitization and ensure it has an extension
-             filename = lastSegment.replace(/[^a-zA-Z0-9_.-]/g, '_');
-             if (!filename.includes('.')) filename += '.mp3'; // Assume mp3 if missing
-        }
-    } catch(nameError) {
-        console.warn("Could not determine filename from URL, using default.", nameError);
-    }
-
-    // Create a File-like object for OpenAI
-    const audioFile = new File([audioBlob], filename, { type: audioBlob.type || 'audio/mpeg' });
+  console.log(`🔄 Received request to transcribe audio ${pathname}`);
 
-    console.log(`🤖 Sending audio (${filename}, size: ${formatBytes(audioFile.size)}) to OpenAI Whisper (${modelId})...`);
+  const transcribe = async (onProgress?: (progress: StageProgress) => void) => {
+    // 1. Fetch the audio file from Vercel Blob
+    const audioFile = await fetchAudioFile(recording.pathname);
 
-    // 3. Transcribe using OpenAI Whisper API
-    const transcriptionOptions: any = {
-      file: audioFile,
+    // 2. Transcribe with the selected provider and attribute the segments to speakers
+    const { transcription, segments, usage } = await transcribeAudioFile(audioFile, {
       model: modelId,
-      language: language, // Use detected language or default
-      response_format: 'text', // Get plain text
-    };
+      provider: providerId,
+      language,
+      prompt,
+      diarization,
+      offsetSeconds,
+      onProgress,
+    });
 
-    if (prompt) {
-        transcriptionOptions.prompt = prompt;
-    }
-
-    // Call OpenAI API
-    const transcriptionResult = await openai.audio.transcriptions.create(transcriptionOptions);
+    // 3. The recording is no longer needed
+    const recordingDeletion = deleteAfterTranscription ? await deleteTranscribedRecording(context.user.id, recording.url) : null;
 
-    // --- Debugging: Log the raw result ---
-    console.log('🔍 Raw OpenAI Transcription Result:', transcriptionResult);
-    // --- End Debugging ---
+    // 4. The speaker-attributed transcription with its timestamped segments
+    return { success: true, transcription, segments, recordingDeletion, usage };
+  };
 
-    // Safely access the transcription text
-    // The result for response_format: 'text' is directly the string based on current behavior/docs
-    // However, we add checks for robustness in case the SDK changes or returns an object unexpectedly.
-    const transcription = (typeof transcriptionResult === 'string')
-                           ? transcriptionResult // If API directly returns string
-                           : (transcriptionResult as any)?.text; // Fallback: Access .text property if it's an object
-
-    if (typeof transcription === 'string') {
-      console.log(`✅ Transcription received from OpenAI (${transcription.length} characters).`);
-
-      // 4. Return the transcription text
-      return NextResponse.json({
-          success: true,
-          transcription: transcription
-      });
-    } else {
-      // Handle failure to extract string
-      console.error('❌ Failed to extract transcription string from OpenAI response:', transcriptionResult);
-      throw new Error('Failed to extract transcription string from OpenAI API response.');
+  try {
+    // Clients that accept an event stream get progress events (chunks transcribed, time left) before the result
+    if (wantsEventStream(request)) {
+      return createEventStream(async send => {
+        send('result', await transcribe(progress => send('progress', progress)));
+      }, request.signal);
     }
+    return NextResponse.json(await transcribe());
 
   } catch (error: any) {
     // --- Debugging: Log detailed error info ---
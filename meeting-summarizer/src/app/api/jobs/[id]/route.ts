@@ -0,0 +1,87 @@
+// src/app/api/jobs/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import { type Job, getJob, canAccessJob, isFinished, subscribeToJob } from '@/lib/jobs';
+import { resumeStaleJob, cancelJob } from '@/lib/jobWorker';
+import { getUserContext } from '@/lib/organization';
+import { wantsEventStream, createEventStream } from '@/lib/sse';
+
+export const runtime = 'nodejs'; // Jobs are stored on the filesystem
+export const dynamic = 'force-dynamic';
+export const maxDuration = 720; // Event streams stay open while the job runs, and a resumed job runs after the response
+
+const POLL_INTERVAL_MS = 2000; // Picks up the changes of a worker in another process
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The job when the user may access it; jobs of other users are reported as not found
+async function accessibleJob(request: Request, id: string) {
+  const [context, job] = await Promise.all([getUserContext(request), getJob(id)]);
+  return context && job && canAccessJob(context, job) ? job : null;
+}
+
+// The job with its stage, progress and results. Clients that accept an event stream get a 'job'
+// event on every change and 'delta' events with the summary text as it is written; the stream
+// ends when the job is finished, or earlier when the request times out (then open it again).
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const found = await accessibleJob(request, id);
+    if (!found) {
+      return NextResponse.json({ error: 'Verwerking niet gevonden' }, { status: 404 });
+    }
+    const job = await resumeStaleJob(found);
+    if (!wantsEventStream(request)) {
+      return NextResponse.json({ job });
+    }
+
+    return createEventStream(async (send, signal) => {
+      send('job', job);
+      if (isFinished(job)) return;
+
+      let lastUpdate = job.updatedAt;
+      await new Promise<void>(resolve => {
+        const finish = () => {
+          clearInterval(poll);
+          unsubscribe();
+          resolve();
+        };
+        const forward = (current: Job) => {
+          if (current.updatedAt > lastUpdate) {
+            lastUpdate = current.updatedAt;
+            send('job', current);
+          }
+          if (isFinished(current)) finish();
+        };
+        const unsubscribe = subscribeToJob(id, (event, data) => (event === 'job' ? forward(data as Job) : send(event, data)));
+        const poll = setInterval(() => {
+          getJob(id)
+            .then(current => (current ? forward(current) : finish()))
+            .catch(error => console.error(`Error polling job ${id}:`, error));
+        }, POLL_INTERVAL_MS);
+        if (signal.aborted) finish();
+        else signal.addEventListener('abort', finish, { once: true });
+      });
+    }, request.signal);
+  } catch (error) {
+    console.error(`Error loading job ${id}:`, error);
+    return NextResponse.json({ error: 'Verwerking kon niet worden geladen' }, { status: 500 });
+  }
+}
+
+// Cancel a job; the stages that are finished keep their results
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const job = await accessibleJob(request, id);
+    if (!job) {
+      return NextResponse.json({ error: 'Verwerking niet gevonden' }, { status: 404 });
+    }
+    return NextResponse.json({ job: await cancelJob(job) });
+  } catch (error) {
+    console.error(`Error cancelling job ${id}:`, error);
+    return NextResponse.json({ error: 'Verwerking kon niet worden geannuleerd' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+// src/app/api/jobs/route.ts
+
+import { NextResponse } from 'next/server';
+import { createJob, listJobs, validateJobInput } from '@/lib/jobs';
+import { startJob } from '@/lib/jobWorker';
+import { getUserContext } from '@/lib/organization';
+import { canAccessRecording } from '@/lib/meetings';
+
+export const runtime = 'nodejs'; // Jobs are stored on the filesystem
+export const dynamic = 'force-dynamic';
+export const maxDuration = 720; // The job runs after the response, within this limit
+
+// The user's most recent jobs, newest first
+export async function GET(request: Request) {
+  try {
+    const context = await getUserContext(request);
+    if (!context) {
+      return NextResponse.json({ error: 'Niet ingelogd' }, { status: 401 });
+    }
+    return NextResponse.json({ jobs: await listJobs(context) });
+  } catch (error) {
+    console.error('Error listing jobs:', error);
+    return NextResponse.json({ error: 'Verwerkingen konden niet worden geladen' }, { status: 500 });
+  }
+}
+
+// Start processing an uploaded recording on the server: { pathname, audioFileName, meetingId,
+// template, variables, settings }. Follow the job with GET /api/jobs/:id.
+export async function POST(request: Request) {
+  try {
+    const context = await getUserContext(request);
+    if (!context) {
+      return NextResponse.json({ error: 'Niet ingelogd' }, { status: 401 });
+    }
+    const validation = validateJobInput(await request.json().catch(() => null));
+    if ('error' in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    if (!(await canAccessRecording(context, validation.input.pathname))) {
+      return NextResponse.json({ error: 'Opname niet gevonden' }, { status: 404 });
+    }
+
+    const job = await createJob(validation.input, context);
+    startJob(job.id);
+    console.log(`📋 Job created: ${job.id} (${job.input.pathname})`);
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error('Error creating job:', error);
+    return NextResponse.json({ error: 'Verwerking kon niet worden gestart' }, { status: 500 });
+  }
+}
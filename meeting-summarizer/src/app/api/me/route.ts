@@ -0,0 +1,53 @@
+// src/app/api/me/route.ts
+
+import { NextResponse } from 'next/server';
+import { ACTIVE_TEAM_COOKIE, getUserContext } from '@/lib/organization';
+import { cookieOptions } from '@/lib/session';
+
+export const runtime = 'nodejs'; // Teams and members are stored on the filesystem
+export const dynamic = 'force-dynamic';
+
+// Keep the chosen team for a year
+const ACTIVE_TEAM_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+// The signed-in user with their role, teams and the active team (its templates, recipients and settings)
+export async function GET(request: Request) {
+  try {
+    const context = await getUserContext(request);
+    if (!context) {
+      return NextResponse.json({ error: 'Niet ingelogd' }, { status: 401 });
+    }
+    return NextResponse.json({
+      user: context.user,
+      role: context.role,
+      isAdmin: context.isAdmin,
+      teams: context.teams.map(team => ({ id: team.id, name: team.name })),
+      activeTeam: context.activeTeam,
+    });
+  } catch (error) {
+    console.error('Error loading user context:', error);
+    return NextResponse.json({ error: 'Gebruikersgegevens konden niet worden geladen' }, { status: 500 });
+  }
+}
+
+// Switch the active team ({ teamId })
+export async function PUT(request: Request) {
+  try {
+    const context = await getUserContext(request);
+    if (!context) {
+      return NextResponse.json({ error: 'Niet ingelogd' }, { status: 401 });
+    }
+    const { teamId } = (await request.json().catch(() => null)) || {};
+    const team = context.teams.find(candidate => candidate.id === teamId);
+    if (!team) {
+      return NextResponse.json({ error: 'Je bent geen lid van dit team' }, { status: 403 });
+    }
+
+    const response = NextResponse.json({ activeTeam: team });
+    response.cookies.set(ACTIVE_TEAM_COOKIE, team.id, cookieOptions(ACTIVE_TEAM_MAX_AGE_SECONDS));
+    return response;
+  } catch (error) {
+    console.error('Error switching team:', error);
+    return NextResponse.json({ error: 'Team wisselen mislukt' }, { status: 500 });
+  }
+}
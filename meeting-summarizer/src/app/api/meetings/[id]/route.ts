@@ -0,0 +1,96 @@
+// src/app/api/meetings/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import { type Meeting, getMeeting, updateMeeting, deleteMeeting, validateMeetingInput, canAccessMeeting } from '@/lib/meetings';
+import { getUserContext } from '@/lib/organization';
+import { recordAudit, recordSummaryChange, contentHash, AuditWriteError } from '@/lib/audit';
+import { deleteRecording } from '@/lib/retention';
+import { isUploadOf, findRecording } from '@/lib/recordings';
+
+export const runtime = 'nodejs'; // Meetings are stored on the filesystem
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The meeting when the user may access it; meetings of other users and teams are reported as not found
+async function accessibleMeeting(request: Request, id: string) {
+  const [context, meeting] = await Promise.all([getUserContext(request), getMeeting(id)]);
+  return { context, meeting: context && meeting && canAccessMeeting(context, meeting) ? meeting : null };
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const { context, meeting } = await accessibleMeeting(request, id);
+    if (!meeting) {
+      return NextResponse.json({ error: 'Gesprek niet gevonden' }, { status: 404 });
+    }
+    await recordAudit(context, 'meeting.read', { meetingId: meeting.id, details: { summaryHash: contentHash(meeting.summary) } });
+    return NextResponse.json({ meeting });
+  } catch (error) {
+    console.error(`Error loading meeting ${id}:`, error);
+    return NextResponse.json({ error: error instanceof AuditWriteError ? error.message : 'Gesprek kon niet worden geladen' }, { status: 500 });
+  }
+}
+
+// Partial update: rename, tag, or store a new summary or results.
+// A new summary is recorded in the audit log; `summaryEdited: true` marks it as edited by hand
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const { context, meeting: existing } = await accessibleMeeting(request, id);
+    if (!context || !existing) {
+      return NextResponse.json({ error: 'Gesprek niet gevonden' }, { status: 404 });
+    }
+    const body = await request.json().catch(() => null);
+    const validation = validateMeetingInput(body);
+    if ('error' in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await updateMeeting(id, validation.input, context);
+    if (!result) {
+      return NextResponse.json({ error: 'Gesprek niet gevonden' }, { status: 404 });
+    }
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 403 });
+    }
+    const { meeting } = result;
+    await recordSummaryChange(context, meeting.id, existing.summary, meeting.summary, body.summaryEdited === true);
+    return NextResponse.json({ meeting });
+  } catch (error) {
+    console.error(`Error updating meeting ${id}:`, error);
+    return NextResponse.json({ error: error instanceof AuditWriteError ? error.message : 'Gesprek kon niet worden opgeslagen' }, { status: 500 });
+  }
+}
+
+// The recording goes with the meeting. Only when it is the owner's own upload, since the audio
+// reference comes from the client; a failure is logged and left to the scheduled cleanup.
+async function deleteMeetingRecording(meeting: Meeting, userId: string | null) {
+  if (!meeting.audio || !meeting.ownerId || !(await isUploadOf(meeting.ownerId, meeting.audio.pathname))) return;
+  try {
+    const recording = await findRecording(meeting.audio.pathname);
+    if (recording) await deleteRecording(recording.url, 'meeting-deleted', userId);
+  } catch (error) {
+    console.error(`❌ Recording of meeting ${meeting.id} could not be deleted:`, error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const { context, meeting } = await accessibleMeeting(request, id);
+    if (!meeting || !(await deleteMeeting(id))) {
+      return NextResponse.json({ error: 'Gesprek niet gevonden' }, { status: 404 });
+    }
+    await deleteMeetingRecording(meeting, context?.user.id ?? null);
+    await recordAudit(context, 'meeting.deleted', { meetingId: id, details: { title: meeting.title, summaryHash: contentHash(meeting.summary) } });
+    console.log(`🗑️ Meeting deleted: ${id}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`Error deleting meeting ${id}:`, error);
+    return NextResponse.json({ error: error instanceof AuditWriteError ? error.message : 'Gesprek kon niet worden verwijderd' }, { status: 500 });
+  }
+}
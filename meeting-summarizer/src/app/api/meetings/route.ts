@@ -0,0 +1,58 @@
+// src/app/api/meetings/route.ts
+
+import { NextResponse } from 'next/server';
+import { listMeetings, createMeeting, validateMeetingInput } from '@/lib/meetings';
+import { getUserContext } from '@/lib/organization';
+import { recordAudit, contentHash, AuditWriteError } from '@/lib/audit';
+
+export const runtime = 'nodejs'; // Meetings are stored on the filesystem
+export const dynamic = 'force-dynamic';
+
+// List the user's and their team's meetings, newest first; ?tag= filters on a tag, ?q= searches title, tags and summary
+export async function GET(request: Request) {
+  try {
+    const context = await getUserContext(request);
+    if (!context) {
+      return NextResponse.json({ error: 'Niet ingelogd' }, { status: 401 });
+    }
+    const { searchParams } = new URL(request.url);
+    const meetings = await listMeetings(context, { tag: searchParams.get('tag') || undefined, query: searchParams.get('q') || undefined });
+    return NextResponse.json({ meetings });
+  } catch (error) {
+    console.error('Error listing meetings:', error);
+    return NextResponse.json({ error: 'Gesprekken konden niet worden geladen' }, { status: 500 });
+  }
+}
+
+// Save a processed meeting: its transcript, summary, results and the reference to the recording.
+// It belongs to the user and their active team. `summaryEdited: true` marks a summary the user
+// edited by hand before the first save, which is recorded in the audit log.
+export async function POST(request: Request) {
+  try {
+    const context = await getUserContext(request);
+    if (!context) {
+      return NextResponse.json({ error: 'Niet ingelogd' }, { status: 401 });
+    }
+    const body = await request.json().catch(() => null);
+    const validation = validateMeetingInput(body);
+    if ('error' in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await createMeeting(validation.input, context);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 403 });
+    }
+    const { meeting } = result;
+    const summaryHash = contentHash(meeting.summary);
+    await recordAudit(context, 'meeting.created', { meetingId: meeting.id, details: { title: meeting.title, summaryHash } });
+    if (body.summaryEdited === true) {
+      await recordAudit(context, 'summary.edited', { meetingId: meeting.id, details: { previousHash: null, summaryHash, length: meeting.summary.length } });
+    }
+    console.log(`🗂️ Meeting saved: ${meeting.id} (${meeting.title})`);
+    return NextResponse.json({ meeting }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating meeting:', error);
+    return NextResponse.json({ error: error instanceof AuditWriteError ? error.message : 'Gesprek kon niet worden opgeslagen' }, { status: 500 });
+  }
+}
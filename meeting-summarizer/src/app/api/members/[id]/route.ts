@@ -0,0 +1,65 @@
+// src/app/api/members/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import { getUserContext, getMember, updateMember, deleteMember, validateMemberInput } from '@/lib/organization';
+
+export const runtime = 'nodejs'; // Members are stored on the filesystem
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Partial update: name, role or teams (admins only). Admins cannot take away their own admin role.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const context = await getUserContext(request);
+    if (!context?.isAdmin) {
+      return NextResponse.json({ error: 'Alleen beheerders kunnen leden beheren' }, { status: 403 });
+    }
+    const validation = validateMemberInput(await request.json().catch(() => null));
+    if ('error' in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const existing = await getMember(id);
+    if (existing?.email === context.user.email.toLowerCase() && validation.input.role === 'member') {
+      return NextResponse.json({ error: 'Je kunt je eigen beheerdersrol niet intrekken' }, { status: 400 });
+    }
+
+    const result = await updateMember(id, validation.input);
+    if (!result) {
+      return NextResponse.json({ error: 'Lid niet gevonden' }, { status: 404 });
+    }
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+    console.log(`👤 Member updated: ${result.member.email} by ${context.user.email}`);
+    return NextResponse.json({ member: result.member });
+  } catch (error) {
+    console.error(`Error updating member ${id}:`, error);
+    return NextResponse.json({ error: 'Lid kon niet worden opgeslagen' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const context = await getUserContext(request);
+    if (!context?.isAdmin) {
+      return NextResponse.json({ error: 'Alleen beheerders kunnen leden beheren' }, { status: 403 });
+    }
+    const existing = await getMember(id);
+    if (existing?.email === context.user.email.toLowerCase()) {
+      return NextResponse.json({ error: 'Je kunt jezelf niet verwijderen' }, { status: 400 });
+    }
+    if (!(await deleteMember(id))) {
+      return NextResponse.json({ error: 'Lid niet gevonden' }, { status: 404 });
+    }
+    console.log(`🗑️ Member removed: ${existing?.email} by ${context.user.email}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`Error removing member ${id}:`, error);
+    return NextResponse.json({ error: 'Lid kon niet worden verwijderd' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+// src/app/api/members/route.ts
+
+import { NextResponse } from 'next/server';
+import { getUserContext, listMembers, createMember, validateMemberInput } from '@/lib/organization';
+
+export const runtime = 'nodejs'; // Members are stored on the filesystem
+export const dynamic = 'force-dynamic';
+
+// All members with their role and teams (admins only)
+export async function GET(request: Request) {
+  try {
+    const context = await getUserContext(request);
+    if (!context?.isAdmin) {
+      return NextResponse.json({ error: 'Alleen beheerders kunnen leden beheren' }, { status: 403 });
+    }
+    return NextResponse.json({ members: await listMembers() });
+  } catch (error) {
+    console.error('Error listing members:', error);
+    return NextResponse.json({ error: 'Leden konden niet worden geladen' }, { status: 500 });
+  }
+}
+
+// Add a member by e-mail address (admins only); they get access on their next sign-in
+export async function POST(request: Request) {
+  try {
+    const context = await getUserContext(request);
+    if (!context?.isAdmin) {
+      return NextResponse.json({ error: 'Alleen beheerders kunnen leden beheren' }, { status: 403 });
+    }
+    const validation = validateMemberInput(await request.json().catch(() => null));
+    if ('error' in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const { email } = validation.input;
+    if (!email) {
+      return NextResponse.json({ error: 'Vul een e-mailadres in' }, { status: 400 });
+    }
+
+    const result = await createMember({ ...validation.input, email });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+    console.log(`👤 Member added: ${email} (${result.member.role}) by ${context.user.email}`);
+    return NextResponse.json({ member: result.member }, { status: 201 });
+  } catch (error) {
+    console.error('Error adding member:', error);
+    return NextResponse.json({ error: 'Lid kon niet worden toegevoegd' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+// src/app/api/recordings/route.ts
+
+import { NextResponse } from 'next/server';
+import { getUserContext } from '@/lib/organization';
+import { canAccessRecording } from '@/lib/meetings';
+import { readRecording } from '@/lib/recordings';
+
+export const runtime = 'nodejs'; // Access is checked against meetings on the filesystem
+export const dynamic = 'force-dynamic';
+
+// Headers of the blob response that the audio player needs, e.g. for seeking with range requests
+const PASSED_HEADERS = ['content-type', 'content-length', 'content-range', 'accept-ranges'];
+
+// Streams an uploaded recording (?pathname=) to a user who may play it; the private blob can only
+// be read with the store token. Range requests are passed on.
+export async function GET(request: Request) {
+  const pathname = new URL(request.url).searchParams.get('pathname') || '';
+  try {
+    const context = await getUserContext(request);
+    if (!context || !pathname || !(await canAccessRecording(context, pathname))) {
+      return NextResponse.json({ error: 'Opname niet gevonden' }, { status: 404 });
+    }
+    const range = request.headers.get('range');
+    const recording = await readRecording(pathname, range ? { range } : undefined);
+    if (!recording) {
+      return NextResponse.json({ error: 'De opname bestaat niet meer' }, { status: 404 });
+    }
+
+    const headers = new Headers({ 'Cache-Control': 'private, no-store' });
+    PASSED_HEADERS.forEach(name => {
+      const value = recording.headers.get(name);
+      if (value) headers.set(name, value);
+    });
+    // A range request is answered with part of the recording
+    return new Response(recording.stream, { status: headers.has('content-range') ? 206 : 200, headers });
+  } catch (error) {
+    console.error(`Error streaming recording ${pathname}:`, error);
+    return NextResponse.json({ error: 'Opname kon niet worden geladen' }, { status: 500 });
+  }
+}
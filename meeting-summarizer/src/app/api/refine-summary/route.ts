@@ -1,9 +1,17 @@
 // src/app/api/refine-summary/route.ts
 
 import { NextResponse } from 'next/server';
-import openai from '@/lib/openai';
-import { chatModels } from '@/lib/config';
+import { getChatModel, completeChat } from '@/lib/chatProvider';
 import { countTokens, calculateTextCost } from '@/lib/tokenCounter';
+import { wantsEventStream, createEventStream } from '@/lib/sse';
+import { extractActionItems } from '@/lib/actionItems';
+import { formatTranscript, parseSegments } from '@/lib/transcript';
+import { singlePassLimit } from '@/lib/mapReduce';
+import { retrieveContext } from '@/lib/retrieval';
+import { countTextTokens } from '@/lib/tokenizer';
+import { getUserContext } from '@/lib/organization';
+import { recordAudit, auditMeetingId, contentHash } from '@/lib/audit';
+import { createRedactor, REDACTION_INSTRUCTION } from '@/lib/redaction';
 
 // Helper function to check if a line looks like a pipe-separated table row
 const isPipeTableRow = (line: string): boolean => {
@@ -81,8 +89,41 @@ const convertMarkdownTableToHtml = (markdown: string): string => {
 };
 
 
-// Set a higher timeout for the API request
-export const maxDuration = 60; // 60 seconds
+// Translates provider errors into a message (and status) the user can act on
+const describeError = (error: unknown): { errorMessage: string; statusCode: number } => {
+  let errorMessage = 'Onbekende fout bij het verfijnen van de samenvatting';
+  let statusCode = 500;
+
+  if (error instanceof Error) {
+    errorMessage = error.message;
+
+    if (error.message.includes('timeout')) {
+      errorMessage = 'De aanvraag duurde te lang. Probeer een kleinere samenvatting of probeer het later opnieuw.';
+      statusCode = 504;
+    }
+    // Add a check for the specific error message from the API if needed
+    if (error.message.includes('Your request was rejected as a result of our safety system')) {
+         errorMessage = 'De inhoud van de samenvatting kon niet worden verwerkt vanwege veiligheidsbeperkingen. Probeer de samenvatting aan te passen.';
+         statusCode = 400; // Bad Request
+    }
+  }
+
+  return { errorMessage, statusCode };
+};
+
+// Transcript tokens for a refinement about one topic: enough for every passage about it, small
+// enough that the model is not distracted by the rest of the meeting
+const TOPIC_CONTEXT_TOKENS = 16000;
+
+// Search terms for the action item context, next to the summary itself
+const ACTION_QUERY = 'actie actiepunt afspraak afgesproken taak deadline uiterlijk volgende stap opvolgen regelen sturen';
+
+// Custom instructions are kept in the audit log up to this length
+const MAX_AUDITED_INSTRUCTION_LENGTH = 1000;
+
+// Set a higher timeout for the API request; streamed refinements are not bound to the 50s JSON timeout
+export const maxDuration = 300; // 5 minutes
+export const runtime = 'nodejs'; // The audit log is stored on the filesystem
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: Request) {
@@ -91,7 +132,11 @@ export async function POST(request: Request) {
     const body = await request.json();
 
     // Extract parameters
-    const { summary, transcript, action, topic, customPrompt } = body;
+    const { summary, action, topic, customPrompt, model = 'gpt-4o' } = body;
+
+    // The speaker-attributed segments when available, so the context keeps speakers and timestamps
+    const segments = parseSegments(body.segments);
+    const transcript: string | undefined = segments ? formatTranscript(segments) : body.transcript;
 
     // Validate required inputs
     if (!summary) {
@@ -108,11 +153,47 @@ export async function POST(request: Request) {
       );
     }
 
-    // Use gpt-4o as specified
-    const model = 'gpt-4o';
-    const selectedModel = chatModels.find(m => m.id === model) ||
-                         chatModels.find(m => m.id === 'gpt-4o') ||
-                         chatModels[0];
+    // Any configured chat model can refine; gpt-4o remains the default
+    const selectedModel = getChatModel(model, 'gpt-4o');
+
+    // With redactPii, personal data in the summary, the transcript and the instructions is replaced
+    // with placeholders before anything goes to the model, and restored in the result
+    const redactor = body.redactPii ? createRedactor() : null;
+    const redact = (value: string) => (redactor ? redactor.redact(value) : value);
+    const restore = (value: string) => (redactor ? redactor.restore(value) : value);
+    const modelSummary = redact(summary);
+    const modelSegments = redactor && segments ? segments.map(segment => ({ ...segment, text: redactor.redact(segment.text) })) : segments;
+    const modelTranscript = transcript && (modelSegments ? formatTranscript(modelSegments) : redact(transcript));
+    const modelTopic = topic ? redact(String(topic)) : topic;
+    const modelInstruction = customPrompt ? redact(String(customPrompt)) : customPrompt;
+
+    // Every refinement is recorded in the audit log with the summary it started from and its result
+    const userContext = await getUserContext(request);
+    const meetingId = await auditMeetingId(userContext, body.meetingId);
+    const recordRefinement = (modelName: string, result: string) =>
+      recordAudit(userContext, 'summary.refined', {
+        meetingId,
+        details: {
+          action,
+          model: modelName,
+          topic: action === 'elaborate-topic' ? topic : null,
+          instruction: action === 'custom' ? String(customPrompt).slice(0, MAX_AUDITED_INSTRUCTION_LENGTH) : null,
+          summaryHash: contentHash(summary),
+          resultHash: contentHash(result),
+          redactions: redactor ? redactor.redactions().length : null,
+        },
+      });
+
+    // Transcript context from the whole meeting: the complete transcript when it fits, otherwise the
+    // passages that are most relevant to the action (the topic, the instruction or the summary)
+    const transcriptContext = (query: string, maxTokens: number = singlePassLimit(selectedModel)) => {
+      if (!modelTranscript) return null;
+      const budget = Math.max(1000, Math.min(maxTokens, singlePassLimit(selectedModel) - countTextTokens(modelSummary)));
+      const { context, complete } = retrieveContext(modelTranscript, modelSegments, query, budget);
+      console.log(`📎 Refinement context: ${complete ? 'complete transcript' : `fragments for "${query.slice(0, 60)}"`}`);
+      return { context, complete };
+    };
+    let context: { context: string; complete: boolean } | null = null;
 
     // Create instructions based on the action
     let instructions = '';
@@ -122,6 +203,7 @@ export async function POST(request: Request) {
         instructions = `Je bent een expert in het schrijven van uitgebreide vergadersamenvattingen. Maak de samenvatting gedetailleerder door relevante informatie uit de transcriptie toe te voegen die in de huidige samenvatting ontbreekt.
 
 Behoud de structuur van de originele samenvatting maar voeg meer details toe. Hou de schrijfstijl consistent. Zorg ervoor dat je de tekst formatteert in duidelijke paragrafen zonder markdown symbolen zichtbaar in de output.`;
+        context = transcriptContext(modelSummary);
         break;
 
       case 'elaborate-topic':
@@ -131,11 +213,13 @@ Behoud de structuur van de originele samenvatting maar voeg meer details toe. Ho
             { status: 400 }
           );
         }
-        instructions = `Je bent een expert in het schrijven van gerichte vergadersamenvattingen. Breid de samenvatting uit met alle relevante informatie over dit specifieke onderwerp: "${topic}". Zorg ervoor dat je de tekst formatteert in duidelijke paragrafen zonder markdown symbolen zichtbaar in de output.`;
+        instructions = `Je bent een expert in het schrijven van gerichte vergadersamenvattingen. Breid de samenvatting uit met alle relevante informatie over dit specifieke onderwerp: "${modelTopic}". Zorg ervoor dat je de tekst formatteert in duidelijke paragrafen zonder markdown symbolen zichtbaar in de output.`;
+        context = transcriptContext(modelTopic, TOPIC_CONTEXT_TOKENS);
         break;
 
       case 'email-format':
         instructions = `Herschrijf de vergadernotulen in een formele, professionele e-mail die naar collega's gestuurd kan worden met een duidelijke onderwerpregel, intro, gestructureerde samenvatting en afsluiting. Gebruik goed geformatteerde tekst zonder zichtbare markdown symbolen.`;
+        context = transcriptContext(modelSummary);
         break;
 
       case 'custom':
@@ -145,9 +229,43 @@ Behoud de structuur van de originele samenvatting maar voeg meer details toe. Ho
             { status: 400 }
           );
         }
-        instructions = `Volg deze instructie voor het aanpassen van de samenvatting: "${customPrompt}". Zorg ervoor dat je de tekst formatteert in duidelijke paragrafen zonder markdown symbolen zichtbaar in de output.`;
+        instructions = `Volg deze instructie voor het aanpassen van de samenvatting: "${modelInstruction}". Zorg ervoor dat je de tekst formatteert in duidelijke paragrafen zonder markdown symbolen zichtbaar in de output.`;
+        context = transcriptContext(`${modelInstruction} ${modelSummary}`);
         break;
 
+      case 'extract-actions': {
+        // Action items come back as validated JSON for the action item panel, not as a rewritten summary
+        const extraction = await extractActionItems(
+          selectedModel.id,
+          modelSummary,
+          transcriptContext(`${ACTION_QUERY} ${modelSummary}`)?.context,
+          {
+            // Placeholders must come back unchanged in description, owner and sourceQuote to be restored
+            instructions: redactor && redactor.redactions().length > 0 ? REDACTION_INSTRUCTION : undefined,
+            signal: request.signal,
+          }
+        );
+        const actionItems = extraction.actionItems.map(item => ({
+          ...item,
+          description: restore(item.description),
+          owner: item.owner && restore(item.owner),
+          sourceQuote: item.sourceQuote && restore(item.sourceQuote),
+        }));
+        const inputTokens = extraction.result.usage?.inputTokens ?? countTokens(extraction.prompt);
+        const outputTokens = extraction.result.usage?.outputTokens ?? countTokens(extraction.result.text);
+        await recordRefinement(extraction.result.model.name, JSON.stringify(actionItems));
+        return NextResponse.json({
+          actionItems,
+          usage: {
+            model: extraction.result.model.name,
+            inputTokens,
+            outputTokens,
+            totalTokens: inputTokens + outputTokens,
+            cost: calculateTextCost(inputTokens, outputTokens, extraction.result.model.inputCost, extraction.result.model.outputCost)
+          }
+        });
+      }
+
       default:
         return NextResponse.json(
           { error: 'Ongeldige actie gespecificeerd' },
@@ -155,84 +273,86 @@ Behoud de structuur van de originele samenvatting maar voeg meer details toe. Ho
         );
     }
 
-    // Use the newer Responses API structure
     const userMessage = {
-      role: "user",
-      content: `Here is the summary:\n\n${summary}${transcript ? `\n\nContext from transcript:\n\n${transcript.substring(0, 4000)}` : ''}`
+      role: 'user' as const,
+      content: `Here is the summary:\n\n${modelSummary}${context ? `\n\n${context.complete ? 'Full transcript' : 'Relevant fragments from the transcript ([...] marks omitted parts)'}:\n\n${context.context}` : ''}`
     };
 
-    const devMessage = {
-      role: "developer",
-      content: instructions
+    const systemMessage = {
+      role: 'system' as const,
+      content: redactor && redactor.redactions().length > 0 ? `${instructions}\n\n${REDACTION_INSTRUCTION}` : instructions
     };
 
-    // Set a timeout for the API call
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('OpenAI API timeout')), 50000); // 50 second timeout
-    });
+    const refine = async ({ onDelta, signal }: { onDelta?: (text: string) => void; signal?: AbortSignal } = {}) => {
+      // Placeholders are restored in the streamed text as well; one split over two deltas is held back
+      const streamRestorer = redactor?.createStreamRestorer();
+      const emit = (text: string) => { if (text && onDelta) onDelta(text); };
+      const response = await completeChat(selectedModel.id, {
+        messages: [systemMessage, userMessage],
+        temperature: 0.3,
+        maxTokens: 2048, // Increased token limit for more detailed responses
+        signal,
+        onDelta: onDelta && (delta => emit(streamRestorer ? streamRestorer.push(delta) : delta)),
+      });
+      if (streamRestorer) emit(streamRestorer.flush());
+
+      // Get the refined summary, with the personal data back in place
+      let refinedSummary = restore(response.text);
+
+      // If the action was email-format, convert markdown tables to HTML
+      if (action === 'email-format') {
+          refinedSummary = convertMarkdownTableToHtml(refinedSummary);
+      }
 
-    // Race between the API call and the timeout
-    const responsePromise = openai.chat.completions.create({
-      model: model,
-      messages: [
-        devMessage,
-        userMessage
-      ] as any,
-      temperature: 0.3,
-      max_tokens: 2048, // Increased token limit for more detailed responses
-    });
+      // Calculate costs
+      const inputTokens = response.usage?.inputTokens ?? countTokens(userMessage.content + systemMessage.content);
+      const outputTokens = response.usage?.outputTokens ?? countTokens(refinedSummary);
+      const cost = calculateTextCost(
+        inputTokens,
+        outputTokens,
+        response.model.inputCost,
+        response.model.outputCost
+      );
 
-    // Race between the API call and the timeout
-    const response = await Promise.race([responsePromise, timeoutPromise]) as any;
+      await recordRefinement(response.model.name, refinedSummary);
 
-    // Get the refined summary
-    let refinedSummary = response.choices[0].message.content || '';
+      return {
+        refinedSummary,
+        usage: {
+          model: response.model.name,
+          inputTokens,
+          outputTokens,
+          totalTokens: inputTokens + outputTokens,
+          cost
+        }
+      };
+    };
 
-    // If the action was email-format, convert markdown tables to HTML
-    if (action === 'email-format') {
-        refinedSummary = convertMarkdownTableToHtml(refinedSummary);
+    // Clients that accept an event stream get the refined text as it is generated; the final
+    // 'result' event carries the complete (post-processed) text
+    if (wantsEventStream(request)) {
+      return createEventStream(async (send, signal) => {
+        try {
+          send('result', await refine({ onDelta: text => send('delta', { text }), signal }));
+        } catch (error) {
+          if (signal.aborted) throw error;
+          console.error('Error refining summary:', error);
+          send('error', { error: describeError(error).errorMessage });
+        }
+      }, request.signal);
     }
 
-    // Calculate costs
-    const inputTokens = countTokens(userMessage.content + devMessage.content);
-    const outputTokens = countTokens(refinedSummary);
-    const cost = calculateTextCost(
-      inputTokens,
-      outputTokens,
-      selectedModel.inputCost,
-      selectedModel.outputCost
-    );
-
-    // Return the result
-    return NextResponse.json({
-      refinedSummary,
-      usage: {
-        model: selectedModel.name,
-        inputTokens,
-        outputTokens,
-        totalTokens: inputTokens + outputTokens,
-        cost
-      }
+    // Set a timeout for the API call
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      setTimeout(() => reject(new Error('Chat API timeout')), 50000); // 50 second timeout
     });
+
+    // Race between the API call and the timeout, and return the result
+    return NextResponse.json(await Promise.race([refine({ signal: request.signal }), timeoutPromise]));
   } catch (error) {
     console.error('Error refining summary:', error);
 
-    let errorMessage = 'Onbekende fout bij het verfijnen van de samenvatting';
-    let statusCode = 500;
-
-    if (error instanceof Error) {
-      errorMessage = error.message;
-
-      if (error.message.includes('timeout')) {
-        errorMessage = 'De aanvraag duurde te lang. Probeer een kleinere samenvatting of probeer het later opnieuw.';
-        statusCode = 504;
-      }
-      // Add a check for the specific error message from the API if needed
-      if (error.message.includes('Your request was rejected as a result of our safety system')) {
-           errorMessage = 'De inhoud van de samenvatting kon niet worden verwerkt vanwege veiligheidsbeperkingen. Probeer de samenvatting aan te passen.';
-           statusCode = 400; // Bad Request
-      }
-    }
+    const { errorMessage, statusCode } = describeError(error);
 
     // Always return a valid JSON response even for errors
     return new Response(
@@ -0,0 +1,41 @@
+// src/app/api/retention/cleanup/route.ts
+
+import { NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { getUserContext } from '@/lib/organization';
+import { getRetentionPolicy, deleteExpiredRecordings } from '@/lib/retention';
+import { recordAudioDeletions } from '@/lib/meetings';
+
+export const runtime = 'nodejs'; // Deletion receipts are stored on the filesystem
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+// Vercel Cron calls the route with `Authorization: Bearer <CRON_SECRET>`
+const isCronRequest = (request: Request) => {
+  const secret = process.env.CRON_SECRET;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+  return Boolean(secret) && actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+// Deletes the recordings older than RETENTION_DAYS days. Runs daily (see vercel.json); admins can
+// start it by hand.
+export async function GET(request: Request) {
+  try {
+    if (!isCronRequest(request)) {
+      const context = await getUserContext(request);
+      if (!context?.isAdmin) {
+        return NextResponse.json({ error: 'Alleen beheerders kunnen opnames opruimen' }, { status: 403 });
+      }
+    }
+
+    const policy = getRetentionPolicy();
+    const deleted = await deleteExpiredRecordings(policy);
+    const meetingsUpdated = await recordAudioDeletions(deleted);
+    console.log(`🧹 Retention cleanup: ${deleted.length} recordings older than ${policy.retentionDays} days deleted, ${meetingsUpdated} meetings updated`);
+    return NextResponse.json({ success: true, retentionDays: policy.retentionDays, deleted: deleted.length, meetingsUpdated });
+  } catch (error) {
+    console.error('Error cleaning up recordings:', error);
+    return NextResponse.json({ error: 'Opnames konden niet worden opgeruimd' }, { status: 500 });
+  }
+}
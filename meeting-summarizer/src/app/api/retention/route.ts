@@ -0,0 +1,12 @@
+// src/app/api/retention/route.ts
+
+import { NextResponse } from 'next/server';
+import { getRetentionPolicy } from '@/lib/retention';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// How long recordings are kept, for the notice in the interface
+export async function GET() {
+  return NextResponse.json({ policy: getRetentionPolicy() });
+}
@@ -2,6 +2,12 @@
 
 import { NextResponse } from 'next/server';
 import nodemailer from 'nodemailer';
+import { type ActionItem, validateActionItems } from '@/lib/actionItems';
+import { formatActionItemsForEmail } from '@/lib/actionItemExport';
+import { getUserContext } from '@/lib/organization';
+import { recordAudit, auditMeetingId, contentHash } from '@/lib/audit';
+
+export const runtime = 'nodejs'; // The audit log is stored on the filesystem
 
 interface EmailRequest {
   to: string[];
@@ -9,6 +15,8 @@ interface EmailRequest {
   content: string;
   senderName?: string;
   additionalMessage?: string;
+  actionItems?: ActionItem[]; // Tracked action items, appended as a list below the summary
+  meetingId?: string;         // The saved meeting the summary belongs to, for the audit log
 }
 
 // Helper function to replace newlines with <br> only outside of HTML tags
@@ -67,7 +75,7 @@ const processContentForPlainTextEmail = (content: string): string => {
 
 export async function POST(request: Request) {
   try {
-    const { to, subject, content, senderName, additionalMessage } = await request.json() as EmailRequest;
+    const { to, subject, content, senderName, additionalMessage, actionItems, meetingId } = await request.json() as EmailRequest;
 
     if (!to || !to.length || !subject || !content) {
       return NextResponse.json(
@@ -86,6 +94,18 @@ export async function POST(request: Request) {
       );
     }
 
+    // Action items are checked like the ones the model extracts, so the message never shows an
+    // invalid deadline or owner
+    let validActionItems: ActionItem[] = [];
+    try {
+      validActionItems = actionItems ? validateActionItems({ actionItems }) : [];
+    } catch (error) {
+      return NextResponse.json(
+        { error: `Ongeldige actiepunten: ${error instanceof Error ? error.message : 'onbekende fout'}` },
+        { status: 400 }
+      );
+    }
+
     // Create email transporter
     // NOTE: For production, use environment variables for these credentials
     const transporter = nodemailer.createTransport({
@@ -102,6 +122,11 @@ export async function POST(request: Request) {
     const processedHtmlContent = processContentForHtmlEmail(content);
     const processedPlainTextContent = processContentForPlainTextEmail(content);
 
+    const formattedActionItems = validActionItems.length > 0 ? formatActionItemsForEmail(validActionItems) : null;
+    const plainTextBody = formattedActionItems
+      ? `${processedPlainTextContent}\n\n${formattedActionItems.text}`
+      : processedPlainTextContent;
+
 
     // Construct the email content with HTML formatting
     const htmlContent = `
@@ -173,6 +198,12 @@ export async function POST(request: Request) {
             ${processedHtmlContent}
           </div>
 
+          ${formattedActionItems ? `
+          <div class="action-items">
+            ${formattedActionItems.html}
+          </div>
+          ` : ''}
+
           <div class="footer">
             <p>Dit bericht is verzonden via Meeting Summarizer${senderName ? ` door ${senderName}` : ''}.</p>
           </div>
@@ -187,12 +218,32 @@ export async function POST(request: Request) {
       subject: subject,
       html: htmlContent,
       text: additionalMessage
-        ? `${subject}\n\n${additionalMessage}\n\n${processedPlainTextContent}\n\nDit bericht is verzonden via Meeting Summarizer${senderName ? ` door ${senderName}` : ''}.`
-        : `${subject}\n\n${processedPlainTextContent}\n\nDit bericht is verzonden via Meeting Summarizer${senderName ? ` door ${senderName}` : ''}.`,
+        ? `${subject}\n\n${additionalMessage}\n\n${plainTextBody}\n\nDit bericht is verzonden via Meeting Summarizer${senderName ? ` door ${senderName}` : ''}.`
+        : `${subject}\n\n${plainTextBody}\n\nDit bericht is verzonden via Meeting Summarizer${senderName ? ` door ${senderName}` : ''}.`,
+    };
+
+    // Every attempt is recorded in the audit log with its recipients, failed ones included
+    const userContext = await getUserContext(request);
+    const audit = {
+      meetingId: await auditMeetingId(userContext, meetingId),
+      details: {
+        recipients: to,
+        subject,
+        senderName: senderName || null,
+        actionItems: validActionItems.length,
+        contentHash: contentHash(content),
+      },
     };
 
     // Send the email
-    await transporter.sendMail(mailOptions);
+    try {
+      await transporter.sendMail(mailOptions);
+    } catch (error: any) {
+      // Nothing was sent, so the send error is what the user needs to see; a failed entry is only logged
+      await recordAudit(userContext, 'email.failed', { ...audit, details: { ...audit.details, error: error?.message || null } }).catch(() => {});
+      throw error;
+    }
+    await recordAudit(userContext, 'email.sent', audit);
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,54 @@
+// src/app/api/teams/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import { getUserContext, updateTeam, deleteTeam, validateTeamInput } from '@/lib/organization';
+
+export const runtime = 'nodejs'; // Teams are stored on the filesystem
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Partial update: name, templates, default template, recipients or model settings (admins only)
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const context = await getUserContext(request);
+    if (!context?.isAdmin) {
+      return NextResponse.json({ error: 'Alleen beheerders kunnen teams beheren' }, { status: 403 });
+    }
+    const validation = validateTeamInput(await request.json().catch(() => null));
+    if ('error' in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const team = await updateTeam(id, validation.input);
+    if (!team) {
+      return NextResponse.json({ error: 'Team niet gevonden' }, { status: 404 });
+    }
+    console.log(`👥 Team updated: ${id} by ${context.user.email}`);
+    return NextResponse.json({ team });
+  } catch (error) {
+    console.error(`Error updating team ${id}:`, error);
+    return NextResponse.json({ error: 'Team kon niet worden opgeslagen' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const context = await getUserContext(request);
+    if (!context?.isAdmin) {
+      return NextResponse.json({ error: 'Alleen beheerders kunnen teams beheren' }, { status: 403 });
+    }
+    if (!(await deleteTeam(id))) {
+      return NextResponse.json({ error: 'Team niet gevonden' }, { status: 404 });
+    }
+    console.log(`🗑️ Team deleted: ${id} by ${context.user.email}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`Error deleting team ${id}:`, error);
+    return NextResponse.json({ error: 'Team kon niet worden verwijderd' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+// src/app/api/teams/route.ts
+
+import { NextResponse } from 'next/server';
+import { getUserContext, listTeams, createTeam, validateTeamInput } from '@/lib/organization';
+
+export const runtime = 'nodejs'; // Teams are stored on the filesystem
+export const dynamic = 'force-dynamic';
+
+// All teams (admins only)
+export async function GET(request: Request) {
+  try {
+    const context = await getUserContext(request);
+    if (!context?.isAdmin) {
+      return NextResponse.json({ error: 'Alleen beheerders kunnen teams beheren' }, { status: 403 });
+    }
+    return NextResponse.json({ teams: await listTeams() });
+  } catch (error) {
+    console.error('Error listing teams:', error);
+    return NextResponse.json({ error: 'Teams konden niet worden geladen' }, { status: 500 });
+  }
+}
+
+// Create a team (admins only)
+export async function POST(request: Request) {
+  try {
+    const context = await getUserContext(request);
+    if (!context?.isAdmin) {
+      return NextResponse.json({ error: 'Alleen beheerders kunnen teams beheren' }, { status: 403 });
+    }
+    const validation = validateTeamInput(await request.json().catch(() => null));
+    if ('error' in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const { name } = validation.input;
+    if (!name) {
+      return NextResponse.json({ error: 'Geef het team een naam' }, { status: 400 });
+    }
+
+    const team = await createTeam({ ...validation.input, name });
+    console.log(`👥 Team created: ${team.id} (${team.name}) by ${context.user.email}`);
+    return NextResponse.json({ team }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating team:', error);
+    return NextResponse.json({ error: 'Team kon niet worden opgeslagen' }, { status: 500 });
+  }
+}
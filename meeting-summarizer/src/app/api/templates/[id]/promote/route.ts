@@ -0,0 +1,45 @@
+// src/app/api/templates/[id]/promote/route.ts
+
+import { NextResponse } from 'next/server';
+import { isBuiltInTemplate, promoteTemplateVersion, getTemplate, canViewTemplate, canManageTemplate } from '@/lib/templates';
+import { getUserContext } from '@/lib/organization';
+
+export const runtime = 'nodejs'; // Templates are stored on the filesystem
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Make a version ({ version: number }) the default version of the template
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (isBuiltInTemplate(id)) {
+    return NextResponse.json({ error: 'Standaardtemplates hebben maar één versie' }, { status: 403 });
+  }
+
+  try {
+    const [context, existing] = await Promise.all([getUserContext(request), getTemplate(id)]);
+    if (!context || !existing || !canViewTemplate(context, existing)) {
+      return NextResponse.json({ error: 'Template niet gevonden' }, { status: 404 });
+    }
+    if (!canManageTemplate(context, existing)) {
+      return NextResponse.json({ error: 'Alleen het team van deze template of een beheerder kan hem wijzigen' }, { status: 403 });
+    }
+
+    const { version } = (await request.json().catch(() => null)) || {};
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json({ error: 'Ongeldige versie' }, { status: 400 });
+    }
+
+    const template = await promoteTemplateVersion(id, version);
+    if (!template) {
+      return NextResponse.json({ error: 'Template of versie niet gevonden' }, { status: 404 });
+    }
+    console.log(`⭐ Template ${id} now uses version ${version}`);
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error(`Error promoting version of template ${id}:`, error);
+    return NextResponse.json({ error: 'Versie kon niet standaard worden gemaakt' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+// src/app/api/templates/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import { getTemplate, updateTemplate, deleteTemplate, isBuiltInTemplate, validateTemplateInput, canViewTemplate, canManageTemplate } from '@/lib/templates';
+import { getUserContext } from '@/lib/organization';
+
+export const runtime = 'nodejs'; // Templates are stored on the filesystem
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Why the user may not change the template, or null when they may
+async function manageError(request: Request, id: string) {
+  const [context, template] = await Promise.all([getUserContext(request), getTemplate(id)]);
+  if (!context || !template || !canViewTemplate(context, template)) {
+    return NextResponse.json({ error: 'Template niet gevonden' }, { status: 404 });
+  }
+  if (!canManageTemplate(context, template)) {
+    return NextResponse.json({ error: 'Alleen het team van deze template of een beheerder kan hem wijzigen' }, { status: 403 });
+  }
+  return null;
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const [context, template] = await Promise.all([getUserContext(request), getTemplate(id)]);
+    if (!context || !template || !canViewTemplate(context, template)) {
+      return NextResponse.json({ error: 'Template niet gevonden' }, { status: 404 });
+    }
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error(`Error loading template ${id}:`, error);
+    return NextResponse.json({ error: 'Template kon niet worden geladen' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (isBuiltInTemplate(id)) {
+    return NextResponse.json({ error: 'Standaardtemplates kunnen niet worden gewijzigd; maak een kopie' }, { status: 403 });
+  }
+
+  try {
+    const denied = await manageError(request, id);
+    if (denied) return denied;
+
+    const validation = validateTemplateInput(await request.json().catch(() => null));
+    if ('error' in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const template = await updateTemplate(id, validation.input);
+    if (!template) {
+      return NextResponse.json({ error: 'Template niet gevonden' }, { status: 404 });
+    }
+    console.log(`📝 Template updated: ${id}`);
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error(`Error updating template ${id}:`, error);
+    return NextResponse.json({ error: 'Template kon niet worden opgeslagen' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (isBuiltInTemplate(id)) {
+    return NextResponse.json({ error: 'Standaardtemplates kunnen niet worden verwijderd' }, { status: 403 });
+  }
+
+  try {
+    const denied = await manageError(request, id);
+    if (denied) return denied;
+
+    if (!(await deleteTemplate(id))) {
+      return NextResponse.json({ error: 'Template niet gevonden' }, { status: 404 });
+    }
+    console.log(`🗑️ Template deleted: ${id}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`Error deleting template ${id}:`, error);
+    return NextResponse.json({ error: 'Template kon niet worden verwijderd' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+// src/app/api/templates/[id]/versions/route.ts
+
+import { NextResponse } from 'next/server';
+import { listTemplateVersions, getTemplate, canViewTemplate } from '@/lib/templates';
+import { getUserContext } from '@/lib/organization';
+
+export const runtime = 'nodejs'; // Templates are stored on the filesystem
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Version history of a template, newest first
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const [context, template] = await Promise.all([getUserContext(request), getTemplate(id)]);
+    const versions = context && template && canViewTemplate(context, template) ? await listTemplateVersions(id) : null;
+    if (!versions) {
+      return NextResponse.json({ error: 'Template niet gevonden' }, { status: 404 });
+    }
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error(`Error loading versions of template ${id}:`, error);
+    return NextResponse.json({ error: 'Versies konden niet worden geladen' }, { status: 500 });
+  }
+}
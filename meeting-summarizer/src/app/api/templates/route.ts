@@ -0,0 +1,51 @@
+// src/app/api/templates/route.ts
+
+import { NextResponse } from 'next/server';
+import { listTemplates, createTemplate, validateTemplateInput, canCreateTemplate } from '@/lib/templates';
+import { getUserContext } from '@/lib/organization';
+
+export const runtime = 'nodejs'; // Templates are stored on the filesystem
+export const dynamic = 'force-dynamic';
+
+// List the templates of the active team: built-in first, then the user-managed ones.
+// Admins get every template with ?scope=all (to choose a team's templates).
+export async function GET(request: Request) {
+  try {
+    const context = await getUserContext(request);
+    if (!context) {
+      return NextResponse.json({ error: 'Niet ingelogd' }, { status: 401 });
+    }
+    const all = context.isAdmin && new URL(request.url).searchParams.get('scope') === 'all';
+    return NextResponse.json({
+      templates: await listTemplates(all ? undefined : context),
+      defaultTemplateId: context.activeTeam?.defaultTemplateId ?? null,
+    });
+  } catch (error) {
+    console.error('Error listing templates:', error);
+    return NextResponse.json({ error: 'Templates konden niet worden geladen' }, { status: 500 });
+  }
+}
+
+// Create a template for the active team; clone a built-in one by sending its content with `basedOn`
+export async function POST(request: Request) {
+  try {
+    const context = await getUserContext(request);
+    if (!context) {
+      return NextResponse.json({ error: 'Niet ingelogd' }, { status: 401 });
+    }
+    if (!canCreateTemplate(context)) {
+      return NextResponse.json({ error: 'Alleen beheerders kunnen gedeelde templates maken; kies eerst een team' }, { status: 403 });
+    }
+    const validation = validateTemplateInput(await request.json().catch(() => null));
+    if ('error' in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const template = await createTemplate(validation.input, context.activeTeam?.id ?? null);
+    console.log(`📝 Template created: ${template.id} (${template.name})`);
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating template:', error);
+    return NextResponse.json({ error: 'Template kon niet worden opgeslagen' }, { status: 500 });
+  }
+}
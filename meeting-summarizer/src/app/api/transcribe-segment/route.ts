@@ -1,7 +1,12 @@
 // src/app/api/transcribe-segment/route.ts
 import { NextResponse } from 'next/server';
-import openai from '@/lib/openai';
+import { getTranscriptionProvider, transcriptionPairError } from '@/lib/transcriptionProvider';
 import { formatBytes, OPENAI_MAX_SIZE_LIMIT } from '@/lib/enhancedAudioChunker';
+import { offsetSegments, formatTranscript } from '@/lib/transcript';
+import { diarizeSegments } from '@/lib/diarization';
+import { resolveTranscriptionLanguage, detectedLanguageFromResult } from '@/lib/language';
+import { getSession } from '@/lib/session';
+import { blobPathname, isUploadOf, readRecording } from '@/lib/recordings';
 
 export const runtime = 'edge';
 export const maxDuration = 720; // 12 minutes (720 seconds) - maximum for Fluid Compute
@@ -113,6 +118,14 @@ export async function POST(request: Request) {
     const modelId = body.model || 'whisper-1';
     const attempt = body.attempt || 1;
     const directBlob = body.directBlob; // Optional: For direct transcription without blob storage
+    const diarization = body.diarization; // Optional: Diarization provider override
+    const pairError = transcriptionPairError(body.provider, modelId);
+    if (pairError) {
+      return NextResponse.json({ error: pairError }, { status: 400 });
+    }
+    const transcriptionProvider = getTranscriptionProvider(body.provider, modelId); // Optional: 'openai' | 'local' | 'fake'
+    const offsetSeconds = Number(body.offsetSeconds) || 0; // Start time of this segment within the full recording
+    const language = body.language; // Optional: ISO 639-1 code, or 'auto' (default) to detect the language of this segment
     
     console.log(`Processing segment ${segmentId}, attempt ${attempt}`);
     
@@ -129,6 +142,15 @@ export async function POST(request: Request) {
         { status: 400 }
       );
     }
+
+    // Recordings in Vercel Blob are only fetched for the user who uploaded them (see recordings.ts)
+    const recordingPathname = directBlob ? null : blobPathname(blobUrl);
+    if (!directBlob) {
+      const session = await getSession(request);
+      if (!recordingPathname || !(session && await isUploadOf(session.user.id, recordingPathname))) {
+        return NextResponse.json({ error: 'Opname niet gevonden', segmentId }, { status: 404 });
+      }
+    }
     
     // Get the audio data - either from blob storage or directly provided
     let fileObject: File;
@@ -183,26 +205,15 @@ export async function POST(request: Request) {
     } else {
       // Regular blob storage path
       try {
-        // Add cache-busting parameter to URL
-        const blobUrlWithTimestamp = new URL(blobUrl);
-        blobUrlWithTimestamp.searchParams.append('t', Date.now().toString());
-        
-        // Fetch the audio segment from blob storage with advanced timeout and retry
-        console.log(`Fetching segment ${segmentId} from blob URL`);
+        // Read the private segment blob with the store token, with advanced timeout and retry
+        console.log(`Reading segment ${segmentId} from Vercel Blob`);
         const audioResponse = await withTimeoutAndRetry(
           async () => {
-            // First do a HEAD request to check if blob is available
-            const headResponse = await fetch(blobUrlWithTimestamp.toString(), { 
-              method: 'HEAD',
-              signal: AbortSignal.timeout(700000) // 700 second timeout for the head check
-            });
-            
-            if (!headResponse.ok) {
-              throw new Error(`Blob not accessible: status ${headResponse.status}`);
+            const segment = await readRecording(recordingPathname!);
+            if (!segment) {
+              throw new Error('Blob not accessible: the segment does not exist');
             }
-            
-            // Then fetch the actual blob
-            return fetch(blobUrlWithTimestamp.toString());
+            return new Response(segment.stream);
           },
           { 
             timeoutMs: 20000, // 20 second timeout for fetch
@@ -239,7 +250,7 @@ export async function POST(request: Request) {
       }
     }
     
-    // Process with OpenAI Whisper with advanced timeout and retry
+    // Process with the selected transcription provider with advanced timeout and retry
     console.log(`Transcribing segment ${segmentId} with model ${modelId}`);
     
     // Determine timeout based on file size (larger files need more time)
@@ -252,13 +263,12 @@ export async function POST(request: Request) {
     
     console.log(`Using transcription timeout of ${Math.round(transcriptionTimeout/1000)}s for ${formatBytes(fileSize)} file`);
     
-    const transcription = await withTimeoutAndRetry(
+    const transcriptionResult = await withTimeoutAndRetry(
       async () => {
-        const result = await openai.audio.transcriptions.create({
+        const result = await transcriptionProvider.transcribe({
           file: fileObject,
           model: modelId,
-          language: 'nl',
-          response_format: 'text',
+          language: resolveTranscriptionLanguage(language), // undefined lets the model detect it per segment
         });
         return result;
       }, 
@@ -280,11 +290,20 @@ export async function POST(request: Request) {
       }
     );
     
-    console.log(`Segment ${segmentId} transcription complete: ${transcription.length} characters`);
+    // Attribute the segment's parts to speakers. Diarize on segment-relative times, then shift to the position in the full recording
+    const diarizedSegments = await diarizeSegments(transcriptionResult.segments, { provider: diarization, audio: fileObject });
+    // Each segment is tagged with the language detected for this chunk, so recordings that switch language keep that information
+    const detectedLanguage = detectedLanguageFromResult(transcriptionResult, language);
+    const segments = offsetSegments(diarizedSegments, offsetSeconds).map(segment => ({ ...segment, language: detectedLanguage }));
+    const transcription = formatTranscript(segments);
+    
+    console.log(`Segment ${segmentId} transcription complete: ${transcription.length} characters, language: ${detectedLanguage || 'unknown'}`);
     
     return NextResponse.json({ 
       segmentId,
       transcription,
+      segments,
+      language: detectedLanguage,
       success: true
     });
     
@@ -1,12 +1,17 @@
 // src/app/api/transcribe/route.ts
 import { NextResponse } from 'next/server';
-import openai from '@/lib/openai';
+import { getTranscriptionProvider, transcriptionPairError } from '@/lib/transcriptionProvider';
 import { whisperModels } from '@/lib/config';
 import { estimateAudioDuration, calculateTranscriptionCost } from '@/lib/tokenCounter';
 import { 
   joinTranscriptions,
   formatBytes 
 } from '@/lib/audioChunker';
+import { TranscriptSegment, formatTranscript, parseSegments, renumberSegments } from '@/lib/transcript';
+import { diarizeSegments } from '@/lib/diarization';
+import { resolveTranscriptionLanguage, detectedLanguageFromResult, languagesByDuration } from '@/lib/language';
+import { getSession } from '@/lib/session';
+import { blobPathname, isUploadOf, readRecording } from '@/lib/recordings';
 
 export const runtime = 'edge';
 export const maxDuration = 300; // 5 minutes max execution time
@@ -50,6 +55,13 @@ export async function POST(request: Request) {
     const fileSize = body.fileSize || 0;
     const modelId = body.model || 'whisper-1';
     const transcriptionSegments = body.transcriptionSegments || [];
+    const diarization = body.diarization;
+    const providerId = body.provider; // 'openai' | 'local' | 'fake'; defaults to the provider of the model
+    const language = body.language; // ISO 639-1 code, or 'auto' (default) to let the model detect it
+    const pairError = transcriptionPairError(providerId, modelId);
+    if (pairError) {
+      return NextResponse.json({ error: pairError }, { status: 400 });
+    }
     
     // If we already have transcription segments, just join them
     if (transcriptionSegments && transcriptionSegments.length > 0) {
@@ -63,17 +75,32 @@ export async function POST(request: Request) {
         selectedModel.costPerMinute
       );
       
+      // Segments are either plain strings or { transcription, segments } objects from /api/transcribe-segment,
+      // whose timestamps are already offset to the position of the chunk in the recording
+      const chunkSegments = transcriptionSegments.map((segment: any) => parseSegments(segment?.segments));
+      const hasSegments = chunkSegments.every((segments: TranscriptSegment[] | null) => segments !== null);
+
       // Join the segments
-      const transcription = joinTranscriptions(transcriptionSegments);
+      const segments: TranscriptSegment[] = hasSegments ? renumberSegments(chunkSegments.flat()) : [];
+      const transcription = hasSegments
+        ? formatTranscript(segments)
+        : joinTranscriptions(transcriptionSegments.map((segment: any) => typeof segment === 'string' ? segment : segment?.transcription || ''));
+
+      // Each chunk is detected separately; the most spoken language is reported as the detected language
+      const detectedLanguages = languagesByDuration(segments);
       
       return NextResponse.json({ 
         transcription,
+        segments,
         usage: {
           model: selectedModel.name,
           estimatedDurationMinutes,
           estimatedCost,
           chunked: true,
-          chunks: transcriptionSegments.length
+          chunks: transcriptionSegments.length,
+          language: language || 'auto',
+          detectedLanguage: detectedLanguages[0],
+          detectedLanguages
         }
       });
     }
@@ -86,6 +113,13 @@ export async function POST(request: Request) {
       );
     }
 
+    // Recordings in Vercel Blob are only fetched for the user who uploaded them (see recordings.ts)
+    const session = await getSession(request);
+    const recordingPathname = blobPathname(blobUrl);
+    if (!recordingPathname || !(session && await isUploadOf(session.user.id, recordingPathname))) {
+      return NextResponse.json({ error: 'Opname niet gevonden' }, { status: 404 });
+    }
+
     // Get the file extension from the original filename
     const fileExt = originalFileName.split('.').pop()?.toLowerCase();
     const validExtensions = ['flac', 'm4a', 'mp3', 'mp4', 'mpeg', 'mpga', 'oga', 'ogg', 'wav', 'webm'];
@@ -111,42 +145,53 @@ export async function POST(request: Request) {
     console.log(`Processing file: ${originalFileName}, Size: ${formatBytes(fileSize)}, Estimated duration: ${estimatedDurationMinutes.toFixed(2)} minutes`);
     
     try {
-      // Fetch the audio blob from the URL
-      console.log(`Fetching audio from URL...`);
-      const audioResponse = await fetch(blobUrl);
+      // Read the private audio blob with the store token
+      console.log(`Reading audio from Vercel Blob...`);
+      const recording = await readRecording(recordingPathname);
       
-      if (!audioResponse.ok) {
-        throw new Error(`Error fetching audio file: ${audioResponse.status} ${audioResponse.statusText}`);
+      if (!recording) {
+        throw new Error('Error fetching audio file: the recording does not exist');
       }
       
-      const audioBlob = await audioResponse.blob();
+      const audioBlob = await new Response(recording.stream).blob();
       console.log(`Audio blob fetched. Size: ${formatBytes(audioBlob.size)}, Type: ${audioBlob.type}`);
 
-      // Create a File object for OpenAI API
+      // Create a File object for the transcription provider
       const fileObject = new File([audioBlob], originalFileName, { 
         type: fileType,
         lastModified: Date.now()
       });
 
-      // Process with OpenAI Whisper
-      console.log(`Transcribing with OpenAI Whisper model: ${modelId}`);
-      const result = await openai.audio.transcriptions.create({
+      // Process with the selected transcription provider
+      const transcriptionProvider = getTranscriptionProvider(providerId, modelId);
+      console.log(`Transcribing with ${transcriptionProvider.name} model: ${modelId}`);
+      const result = await transcriptionProvider.transcribe({
         file: fileObject,
         model: modelId,
-        language: 'nl',
-        response_format: 'text',
+        language: resolveTranscriptionLanguage(language),
       });
+
+      // Attribute the segments to speakers
+      const detectedLanguage = detectedLanguageFromResult(result, language);
+      const segments = (await diarizeSegments(result.segments, { provider: diarization, audio: fileObject }))
+        .map(segment => ({ ...segment, language: detectedLanguage }));
+      const transcription = formatTranscript(segments);
       
-      console.log(`Transcription complete. Total length: ${result.length} characters`);
+      console.log(`Transcription complete. Total length: ${transcription.length} characters`);
       
       return NextResponse.json({ 
-        transcription: result,
+        transcription,
+        segments,
         usage: {
           model: selectedModel.name,
           estimatedDurationMinutes,
           estimatedCost,
+          provider: transcriptionProvider.id,
           chunked: false,
-          chunks: 1
+          chunks: 1,
+          language: language || 'auto',
+          detectedLanguage,
+          detectedLanguages: detectedLanguage ? [detectedLanguage] : []
         }
       });
       
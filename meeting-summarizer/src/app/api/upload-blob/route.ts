@@ -1,7 +1,7 @@
 // src/app/api/upload-blob/route.ts
 import { handleUpload, type HandleUploadBody } from '@vercel/blob/client';
 // Removed NextResponse import
-import { nanoid } from '@/lib/nanoid'; // Assuming you have this utility
+import { getSession, userUploadPrefix } from '@/lib/session';
 
 // Use edge runtime for optimal performance with handleUpload
 export const runtime = 'edge';
@@ -36,15 +36,15 @@ export async function POST(request: Request): Promise<Response> { // Changed ret
       body,
       request,
       onBeforeGenerateToken: async (pathname /*, clientPayload */) => {
-        // Generate a unique pathname prefix and keep original extension
-        const extension = pathname.split('.').pop()?.toLowerCase() || 'bin';
-        // Simple sanitization for the base name part
-        const baseName = pathname.substring(0, pathname.lastIndexOf('.'))
-                                .replace(/[^a-zA-Z0-9_.-]/g, '_');
-
-        const newPathname = `${nanoid()}/${baseName}.${extension}`;
+        // Tokens are only issued to signed-in users, for paths under their own prefix
+        const session = await getSession(request);
+        if (!session) throw Object.assign(new Error('Niet ingelogd'), { status: 401 });
+        if (!pathname.startsWith(await userUploadPrefix(session.user))) {
+          throw Object.assign(new Error('Uploaden naar dit pad is niet toegestaan'), { status: 403 });
+        }
 
-        console.log(`Generating token for pathname: ${pathname}, newPathname: ${newPathname}`);
+        const extension = pathname.split('.').pop()?.toLowerCase() || 'bin';
+        console.log(`Generating token for pathname: ${pathname}, user: ${session.user.id}`);
 
         // Basic validation based on extension before generating token
         if (!Object.keys(validMimeTypesMap).includes(extension)) {
@@ -61,12 +61,12 @@ export async function POST(request: Request): Promise<Response> { // Changed ret
           allowedContentTypes: allowedContentTypes, // Use the defined list
           tokenPayload: JSON.stringify({
             originalFilename: pathname, // Store original filename if needed
-            // userId: 'user123', // Example: Add user context if available
+            userId: session.user.id,
           }),
           // Set cache control for uploaded files (e.g., 1 year immutable)
           cacheControlMaxAge: 365 * 24 * 60 * 60,
-          // Add unique prefix to the pathname
-          pathname: newPathname,
+          // The blob is stored as `users/<key>/<name>-<random suffix>.<extension>`
+          addRandomSuffix: true,
         };
       },
       onUploadCompleted: async ({ blob, tokenPayload }) => {
@@ -76,7 +76,7 @@ export async function POST(request: Request): Promise<Response> { // Changed ret
         try {
           // Example: Log completion with payload data
           const payload = JSON.parse(tokenPayload || '{}');
-          console.log('Original filename from token:', payload.originalFilename);
+          console.log('Original filename from token:', payload.originalFilename, 'uploaded by:', payload.userId);
           // await db.update({ blobUrl: blob.url, ...payload });
         } catch (error) {
           console.error('Error in onUploadCompleted:', error);
@@ -0,0 +1,64 @@
+// src/app/api/verify-summary/route.ts
+
+import { NextResponse } from 'next/server';
+import { calculateTextCost } from '@/lib/tokenCounter';
+import { getChatModel } from '@/lib/chatProvider';
+import { formatTranscript, parseSegments } from '@/lib/transcript';
+import { wantsEventStream, createEventStream } from '@/lib/sse';
+import { verifySummary, VerificationProgress } from '@/lib/verification';
+
+export const maxDuration = 300; // 5 minutes timeout
+export const dynamic = 'force-dynamic';
+
+// Checks every claim of a summary against the transcript: supported, unsupported or contradicted
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { summary, model = 'o3-mini', variables } = body;
+
+    // Same transcript as the summary was made from: the speaker-attributed segments when available
+    const segments = parseSegments(body.segments);
+    const text: string = segments ? formatTranscript(segments) : body.text;
+
+    if (!summary || typeof summary !== 'string') {
+      return NextResponse.json({ error: 'Geen samenvatting aangeleverd om te controleren' }, { status: 400 });
+    }
+    if (!text) {
+      return NextResponse.json({ error: 'Geen transcriptie aangeleverd om mee te vergelijken' }, { status: 400 });
+    }
+
+    const selectedModel = getChatModel(model);
+    const facts = variables && typeof variables === 'object' && !Array.isArray(variables) ? variables : {};
+
+    const verify = async ({ onProgress, signal }: { onProgress?: (progress: VerificationProgress) => void; signal?: AbortSignal } = {}) => {
+      const result = await verifySummary(summary, text, segments, { model: selectedModel, facts, redactPii: Boolean(body.redactPii), onProgress, signal });
+      const flagged = result.claims.filter(claim => claim.verdict !== 'supported').length;
+      console.log(`🔎 Verified ${result.claims.length} claims in ${result.parts} part(s), ${flagged} flagged`);
+      return {
+        claims: result.claims,
+        usage: {
+          model: result.model.name,
+          inputTokens: result.inputTokens,
+          outputTokens: result.outputTokens,
+          totalTokens: result.inputTokens + result.outputTokens,
+          cost: calculateTextCost(result.inputTokens, result.outputTokens, result.model.inputCost, result.model.outputCost)
+        }
+      };
+    };
+
+    // Clients that accept an event stream get a progress event per transcript part
+    if (wantsEventStream(request)) {
+      return createEventStream(async (send, signal) => {
+        send('result', await verify({ onProgress: progress => send('progress', progress), signal }));
+      }, request.signal);
+    }
+
+    return NextResponse.json(await verify({ signal: request.signal }));
+  } catch (error) {
+    console.error('Error verifying summary:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? `Controle van de samenvatting mislukt: ${error.message}` : 'Controle van de samenvatting mislukt' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ListChecks, User, CalendarDays, Quote, FileSpreadsheet, CalendarPlus, ListTodo } from 'lucide-react';
+import { type ActionItem } from '@/lib/actionItems';
+import { actionItemsToCsv, actionItemsToIcs } from '@/lib/actionItemExport';
+import { toast } from "sonner";
+
+interface ActionItemsPanelProps {
+  items: ActionItem[];
+  onChange: (items: ActionItem[]) => void;
+  fileName?: string; // Recording or document name, used for the export file names
+}
+
+// Offers generated content as a file download
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function ActionItemsPanel({ items, onChange, fileName }: ActionItemsPanelProps) {
+  const openCount = items.filter(item => !item.done).length;
+  const baseName = `actiepunten${fileName ? `-${fileName.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '_')}` : ''}`;
+
+  const updateItem = (id: string, update: Partial<ActionItem>) =>
+    onChange(items.map(item => (item.id === id ? { ...item, ...update } : item)));
+
+  const exportCsv = () => downloadFile(actionItemsToCsv(items), `${baseName}.csv`, 'text/csv;charset=utf-8');
+
+  const exportIcs = (kind: 'todo' | 'event') => {
+    if (kind === 'event' && !items.some(item => item.dueDate)) {
+      toast.warning('Geen actiepunten met een deadline om in de agenda te zetten');
+      return;
+    }
+    downloadFile(actionItemsToIcs(items, kind), `${baseName}${kind === 'todo' ? '-taken' : '-agenda'}.ics`, 'text/calendar;charset=utf-8');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ListChecks className="w-5 h-5 mr-2 text-primary" />
+          Actiepunten
+        </CardTitle>
+        <CardDescription>
+          {items.length > 0
+            ? `${openCount} van ${items.length} actiepunt${items.length === 1 ? '' : 'en'} open. Pas eigenaar en deadline aan waar nodig.`
+            : 'Er zijn geen actiepunten gevonden in dit gesprek.'}
+        </CardDescription>
+      </CardHeader>
+      {items.length > 0 && (
+        <>
+          <CardContent>
+            <ul className="space-y-4">
+              {items.map(item => (
+                <li key={item.id} className="rounded-lg border bg-muted/30 p-4">
+                  <div className="flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      checked={item.done}
+                      onChange={(e) => updateItem(item.id, { done: e.target.checked })}
+                      className="mt-1 h-4 w-4"
+                      aria-label={`Markeer "${item.description}" als afgerond`}
+                    />
+                    <p className={`font-medium ${item.done ? 'line-through text-muted-foreground' : ''}`}>{item.description}</p>
+                  </div>
+                  <div className="mt-3 grid gap-2 pl-7 sm:grid-cols-2">
+                    <label className="flex items-center text-sm text-muted-foreground">
+                      <User className="mr-2 h-4 w-4 flex-shrink-0" />
+                      <Input
+                        value={item.owner ?? ''}
+                        onChange={(e) => updateItem(item.id, { owner: e.target.value || null })}
+                        placeholder="Niet toegewezen"
+                        className="h-8"
+                        aria-label="Eigenaar"
+                      />
+                    </label>
+                    <label className="flex items-center text-sm text-muted-foreground">
+                      <CalendarDays className="mr-2 h-4 w-4 flex-shrink-0" />
+                      <Input
+                        type="date"
+                        value={item.dueDate ?? ''}
+                        onChange={(e) => updateItem(item.id, { dueDate: e.target.value || null })}
+                        className="h-8"
+                        aria-label="Deadline"
+                      />
+                    </label>
+                  </div>
+                  {item.sourceQuote && (
+                    <blockquote className="mt-3 ml-7 flex border-l-2 pl-3 text-sm italic text-muted-foreground">
+                      <Quote className="mr-2 h-3 w-3 flex-shrink-0" /> {item.sourceQuote}
+                    </blockquote>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+          <CardFooter className="flex flex-wrap gap-2 justify-end">
+            <Button variant="outline" size="sm" onClick={exportCsv}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" /> CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => exportIcs('todo')}>
+              <ListTodo className="mr-2 h-4 w-4" /> Taken (.ics)
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => exportIcs('event')}>
+              <CalendarPlus className="mr-2 h-4 w-4" /> Agenda (.ics)
+            </Button>
+          </CardFooter>
+        </>
+      )}
+    </Card>
+  );
+}
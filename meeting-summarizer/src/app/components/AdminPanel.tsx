@@ -0,0 +1,363 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Users, UserPlus, Plus, Save, Trash2, Loader2, ChevronDown, ChevronUp, ScrollText } from 'lucide-react';
+import { toast } from "sonner";
+import { type Team, type Member, type MemberRole } from '@/lib/organization';
+import { type PromptTemplate } from '@/lib/templates';
+import { chatModels, whisperModels, summaryLanguages, transcriptionLanguages } from '@/lib/config';
+
+const selectClassName = "w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+const roleLabels: Record<MemberRole, string> = { admin: 'Beheerder', member: 'Lid' };
+
+// Sends a JSON request to the admin API and returns the response data, or throws its error
+async function request<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    ...(body !== undefined ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) } : {})
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.error) throw new Error(data.error || `Serverfout ${response.status}`);
+  return data as T;
+}
+
+const toastError = (error: unknown, fallback: string) => toast.error(error instanceof Error ? error.message : fallback);
+
+interface TeamEditorProps {
+  team: Team;
+  templates: PromptTemplate[];
+  onSaved: (team: Team) => void;
+  onDeleted: (id: string) => void;
+}
+
+// Settings of one team: name, the templates it uses, its default template, recipients and model defaults
+function TeamEditor({ team, templates, onSaved, onDeleted }: TeamEditorProps) {
+  const [draft, setDraft] = useState<Team>(team);
+  const [recipients, setRecipients] = useState<string>(team.recipients.join(', '));
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // Team templates always belong to the team; built-in and shared templates are chosen
+  const sharedTemplates = templates.filter(template => !template.teamId);
+  const teamTemplates = templates.filter(template => template.teamId === team.id);
+  const availableTemplates = [...sharedTemplates.filter(template => draft.templateIds.length === 0 || draft.templateIds.includes(template.id)), ...teamTemplates];
+
+  const toggleTemplate = (id: string) => {
+    const current = draft.templateIds.length === 0 ? sharedTemplates.map(template => template.id) : draft.templateIds;
+    const templateIds = current.includes(id) ? current.filter(candidate => candidate !== id) : [...current, id];
+    setDraft({ ...draft, templateIds: templateIds.length === sharedTemplates.length ? [] : templateIds });
+  };
+
+  // An empty value removes the setting, so the team uses the general default
+  const setSettings = (update: Partial<Record<keyof Team['settings'], string>>) => {
+    const settings: Record<string, unknown> = { ...draft.settings };
+    Object.entries(update).forEach(([key, value]) => {
+      if (!value) delete settings[key];
+      else settings[key] = key === 'temperature' ? Number(value) : value;
+    });
+    setDraft({ ...draft, settings });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { team: saved } = await request<{ team: Team }>(`/api/teams/${team.id}`, 'PATCH', {
+        name: draft.name,
+        description: draft.description,
+        templateIds: draft.templateIds,
+        defaultTemplateId: draft.defaultTemplateId,
+        recipients: recipients.split(',').map(email => email.trim()).filter(Boolean),
+        settings: draft.settings,
+      });
+      setDraft(saved);
+      setRecipients(saved.recipients.join(', '));
+      onSaved(saved);
+      toast.success(`Team "${saved.name}" opgeslagen`);
+    } catch (error) {
+      toastError(error, 'Team opslaan mislukt');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Team "${team.name}" verwijderen? Leden verliezen de toegang tot de templates en gesprekken van het team.`)) return;
+    try {
+      await request(`/api/teams/${team.id}`, 'DELETE');
+      onDeleted(team.id);
+      toast.success('Team verwijderd');
+    } catch (error) {
+      toastError(error, 'Team verwijderen mislukt');
+    }
+  };
+
+  return (
+    <li className="rounded-lg border">
+      <button type="button" onClick={() => setIsOpen(!isOpen)} className="flex w-full items-center justify-between px-4 py-3 text-left">
+        <span>
+          <span className="font-medium">{team.name}</span>
+          {team.description && <span className="ml-2 text-sm text-muted-foreground">{team.description}</span>}
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+      {isOpen && (
+        <div className="space-y-4 border-t px-4 py-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`team-name-${team.id}`}>Naam</Label>
+              <Input id={`team-name-${team.id}`} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`team-description-${team.id}`}>Omschrijving</Label>
+              <Input id={`team-description-${team.id}`} value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Templates van het team</Label>
+            <p className="text-xs text-muted-foreground">De standaard- en gedeelde templates die het team ziet. Templates die het team zelf maakt, ziet het altijd.</p>
+            <div className="grid gap-1 sm:grid-cols-2">
+              {sharedTemplates.map(template => (
+                <label key={template.id} className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={draft.templateIds.length === 0 || draft.templateIds.includes(template.id)} onChange={() => toggleTemplate(template.id)} />
+                  {template.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`team-default-${team.id}`}>Standaardtemplate</Label>
+              <select id={`team-default-${team.id}`} className={selectClassName} value={draft.defaultTemplateId || ''} onChange={(e) => setDraft({ ...draft, defaultTemplateId: e.target.value || null })}>
+                <option value="">Algemene standaard</option>
+                {availableTemplates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`team-recipients-${team.id}`}>Vaste ontvangers</Label>
+              <Textarea id={`team-recipients-${team.id}`} value={recipients} onChange={(e) => setRecipients(e.target.value)} placeholder="naam@kantoor.nl, archief@kantoor.nl" rows={2} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Standaardinstellingen</Label>
+            <div className="grid gap-4 md:grid-cols-2">
+              <select aria-label="Samenvattingsmodel" className={selectClassName} value={draft.settings.summarizationModel || ''} onChange={(e) => setSettings({ summarizationModel: e.target.value })}>
+                <option value="">Samenvattingsmodel: algemene standaard</option>
+                {chatModels.map(model => <option key={model.id} value={model.id}>{model.name}</option>)}
+              </select>
+              <select aria-label="Transcriptiemodel" className={selectClassName} value={draft.settings.transcriptionModel || ''} onChange={(e) => setSettings({ transcriptionModel: e.target.value, transcriptionProvider: whisperModels.find(model => model.id === e.target.value)?.provider || '' })}>
+                <option value="">Transcriptiemodel: algemene standaard</option>
+                {whisperModels.map(model => <option key={model.id} value={model.id}>{model.name}</option>)}
+              </select>
+              <select aria-label="Taal van de opname" className={selectClassName} value={draft.settings.transcriptionLanguage || ''} onChange={(e) => setSettings({ transcriptionLanguage: e.target.value })}>
+                <option value="">Taal van de opname: algemene standaard</option>
+                {transcriptionLanguages.map(language => <option key={language.code} value={language.code}>{language.name}</option>)}
+              </select>
+              <select aria-label="Taal van de samenvatting" className={selectClassName} value={draft.settings.summaryLanguage || ''} onChange={(e) => setSettings({ summaryLanguage: e.target.value })}>
+                <option value="">Taal van de samenvatting: algemene standaard</option>
+                {summaryLanguages.map(language => <option key={language.code} value={language.code}>{language.name}</option>)}
+              </select>
+              <Input aria-label="Temperatuur" type="number" min={0} max={2} step={0.1} value={draft.settings.temperature ?? ''} onChange={(e) => setSettings({ temperature: e.target.value })} placeholder="Temperatuur: algemene standaard" />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={handleDelete}><Trash2 className="mr-2 h-4 w-4" /> Verwijderen</Button>
+            <Button size="sm" onClick={handleSave} disabled={isSaving || !draft.name.trim()}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />} Opslaan
+            </Button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
+
+export default function AdminPanel() {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newTeamName, setNewTeamName] = useState<string>('');
+  const [newMember, setNewMember] = useState<{ email: string; name: string; role: MemberRole }>({ email: '', name: '', role: 'member' });
+
+  useEffect(() => {
+    Promise.all([
+      request<{ teams: Team[] }>('/api/teams', 'GET'),
+      request<{ members: Member[] }>('/api/members', 'GET'),
+      request<{ templates: PromptTemplate[] }>('/api/templates?scope=all', 'GET'),
+    ])
+      .then(([teamData, memberData, templateData]) => {
+        setTeams(teamData.teams);
+        setMembers(memberData.members);
+        setTemplates(templateData.templates);
+      })
+      .catch(error => setError(error instanceof Error ? error.message : 'Beheergegevens laden mislukt'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleCreateTeam = async () => {
+    if (!newTeamName.trim()) return;
+    try {
+      const { team } = await request<{ team: Team }>('/api/teams', 'POST', { name: newTeamName });
+      setTeams(current => [...current, team].sort((a, b) => a.name.localeCompare(b.name, 'nl')));
+      setNewTeamName('');
+      toast.success(`Team "${team.name}" aangemaakt`);
+    } catch (error) {
+      toastError(error, 'Team aanmaken mislukt');
+    }
+  };
+
+  const handleAddMember = async () => {
+    try {
+      const { member } = await request<{ member: Member }>('/api/members', 'POST', newMember);
+      setMembers(current => [...current, member].sort((a, b) => a.email.localeCompare(b.email)));
+      setNewMember({ email: '', name: '', role: 'member' });
+      toast.success(`${member.email} toegevoegd`);
+    } catch (error) {
+      toastError(error, 'Lid toevoegen mislukt');
+    }
+  };
+
+  const updateMember = async (member: Member, update: Partial<Pick<Member, 'role' | 'teamIds'>>) => {
+    try {
+      const { member: saved } = await request<{ member: Member }>(`/api/members/${member.id}`, 'PATCH', update);
+      setMembers(current => current.map(candidate => (candidate.id === saved.id ? saved : candidate)));
+    } catch (error) {
+      toastError(error, 'Lid opslaan mislukt');
+    }
+  };
+
+  const handleRemoveMember = async (member: Member) => {
+    if (!window.confirm(`${member.email} verwijderen?`)) return;
+    try {
+      await request(`/api/members/${member.id}`, 'DELETE');
+      setMembers(current => current.filter(candidate => candidate.id !== member.id));
+    } catch (error) {
+      toastError(error, 'Lid verwijderen mislukt');
+    }
+  };
+
+  const handleTeamDeleted = (id: string) => {
+    setTeams(current => current.filter(team => team.id !== id));
+    setMembers(current => current.map(member => ({ ...member, teamIds: member.teamIds.filter(teamId => teamId !== id) })));
+  };
+
+  if (isLoading) {
+    return <p className="flex items-center justify-center py-8 text-sm text-muted-foreground"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Laden...</p>;
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+      {error && <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">{error}</div>}
+
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/admin/audit"><ScrollText className="mr-2 h-4 w-4" /> Auditlog</Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Users className="w-5 h-5 mr-2 text-primary" />
+            Teams
+          </CardTitle>
+          <CardDescription>Elk team heeft zijn eigen templates, vaste ontvangers en standaardinstellingen. Gesprekken en templates zijn alleen zichtbaar voor het eigen team.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {teams.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nog geen teams. Zonder teams zien alle gebruikers alle gedeelde templates.</p>
+          ) : (
+            <ul className="space-y-2">
+              {teams.map(team => (
+                <TeamEditor key={team.id} team={team} templates={templates} onSaved={saved => setTeams(current => current.map(candidate => (candidate.id === saved.id ? saved : candidate)))} onDeleted={handleTeamDeleted} />
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <Input value={newTeamName} onChange={(e) => setNewTeamName(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') handleCreateTeam(); }} placeholder="Naam van het nieuwe team, bijv. Hypotheek" aria-label="Naam van het nieuwe team" />
+            <Button variant="secondary" onClick={handleCreateTeam} disabled={!newTeamName.trim()}><Plus className="mr-2 h-4 w-4" /> Team toevoegen</Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <UserPlus className="w-5 h-5 mr-2 text-primary" />
+            Leden en rollen
+          </CardTitle>
+          <CardDescription>Leden worden herkend aan hun e-mailadres bij het inloggen. Beheerders beheren teams en leden en zien alle gesprekken.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {members.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Lid</th>
+                    <th className="py-2 pr-4 font-medium">Rol</th>
+                    <th className="py-2 pr-4 font-medium">Teams</th>
+                    <th className="py-2"><span className="sr-only">Acties</span></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {members.map(member => (
+                    <tr key={member.id} className="border-b align-top">
+                      <td className="py-2 pr-4">
+                        <div>{member.name || member.email}</div>
+                        {member.name && <div className="text-xs text-muted-foreground">{member.email}</div>}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <select aria-label={`Rol van ${member.email}`} className={selectClassName} value={member.role} onChange={(e) => updateMember(member, { role: e.target.value as MemberRole })}>
+                          {(Object.keys(roleLabels) as MemberRole[]).map(role => <option key={role} value={role}>{roleLabels[role]}</option>)}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-4">
+                        <div className="flex flex-wrap gap-x-3 gap-y-1">
+                          {teams.map(team => (
+                            <label key={team.id} className="flex items-center gap-1">
+                              <input
+                                type="checkbox"
+                                checked={member.teamIds.includes(team.id)}
+                                onChange={() => updateMember(member, { teamIds: member.teamIds.includes(team.id) ? member.teamIds.filter(id => id !== team.id) : [...member.teamIds, team.id] })}
+                              />
+                              {team.name}
+                            </label>
+                          ))}
+                          {teams.length === 0 && <span className="text-muted-foreground">-</span>}
+                        </div>
+                      </td>
+                      <td className="py-2 text-right">
+                        <Button variant="ghost" size="icon" onClick={() => handleRemoveMember(member)} aria-label={`Verwijder ${member.email}`}><Trash2 className="h-4 w-4" /></Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div className="grid gap-2 sm:grid-cols-[2fr_2fr_1fr_auto]">
+            <Input type="email" value={newMember.email} onChange={(e) => setNewMember({ ...newMember, email: e.target.value })} placeholder="E-mailadres" aria-label="E-mailadres van het nieuwe lid" />
+            <Input value={newMember.name} onChange={(e) => setNewMember({ ...newMember, name: e.target.value })} placeholder="Naam (optioneel)" aria-label="Naam van het nieuwe lid" />
+            <select aria-label="Rol van het nieuwe lid" className={selectClassName} value={newMember.role} onChange={(e) => setNewMember({ ...newMember, role: e.target.value as MemberRole })}>
+              {(Object.keys(roleLabels) as MemberRole[]).map(role => <option key={role} value={role}>{roleLabels[role]}</option>)}
+            </select>
+            <Button variant="secondary" onClick={handleAddMember} disabled={!newMember.email.trim()}><Plus className="mr-2 h-4 w-4" /> Toevoegen</Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
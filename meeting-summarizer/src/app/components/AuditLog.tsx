@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollText, Search, Download, Loader2, ArrowLeft } from 'lucide-react';
+import { type AuditEntry, type AuditAction, type AuditDetails } from '@/lib/audit';
+
+const selectClassName = "w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+interface AuditFilters {
+  from: string;
+  to: string;
+  action: string;
+  actor: string;
+  meetingId: string;
+}
+
+interface AuditResponse {
+  entries: AuditEntry[];
+  total: number;
+  actions: { id: AuditAction; label: string }[];
+  teamNames: Record<string, string>;
+}
+
+const emptyFilters: AuditFilters = { from: '', to: '', action: '', actor: '', meetingId: '' };
+
+const queryString = (filters: AuditFilters) => {
+  const params = new URLSearchParams();
+  (Object.keys(filters) as (keyof AuditFilters)[]).forEach(key => { if (filters[key].trim()) params.set(key, filters[key].trim()); });
+  return params.toString();
+};
+
+// Hashes are long; the first characters are enough to compare versions on screen (the CSV has them in full)
+const formatValue = (key: string, value: AuditDetails[string]) => {
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'string' && /hash$/i.test(key)) return value.slice(0, 12);
+  return String(value);
+};
+
+// Queryable view of the audit log: who generated, read, refined, edited and e-mailed which summary
+export default function AuditLog() {
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters);
+  const [data, setData] = useState<AuditResponse | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (current: AuditFilters) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/audit?${queryString(current)}`);
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || result.error) throw new Error(result.error || `Serverfout ${response.status}`);
+      setData(result);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Auditlog laden mislukt');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => { load(emptyFilters); }, []);
+
+  const actionLabel = (action: AuditAction) => data?.actions.find(candidate => candidate.id === action)?.label || action;
+  const setFilter = (key: keyof AuditFilters, value: string) => setFilters(current => ({ ...current, [key]: value }));
+  const exportQuery = queryString(filters);
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+      <Button variant="ghost" size="sm" asChild>
+        <Link href="/admin"><ArrowLeft className="mr-2 h-4 w-4" /> Terug naar beheer</Link>
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ScrollText className="w-5 h-5 mr-2 text-primary" />
+            Auditlog
+          </CardTitle>
+          <CardDescription>Wie welke samenvatting heeft gemaakt, geopend, verfijnd, bewerkt en gemaild. Het log kan alleen worden aangevuld, niet gewijzigd. Hashes tonen welke versie van een samenvatting het betrof.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5" onSubmit={(e) => { e.preventDefault(); load(filters); }}>
+            <div className="space-y-1">
+              <Label htmlFor="audit-from">Vanaf</Label>
+              <Input id="audit-from" type="date" value={filters.from} onChange={(e) => setFilter('from', e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-to">Tot en met</Label>
+              <Input id="audit-to" type="date" value={filters.to} onChange={(e) => setFilter('to', e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-action">Actie</Label>
+              <select id="audit-action" className={selectClassName} value={filters.action} onChange={(e) => setFilter('action', e.target.value)}>
+                <option value="">Alle acties</option>
+                {data?.actions.map(action => <option key={action.id} value={action.id}>{action.label}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-actor">Gebruiker</Label>
+              <Input id="audit-actor" value={filters.actor} onChange={(e) => setFilter('actor', e.target.value)} placeholder="Naam of e-mailadres" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-meeting">Gesprek</Label>
+              <Input id="audit-meeting" value={filters.meetingId} onChange={(e) => setFilter('meetingId', e.target.value)} placeholder="Id van het gesprek" />
+            </div>
+            <div className="flex gap-2 sm:col-span-2 lg:col-span-5">
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />} Zoeken
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => { setFilters(emptyFilters); load(emptyFilters); }}>Wissen</Button>
+              <Button type="button" variant="outline" className="ml-auto" asChild>
+                <a href={`/api/audit?${exportQuery}${exportQuery ? '&' : ''}format=csv`} download><Download className="mr-2 h-4 w-4" /> Exporteren als CSV</a>
+              </Button>
+            </div>
+          </form>
+
+          {error && <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">{error}</div>}
+
+          {data && (
+            <>
+              <p className="text-xs text-muted-foreground">
+                {data.total === 0 ? 'Geen regels gevonden' : data.entries.length < data.total ? `De nieuwste ${data.entries.length} van ${data.total} regels; de export bevat ze allemaal` : `${data.total} regel${data.total === 1 ? '' : 's'}`}
+              </p>
+              {data.entries.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-muted-foreground">
+                        <th className="py-2 pr-4 font-medium">Tijdstip</th>
+                        <th className="py-2 pr-4 font-medium">Actie</th>
+                        <th className="py-2 pr-4 font-medium">Gebruiker</th>
+                        <th className="py-2 pr-4 font-medium">Team</th>
+                        <th className="py-2 pr-4 font-medium">Gesprek</th>
+                        <th className="py-2 font-medium">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.entries.map(entry => (
+                        <tr key={entry.id} className="border-b align-top">
+                          <td className="py-2 pr-4 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString('nl-NL')}</td>
+                          <td className="py-2 pr-4">{actionLabel(entry.action)}</td>
+                          <td className="py-2 pr-4">
+                            <div>{entry.actor.name}</div>
+                            {entry.actor.email && <div className="text-xs text-muted-foreground">{entry.actor.email}</div>}
+                          </td>
+                          <td className="py-2 pr-4">{entry.teamId ? data.teamNames[entry.teamId] || entry.teamId : '-'}</td>
+                          <td className="py-2 pr-4">
+                            {entry.meetingId ? (
+                              <button type="button" className="font-mono text-xs underline underline-offset-2" onClick={() => { const next = { ...filters, meetingId: entry.meetingId as string }; setFilters(next); load(next); }} title="Toon alle regels van dit gesprek">
+                                {entry.meetingId}
+                              </button>
+                            ) : '-'}
+                          </td>
+                          <td className="py-2 text-xs text-muted-foreground">
+                            {Object.keys(entry.details).filter(key => entry.details[key] !== null && entry.details[key] !== '').map(key => (
+                              <div key={key}><span className="font-medium">{key}:</span> {formatValue(key, entry.details[key])}</div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
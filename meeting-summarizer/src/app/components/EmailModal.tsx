@@ -16,6 +16,9 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Loader2, Mail, Edit, Eye, Send, RotateCw, Plus, X as IconX } from 'lucide-react'; // Import icons
+import { type ActionItem } from '@/lib/actionItems';
+import { formatActionItemsForEmail } from '@/lib/actionItemExport';
+import { stripCitationMarkers } from '@/lib/citations';
 
 // Removed MotionDiv definition
 
@@ -25,6 +28,10 @@ interface EmailModalProps {
   summary: string; // Expect raw Markdown summary ONLY
   // Removed summaryHtml
   transcription?: string;
+  actionItems?: ActionItem[] | null; // Tracked action items, sent as a list below the summary
+  suggestedRecipients?: string[]; // The team's usual recipients, added with one click
+  meetingId?: string | null; // The saved meeting, so the e-mail is recorded in its audit trail
+  redactPii?: boolean; // Replace personal data with placeholders while the model formats the e-mail
   onSendEmail: (success: boolean, message: string) => void;
 }
 
@@ -33,11 +40,17 @@ interface EmailModalProps {
 export default function EmailModal({
   isOpen,
   onClose,
-  summary, // Expect raw Markdown summary ONLY
+  summary: summaryWithCitations, // Expect raw Markdown summary ONLY
   // Removed summaryHtml
   transcription = '',
+  actionItems = null,
+  suggestedRecipients = [],
+  meetingId = null,
+  redactPii = false,
   onSendEmail
 }: EmailModalProps) {
+  // Citation markers only make sense next to the transcript, not in an e-mail
+  const summary = stripCitationMarkers(summaryWithCitations);
   const [emailContent, setEmailContent] = useState<string>('');
   const [recipients, setRecipients] = useState<string>('');
   const [emailList, setEmailList] = useState<string[]>([]);
@@ -46,6 +59,8 @@ export default function EmailModal({
   const [additionalMessage, setAdditionalMessage] = useState<string>('');
   const [senderName, setSenderName] = useState<string>('');
   const [isPreview, setIsPreview] = useState<boolean>(false);
+  const [includeActionItems, setIncludeActionItems] = useState<boolean>(true);
+  const actionItemsToSend = includeActionItems && actionItems && actionItems.length > 0 ? actionItems : null;
   const [isFormatting, setIsFormatting] = useState<boolean>(false);
   const [isSending, setIsSending] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
@@ -65,6 +80,8 @@ export default function EmailModal({
           body: JSON.stringify({
             summary: summary, // Use raw Markdown summary
             transcript: transcription,
+            meetingId,
+            redactPii,
             action: 'email-format'
           })
         });
@@ -130,7 +147,7 @@ ${senderName || 'Super Kees Online'}`;
     if (!subject.trim()) { setError('Voer een onderwerp in'); return; }
     setIsSending(true); setError(null);
     try {
-      const response = await fetch('/api/send-email', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ to: emailList, subject, content: emailContent, senderName: senderName.trim() || undefined, additionalMessage: additionalMessage.trim() || undefined }) });
+      const response = await fetch('/api/send-email', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ to: emailList, subject, content: emailContent, senderName: senderName.trim() || undefined, additionalMessage: additionalMessage.trim() || undefined, actionItems: actionItemsToSend || undefined, meetingId }) });
       const data = await response.json(); if (!response.ok || data.error) { throw new Error(data.error || `Verzenden mislukt (${response.status})`); }
       const recipientMessage = emailList.length > 1 ? `E-mail succesvol verzonden naar ${emailList.length} ontvangers` : `E-mail succesvol verzonden naar ${emailList[0]}`;
       onSendEmail(true, data.message || recipientMessage); onClose();
@@ -184,6 +201,11 @@ ${senderName || 'Super Kees Online'}`;
               <div className="whitespace-pre-wrap pt-2">
                 {emailContent}
               </div>
+              {actionItemsToSend && (
+                <div className="whitespace-pre-wrap border-t pt-2">
+                  {formatActionItemsForEmail(actionItemsToSend).text}
+                </div>
+              )}
             </div>
           ) : (
             // Edit Mode
@@ -215,6 +237,16 @@ ${senderName || 'Super Kees Online'}`;
                     </div>
                   ))}
                 </div>
+                {suggestedRecipients.some(email => !emailList.includes(email)) && (
+                  <div className="flex flex-wrap items-center gap-2 pt-1">
+                    <span className="text-xs text-muted-foreground">Teamontvangers:</span>
+                    {suggestedRecipients.filter(email => !emailList.includes(email)).map(email => (
+                      <button key={email} type="button" onClick={() => setEmailList([...emailList, email])} className="border border-dashed px-2 py-0.5 rounded-full flex items-center text-xs text-muted-foreground hover:text-foreground hover:border-foreground" aria-label={`Voeg ${email} toe`}>
+                        <Plus className="h-3 w-3 mr-1" /> {email}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 <p className="text-xs text-muted-foreground">Voeg meerdere e-mailadressen toe.</p>
               </div>
 
@@ -254,6 +286,14 @@ ${senderName || 'Super Kees Online'}`;
                 />
               </div>
 
+              {/* Action items */}
+              {actionItems && actionItems.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <input id="include-action-items" type="checkbox" checked={includeActionItems} onChange={(e) => setIncludeActionItems(e.target.checked)} className="h-4 w-4" />
+                  <Label htmlFor="include-action-items">Actiepunten toevoegen ({actionItems.length})</Label>
+                </div>
+              )}
+
               {/* Email Content Textarea */}
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
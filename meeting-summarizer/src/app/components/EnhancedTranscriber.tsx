@@ -7,14 +7,22 @@ import {
   joinTranscriptions,
   formatBytes, 
   ChunkStatus,
+  AudioChunk,
   OPENAI_MAX_SIZE_LIMIT,
   MAX_CONCURRENT_UPLOADS,
   MAX_CLIENT_TIMEOUT
 } from '@/lib/enhancedAudioChunker';
+import { TranscriptSegment, parseSegments, renumberSegments, formatTranscript } from '@/lib/transcript';
+
+// Result of transcribing one chunk
+interface ChunkTranscription {
+  transcription: string;
+  segments: TranscriptSegment[]; // Timestamps relative to the full recording
+}
 
 interface EnhancedTranscriberProps {
   audioFile: File | null;
-  onTranscriptionComplete: (transcription: string) => void;
+  onTranscriptionComplete: (transcription: string, segments: TranscriptSegment[]) => void;
   onError: (error: string) => void;
   onProgress?: (progress: number, status: string) => void;
   onStatusUpdate?: (status: {
@@ -34,7 +42,7 @@ export default function EnhancedTranscriber({
   onStatusUpdate,
   model = 'whisper-1'
 }: EnhancedTranscriberProps) {
-  const [chunks, setChunks] = useState<Blob[]>([]);
+  const [chunks, setChunks] = useState<AudioChunk[]>([]);
   const [chunkStatuses, setChunkStatuses] = useState<ChunkStatus[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [overallProgress, setOverallProgress] = useState(0);
@@ -130,18 +138,22 @@ export default function EnhancedTranscriber({
       setCurrentStage('transcribing');
       
       // Process chunks with controlled concurrency
-      const transcriptions = await processChunksSequentially(audioChunks, file.name);
+      const results = await processChunksSequentially(audioChunks, file.name);
       
       // Combine the transcriptions
       setCurrentStage('combining');
       if (onProgress) onProgress(95, 'Combining transcriptions...');
       
-      const fullTranscription = joinTranscriptions(transcriptions);
+      // Prefer the timestamped segments; fall back to plain text when a chunk has none (e.g. a failed chunk)
+      const segments = renumberSegments(results.flatMap(result => result.segments));
+      const fullTranscription = results.every(result => result.segments.length > 0)
+        ? formatTranscript(segments)
+        : joinTranscriptions(results.map(result => result.transcription));
       
       setCurrentStage('completed');
       if (onProgress) onProgress(100, 'Transcription complete!');
       
-      onTranscriptionComplete(fullTranscription);
+      onTranscriptionComplete(fullTranscription, segments);
       
     } catch (error) {
       setCurrentStage('error');
@@ -184,7 +196,7 @@ export default function EnhancedTranscriber({
       if (onProgress) onProgress(100, 'Transcription complete!');
       setCurrentStage('completed');
       
-      onTranscriptionComplete(result.transcription);
+      onTranscriptionComplete(result.transcription, parseSegments(result.segments) || []);
       
     } catch (error) {
       console.error('Error processing whole file:', error);
@@ -193,10 +205,12 @@ export default function EnhancedTranscriber({
   };
 
   // Process chunks sequentially with direct transcription
-  const processChunksSequentially = async (audioChunks: Blob[], fileName: string): Promise<string[]> => {
+  const processChunksSequentially = async (audioChunks: AudioChunk[], fileName: string): Promise<ChunkTranscription[]> => {
     try {
       // Array to store all transcriptions
-      const transcriptions: string[] = [];
+      const transcriptions: ChunkTranscription[] = [];
+      // Where the previous chunk ended, for chunks whose start time could not be determined
+      let previousEnd = 0;
       
       // Process each chunk one at a time
       for (let i = 0; i < audioChunks.length; i++) {
@@ -213,20 +227,25 @@ export default function EnhancedTranscriber({
         console.log(`Transcribing chunk ${i+1}/${audioChunks.length}...`);
         
         // Transcribe using direct API call
-        let transcriptionResult: string;
+        const offsetSeconds = audioChunks[i].startTime ?? previousEnd;
+        let transcriptionResult: ChunkTranscription;
         try {
           // Transcribe with retries
-          transcriptionResult = await transcribeChunkDirect(audioChunks[i], i, fileName);
+          transcriptionResult = await transcribeChunkDirect(audioChunks[i], i, fileName, offsetSeconds);
           
           // Mark as completed in UI
           updateChunkStatus(i, { 
             status: 'completed', 
             progress: 100,
-            transcription: transcriptionResult
+            transcription: transcriptionResult.transcription
           });
           
           // Add to results
           transcriptions.push(transcriptionResult);
+          const lastSegment = transcriptionResult.segments[transcriptionResult.segments.length - 1];
+          previousEnd = audioChunks[i].duration !== undefined
+            ? offsetSeconds + audioChunks[i].duration!
+            : lastSegment?.end ?? previousEnd;
           
           if (onProgress) {
             const progressPercent = Math.round(((i + 1) / audioChunks.length) * 100);
@@ -246,7 +265,7 @@ export default function EnhancedTranscriber({
           });
           
           // Add a placeholder for this chunk
-          transcriptions.push(`[Transcription failed for part ${i+1} of ${audioChunks.length}]`);
+          transcriptions.push({ transcription: `[Transcription failed for part ${i+1} of ${audioChunks.length}]`, segments: [] });
           
           // Continue with next chunk - don't completely fail if one chunk fails
           continue;
@@ -267,7 +286,7 @@ export default function EnhancedTranscriber({
   };
 
   // Direct transcription of a chunk without using blob storage
-  const transcribeChunkDirect = async (chunk: Blob, index: number, originalFileName: string): Promise<string> => {
+  const transcribeChunkDirect = async (chunk: AudioChunk, index: number, originalFileName: string, offsetSeconds: number): Promise<ChunkTranscription> => {
     const MAX_RETRIES = 2;
     const BASE_RETRY_DELAY = 5000; // 5 seconds base delay
     let attempts = 0;
@@ -289,8 +308,9 @@ export default function EnhancedTranscriber({
         
         // Create FormData for the direct upload
         const formData = new FormData();
-        formData.append('audio', chunk);
+        formData.append('audio', chunk.blob);
         formData.append('chunkIndex', index.toString());
+        formData.append('offsetSeconds', offsetSeconds.toString());
         formData.append('fileName', `chunk_${index}_${originalFileName}`);
         formData.append('model', model);
         
@@ -337,7 +357,7 @@ export default function EnhancedTranscriber({
           retries: attempts
         });
         
-        return result.transcription;
+        return { transcription: result.transcription, segments: parseSegments(result.segments) || [] };
         
       } catch (error) {
         lastError = error;
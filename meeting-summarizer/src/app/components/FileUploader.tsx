@@ -12,6 +12,8 @@ import AudioConverter from './AudioConverter';
 import { formatBytes } from '@/lib/enhancedAudioChunker';
 import { type PutBlobResult } from '@vercel/blob'; // Import PutBlobResult
 import { cn } from "@/lib/utils"; // Import the missing cn utility
+import { userUploadPathname, uploadRecordingChunks } from '@/lib/uploadPath';
+import type { RecordingChunk } from '@/lib/recordings';
 
 // Toggle to enable or disable FFmpeg conversion
 const ENABLE_FFMPEG_CONVERSION = true;
@@ -29,7 +31,7 @@ export interface BlobFile { // Export interface if used elsewhere
 
 interface FileUploaderProps {
   // Modified: Expects PutBlobResult now, let's rename to reflect Vercel Blob structure
-  onFileUploadComplete: (blob: PutBlobResult) => void; // Renamed prop
+  onFileUploadComplete: (blob: PutBlobResult, chunks: RecordingChunk[]) => void; // chunks: the pieces a large recording is transcribed from
   // Keep other props if needed, but remove transcription-specific ones handled by page.tsx
   // onTranscriptionStart?: () => void; // Remove
   // onTranscriptionComplete?: (transcription: string) => void; // Remove
@@ -169,10 +171,10 @@ export default function FileUploader({
       setStatusMessage(`Uploaden naar cloud opslag (${formatBytes(fileToUpload.size)})...`);
 
       const newBlob = await upload(
-        fileToUpload.name, // Pass filename
+        await userUploadPathname(fileToUpload.name), // Pass filename, under the user's upload prefix
         fileToUpload,      // Pass file object
         {
-          access: 'public', // Set access level
+          access: 'private', // Only readable with the store token; the app uses the pathname (see recordings.ts)
           handleUploadUrl: '/api/upload-blob', // Backend endpoint
           // Optional: Pass clientPayload if needed by backend
           // clientPayload: JSON.stringify({ customData: 'example' }),
@@ -186,8 +188,13 @@ export default function FileUploader({
       );
 
       console.log('✅ Upload naar Vercel Blob voltooid:', newBlob);
+
+      // 2. A recording too large to transcribe in one call is also uploaded in chunks
+      const chunks = await uploadRecordingChunks(fileToUpload, (uploaded, total) => {
+        setStatusMessage(`Opname opdelen voor transcriptie... (${uploaded}/${total})`);
+      });
       setStatusMessage('Upload voltooid!');
-      onFileUploadComplete(newBlob); // Pass the result from upload()
+      onFileUploadComplete(newBlob, chunks); // Pass the result from upload()
 
     } catch (err: any) {
       console.error('Fout tijdens upload proces:', err);
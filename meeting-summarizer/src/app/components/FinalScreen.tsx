@@ -3,12 +3,22 @@
 
 import { useState, useEffect } from 'react'; // Add useEffect import
 import React from 'react';
+import Link from 'next/link';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"; // Added CardFooter
-import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { Settings, Mail, RotateCcw, FileText, Trash2, Save, XCircle, Edit } from 'lucide-react'; // Added Save, XCircle, Edit icons
+import { Settings, Mail, RotateCcw, FileText, Trash2, Save, XCircle, Edit, ShieldCheck, Loader2 } from 'lucide-react'; // Added Save, XCircle, Edit icons
 import SummaryDisplay from './SummaryDisplay';
 import SummaryActions from './SummaryActions';
+import TranscriptionDisplay from './TranscriptionDisplay';
+import ActionItemsPanel from './ActionItemsPanel';
+import SummaryComparison from './SummaryComparison';
+import TranscriptChat from './TranscriptChat';
+import RedactionPreview from './RedactionPreview';
+import { type PromptType } from './PromptSelector';
+import { type ActionItem } from '@/lib/actionItems';
+import { type SummaryCitation } from '@/lib/citations';
+import { type VerifiedClaim } from '@/lib/claims';
+import { TranscriptSegment } from '@/lib/transcript';
 import { Textarea } from "@/components/ui/textarea"; // Import Textarea
 import { toast } from "sonner"; // For notifications
 
@@ -18,37 +28,75 @@ interface FinalScreenProps {
   summary: string; // Only raw summary prop needed
   // Removed summaryHtml
   transcription: string;
+  segments: TranscriptSegment[]; // Timestamped, speaker-attributed segments (empty for text input)
+  audioUrl?: string; // Uploaded recording, for playback alongside the transcript
   audioFileName: string;
+  meetingId: string | null; // Set once the result is saved in the meeting history
+  actionItems: ActionItem[] | null; // null until action items are extracted
+  citations: SummaryCitation[]; // Sources of the summary statements (empty unless requested)
+  verification: VerifiedClaim[] | null; // Claims checked against the transcript, null until verified
+  isVerifying: boolean;
+  promptTemplate: PromptType; // Template the summary was made with
+  templateVariables: Record<string, string>;
+  summarySettings: { summarizationModel: string; temperature: number; summaryLanguage: string; redactPii?: boolean };
   isSummarizing: boolean;
+  isStreamingSummary: boolean; // The summary text is arriving from the server
   isTranscribing: boolean;
   transcriptionInfo: {
     chunked: boolean;
     chunks: number;
+    detectedLanguages?: string[];
   };
   onRefinedSummary: (refinedSummary: string) => void;
+  onEditedSummary: (editedSummary: string) => void; // Saved by hand in the editor; recorded as a manual edit
+  onActionItems: (items: ActionItem[]) => void;
+  onTemplatePromoted: (template: PromptType) => void;
   onOpenEmailModal: () => void;
+  onStopSummary: () => void;
+  onVerifySummary: () => void;
   onReset: () => void;
   onToggleSettings: () => void;
   onRegenerateSummary: () => void;
   onRegenerateTranscript: () => void;
+  onRenameSpeaker: (from: string, to: string) => void;
 }
 
 export default function FinalScreen({
   summary: initialSummary, // Rename prop to avoid conflict with state
   transcription,
+  segments,
+  audioUrl,
   audioFileName,
+  meetingId,
+  actionItems,
+  citations,
+  verification,
+  isVerifying,
+  promptTemplate,
+  templateVariables,
+  summarySettings,
   isSummarizing,
+  isStreamingSummary,
   isTranscribing,
   transcriptionInfo,
   onRefinedSummary,
+  onEditedSummary,
+  onActionItems,
+  onTemplatePromoted,
   onOpenEmailModal,
+  onStopSummary,
+  onVerifySummary,
   onReset,
   onToggleSettings,
   onRegenerateSummary,
-  onRegenerateTranscript
+  onRegenerateTranscript,
+  onRenameSpeaker
 }: FinalScreenProps) {
   const [isEditingSummary, setIsEditingSummary] = useState(false);
   const [editedSummary, setEditedSummary] = useState(initialSummary);
+  const [refinementStream, setRefinementStream] = useState<{ text: string; stop: () => void } | null>(null);
+  const [focusedPassages, setFocusedPassages] = useState<{ ids: number[]; requestedAt: number } | null>(null); // Cited passages to show in the transcript
+  const isStreaming = isStreamingSummary || refinementStream !== null;
 
   // Update local state if initialSummary prop changes (e.g., after regeneration)
   useEffect(() => {
@@ -68,7 +116,7 @@ export default function FinalScreen({
   };
 
   const handleSaveChanges = () => {
-    onRefinedSummary(editedSummary); // Pass edited summary back up
+    onEditedSummary(editedSummary); // Pass edited summary back up
     setIsEditingSummary(false); // Exit editing mode
     toast.success("Samenvatting bijgewerkt!");
   };
@@ -79,7 +127,10 @@ export default function FinalScreen({
       <Card>
         <CardHeader>
           <CardTitle>Verwerking voltooid</CardTitle> {/* Sentence case */}
-          <CardDescription>Bestand: {audioFileName}</CardDescription>
+          <CardDescription>
+            {audioFileName ? `Bestand: ${audioFileName}` : 'Ingevoerde tekst'}
+            {meetingId && <> · <Link href="/meetings" className="underline underline-offset-2">Opgeslagen in de geschiedenis</Link></>}
+          </CardDescription>
         </CardHeader>
         <CardContent className="flex flex-col sm:flex-row justify-between items-center gap-4">
            <p className="text-sm text-muted-foreground">Hier is je samenvatting en transcriptie.</p>
@@ -93,14 +144,22 @@ export default function FinalScreen({
       <Card>
         <CardHeader className="flex flex-row justify-between items-center">
           <CardTitle>Samenvatting</CardTitle> {/* Already sentence case */}
-          {/* Edit/Cancel Button */}
-          <Button variant="ghost" size="sm" onClick={handleEditToggle}>
-            {isEditingSummary ? (
-              <><XCircle className="mr-2 h-4 w-4" /> Annuleren</>
-            ) : (
-              <><Edit className="mr-2 h-4 w-4" /> Bewerken</>
+          <div className="flex gap-1">
+            {/* Check the claims against the transcript */}
+            {!isEditingSummary && (
+              <Button variant="ghost" size="sm" onClick={onVerifySummary} disabled={isStreaming || isVerifying || isSummarizing || !transcription || !editedSummary}>
+                {isVerifying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />} Controleren
+              </Button>
             )}
-          </Button>
+            {/* Edit/Cancel Button */}
+            <Button variant="ghost" size="sm" onClick={handleEditToggle} disabled={isStreaming}>
+              {isEditingSummary ? (
+                <><XCircle className="mr-2 h-4 w-4" /> Annuleren</>
+              ) : (
+                <><Edit className="mr-2 h-4 w-4" /> Bewerken</>
+              )}
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {isEditingSummary ? (
@@ -123,12 +182,20 @@ export default function FinalScreen({
             // Display the potentially edited summary using SummaryDisplay
             // Ensure SummaryDisplay uses the correct background/text color for readability
              <div className="bg-white text-gray-900 p-4 rounded-md border border-gray-200"> {/* Wrap SummaryDisplay for light background */}
-               <SummaryDisplay summary={editedSummary} isLoading={isSummarizing} />
+               <SummaryDisplay
+                 summary={refinementStream?.text ?? editedSummary}
+                 isLoading={isSummarizing && !isStreamingSummary}
+                 isStreaming={isStreaming}
+                 onStop={refinementStream?.stop ?? onStopSummary}
+                 citations={citations}
+                 claims={verification ?? undefined}
+                 onCitationClick={transcription ? (ids) => setFocusedPassages({ ids, requestedAt: Date.now() }) : undefined}
+               />
              </div>
           )}
         </CardContent>
         {/* Summary actions (like Email) in Footer - Only show when not editing */}
-        {!isEditingSummary && editedSummary && !isSummarizing && (
+        {!isEditingSummary && editedSummary && !isSummarizing && !isStreaming && (
           <CardFooter className="flex flex-wrap gap-2 justify-end">
              <Button variant="ghost" onClick={onOpenEmailModal}>
                <Mail className="mr-2 h-4 w-4" /> E-mail Samenvatting
@@ -142,25 +209,61 @@ export default function FinalScreen({
        <SummaryActions
          summary={editedSummary} // Pass potentially edited summary
          transcription={transcription}
+         segments={segments}
+         meetingId={meetingId}
+         redactPii={summarySettings.redactPii}
          onRefinedSummary={onRefinedSummary} // This will update editedSummary via prop change
          onOpenEmailModal={onOpenEmailModal} // Keep prop, though button moved above
+         onRefinementStream={setRefinementStream}
+         onActionItems={onActionItems}
        />
 
+      {/* Extracted action items, tracked and exportable */}
+      {actionItems && <ActionItemsPanel items={actionItems} onChange={onActionItems} fileName={audioFileName} />}
+
+      {/* Personal data that is replaced with placeholders before anything goes to a model */}
+      {summarySettings.redactPii && transcription && !isTranscribing && <RedactionPreview text={transcription} />}
+
+      {/* Questions about the conversation, answered with quotes from the transcript */}
+      {transcription && !isTranscribing && (
+        <TranscriptChat
+          transcription={transcription}
+          segments={segments}
+          summary={editedSummary}
+          model={summarySettings.summarizationModel}
+          redactPii={summarySettings.redactPii}
+          onQuoteClick={(ids) => setFocusedPassages({ ids, requestedAt: Date.now() })}
+        />
+      )}
+
+      {/* Run the transcript through two template versions or models and compare the results */}
+      {transcription && !isSummarizing && !isStreaming && (
+        <SummaryComparison
+          template={promptTemplate}
+          transcription={transcription}
+          segments={segments}
+          variables={templateVariables}
+          settings={summarySettings}
+          meetingId={meetingId}
+          onTemplatePromoted={onTemplatePromoted}
+          onUseSummary={onRefinedSummary}
+        />
+      )}
+
 
-      {/* Transcription Accordion */}
+      {/* Transcription with speaker turns */}
       {transcription && (
-        <Accordion type="single" collapsible className="w-full">
-          <AccordionItem value="item-1">
-            <AccordionTrigger>Bekijk Transcriptie</AccordionTrigger>
-            <AccordionContent>
-              <Card className="mt-4">
-                <CardContent className="p-4 max-h-96 overflow-y-auto text-sm bg-muted/30 rounded-md">
-                  <pre className="whitespace-pre-wrap font-sans">{transcription}</pre>
-                </CardContent>
-              </Card>
-            </AccordionContent>
-          </AccordionItem>
-        </Accordion>
+        <TranscriptionDisplay
+          text={transcription}
+          isLoading={isTranscribing}
+          chunked={transcriptionInfo.chunked}
+          chunksCount={transcriptionInfo.chunks}
+          segments={segments}
+          audioUrl={audioUrl}
+          languages={transcriptionInfo.detectedLanguages}
+          onRenameSpeaker={onRenameSpeaker}
+          focusedPassages={focusedPassages}
+        />
       )}
 
       {/* Action Buttons Card */}
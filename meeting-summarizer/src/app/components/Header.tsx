@@ -1,16 +1,26 @@
 // Removed framer-motion imports and MotionDiv definition
 import React from 'react';
+import Link from 'next/link';
+import { Library } from 'lucide-react';
+import UserMenu from './UserMenu';
 
 export default function Header() {
   return (
     // Refined header: Solid dark bg matching body, subtle bottom border
     <header className="relative w-full overflow-hidden bg-slate-800 text-white border-b border-slate-700"> {/* Dark solid bg, subtle border */}
+      {/* Navigation */}
+      <nav className="absolute right-4 top-4 z-20 flex items-center">
+        <Link href="/meetings" className="inline-flex items-center rounded-md px-3 py-2 text-sm text-slate-200 hover:bg-slate-700 hover:text-white">
+          <Library className="mr-2 h-4 w-4" /> Geschiedenis
+        </Link>
+        <UserMenu />
+      </nav>
       {/* Content */}
       <div className="relative z-10 w-full py-8 md:py-12"> {/* Adjusted padding */}
         <div className="max-w-5xl mx-auto px-4 text-center">
           <div>
             <h1 className="text-3xl md:text-4xl font-bold tracking-tight text-white"> {/* Updated text and style */}
-              Super Kees Online
+              <Link href="/">Super Kees Online</Link>
             </h1>
           </div>
 
@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LogIn, KeyRound, Loader2 } from 'lucide-react';
+import { type AuthProviderInfo } from '@/lib/authProvider';
+
+interface LoginFormProps {
+  next: string;          // Page to return to after signing in
+  error?: string | null; // Error from a failed single sign-on
+}
+
+export default function LoginForm({ next, error: initialError }: LoginFormProps) {
+  const [providers, setProviders] = useState<AuthProviderInfo[] | null>(null);
+  const [configured, setConfigured] = useState<boolean>(true);
+  const [email, setEmail] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(initialError || null);
+
+  useEffect(() => {
+    fetch('/api/auth/providers')
+      .then(response => response.json())
+      .then(data => { setProviders(data.providers || []); setConfigured(data.configured !== false); })
+      .catch(() => setError('Inlogmethoden laden mislukt'));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || data.error) throw new Error(data.error || 'Inloggen mislukt');
+      // A full navigation, so the page is loaded with the new session
+      window.location.assign(next);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Inloggen mislukt');
+      setIsSubmitting(false);
+    }
+  };
+
+  const credentials = providers?.find(provider => provider.type === 'credentials');
+  const redirects = providers?.filter(provider => provider.type === 'redirect') || [];
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-12">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <LogIn className="w-5 h-5 mr-2 text-primary" />
+            Inloggen
+          </CardTitle>
+          <CardDescription>Log in om gesprekken te transcriberen en samen te vatten.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">{error}</div>}
+          {!configured && <div className="p-3 bg-amber-50 text-amber-800 rounded-lg text-sm">Inloggen is nog niet geconfigureerd. Stel AUTH_SECRET in op de server.</div>}
+
+          {providers === null ? (
+            <p className="flex items-center justify-center text-sm text-muted-foreground"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Laden...</p>
+          ) : (
+            <>
+              {credentials && (
+                <form onSubmit={handleSubmit} className="space-y-3">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="email">E-mailadres</Label>
+                    <Input id="email" type="email" autoComplete="username" value={email} onChange={(e) => setEmail(e.target.value)} required />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="password">Wachtwoord</Label>
+                    <Input id="password" type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} required />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={isSubmitting || !configured}>
+                    {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
+                    Inloggen
+                  </Button>
+                </form>
+              )}
+              {credentials && redirects.length > 0 && <p className="text-center text-xs text-muted-foreground">of</p>}
+              {redirects.map(provider => (
+                <Button key={provider.id} asChild variant="outline" className="w-full" disabled={!configured}>
+                  <a href={`/api/auth/${provider.id}/login?next=${encodeURIComponent(next)}`}>
+                    <KeyRound className="mr-2 h-4 w-4" /> Inloggen met {provider.name}
+                  </a>
+                </Button>
+              ))}
+              {providers.length === 0 && <p className="text-sm text-muted-foreground">Er zijn geen inlogmethoden ingeschakeld (AUTH_PROVIDERS).</p>}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Library, Search, FileAudio, FileText, Edit, Check, X, Trash2, RotateCcw, Mic, FolderOpen, Tag, Loader2, Plus } from 'lucide-react';
+import { toast } from "sonner";
+import { type MeetingListItem } from '@/lib/meetings';
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('nl-NL', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export default function MeetingLibrary() {
+  const [meetings, setMeetings] = useState<MeetingListItem[]>([]);
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [query, setQuery] = useState<string>('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [tagInputs, setTagInputs] = useState<Record<string, string>>({});
+
+  // The server searches the whole summary, not just the preview; typing is debounced
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams();
+        if (query.trim()) params.set('q', query.trim());
+        if (activeTag) params.set('tag', activeTag);
+        const response = await fetch(`/api/meetings${params.toString() ? `?${params}` : ''}`);
+        const data = await response.json();
+        if (!response.ok || data.error) throw new Error(data.error || 'Gesprekken laden mislukt');
+        if (cancelled) return;
+        setMeetings(data.meetings);
+        setError(null);
+        if (!query.trim() && !activeTag) setAllTags(Array.from(new Set<string>(data.meetings.flatMap((meeting: MeetingListItem) => meeting.tags))).sort());
+      } catch (error) {
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Gesprekken laden mislukt');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, query ? 300 : 0);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [query, activeTag]);
+
+  const updateMeeting = async (id: string, update: { title?: string; tags?: string[] }) => {
+    try {
+      const response = await fetch(`/api/meetings/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      });
+      const data = await response.json();
+      if (!response.ok || data.error) throw new Error(data.error || 'Opslaan mislukt');
+      setMeetings(current => current.map(meeting => (meeting.id === id ? { ...meeting, title: data.meeting.title, tags: data.meeting.tags } : meeting)));
+      if (update.tags) setAllTags(current => Array.from(new Set([...current, ...data.meeting.tags])).sort());
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Opslaan mislukt');
+      return false;
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    if (await updateMeeting(renaming.id, { title: renaming.title })) setRenaming(null);
+  };
+
+  const handleAddTag = async (meeting: MeetingListItem) => {
+    const tag = (tagInputs[meeting.id] || '').trim().toLowerCase();
+    if (!tag || meeting.tags.includes(tag)) return;
+    if (await updateMeeting(meeting.id, { tags: [...meeting.tags, tag] })) setTagInputs(current => ({ ...current, [meeting.id]: '' }));
+  };
+
+  const handleDelete = async (meeting: MeetingListItem) => {
+    if (!window.confirm(`"${meeting.title}" verwijderen? Transcriptie en samenvatting gaan verloren.`)) return;
+    try {
+      const response = await fetch(`/api/meetings/${meeting.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok || data.error) throw new Error(data.error || 'Verwijderen mislukt');
+      setMeetings(current => current.filter(candidate => candidate.id !== meeting.id));
+      toast.success('Gesprek verwijderd');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Verwijderen mislukt');
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <Library className="w-5 h-5 mr-2 text-primary" />
+              Geschiedenis
+            </CardTitle>
+            <CardDescription>Eerder verwerkte gesprekken. Open een gesprek om de samenvatting te bekijken, opnieuw samen te vatten of opnieuw te transcriberen.</CardDescription>
+          </div>
+          <Button asChild variant="outline" size="sm">
+            <Link href="/"><Plus className="mr-2 h-4 w-4" /> Nieuw gesprek</Link>
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-slate-400" />
+            <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Zoek op titel, tag of inhoud van de samenvatting" className="pl-9" aria-label="Zoeken" />
+          </div>
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {allTags.map(tag => (
+                <Button key={tag} variant={activeTag === tag ? 'default' : 'outline'} size="sm" onClick={() => setActiveTag(activeTag === tag ? null : tag)}>
+                  <Tag className="mr-1 h-3.5 w-3.5" /> {tag}
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">{error}</div>}
+
+      {isLoading && meetings.length === 0 ? (
+        <p className="flex items-center justify-center text-sm text-muted-foreground"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Gesprekken laden...</p>
+      ) : meetings.length === 0 ? (
+        <p className="text-center text-sm text-muted-foreground">
+          {query || activeTag ? 'Geen gesprekken gevonden.' : 'Nog geen gesprekken. Verwerkte gesprekken worden hier automatisch bewaard.'}
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {meetings.map(meeting => (
+            <li key={meeting.id}>
+              <Card>
+                <CardHeader className="pb-3">
+                  {renaming?.id === meeting.id ? (
+                    <div className="flex gap-2">
+                      <Input
+                        value={renaming.title}
+                        onChange={(e) => setRenaming({ id: meeting.id, title: e.target.value })}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleRename(); if (e.key === 'Escape') setRenaming(null); }}
+                        autoFocus
+                        aria-label="Titel"
+                      />
+                      <Button variant="ghost" size="icon" onClick={handleRename} aria-label="Titel opslaan"><Check className="h-4 w-4" /></Button>
+                      <Button variant="ghost" size="icon" onClick={() => setRenaming(null)} aria-label="Annuleren"><X className="h-4 w-4" /></Button>
+                    </div>
+                  ) : (
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      {meeting.hasAudio ? <FileAudio className="h-4 w-4 flex-shrink-0 text-primary" /> : <FileText className="h-4 w-4 flex-shrink-0 text-primary" />}
+                      <span className="truncate">{meeting.title}</span>
+                      <Button variant="ghost" size="icon" onClick={() => setRenaming({ id: meeting.id, title: meeting.title })} aria-label="Naam wijzigen"><Edit className="h-3.5 w-3.5" /></Button>
+                    </CardTitle>
+                  )}
+                  <CardDescription>
+                    {formatDate(meeting.createdAt)}
+                    {meeting.templateName ? ` · ${meeting.templateName}` : ''}
+                    {meeting.audioDeletedAt ? ` · opname verwijderd op ${formatDate(meeting.audioDeletedAt)}` : ''}
+                    {meeting.costs.transcription + meeting.costs.summary > 0 ? ` · $${(meeting.costs.transcription + meeting.costs.summary).toFixed(4)}` : ''}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {meeting.preview && <p className="text-sm text-muted-foreground line-clamp-3">{meeting.preview}</p>}
+                  <div className="flex flex-wrap items-center gap-2">
+                    {meeting.tags.map(tag => (
+                      <span key={tag} className="inline-flex items-center rounded-full bg-muted px-2 py-0.5 text-xs">
+                        {tag}
+                        <button type="button" onClick={() => updateMeeting(meeting.id, { tags: meeting.tags.filter(candidate => candidate !== tag) })} className="ml-1 text-muted-foreground hover:text-foreground" aria-label={`Tag ${tag} verwijderen`}>
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))}
+                    <Input
+                      value={tagInputs[meeting.id] || ''}
+                      onChange={(e) => setTagInputs(current => ({ ...current, [meeting.id]: e.target.value }))}
+                      onKeyDown={(e) => { if (e.key === 'Enter') handleAddTag(meeting); }}
+                      placeholder="Tag toevoegen"
+                      className="h-7 w-36 text-xs"
+                      aria-label="Tag toevoegen"
+                    />
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <Button asChild variant="default" size="sm">
+                      <Link href={`/?meeting=${meeting.id}`}><FolderOpen className="mr-2 h-4 w-4" /> Openen</Link>
+                    </Button>
+                    <Button asChild variant="outline" size="sm">
+                      <Link href={`/?meeting=${meeting.id}&action=resummarize`}><RotateCcw className="mr-2 h-4 w-4" /> Opnieuw samenvatten</Link>
+                    </Button>
+                    {meeting.hasAudio && (
+                      <Button asChild variant="outline" size="sm">
+                        <Link href={`/?meeting=${meeting.id}&action=retranscribe`}><Mic className="mr-2 h-4 w-4" /> Opnieuw transcriberen</Link>
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(meeting)}>
+                      <Trash2 className="mr-2 h-4 w-4" /> Verwijderen
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
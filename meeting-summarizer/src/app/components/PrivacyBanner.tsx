@@ -1,7 +1,26 @@
-import React from 'react';
+'use client';
+
+import React, { useEffect, useState } from 'react';
 import { AlertTriangle } from 'lucide-react'; // Using an icon for attention
+import { type RetentionPolicy } from '@/lib/retention';
+
+// What happens to uploaded recordings, as configured on the server
+const retentionText = (policy: RetentionPolicy) => {
+  const afterTranscription = policy.deleteAfterTranscription ? 'Opnames worden verwijderd zodra ze getranscribeerd zijn' : 'Opnames worden bewaard zodat ze opnieuw getranscribeerd kunnen worden';
+  if (policy.retentionDays <= 0) return `${afterTranscription}.`;
+  return `${afterTranscription}, en in elk geval na ${policy.retentionDays} dag${policy.retentionDays === 1 ? '' : 'en'}.`;
+};
 
 export default function PrivacyBanner() {
+  const [policy, setPolicy] = useState<RetentionPolicy | null>(null);
+
+  useEffect(() => {
+    fetch('/api/retention')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => { if (data?.policy) setPolicy(data.policy); })
+      .catch(() => {}); // Without the policy the banner simply leaves it out
+  }, []);
+
   return (
     // Increased vertical margin from my-6 to my-8
     <div className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-700 p-4 my-8 mx-auto max-w-5xl rounded-md shadow" role="alert">
@@ -16,6 +35,7 @@ export default function PrivacyBanner() {
             Gebruik bijvoorbeeld "klant" in plaats van Melle b.v. Heb je iets dat wel privacy-gevoelig is?
             Contacteer Melle, dan kijken we of het via onze eigen AI kan; Super Kees.
           </p>
+          {policy && <p className="text-sm mt-1">{retentionText(policy)}</p>}
         </div>
       </div>
     </div>
@@ -6,8 +6,9 @@ import { AnimatePresence, motion } from 'framer-motion'; // Keep framer-motion f
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
-import { X as IconX, Check, Loader2, FileText, BrainCircuit, UploadCloud, Settings2, CheckCircle } from 'lucide-react'; // Import icons
+import { X as IconX, Check, Loader2, FileText, BrainCircuit, UploadCloud, Settings2, CheckCircle, ShieldCheck } from 'lucide-react'; // Import icons
 import { cn } from "@/lib/utils"; // Import cn utility
+import { type ProgressUnit } from '@/lib/progress';
 
 // Pipeline stages
 export type PipelineStage =
@@ -16,6 +17,7 @@ export type PipelineStage =
   | 'chunking'      // File is being split into chunks if needed
   | 'transcribing'  // Audio is being transcribed
   | 'summarizing'   // Transcription is being summarized
+  | 'verifying'     // Claims in the summary are checked against the transcript (optional)
   | 'completed'     // All done
   | 'error';        // Error occurred
 
@@ -24,11 +26,12 @@ export interface PipelineStatus {
   stage: PipelineStage;
   progress: number;               // 0-100 progress percentage
   message: string;                // Current status message
-  estimatedTimeLeft?: number;     // Seconds remaining (if available)
+  estimatedTimeLeft?: number;     // Seconds remaining, from the throughput measured on the server (if available)
   error?: string;                 // Error message if stage is 'error'
   details?: {                     // Additional details about the current stage
-    currentChunk?: number;
+    currentChunk?: number;        // Units finished out of totalChunks, as reported by the server
     totalChunks?: number;
+    unit?: ProgressUnit;          // What the chunks are: audio chunks, transcript parts or tokens written
     fileName?: string;
     fileSize?: number;
   };
@@ -104,6 +107,7 @@ export default function ProcessingPipeline({
       case 'chunking': return 'Bestand voorbereiden';
       case 'transcribing': return 'Audio transcriberen';
       case 'summarizing': return 'Samenvatting genereren';
+      case 'verifying': return 'Samenvatting controleren';
       case 'completed': return 'Verwerking voltooid';
       case 'error': return 'Fout opgetreden';
       default: return 'Verwerken...';
@@ -129,7 +133,16 @@ export default function ProcessingPipeline({
           ? `Transcriberen deel ${status.details.currentChunk}/${status.details.totalChunks}...`
           : 'Spraak wordt omgezet naar tekst...';
       case 'summarizing':
-        return 'AI analyseert transcriptie en genereert een samenvatting...';
+        if (status.details?.unit === 'tokens' && status.details.currentChunk) {
+          return `Samenvatting wordt geschreven (${status.details.currentChunk} van ~${status.details.totalChunks} tokens)...`;
+        }
+        return status.details?.totalChunks && status.details.totalChunks > 1
+          ? `Lange transcriptie wordt in delen samengevat (${status.details.currentChunk ?? 0}/${status.details.totalChunks})...`
+          : 'AI analyseert transcriptie en genereert een samenvatting...';
+      case 'verifying':
+        return status.details?.totalChunks && status.details.totalChunks > 1
+          ? `Beweringen worden per deel vergeleken met de transcriptie (${status.details.currentChunk ?? 0}/${status.details.totalChunks})...`
+          : 'Elke bewering in de samenvatting wordt vergeleken met de transcriptie...';
       case 'completed':
         return 'Alle verwerkingsstappen zijn voltooid!';
       case 'error': // Fallback error message
@@ -141,7 +154,7 @@ export default function ProcessingPipeline({
 
   // Convert stage to numerical index for progress bar
   const getStageIndex = (): number => {
-    const stages: PipelineStage[] = ['uploading', 'processing', 'chunking', 'transcribing', 'summarizing', 'completed'];
+    const stages: PipelineStage[] = ['uploading', 'processing', 'chunking', 'transcribing', 'summarizing', 'verifying', 'completed'];
     const index = stages.indexOf(status.stage);
     // If stage is 'error' or not found, return a value indicating progress stopped before completion
     if (index === -1 || status.stage === 'error') {
@@ -155,7 +168,7 @@ export default function ProcessingPipeline({
 
   // Calculate overall progress across all stages
   const calculateOverallProgress = (): number => {
-    const totalStages = 5; // Upload, process/chunk, transcribe, summarize
+    const totalStages = status.stage === 'verifying' ? 6 : 5; // Upload, process/chunk, transcribe, summarize (, verify)
     const stageIndex = getStageIndex();
     const stageProgress = status.progress / 100;
 
@@ -272,6 +285,15 @@ export default function ProcessingPipeline({
                       completed={getStageIndex() > 4}
                       active={status.stage === 'summarizing'}
                     />
+                    {/* Verification is optional, so its step only appears while it runs */}
+                    {status.stage === 'verifying' && (
+                      <PipelineStepIndicator
+                        label="Controleren"
+                        icon={<ShieldCheck className="h-5 w-5" />}
+                        completed={false}
+                        active={true}
+                      />
+                    )}
                     <PipelineStepIndicator
                       label="Voltooid"
                       icon={<CheckCircle className="h-5 w-5" />}
@@ -1,9 +1,19 @@
 'use client';
 
-import { useState } from 'react'; // Removed useEffect
+import { useState, useEffect, useRef } from 'react';
 import React from 'react'; // Removed HTMLAttributes, forwardRef
-import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"; // Import Card components
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"; // Import Card components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ClipboardList, Copy, Edit, Loader2, Lock, Plus, Trash2, Users } from 'lucide-react';
+import { toast } from "sonner";
 import { cn } from "@/lib/utils"; // Import cn utility
+import { type PromptTemplate } from '@/lib/templates';
+import { builtInTemplates } from '@/lib/builtInTemplates';
+import { type TemplateVariable, findVariableNames } from '@/lib/templateVariables';
 
 // Removed MotionDiv definition
 
@@ -12,469 +22,129 @@ export interface PromptType {
   name: string;
   description: string;
   prompt: string;
+  variables?: TemplateVariable[]; // Filled in by the user before processing
+  builtIn?: boolean;
+  version?: number; // Default version of the template
 }
 
 interface PromptSelectorProps {
   onSelectPrompt: (promptType: PromptType) => void;
   selectedPromptId: string;
+  variableValues: Record<string, string>;
+  onVariablesChange: (values: Record<string, string>) => void;
 }
 
-export default function PromptSelector({ onSelectPrompt, selectedPromptId }: PromptSelectorProps) {
-  const [promptTypes] = useState<PromptType[]>([
-    {
-      id: 'default',
-      name: 'Algemene Samenvatting',
-      description: 'Standaard samenvatting van het gesprek of de vergadering',
-      prompt: ''
-    },
-    {
-      id: 'hypotheek',
-      name: 'Hypotheekgesprek',
-      description: 'Samenvatting van hypotheekadvies of -gesprek',
-      prompt: `Je bent een AI-assistent gespecialiseerd in het samenvatten van hypotheekgesprekken en -adviezen voor Veldhuis Advies. Analyseer het gegeven transcript van een hypotheekgesprek of -advies en maak een gestructureerde samenvatting met de volgende elementen, maar alleen als ze daadwerkelijk in het transcript voorkomen:
-
-Algemene informatie:
-- Datum en tijd van het gesprek/advies
-- Naam van de hypotheekadviseur
-- Naam van de klant(en)
-- Type hypotheekadvies (bijv. aankoop, oversluiten, verbouwing)
-
-Klantprofiel:
-- Leeftijd(en) en gezinssituatie
-- Huidige woonsituatie (huur/koop, type woning, waarde)
-- Gedetailleerde inkomenssituatie (vast/variabel inkomen, loondienst/zelfstandig)
-- Vermogenspositie (spaargeld, beleggingen) en eventuele schulden
-- Toekomstplannen en financiële doelstellingen
-
-Woonwensen en financieringsbehoefte:
-- Gedetailleerde beschrijving van de gewenste woning (type, locatie, prijsklasse)
-- Specifieke kenmerken of eisen aan de woning
-- Benodigde financiering met onderbouwing
-- Concrete plannen voor verbouwing of verduurzaming, inclusief kostenraming
-
-Huidige hypotheeksituatie (indien van toepassing):
-- Type hypotheek, verstrekker en resterende looptijd
-- Exacte openstaande schuld en huidige maandlasten
-- Opgebouwde waarde in gekoppelde producten (bijv. spaarhypotheek, beleggingshypotheek)
-- Boeterente bij vervroegd aflossen of oversluiten
-
-Inkomensanalyse:
-- Gedetailleerd overzicht van bruto en netto inkomen
-- Specificatie van vaste lasten en bestedingsruimte
-- Toekomstperspectief qua inkomen (carrièreontwikkeling, pensioenplannen)
-- Stress-test scenario's (bijv. werkloosheid, arbeidsongeschiktheid)
-
-Hypotheekberekening:
-- Maximale hypotheek op basis van inkomen en onderpand, met toelichting
-- Doorrekening van verschillende hypotheekvormen (annuïteit, lineair, aflossingsvrij)
-- Gedetailleerde maandlasten in verschillende scenario's (rente, looptijd, aflossing)
-- Impact van energiebesparende maatregelen op leencapaciteit
-
-Risico-analyse:
-- Uitgebreide bespreking van risico's (overlijden, arbeidsongeschiktheid, werkloosheid, echtscheiding)
-- Gedetailleerde adviezen omtrent verzekeringen (overlijdensrisico, woonlastenverzekering)
-- Scenario-analyses bij verschillende risico's
-
-Hypotheekvoorstel:
-- Gedetailleerde beschrijving van geadviseerde hypotheekvorm(en)
-- Onderbouwing van gekozen rentevaste periode en rentepercentage
-- Specifieke looptijd en aflossingsschema
-- Berekening van totale kosten krediet
-- Vergelijking met alternatieven en onderbouwing van keuze
-
-Fiscale aspecten:
-- Gedetailleerde uitleg over hypotheekrenteaftrek en voorwaarden
-- Berekening van het eigenwoningforfait
-- Specifieke fiscale overwegingen (bijv. overgangsrecht, bijleenregeling)
-- Impact van fiscale wijzigingen op lange termijn
-
-Vermogensopbouw:
-- Concrete adviezen over extra aflossen of beleggen
-- Koppeling met pensioenplanning en langetermijndoelstellingen
-- Vergelijking verschillende vermogensopbouwstrategieën
-
-Vervolgstappen:
-- Gedetailleerde lijst van acties voor de hypotheekadviseur, met deadlines
-- Specifieke acties voor de klant, inclusief aan te leveren documenten
-- Stappenplan voor de hypotheekaanvraag
-
-Afspraken en deadlines:
-- Lijst van alle concrete afspraken gemaakt tijdens het gesprek
-- Specifieke deadlines voor acties en beslissingen
-- Geplande vervolgafspraken met datum, tijd en doel
-
-Klantfeedback:
-- Gedetailleerde beschrijving van de reactie van de klant op het advies
-- Specifieke zorgen, twijfels of vragen geuit door de klant
-- Punten waarop de klant extra toelichting of bedenktijd wenst
-
-Besteed extra aandacht aan:
-- Exacte cijfers, datums en bedragen
-- Specifieke klantwensen of -eisen met betrekking tot de hypotheek
-- Onderbouwing van hypotheekadviezen
-- Afwijkingen van standaardprocedures of uitzonderlijke situaties
-
-Gebruik professionele hypotheek- en financiële terminologie waar van toepassing, maar zorg dat de samenvatting begrijpelijk blijft. Maak gebruik van duidelijke kopjes en subkopjes voor overzichtelijkheid, maar neem alleen secties op die daadwerkelijk in het transcript voorkomen. Baseer alle informatie uitsluitend op het gegeven transcript, zonder aannames of toevoegingen.
-
-Zorg ervoor dat de samenvatting volledig en gedetailleerd is, zodat een andere medewerker die het dossier later leest een volledig beeld krijgt van wat er is besproken en welke acties er nodig zijn. Wees specifiek en concreet in alle beschrijvingen en vermijd algemeenheden.`
-    },
-    {
-      id: 'notitie',
-      name: 'Ingesproken Notitie',
-      description: 'Samenvatting van ingesproken notities',
-      prompt: `Je bent een AI-assistent gespecialiseerd in het samenvatten van ingesproken notities voor Veldhuis Advies. Analyseer het gegeven transcript van een ingesproken notitie en maak een gestructureerde, uitgebreide samenvatting die alle relevante informatie bevat voor het klantdossier. De samenvatting moet de volgende elementen bevatten, maar alleen als ze daadwerkelijk in het transcript voorkomen:
-
-Datum en tijd van de ingesproken notitie
-Naam van de medewerker die de notitie heeft ingesproken
-Onderwerp van de notitie
-
-Context van de notitie:
-
-Reden voor het maken van de notitie (bijv. na een klantgesprek, intern overleg, productanalyse)
-Relevante achtergrondinformatie
-
-Hoofdpunten van de notitie:
-
-Maak een gedetailleerde lijst van alle besproken onderwerpen
-Geef voor elk onderwerp een uitgebreide samenvatting van:
-
-Kernpunten en details
-Observaties of inzichten
-Eventuele conclusies of beslissingen
-
-
-
-Klantgerelateerde informatie (indien van toepassing):
-
-Naam van de klant of prospect
-Relevante klantgegevens of situatieschets
-Specifieke klantwensen of -behoeften
-Eventuele wijzigingen in de klantsituatie
-
-Producten of diensten:
-
-Gedetailleerde beschrijving van besproken verzekeringen, financiële producten of diensten
-Eventuele aandachtspunten, wijzigingen of bijzonderheden per product
-
-Markt- of productanalyse (indien van toepassing):
-
-Gedetailleerde inzichten in markttrends of productontwikkelingen
-Vergelijkingen met concurrerende producten of diensten
-
-Interne processen of procedures:
-
-Specifieke opmerkingen over werkprocessen
-Concrete suggesties voor verbeteringen of aanpassingen
-
-Actiepunten:
-
-Maak een gedetailleerde lijst van alle actiepunten, inclusief:
-
-Voor wie de actie is bedoeld (medewerker zelf, collega's, klanten)
-Precieze beschrijving van de actie
-Eventuele deadlines of prioriteiten
-
-
-
-Vervolgstappen:
-
-Beschrijf alle geplande acties of taken in detail
-Noteer voorgestelde deadlines
-Vermeld eventuele vervolgafspraken met datum, tijd en doel
-
-Aandachtspunten voor dossiervorming:
-
-Lijst alle informatie op die aan klantdossiers moet worden toegevoegd
-Beschrijf punten die nadere analyse of onderzoek vereisen
-
-Vragen of onduidelijkheden:
-
-Noteer alle openstaande vragen die beantwoording vereisen
-Beschrijf punten die verduidelijking of nader onderzoek nodig hebben
-
-Besteed extra aandacht aan:
-
-Exacte cijfers, datums en bedragen genoemd in de notitie
-Specifieke instructies of belangrijke details voor vervolgacties
-Informatie die relevant is voor compliance of risicobeheer
-Veranderingen in klantsituatie of producten die impact kunnen hebben op het advies
-
-Gebruik professionele verzekeringstermen of financiële termen waar van toepassing, maar zorg dat de samenvatting begrijpelijk blijft. Maak gebruik van duidelijke kopjes en subkopjes voor overzichtelijkheid, maar neem alleen secties op die daadwerkelijk in het transcript voorkomen. Baseer alle informatie uitsluitend op het gegeven transcript, zonder aannames of toevoegingen.
-Zorg ervoor dat de samenvatting volledig en gedetailleerd is, zodat een andere medewerker die het dossier later leest een volledig beeld krijgt van wat er is besproken en welke acties er nodig zijn. Wees specifiek en concreet in alle beschrijvingen en vermijd algemeenheden.`
-    },
-    {
-      id: 'vergadering',
-      name: 'Notulen Vergadering',
-      description: 'Samenvatting van vergadernotulen',
-      prompt: `Je bent een AI-assistent gespecialiseerd in het samenvatten van notulen van vergaderingen voor Veldhuis Advies. Analyseer het gegeven transcript van de notulen en maak een gestructureerde samenvatting met de volgende elementen:
-
-- Datum, tijd en locatie van de vergadering
-- Naam van de voorzitter
-- Naam van de notulist
-- Type vergadering (bijv. teamoverleg, managementvergadering, afdelingsoverleg)
-
-Aanwezigen:
-- Lijst van aanwezige deelnemers met hun functie
-- Eventuele afwezigen met kennisgeving
-
-Agenda:
-- Overzicht van de agendapunten
-
-Voor elk agendapunt:
-- Titel van het agendapunt
-- Korte samenvatting van de discussie
-- Belangrijkste standpunten of argumenten
-- Genomen besluiten of conclusies
-- Actiepunten voortkomend uit dit agendapunt
-
-Algemene discussiepunten:
-- Overkoepelende thema's of zorgen die tijdens de vergadering naar voren kwamen
-- Langetermijnplannen of strategische overwegingen
-
-Besluitenlijst:
-- Overzicht van alle genomen besluiten tijdens de vergadering
-
-Actiepunten:
-- Lijst van alle actiepunten met:
-  - Beschrijving van de actie
-  - Verantwoordelijke persoon
-  - Deadline of streefdatum
-
-Volgende vergadering:
-- Datum, tijd en locatie van de volgende vergadering (indien vastgesteld)
-- Voorlopige agendapunten voor de volgende vergadering
-
-Afsluiting:
-- Tijd waarop de vergadering werd afgesloten
-- Eventuele slotopmerkingen van de voorzitter
-
-Besteed extra aandacht aan:
-- Exacte formuleringen van genomen besluiten
-- Specifieke deadlines of mijlpalen genoemd in de vergadering
-- Belangrijke cijfers, datums of bedragen die worden besproken
-
-Gebruik professionele terminologie die past bij het type vergadering, maar zorg dat de samenvatting begrijpelijk blijft. Maak gebruik van bullet points voor overzichtelijkheid. Baseer alle informatie uitsluitend op het gegeven transcript, zonder aannames of toevoegingen.`
-    },
-    {
-      id: 'pensioen',
-      name: 'Pensioengesprek',
-      description: 'Samenvatting van pensioengesprekken en -adviezen',
-      prompt: `Je bent een AI-assistent gespecialiseerd in het samenvatten van pensioengesprekken en -adviezen voor Veldhuis Advies. Analyseer het gegeven transcript van een pensioengesprek of -advies en maak een gestructureerde samenvatting met de volgende elementen, maar alleen als ze daadwerkelijk in het transcript voorkomen:
-
-Algemene informatie:
-- Datum en tijd van het gesprek/advies
-- Naam van de pensioenadviseur
-- Naam van de klant
-- Type pensioenadvies (bijv. individueel, collectief, ondernemerspensioen)
-
-Klantprofiel:
-- Leeftijd en beoogde pensioenleeftijd
-- Huidige werksituatie (in loondienst, ondernemer, etc.)
-- Gedetailleerde beschrijving van de gezinssituatie
-- Financiële doelstellingen voor pensioen
-- Risicobereidheid en beleggingsvoorkeuren
-
-Bedrijfsinventarisatie (voor ondernemers of DGA's):
-- Gedetailleerde beschrijving van de onderneming (rechtsvorm, sector, aantal werknemers)
-- Financiële situatie van het bedrijf:
-  • Omzet en winst van de afgelopen jaren
-  • Prognose voor de komende jaren
-  • Balansoverzicht (activa en passiva)
-  • Liquiditeitspositie
-- Bedrijfsactiviteiten:
-  • Kernactiviteiten van het bedrijf
-  • Recente ontwikkelingen of veranderingen in bedrijfsactiviteiten
-  • Toekomstplannen en groeiverwachtingen
-- Personeel en organisatie:
-  • Overzicht van personeelsbestand (aantal, functies, leeftijdsopbouw)
-  • Bestaande pensioenregelingen voor werknemers
-- Bedrijfsrisico's:
-  • Analyse van specifieke risico's voor de onderneming
-  • Impact van deze risico's op de pensioensituatie van de ondernemer/DGA
-
-Huidige pensioensituatie:
-- Gedetailleerd overzicht van bestaande pensioenregelingen
-- Specifieke opbouw en voorwaarden per regeling
-- Exacte bedragen van opgebouwde pensioenaanspraken
-- AOW-rechten en verwachte AOW-leeftijd
-- Opgebouwde pensioenrechten bij eerdere werkgevers
-- Overzicht van eventuele lijfrentes of andere pensioenvoorzieningen
-
-Pensioenanalyse:
-- Gedetailleerde vergelijking van huidige situatie met pensioendoelstelling
-- Specifieke identificatie van pensioentekorten of -overschotten
-- Uitgebreide impact-analyse van verschillende scenario's:
-  - Eerder stoppen met werken
-  - Deeltijdpensioen
-  - Doorgaan na de pensioengerechtigde leeftijd
-- Analyse van de toereikendheid van het pensioen in verschillende economische scenario's
-
-Besproken pensioenproducten of -oplossingen:
-- Gedetailleerde beschrijving van voorgestelde pensioenoplossingen
-- Uitgebreide voor- en nadelen van elke optie
-- Specifieke fiscale aspecten en gevolgen per oplossing
-- Vergelijking met alternatieve producten of strategieën
-
-Risico's en verzekeringen:
-- Diepgaande analyse van relevante risico's (bijv. overlijden, arbeidsongeschiktheid)
-- Gedetailleerde adviezen omtrent aanvullende verzekeringen
-- Impact van deze risico's op de pensioensituatie
-- Kosten-batenanalyse van voorgestelde verzekeringsoplossingen
-
-Financiële berekeningen:
-- Gedetailleerde prognose van het verwachte pensioeninkomen in verschillende scenario's
-- Specifieke berekening van benodigde aanvullende besparingen of investeringen
-- Uitgebreide kostenanalyse van voorgestelde oplossingen
-- Vergelijking van netto besteedbaar inkomen vóór en na pensionering
-
-Wettelijke en fiscale aspecten:
-- Gedetailleerde uitleg van relevante wet- en regelgeving
-- Specifieke fiscale optimalisatiemogelijkheden
-- Impact van (verwachte) wetswijzigingen op het pensioenadvies
-- Uitleg over de fiscale behandeling van verschillende pensioenvormen
-
-Vermogensopbouw en -afbouw:
-- Strategieën voor vermogensopbouw naast pensioen
-- Advies over de inzet van overig vermogen voor pensioen
-- Opties voor geleidelijke vermogensafbouw tijdens pensionering
-- Erfplanningsoverwegingen in relatie tot pensioen
-
-Vervolgstappen:
-- Gedetailleerde lijst van acties voor de pensioenadviseur, met deadlines
-- Specifieke acties voor de klant, inclusief aan te leveren documenten
-- Stappenplan voor het implementeren van het pensioenadvies
-
-Afspraken en deadlines:
-- Lijst van alle concrete afspraken gemaakt tijdens het gesprek
-- Specifieke deadlines voor acties en beslissingen
-- Geplande vervolgafspraken met datum, tijd en doel
-
-Klantfeedback:
-- Gedetailleerde beschrijving van de reactie van de klant op het advies
-- Specifieke zorgen, twijfels of vragen geuit door de klant
-- Punten waarop de klant extra toelichting of bedenktijd wenst
-
-Besteed extra aandacht aan:
-- Exacte cijfers, datums en bedragen
-- Specifieke klantwensen of -eisen met betrekking tot pensioen
-- Onderbouwing van pensioenadviezen
-- Afwijkingen van standaardprocedures of uitzonderlijke situaties
-- Lange termijn overwegingen en scenario's
-
-Gebruik professionele pensioenterminologie waar van toepassing, maar zorg dat de samenvatting begrijpelijk blijft. Maak gebruik van duidelijke kopjes en subkopjes voor overzichtelijkheid, maar neem alleen secties op die daadwerkelijk in het transcript voorkomen. Baseer alle informatie uitsluitend op het gegeven transcript, zonder aannames of toevoegingen.
-
-Zorg ervoor dat de samenvatting volledig en gedetailleerd is, zodat een andere medewerker die het dossier later leest een volledig beeld krijgt van wat er is besproken en welke acties er nodig zijn. Wees specifiek en concreet in alle beschrijvingen en vermijd algemeenheden.
-
-Let bij het maken van de samenvatting op de volgende punten:
-1. Groepeer gerelateerde informatie bij elkaar, vooral met betrekking tot de inventarisatie van de onderneming op financieel en activiteiten gebied.
-2. Zorg voor een logische flow van informatie, waarbij de bedrijfsinventarisatie een duidelijk beeld geeft van de context waarin pensioenadvies wordt gegeven.
-3. Maak expliciete verbanden tussen de bedrijfssituatie en de pensioenplanning van de ondernemer of DGA.`
-    },
-    {
-      id: 'klantbezoek',
-      name: 'Klantbezoek Tabelvorm',
-      description: 'Samenvatting van klantbezoek in tabelvorm',
-      prompt: `Maak een gedetailleerde samenvatting van het onderhoudsadviesgesprek in tabelvorm. Zorg ervoor dat de samenvatting de volgende secties bevat:
-
-**Datum**:
-[Datum van het gesprek]
-
-**Introductie**:
-Geef een korte introductie van de context van het gesprek en de reden waarom het gesprek plaatsvond.
-
-**Situatie**:
-Beschrijf de huidige situatie van de klant en eventuele veranderingen die relevant zijn voor de verzekeringen.
-Indien besproken: 
-- Wat is de huidige status van de klant?
-- Wat is de huidige status van de verzekering?
-- Wat is de huidige status van de bedrijfsstructuur?
-- Wat is de huidige status van de overige punten?
-
-**Algemeen**:
-Hier benoem je, indien genoemd, alles over communicatie, prolongatie, opzeggingen, facturen, overige handelingen die niet per se binnen of bij een bepaald risico passen. \
-Personeelswijziging, ziektefrequentie, et cetera. Al deze dingen benoem je alleen als ze echt zijn besproken. 
-Onderwerpen die je hier opneemt, zoals prolongatie, provisie, administratie en andere dingen, die noem je alleen in dit onderdeel en niet in bijvoorbeeld de tabel.
-
-
-**Risico's**:
-Beschrijf de besproken risico's die relevant zijn voor de verzekeringen van de klant. De risico's zijn altijd risico's die bij verzekeringen passen aangezien dit een gesprek is tussen de verzekeringsadviseur en een klant. Voorbeelden van risico's zijn: Brandrisico, Diefstal en Inbraak, Aansprakelijkheid, Bedrijfsschade, Transport en Logistiek, Elektronische en Cyberrisico's, Werknemersgerelateerde Risico's, Juridische Risico's, Milieurisico's, Natuurrampen, Productierisico's, Internationale Risico's, Reputatierisico, Financiële Risico's, Kredietrisico's, Voertuigschade. Deze risico's neem je alleen op in de samenvatting als deze ook besproken zijn, als een risico niet aan bod is gekomen dan noem je deze niet. Je hallucineert niet. Je verzint geen informatie of risico's die niet besproken zijn. Stel er is alleen bedrijfsschade besproken, dan noem je ook alleen dat. Je doet zelf geen aannames of adviezen, je legt enkel een verslag vast van het transcript.
-Normaliter houd je alles zo kort mogelijk, maar bij de besproken punten in de tabellen over de risico's mag je zo uitgebreid mogelijk zijn (mits relevant en besproken), maar je houd het wel in korte tekst. Dus geen lange zinnen. Maar wel zoveel mogelijk details.
-Je zorgt ervoor dat er alleen risico's in de tabel voorkomen die relevant zijn voor verzekeringen of financiele producten, dus niet bijvoorbeeld een detail over communicatie of prolongatie, of polissen. Dat komt bij de samenvatting in punten. 
-Een reisverzekering kan zowel zakelijk als privé zijn. Als het niet is gespecificieerd of het zakelijk of privé is, dan mag je uitgaan van privé. 
-In het geval dat er verschillende bv's zijn besproken, dan is het belangrijk dat de risico's en verzekeringen worden beschreven per bv. In de tabel, dan maak je per bv een tabel. Als dat niet het geval is, dan hoeft dat natuurlijk niet.
-Als het over auto's gaat dan maak je hier duidelijk onderscheid tussen zakelijke auto's en niet. Het risico mag je personenauto noemen, of bijvoorbeeld bestelauto (afhankelijk uiteraard van wat voor auto's er zijn besproken).
-Alle onderwerpen die van belang kunnen zijn voor verzekeringen, die neem je mee (mits relevant!). Stel, er wordt iets over een verbouwing of dergelijks besproken. Dan neem je dit natuurlijk ook altijd op, omdat het van belang kan zijn voor de verzekeringen.
-In het stukje "bespreking details" in de tabel, daar ben je zo uitgebreid mogelijk per risico. Daar moet alle info en alles wat besproken is over dat riscio in één oogopzicht te zien zijn. 
-
-**Zakelijke Risico's**:
-Per bv maak je een aparte tabel (indien er meerdere bv's zijn genoemd)
-
-| Risico                        | Besproken | Bespreking Details                  | Actie                             | Actie voor    |
-|-------------------------------|:----------:|--------------------------------------|-----------------------------------|:--------------:|
-| [Risico 1]                    | [Ja/Nee]  | [Details]                            | [Actie]                           | [Persoon]     |
-| [Risico 2]                    | [Ja/Nee]  | [Details]                            | [Actie]                           | [Persoon]     |
-
-**Privé Risico's**:
-
-| Risico                        | Besproken | Bespreking Details                  | Actie                             | Actie voor    |
-|-------------------------------|:----------:|--------------------------------------|-----------------------------------|:--------------:|
-| [Risico 1]                    | [Ja/Nee]  | [Details]                            | [Actie]                           | [Persoon]     |
-| [Risico 2]                    | [Ja/Nee]  | [Details]                            | [Actie]                           | [Persoon]     |
-
-**BELANGRIJK**: Zorg ervoor dat de tabel correct is geformatteerd in Markdown, inclusief de scheidingslijn met streepjes (bijv. '|---|---|...') direct onder de koptekstrij.
-
-**Samenvatting in punten**:
-Geef de belangrijkste informatie, afspraken, details, cijfers, en andere informatie die je niet wilt missen in bullet points weer.
-Hier komen ook de details, alleen als deze ook zijn besproken, over bedrijfsvoering algemeen, omzet, communicatie, prolongatie, groei van het bedrijf, plannen van het bedrijf, aanstellingen, marktbewegingen, concurrentie.
-
-**Actiepunten**:
-Geef een lijst van actiepunten die je hebt gemaakt. Specificeer hierbij welke actiepunten voor de klant zijn en welke voor de adviseur, of bijvoorbeeld voor een collega oid. Noem alleen echte acties, geen abstracte punten.
-Indien er deadlines zijn genoemd dan neem je die ook mee.
-De actiepunten kunnen enkel zijn voor de adviseur of de klant. Bijvoorbeeld als het gaat om een opdracht voor een taxateur, dan is het nog steeds bijvoorbeeld de adviseur die de taxateur inschakeld.`
-    },
-    {
-      id: 'casemanager',
-      name: 'Casemanager',
-      description: 'Samenvatting van een gesprek voor een casemanager',
-      prompt: `Je bent een AI-assistent die gespecialiseerd is in het samenvatten van gesprekken voor casemanagers bij Veldhuis Advies. Maak een gestructureerde en beknopte samenvatting van het gesprek, waarbij je de volgende richtlijnen volgt:
-
-1. Begin met een korte introductie die de context van het gesprek schetst.
-
-2. Gebruik de volgende kopjes (## in Markdown) om de samenvatting te structureren:
+// Template being created (no id) or edited in the editor dialog
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  description: string;
+  prompt: string;
+  variables?: TemplateVariable[];
+  basedOn?: string;
+}
 
-## Gesprekspartijen
-- Vermeld hier de casemanager (altijd de beller) en de andere deelnemers aan het gesprek.
+export default function PromptSelector({ onSelectPrompt, selectedPromptId, variableValues, onVariablesChange }: PromptSelectorProps) {
+  // Built-in templates are available immediately; stored templates are added once loaded
+  const [promptTypes, setPromptTypes] = useState<PromptTemplate[]>(builtInTemplates);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const selectedPromptIdRef = useRef(selectedPromptId); // Read when the templates arrive, which may be after a meeting was opened
+  selectedPromptIdRef.current = selectedPromptId;
+
+  // The server returns the templates of the user's team, and the team's default template
+  useEffect(() => {
+    fetch('/api/templates')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`Status ${response.status}`)))
+      .then(data => {
+        const templates: PromptTemplate[] = data.templates;
+        setPromptTypes(templates);
+        const teamDefault = templates.find(template => template.id === data.defaultTemplateId);
+        const selectedId = selectedPromptIdRef.current;
+        // Start with the team's default; a selection the team does not use falls back to it
+        if (teamDefault && selectedId === builtInTemplates[0].id) onSelectPrompt(teamDefault);
+        else if (templates.length > 0 && !templates.some(template => template.id === selectedId)) onSelectPrompt(teamDefault || templates[0]);
+      })
+      .catch(error => console.warn('Could not load stored templates, showing built-in templates only:', error));
+  }, []);
+
+  const selectedTemplate = promptTypes.find(template => template.id === selectedPromptId);
+  const variables = selectedTemplate?.variables || [];
+  const draftVariables = draft ? findVariableNames(draft.prompt) : [];
 
-## Samenvatting van het gesprek
-- Geef een beknopt maar volledig overzicht van de besproken onderwerpen.
-- Gebruik opsommingstekens (- in Markdown) voor belangrijke punten.
-- Vermeld relevante details, zoals genoemde bedragen, data of specifieke zorgen van de klant.
+  const handleSelectCard = (promptType: PromptType) => {
+    onSelectPrompt(promptType);
+  };
 
-## Advies
-- Vat het gegeven advies of de voorgestelde oplossingen samen.
-- Als er meerdere opties zijn besproken, noem deze dan ook.
+  const setVariable = (name: string, value: string) => onVariablesChange({ ...variableValues, [name]: value });
 
-## Gemaakte afspraken/vervolgstappen
-- Lijst alle concrete afspraken en actiepunten op.
-- Vermeld wie verantwoordelijk is voor elke actie (casemanager of klant).
-- Noteer eventuele deadlines of vervolgafspraken.
+  const openEditor = (event: React.MouseEvent, nextDraft: TemplateDraft) => {
+    event.stopPropagation(); // Don't select the card
+    setError(null);
+    setDraft(nextDraft);
+  };
 
-Algemene richtlijnen:
-- Gebruik een professionele en objectieve toon.
-- Wees bondig maar volledig; vermijd onnodige details.
-- Gebruik **vetgedrukte tekst** voor belangrijke termen of concepten.
-- Zorg voor een duidelijke structuur met witregels tussen secties.
-- Baseer je uitsluitend op de informatie in het transcript, zonder eigen aannames of toevoegingen.`
+  const handleClone = (event: React.MouseEvent, template: PromptTemplate) =>
+    openEditor(event, { name: `${template.name} (kopie)`, description: template.description, prompt: template.prompt, variables: template.variables, basedOn: template.id });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(draft.id ? `/api/templates/${draft.id}` : '/api/templates', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: draft.name, description: draft.description, prompt: draft.prompt, variables: draft.variables, basedOn: draft.basedOn })
+      });
+      const data = await response.json();
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Template opslaan mislukt');
+      }
+
+      const saved: PromptTemplate = data.template;
+      setPromptTypes(prev => draft.id ? prev.map(template => template.id === saved.id ? saved : template) : [...prev, saved]);
+      onSelectPrompt(saved);
+      setDraft(null);
+      toast.success(draft.id ? 'Template bijgewerkt' : 'Template aangemaakt');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Template opslaan mislukt');
+    } finally {
+      setIsSaving(false);
     }
-  ]);
+  };
 
-  const handleSelectCard = (promptType: PromptType) => {
-    onSelectPrompt(promptType);
+  const handleDelete = async (event: React.MouseEvent, template: PromptTemplate) => {
+    event.stopPropagation();
+    if (!window.confirm(`Template "${template.name}" verwijderen?`)) return;
+
+    try {
+      const response = await fetch(`/api/templates/${template.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Template verwijderen mislukt');
+      }
+      setPromptTypes(prev => prev.filter(candidate => candidate.id !== template.id));
+      // Fall back to the default template when the selected one is gone
+      if (selectedPromptId === template.id) {
+        onSelectPrompt(builtInTemplates[0]);
+      }
+      toast.success('Template verwijderd');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Template verwijderen mislukt');
+    }
   };
 
   return (
     <div className="mb-8">
-      <h2 className="text-lg font-semibold text-foreground mb-4">Selecteer een gesprekstype voor de samenvatting:</h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-foreground">Selecteer een gesprekstype voor de samenvatting:</h2>
+        <Button variant="outline" size="sm" onClick={(e) => openEditor(e, { name: '', description: '', prompt: '' })}>
+          <Plus className="mr-2 h-4 w-4" /> Nieuwe template
+        </Button>
+      </div>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {promptTypes.map((promptType) => (
           <Card
@@ -488,13 +158,101 @@ Algemene richtlijnen:
             onClick={() => handleSelectCard(promptType)}
           >
             <CardHeader>
-              <CardTitle className="text-base">{promptType.name}</CardTitle> {/* Adjusted title size */}
+              <div className="flex items-start justify-between gap-2">
+                <CardTitle className="text-base">{promptType.name}</CardTitle> {/* Adjusted title size */}
+                <div className="flex flex-shrink-0 gap-1">
+                  {promptType.teamId && <span className="flex items-center text-xs text-muted-foreground" title="Template van je team"><Users className="h-3 w-3" /></span>}
+                  {promptType.builtIn ? (
+                    <span className="flex items-center text-xs text-muted-foreground" title="Standaardtemplate, alleen-lezen"><Lock className="h-3 w-3" /></span>
+                  ) : (
+                    <>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={(e) => openEditor(e, { ...promptType })} aria-label={`Bewerk ${promptType.name}`}>
+                        <Edit className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={(e) => handleDelete(e, promptType)} aria-label={`Verwijder ${promptType.name}`}>
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </>
+                  )}
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={(e) => handleClone(e, promptType)} aria-label={`Kopieer ${promptType.name}`}>
+                    <Copy className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
               <CardDescription className="text-sm">{promptType.description}</CardDescription>
             </CardHeader>
             {/* CardContent can be added if needed */}
           </Card>
         ))}
       </div>
+
+      {/* Meeting details for the template's {{variables}}; the summary uses these instead of guessing them */}
+      {variables.length > 0 && (
+        <Card className="mt-4">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center text-base">
+              <ClipboardList className="mr-2 h-4 w-4 text-primary" />
+              Gespreksgegevens
+            </CardTitle>
+            <CardDescription>Deze gegevens worden letterlijk in de samenvatting overgenomen. Velden met * zijn verplicht.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            {variables.map(variable => (
+              <div key={variable.name} className="space-y-2">
+                <Label htmlFor={`variable-${variable.name}`}>{variable.label}{variable.required && ' *'}</Label>
+                <Input
+                  id={`variable-${variable.name}`}
+                  type={variable.type === 'date' ? 'date' : 'text'}
+                  value={variableValues[variable.name] ?? ''}
+                  onChange={(e) => setVariable(variable.name, e.target.value)}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Template editor */}
+      <Dialog open={draft !== null} onOpenChange={(open) => { if (!open) setDraft(null); }}>
+        <DialogContent className="sm:max-w-[700px] max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Template bewerken' : 'Nieuwe template'}</DialogTitle>
+            <DialogDescription>
+              De prompt beschrijft welke onderdelen de samenvatting moet bevatten. De transcriptie wordt automatisch meegestuurd.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4 overflow-y-auto p-1">
+              {error && (
+                <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">{error}</div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Naam</Label>
+                <Input id="template-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Bijv. Intakegesprek" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-description">Omschrijving</Label>
+                <Input id="template-description" value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="Waarvoor gebruik je deze template?" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-prompt">Prompt</Label>
+                <Textarea id="template-prompt" value={draft.prompt} onChange={(e) => setDraft({ ...draft, prompt: e.target.value })} rows={14} className="font-mono text-xs" />
+                <p className="text-xs text-muted-foreground">
+                  {draftVariables.length > 0
+                    ? `Variabelen: ${draftVariables.map(name => `{{${name}}}`).join(', ')}. Deze worden vóór het verwerken ingevuld.`
+                    : 'Gebruik {{klantnaam}}, {{adviseur}}, {{datum}} of {{dossiernummer}} voor gegevens die de gebruiker vooraf invult.'}
+                </p>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={isSaving}>Annuleren</Button>
+            <Button onClick={handleSave} disabled={isSaving || !draft?.name.trim() || !draft?.prompt.trim()}>
+              {isSaving ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Opslaan...</> : 'Opslaan'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
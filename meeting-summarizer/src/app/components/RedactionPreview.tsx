@@ -0,0 +1,68 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ShieldCheck, Eye, EyeOff } from 'lucide-react';
+import { previewRedaction, REDACTION_TYPES } from '@/lib/redaction';
+
+interface RedactionPreviewProps {
+  text: string; // The transcript (or entered text) that is summarized
+}
+
+// Shows which personal data is replaced with placeholders before the text goes to the model,
+// and the text as the model receives it. Uses the same detectors as the server.
+export default function RedactionPreview({ text }: RedactionPreviewProps) {
+  const [showRedactedText, setShowRedactedText] = useState<boolean>(false);
+  const preview = useMemo(() => previewRedaction(text), [text]);
+  const typeLabel = (type: string) => REDACTION_TYPES.find(candidate => candidate.id === type)?.label || type;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="w-5 h-5 mr-2 text-primary" />
+          Afgeschermde persoonsgegevens
+        </CardTitle>
+        <CardDescription>
+          {preview.redactions.length > 0
+            ? `${preview.redactions.length} gegeven${preview.redactions.length === 1 ? ' wordt' : 's worden'} vervangen door een placeholder voordat de tekst voor de samenvatting en verfijningen naar het taalmodel gaat. In het resultaat staan weer de echte waarden.`
+            : 'Er zijn geen BSN-nummers, IBANs, telefoonnummers, e-mailadressen, postcodes, adressen of geboortedatums gevonden.'}
+        </CardDescription>
+      </CardHeader>
+      {preview.redactions.length > 0 && (
+        <CardContent className="space-y-4">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Placeholder</th>
+                  <th className="py-2 pr-4 font-medium">Soort</th>
+                  <th className="py-2 pr-4 font-medium">Waarde</th>
+                  <th className="py-2 font-medium text-right">Aantal</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.redactions.map(redaction => (
+                  <tr key={redaction.placeholder} className="border-b">
+                    <td className="py-2 pr-4 font-mono text-xs">{redaction.placeholder}</td>
+                    <td className="py-2 pr-4">{typeLabel(redaction.type)}</td>
+                    <td className="py-2 pr-4">{redaction.value}</td>
+                    <td className="py-2 text-right">{redaction.count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setShowRedactedText(!showRedactedText)}>
+            {showRedactedText ? <EyeOff className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+            {showRedactedText ? 'Verberg wat het model ziet' : 'Toon wat het model ziet'}
+          </Button>
+          {showRedactedText && (
+            <pre className="max-h-80 overflow-y-auto whitespace-pre-wrap rounded-lg border bg-muted/30 p-4 text-xs">{preview.text}</pre>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
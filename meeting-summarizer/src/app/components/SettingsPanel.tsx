@@ -0,0 +1,122 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { chatModels, whisperModels, transcriptionProviders, transcriptionLanguages, summaryLanguages } from '@/lib/config';
+
+export interface AppSettings {
+  transcriptionProvider: string; // 'openai' | 'local' | 'fake'
+  transcriptionModel: string;
+  transcriptionLanguage: string; // ISO 639-1 code or 'auto'
+  summarizationModel: string;
+  summaryLanguage: string; // Language the summary is written in, independent of the transcript
+  temperature: number;
+  showCosts: boolean;
+  citations: boolean; // Ask for source citations in the summary
+  verifySummary: boolean; // Run the verification stage after summarizing
+  redactPii: boolean; // Replace personal data with placeholders before summaries and refinements
+}
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: Partial<AppSettings>) => void;
+}
+
+const selectClassName = "w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+export default function SettingsPanel({ settings, onChange }: SettingsPanelProps) {
+  const providerModels = whisperModels.filter(model => model.provider === settings.transcriptionProvider);
+  const selectedProvider = transcriptionProviders.find(provider => provider.id === settings.transcriptionProvider);
+  const selectedChatModel = chatModels.find(model => model.id === settings.summarizationModel);
+  const supportsTemperature = selectedChatModel?.capabilities.temperature ?? true;
+
+  // Switching provider also switches to a model that provider can run
+  const changeProvider = (providerId: string) => {
+    const firstModel = whisperModels.find(model => model.provider === providerId);
+    onChange({ transcriptionProvider: providerId, ...(firstModel ? { transcriptionModel: firstModel.id } : {}) });
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Instellingen</CardTitle>
+        <CardDescription>Kies de modellen en talen voor transcriptie en samenvatting.</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="transcription-provider">Transcriptiedienst</Label>
+          <select id="transcription-provider" className={selectClassName} value={settings.transcriptionProvider} onChange={(e) => changeProvider(e.target.value)}>
+            {transcriptionProviders.map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.name}</option>
+            ))}
+          </select>
+          {selectedProvider && <p className="text-xs text-muted-foreground">{selectedProvider.description}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="transcription-model">Transcriptiemodel</Label>
+          <select id="transcription-model" className={selectClassName} value={settings.transcriptionModel} onChange={(e) => onChange({ transcriptionModel: e.target.value })}>
+            {providerModels.map(model => (
+              <option key={model.id} value={model.id}>{model.name} - {model.description}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="transcription-language">Taal van de opname</Label>
+          <select id="transcription-language" className={selectClassName} value={settings.transcriptionLanguage} onChange={(e) => onChange({ transcriptionLanguage: e.target.value })}>
+            {transcriptionLanguages.map(language => (
+              <option key={language.code} value={language.code}>{language.name}</option>
+            ))}
+          </select>
+          <p className="text-xs text-muted-foreground">Gebruik automatisch detecteren voor Engelstalige of meertalige gesprekken.</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="summarization-model">Samenvattingsmodel</Label>
+          <select id="summarization-model" className={selectClassName} value={settings.summarizationModel} onChange={(e) => onChange({ summarizationModel: e.target.value })}>
+            {chatModels.map(model => (
+              <option key={model.id} value={model.id}>{model.name} - {model.description}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="summary-language">Taal van de samenvatting</Label>
+          <select id="summary-language" className={selectClassName} value={settings.summaryLanguage} onChange={(e) => onChange({ summaryLanguage: e.target.value })}>
+            {summaryLanguages.map(language => (
+              <option key={language.code} value={language.code}>{language.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="temperature">Creativiteit (temperature): {settings.temperature.toFixed(1)}</Label>
+          <input id="temperature" type="range" min={0} max={1} step={0.1} value={settings.temperature} onChange={(e) => onChange({ temperature: parseFloat(e.target.value) })} className="w-full" disabled={!supportsTemperature} />
+          {!supportsTemperature && <p className="text-xs text-muted-foreground">Dit model ondersteunt geen temperature-instelling.</p>}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input id="show-costs" type="checkbox" checked={settings.showCosts} onChange={(e) => onChange({ showCosts: e.target.checked })} className="h-4 w-4" />
+          <Label htmlFor="show-costs">Kosten tonen</Label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input id="citations" type="checkbox" checked={settings.citations} onChange={(e) => onChange({ citations: e.target.checked })} className="h-4 w-4" />
+          <Label htmlFor="citations">Bronvermelding per uitspraak (verwijzingen naar de transcriptie)</Label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input id="verify-summary" type="checkbox" checked={settings.verifySummary} onChange={(e) => onChange({ verifySummary: e.target.checked })} className="h-4 w-4" />
+          <Label htmlFor="verify-summary">Samenvatting controleren op beweringen die niet in de transcriptie staan (extra stap)</Label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input id="redact-pii" type="checkbox" checked={settings.redactPii} onChange={(e) => onChange({ redactPii: e.target.checked })} className="h-4 w-4" />
+          <Label htmlFor="redact-pii">Persoonsgegevens afschermen (BSN, IBAN, telefoonnummers, adressen, ...) voordat tekst naar het taalmodel gaat</Label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
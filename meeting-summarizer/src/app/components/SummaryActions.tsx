@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import React from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,21 +8,34 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Loader2, Copy, Check, Wand2, MessageSquarePlus, TextSearch, Mail, ListChecks } from 'lucide-react'; // Added Mail, ListChecks icons
 import { toast } from "sonner"; // Import toast
+import { readEventStream } from '@/lib/sse';
+import { type ActionItem } from '@/lib/actionItems';
+import { type TranscriptSegment } from '@/lib/transcript';
 
 // Removed MotionDiv definition
 
 interface SummaryActionsProps {
   summary: string;
   transcription: string;
+  segments?: TranscriptSegment[]; // Sent along so the transcript context keeps speakers and timestamps
+  meetingId?: string | null; // The saved meeting, so refinements are recorded in its audit trail
+  redactPii?: boolean; // Replace personal data with placeholders before it goes to the model
   onRefinedSummary: (refinedSummary: string) => void;
+  onActionItems: (items: ActionItem[]) => void; // Extracted action items, shown next to the summary
   onOpenEmailModal: () => void; // Restore prop
+  onRefinementStream?: (stream: { text: string; stop: () => void } | null) => void; // Live text of a running refinement, null when done
 }
 
 export default function SummaryActions({
   summary,
   transcription,
+  segments = [],
+  meetingId = null,
+  redactPii = false,
   onRefinedSummary,
+  onActionItems,
   onOpenEmailModal, // Restore prop
+  onRefinementStream,
 }: SummaryActionsProps) { // Use full props type
   const [loading, setLoading] = useState<boolean>(false);
   const [activeAction, setActiveAction] = useState<string | null>(null); // Tracks which button is loading
@@ -30,6 +43,10 @@ export default function SummaryActions({
   const [customPrompt, setCustomPrompt] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
   const [isTranscriptCopied, setIsTranscriptCopied] = useState<boolean>(false); // State for copy feedback
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop a running refinement when the screen is left
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   // Validate inputs before making API calls
   const validateInputs = () => {
@@ -46,37 +63,77 @@ export default function SummaryActions({
     return true;
   };
 
-  const handleDetailedAction = async () => {
-    if (!validateInputs()) return;
-    
-    setLoading(true);
-    setActiveAction('make-detailed');
-    setError(null);
-    
+  // Streams a refinement from the API and returns the final text, or null when the user stopped it.
+  // A stopped refinement leaves the current summary untouched.
+  const requestRefinement = async (body: Record<string, unknown>, fallbackError: string): Promise<string | null> => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const stop = () => controller.abort();
+    let streamedText = '';
+
     try {
       const response = await fetch('/api/refine-summary', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream'
         },
         body: JSON.stringify({
           summary,
           transcript: transcription,
-          action: 'make-detailed'
-        })
+          segments: segments.length > 0 ? segments : undefined,
+          meetingId,
+          redactPii,
+          ...body
+        }),
+        signal: controller.signal
       });
-      
-      const data = await response.json();
-      
+
       if (!response.ok) {
-        throw new Error(data.error || 'Onbekende fout bij het verfijnen van de samenvatting');
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || fallbackError);
       }
-      
-      if (data.error) {
-        throw new Error(data.error);
+
+      let refinedSummary = null as string | null;
+      let streamError = null as string | null;
+      await readEventStream(response, (event, data) => {
+        if (event === 'delta') {
+          streamedText += data.text;
+          onRefinementStream?.({ text: streamedText, stop });
+        } else if (event === 'result') {
+          refinedSummary = data.refinedSummary;
+        } else if (event === 'error') {
+          streamError = data.error;
+        }
+      });
+
+      if (streamError) throw new Error(streamError);
+      if (refinedSummary === null) throw new Error(fallbackError);
+      return refinedSummary;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast.info('Verfijning gestopt');
+        return null;
+      }
+      throw error;
+    } finally {
+      abortControllerRef.current = null;
+      onRefinementStream?.(null);
+    }
+  };
+
+  const handleDetailedAction = async () => {
+    if (!validateInputs()) return;
+    
+    setLoading(true);
+    setActiveAction('make-detailed');
+    setError(null);
+    
+    try {
+      const refinedSummary = await requestRefinement({ action: 'make-detailed' }, 'Onbekende fout bij het verfijnen van de samenvatting');
+      if (refinedSummary !== null) {
+        onRefinedSummary(refinedSummary);
       }
-      
-      onRefinedSummary(data.refinedSummary);
     } catch (error) {
       console.error('Error refining summary:', error);
       setError(error instanceof Error ? error.message : 'Er is een fout opgetreden bij het verfijnen van de samenvatting');
@@ -99,31 +156,11 @@ export default function SummaryActions({
     setError(null);
     
     try {
-      const response = await fetch('/api/refine-summary', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          summary,
-          transcript: transcription,
-          action: 'elaborate-topic',
-          topic: topicInput
-        })
-      });
-      
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.error || 'Onbekende fout bij het uitbreiden van het onderwerp');
+      const refinedSummary = await requestRefinement({ action: 'elaborate-topic', topic: topicInput }, 'Onbekende fout bij het uitbreiden van het onderwerp');
+      if (refinedSummary !== null) {
+        onRefinedSummary(refinedSummary);
+        setTopicInput('');
       }
-      
-      if (data.error) {
-        throw new Error(data.error);
-      }
-      
-      onRefinedSummary(data.refinedSummary);
-      setTopicInput('');
     } catch (error) {
       console.error('Error elaborating topic:', error);
       setError(error instanceof Error ? error.message : 'Er is een fout opgetreden bij het uitbreiden van het onderwerp');
@@ -146,31 +183,11 @@ export default function SummaryActions({
     setError(null);
     
     try {
-      const response = await fetch('/api/refine-summary', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          summary,
-          transcript: transcription,
-          action: 'custom',
-          customPrompt
-        })
-      });
-      
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.error || 'Onbekende fout bij de aangepaste verfijning');
-      }
-      
-      if (data.error) {
-        throw new Error(data.error);
+      const refinedSummary = await requestRefinement({ action: 'custom', customPrompt }, 'Onbekende fout bij de aangepaste verfijning');
+      if (refinedSummary !== null) {
+        onRefinedSummary(refinedSummary);
+        setCustomPrompt('');
       }
-      
-      onRefinedSummary(data.refinedSummary);
-      setCustomPrompt('');
     } catch (error) {
       console.error('Error with custom refinement:', error);
       setError(error instanceof Error ? error.message : 'Er is een fout opgetreden bij de aangepaste verfijning');
@@ -188,13 +205,17 @@ export default function SummaryActions({
     setError(null);
 
     try {
+      // Action items come back as structured JSON; the summary itself stays as it is
       const response = await fetch('/api/refine-summary', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           summary, // Use current summary as context
           transcript: transcription,
-          action: 'extract-actions' // New action type
+          segments: segments.length > 0 ? segments : undefined,
+          meetingId,
+          redactPii,
+          action: 'extract-actions'
         })
       });
 
@@ -203,10 +224,8 @@ export default function SummaryActions({
         throw new Error(data.error || 'Onbekende fout bij het extraheren van actiepunten');
       }
 
-      // Decide how to display actions - replace summary or show separately?
-      // For now, let's replace the summary with the extracted actions.
-      onRefinedSummary(data.refinedSummary);
-      toast.success("Actiepunten geëxtraheerd!");
+      onActionItems(data.actionItems);
+      toast.success(data.actionItems.length > 0 ? "Actiepunten geëxtraheerd!" : "Geen actiepunten gevonden");
 
     } catch (error) {
       console.error('Error extracting action items:', error);
@@ -0,0 +1,258 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Columns2, Loader2, Square, Star, Check } from 'lucide-react';
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { chatModels } from '@/lib/config';
+import { type TemplateVersion } from '@/lib/templates';
+import { type TranscriptSegment } from '@/lib/transcript';
+import { diffLines, diffStats, toSideBySide } from '@/lib/textDiff';
+import { type PromptType } from './PromptSelector';
+
+interface SummaryComparisonProps {
+  template: PromptType; // The template used for the current summary
+  transcription: string;
+  segments: TranscriptSegment[];
+  variables: Record<string, string>;
+  settings: { summarizationModel: string; temperature: number; summaryLanguage: string; redactPii?: boolean };
+  meetingId?: string | null; // The saved meeting, so the runs are recorded in its audit trail
+  onTemplatePromoted: (template: PromptType) => void;
+  onUseSummary: (summary: string) => void;
+}
+
+// One side of the comparison: a template version run with a model
+interface ComparisonSide {
+  version: number;
+  model: string;
+}
+
+interface ComparisonResult {
+  summary: string;
+  modelName: string;
+}
+
+const selectClassName = "w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+const rowClassNames = {
+  equal: ['', ''],
+  changed: ['bg-red-50 text-red-900', 'bg-green-50 text-green-900'],
+  removed: ['bg-red-50 text-red-900', 'bg-muted/40'],
+  added: ['bg-muted/40', 'bg-green-50 text-green-900'],
+};
+
+export default function SummaryComparison({ template, transcription, segments, variables, settings, meetingId = null, onTemplatePromoted, onUseSummary }: SummaryComparisonProps) {
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [sides, setSides] = useState<[ComparisonSide, ComparisonSide] | null>(null);
+  const [results, setResults] = useState<[ComparisonResult, ComparisonResult] | null>(null);
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [isPromoting, setIsPromoting] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadVersions = async () => {
+    const response = await fetch(`/api/templates/${template.id}/versions`);
+    const data = await response.json();
+    if (!response.ok || data.error) {
+      throw new Error(data.error || 'Versies laden mislukt');
+    }
+    return data.versions as TemplateVersion[];
+  };
+
+  // Start with the current version against the previous one, or against another model when there is only one version
+  useEffect(() => {
+    let cancelled = false;
+    setResults(null);
+    loadVersions()
+      .then(loaded => {
+        if (cancelled) return;
+        const current = template.version || loaded[0]?.version || 1;
+        const previous = loaded.find(version => version.version !== current);
+        const otherModel = chatModels.find(model => model.id !== settings.summarizationModel)?.id || settings.summarizationModel;
+        setVersions(loaded);
+        setSides([
+          { version: current, model: settings.summarizationModel },
+          previous ? { version: previous.version, model: settings.summarizationModel } : { version: current, model: otherModel },
+        ]);
+      })
+      .catch(error => { if (!cancelled) setError(error instanceof Error ? error.message : 'Versies laden mislukt'); });
+    return () => { cancelled = true; abortRef.current?.abort(); };
+  }, [template.id]);
+
+  const updateSide = (index: 0 | 1, update: Partial<ComparisonSide>) => {
+    if (!sides) return;
+    const next: [ComparisonSide, ComparisonSide] = [...sides];
+    next[index] = { ...next[index], ...update };
+    setSides(next);
+    setResults(null);
+  };
+
+  const summarize = async (side: ComparisonSide, signal: AbortSignal): Promise<ComparisonResult> => {
+    const version = versions.find(candidate => candidate.version === side.version);
+    const response = await fetch('/api/summarize', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text: transcription,
+        segments: segments.length > 0 ? segments : undefined,
+        model: side.model,
+        temperature: settings.temperature,
+        summaryLanguage: settings.summaryLanguage,
+        prompt: version?.prompt ?? template.prompt,
+        variables,
+        redactPii: settings.redactPii,
+        meetingId
+      }),
+      signal
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || data.error) {
+      throw new Error(data.error || `Serverfout ${response.status}`);
+    }
+    return { summary: data.summary || '', modelName: data.usage?.model || side.model };
+  };
+
+  // Both sides run at the same time on the same transcript
+  const handleCompare = async () => {
+    if (!sides) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsComparing(true);
+    setError(null);
+    setResults(null);
+
+    try {
+      const [first, second] = await Promise.all(sides.map(side => summarize(side, controller.signal)));
+      setResults([first, second]);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast.info('Vergelijking gestopt');
+      } else {
+        setError(error instanceof Error ? error.message : 'Vergelijken mislukt');
+      }
+    } finally {
+      abortRef.current = null;
+      setIsComparing(false);
+    }
+  };
+
+  const handlePromote = async (version: number) => {
+    setIsPromoting(version);
+    try {
+      const response = await fetch(`/api/templates/${template.id}/promote`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version })
+      });
+      const data = await response.json();
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Standaard maken mislukt');
+      }
+      onTemplatePromoted(data.template);
+      toast.success(`Versie ${version} is nu de standaard voor "${data.template.name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Standaard maken mislukt');
+    } finally {
+      setIsPromoting(null);
+    }
+  };
+
+  const operations = results ? diffLines(results[0].summary, results[1].summary) : [];
+  const rows = toSideBySide(operations);
+  const stats = diffStats(operations);
+  const defaultVersion = template.version || versions[0]?.version || 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Columns2 className="w-5 h-5 mr-2 text-primary" />
+          Versies en modellen vergelijken
+        </CardTitle>
+        <CardDescription>
+          Vat dezelfde transcriptie samen met twee versies van &quot;{template.name}&quot; of met twee modellen en bekijk de verschillen.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">{error}</div>}
+
+        {sides && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {sides.map((side, index) => (
+              <div key={index} className="space-y-2 rounded-lg border p-3">
+                <Label htmlFor={`compare-version-${index}`}>{index === 0 ? 'Links' : 'Rechts'}</Label>
+                <select id={`compare-version-${index}`} className={selectClassName} value={side.version} disabled={isComparing} onChange={(e) => updateSide(index as 0 | 1, { version: Number(e.target.value) })}>
+                  {versions.map(version => (
+                    <option key={version.version} value={version.version}>
+                      Versie {version.version}{version.version === defaultVersion ? ' (standaard)' : ''}{version.createdAt ? ` - ${new Date(version.createdAt).toLocaleString('nl-NL')}` : ''}
+                    </option>
+                  ))}
+                </select>
+                <select aria-label="Model" className={selectClassName} value={side.model} disabled={isComparing} onChange={(e) => updateSide(index as 0 | 1, { model: e.target.value })}>
+                  {chatModels.map(model => (
+                    <option key={model.id} value={model.id}>{model.name}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {isComparing ? (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+              <Square className="mr-2 h-4 w-4" /> Stoppen
+            </Button>
+          ) : null}
+          <Button onClick={handleCompare} disabled={!sides || isComparing || !transcription}>
+            {isComparing ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Bezig met vergelijken...</> : 'Vergelijken'}
+          </Button>
+        </div>
+
+        {results && sides && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {stats.removed === 0 && stats.added === 0
+                ? 'De samenvattingen zijn gelijk.'
+                : `${stats.removed} regel${stats.removed === 1 ? '' : 's'} alleen links, ${stats.added} alleen rechts, ${stats.unchanged} gelijk.`}
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {results.map((result, index) => {
+                const side = sides[index];
+                return (
+                  <div key={index} className="flex flex-wrap items-center justify-between gap-2 rounded-md bg-muted/50 px-3 py-2 text-sm">
+                    <span className="font-medium">Versie {side.version} · {result.modelName}</span>
+                    <div className="flex gap-1">
+                      {!template.builtIn && side.version !== defaultVersion && (
+                        <Button variant="ghost" size="sm" onClick={() => handlePromote(side.version)} disabled={isPromoting !== null}>
+                          {isPromoting === side.version ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <Star className="mr-1 h-3.5 w-3.5" />} Maak standaard
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => onUseSummary(result.summary)}>
+                        <Check className="mr-1 h-3.5 w-3.5" /> Gebruik
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="max-h-[600px] overflow-auto rounded-md border font-mono text-xs">
+              {rows.map((row, index) => (
+                <div key={index} className="grid grid-cols-2 divide-x">
+                  {[row.left, row.right].map((line, column) => (
+                    <div key={column} className={cn('whitespace-pre-wrap break-words px-2 py-0.5', rowClassNames[row.type][column])}>
+                      {line ?? ''}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
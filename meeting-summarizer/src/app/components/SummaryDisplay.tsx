@@ -1,12 +1,15 @@
 // src/app/components/SummaryDisplay.tsx
 'use client';
 
-import { useState, useRef, useMemo } from 'react'; // Added useMemo
+import { useState, useRef, useMemo, useEffect } from 'react'; // Added useMemo
 import React, { ReactNode } from 'react';
 import Markdown from 'markdown-to-jsx';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Copy, Check, Loader2 } from 'lucide-react'; // Import icons
+import { Copy, Check, Loader2, Square, AlertTriangle, ShieldCheck } from 'lucide-react'; // Import icons
+import { type SummaryCitation, type CitationSource, citationLabel, replaceCitationMarkers, stripCitationMarkers } from '@/lib/citations';
+import { formatTimestamp } from '@/lib/transcript';
+import { type VerifiedClaim, claimText } from '@/lib/claims';
 
 // Removed MotionDiv and MotionButton definitions
 
@@ -46,15 +49,74 @@ const parsePipeRow = (line: string): string[] => {
   return line.trim().slice(1, -1).split('|').map(cell => cell.trim());
 };
 
+// While streaming, the last line may be half a table row; hold it back until the row is complete
+// so it does not flash as plain text before it moves into the table
+const withoutPartialTableRow = (markdown: string): string => {
+  const lastNewline = markdown.lastIndexOf('\n');
+  const lastLine = markdown.slice(lastNewline + 1).trim();
+  return lastLine.startsWith('|') ? markdown.slice(0, Math.max(0, lastNewline)) : markdown;
+};
+
+// A citation placed after the closing '|' of a table row belongs in the row's last cell
+const moveTableRowCitations = (markdown: string): string =>
+  markdown.replace(/\|[ \t]*((?:\[#[^\]\n]+\][ \t]*)+)$/gm, ' $1|');
+
+// Citation markers become <cite> elements, rendered as clickable markers by the Markdown override
+const withCitationElements = (markdown: string): string =>
+  replaceCitationMarkers(markdown, ids => `<cite data-passages="${ids.join(',')}"></cite>`);
+
+// Claims the verification flagged get a <mark> element at the end of their line (in the last cell of a table row)
+const withClaimWarnings = (markdown: string, flagged: Map<string, VerifiedClaim>): string => {
+  if (flagged.size === 0) return markdown;
+  return markdown.split('\n').map(line => {
+    const claim = flagged.get(claimText(line));
+    if (!claim) return line;
+    const mark = `<mark data-claim="${claim.id}"></mark>`;
+    const trimmed = line.trimEnd();
+    return trimmed.trimStart().startsWith('|') && trimmed.endsWith('|') ? `${trimmed.slice(0, -1)} ${mark} |` : `${trimmed} ${mark}`;
+  }).join('\n');
+};
+
+const withoutMarkup = (text: string) => stripCitationMarkers(text).replace(/ ?<mark data-claim="\d+"><\/mark>/g, '');
+
+const describeSource = (source: CitationSource) =>
+  `${source.speaker || 'Transcriptie'}${source.start !== undefined ? ` (${formatTimestamp(source.start)})` : ''}: "${source.quote}"`;
+
 
 interface SummaryDisplayProps {
   summary: string;
   isLoading: boolean;
+  isStreaming?: boolean; // The summary is still being generated and grows with every render
+  onStop?: () => void;   // Stops the generation on the server
+  citations?: SummaryCitation[]; // Sources of the statements, referenced by the [#n] markers in the summary
+  onCitationClick?: (passageIds: number[]) => void; // Shows the cited passages in the transcript
+  claims?: VerifiedClaim[]; // Result of the verification; unsupported and contradicted claims get an inline warning
 }
 
-export default function SummaryDisplay({ summary, isLoading }: SummaryDisplayProps) {
+export default function SummaryDisplay({ summary: fullSummary, isLoading, isStreaming = false, onStop, citations = [], onCitationClick, claims }: SummaryDisplayProps) {
   const [copied, setCopied] = useState<boolean>(false);
   const contentRef = useRef<HTMLDivElement>(null);
+  const flaggedClaims = useMemo(
+    () => new Map((claims || []).filter(claim => claim.verdict !== 'supported').map(claim => [claim.text, claim])),
+    [claims]
+  );
+  const summary = withClaimWarnings(moveTableRowCitations(isStreaming ? withoutPartialTableRow(fullSummary) : fullSummary), flaggedClaims);
+
+  // Cited passages by id, for the marker labels and tooltips
+  const sources = useMemo(() => {
+    const byId = new Map<number, CitationSource>();
+    citations.forEach(citation => citation.sources.forEach(source => byId.set(source.passageId, source)));
+    return byId;
+  }, [citations]);
+
+  // Follow the text as it streams in, unless the user scrolled up to read
+  useEffect(() => {
+    const container = contentRef.current;
+    if (!isStreaming || !container) return;
+    if (container.scrollHeight - container.scrollTop - container.clientHeight < 120) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [summary, isStreaming]);
 
   const copyToClipboard = async () => {
     if (!summary) return;
@@ -105,16 +167,18 @@ export default function SummaryDisplay({ summary, isLoading }: SummaryDisplayPro
 
     parsedContent.forEach(item => {
       if (item.type === 'markdown' && typeof item.content === 'string') {
-        plainTextContent += item.content + '\n'; // Keep original markdown for plain text
-        htmlContent += markdownToSimpleHtml(item.content) + '\n'; // Convert markdown to simple HTML
+        const content = withoutMarkup(item.content); // Citations and warnings only work on screen
+        plainTextContent += content + '\n'; // Keep original markdown for plain text
+        htmlContent += markdownToSimpleHtml(content) + '\n'; // Convert markdown to simple HTML
       } else if (item.type === 'table' && Array.isArray(item.content)) {
+        const table = item.content.map(row => row.map(withoutMarkup));
         // For plain text, recreate the markdown table format
-        plainTextContent += item.content.map(row => '| ' + row.join(' | ') + ' |').join('\n') + '\n';
+        plainTextContent += table.map(row => '| ' + row.join(' | ') + ' |').join('\n') + '\n';
         // Add the separator line for plain text markdown table
-        if (item.content.length > 0) {
-             plainTextContent += '|' + item.content[0].map(() => '---|').join('') + '|\n';
+        if (table.length > 0) {
+             plainTextContent += '|' + table[0].map(() => '---|').join('') + '|\n';
         }
-        htmlContent += generateHtmlTable(item.content) + '\n'; // Generate HTML table
+        htmlContent += generateHtmlTable(table) + '\n'; // Generate HTML table
       }
     });
  
@@ -219,10 +283,49 @@ export default function SummaryDisplay({ summary, isLoading }: SummaryDisplayPro
     );
   }
 
-  if (!summary) { return null; }
+  if (!summary && !isStreaming) { return null; }
+
+  // Marker for a citation: the timestamp (or number) of the first source, the quotes as tooltip
+  const CitationMarker = (props: { 'data-passages'?: string }) => {
+    const ids = (props['data-passages'] || '').split(',').map(Number).filter(id => !Number.isNaN(id));
+    if (ids.length === 0) return null;
+    const known = ids.map(id => sources.get(id)).filter((source): source is CitationSource => Boolean(source));
+    const label = `${citationLabel(known[0] || { passageId: ids[0] })}${ids.length > 1 ? ` +${ids.length - 1}` : ''}`;
+    return (
+      <button
+        type="button"
+        onClick={() => onCitationClick?.(ids)}
+        disabled={!onCitationClick}
+        title={known.length > 0 ? known.map(describeSource).join('\n') : 'Bron in de transcriptie'}
+        className="mx-0.5 rounded bg-blue-50 px-1 align-super text-[10px] font-medium leading-none text-blue-700 hover:bg-blue-100 disabled:cursor-default"
+      >
+        {label}
+      </button>
+    );
+  };
+
+  // Inline warning for a claim the transcript does not support, with the reason
+  const ClaimWarning = (props: { 'data-claim'?: string }) => {
+    const claim = claims?.find(candidate => candidate.id === Number(props['data-claim']));
+    if (!claim) return null;
+    const contradicted = claim.verdict === 'contradicted';
+    return (
+      <span
+        title={claim.quote ? `Transcriptie: "${claim.quote}"` : undefined}
+        className={`ml-1 inline rounded px-1.5 py-0.5 text-xs ${contradicted ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'}`}
+      >
+        <AlertTriangle className="mr-1 inline h-3 w-3 align-[-2px]" />
+        <span className="font-medium">{contradicted ? 'Tegengesproken' : 'Niet onderbouwd'}:</span> {claim.reason}
+      </span>
+    );
+  };
+
+  const flaggedCount = claims ? claims.filter(claim => claim.verdict !== 'supported').length : 0;
 
   const markdownOptions = {
     overrides: {
+      cite: { component: CitationMarker },
+      mark: { component: ClaimWarning },
       table: { component: MyTable },
       thead: { component: MyThead },
       tbody: { component: MyTbody },
@@ -248,13 +351,33 @@ export default function SummaryDisplay({ summary, isLoading }: SummaryDisplayPro
         <CardTitle className="text-xl font-semibold text-gray-800"> {/* Darker title */}
           Samenvatting
         </CardTitle>
-        {/* Adjust copy button for light background */}
-        <Button variant="ghost" size="icon" onClick={copyToClipboard} aria-label="Kopieer samenvatting" className="text-gray-600 hover:text-gray-900 hover:bg-gray-100">
-          {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
-        </Button>
+        {isStreaming ? (
+          <div className="flex items-center gap-2">
+            <span className="flex items-center text-sm text-gray-500"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Wordt geschreven...</span>
+            {onStop && (
+              <Button variant="outline" size="sm" onClick={onStop} className="text-gray-700">
+                <Square className="mr-2 h-3 w-3 fill-current" /> Stoppen
+              </Button>
+            )}
+          </div>
+        ) : (
+          // Adjust copy button for light background
+          <Button variant="ghost" size="icon" onClick={copyToClipboard} aria-label="Kopieer samenvatting" className="text-gray-600 hover:text-gray-900 hover:bg-gray-100">
+            {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+          </Button>
+        )}
       </CardHeader>
 
       <CardContent className="p-6">
+         {/* Outcome of the verification, the warnings themselves are inline */}
+         {claims && claims.length > 0 && !isStreaming && (
+           <div className={`mb-4 flex items-center rounded-md px-3 py-2 text-sm ${flaggedCount > 0 ? 'bg-amber-50 text-amber-900' : 'bg-green-50 text-green-900'}`}>
+             {flaggedCount > 0 ? <AlertTriangle className="mr-2 h-4 w-4" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+             {flaggedCount > 0
+               ? `${flaggedCount} van ${claims.length} beweringen worden niet ondersteund door de transcriptie. Controleer de gemarkeerde punten.`
+               : `Alle ${claims.length} beweringen worden ondersteund door de transcriptie.`}
+           </div>
+         )}
          {/* Ensure container text color is dark */}
         <div ref={contentRef} className="max-w-none max-h-[70vh] overflow-y-auto pr-2 custom-scrollbar text-sm text-gray-800"> {/* Set base text color */}
           {parsedContent.map((item, index) => {
@@ -283,7 +406,7 @@ export default function SummaryDisplay({ summary, isLoading }: SummaryDisplayPro
                         {row.map((cell, cIndex) => (
                           <MyTd key={`td-${index}-${rIndex}-${cIndex}`}>
                             {/* Render cell content using Markdown again */}
-                            <Markdown options={markdownOptions}>{cell || ''}</Markdown>
+                            <Markdown options={markdownOptions}>{withCitationElements(cell || '')}</Markdown>
                           </MyTd>
                         ))}
                       </MyTr>
@@ -293,11 +416,12 @@ export default function SummaryDisplay({ summary, isLoading }: SummaryDisplayPro
               );
             // Render Markdown Block
             } else if (item.type === 'markdown' && typeof item.content === 'string' && item.content.trim()) {
-              return <Markdown key={`md-${index}`} options={markdownOptions}>{item.content}</Markdown>;
+              return <Markdown key={`md-${index}`} options={markdownOptions}>{withCitationElements(item.content)}</Markdown>;
             }
             // Skip rendering empty markdown blocks entirely
             return null; // Return null for empty blocks or unhandled types
           })}
+          {isStreaming && <span className="inline-block h-4 w-2 animate-pulse bg-gray-400 align-middle" aria-hidden="true" />}
         </div>
       </CardContent>
       <style jsx global>{`
@@ -0,0 +1,213 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import Markdown from 'markdown-to-jsx';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MessageSquare, Send, Square, Loader2, Quote, AlertTriangle, Trash2 } from 'lucide-react';
+import { toast } from "sonner";
+import { readEventStream } from '@/lib/sse';
+import { formatTimestamp, type TranscriptSegment } from '@/lib/transcript';
+import { type AnswerQuote } from '@/lib/transcriptQa';
+
+interface TranscriptChatProps {
+  transcription: string;
+  segments: TranscriptSegment[];
+  summary: string;
+  model: string;
+  redactPii?: boolean; // Replace personal data with placeholders before it goes to the model
+  onQuoteClick?: (passageIds: number[]) => void; // Shows the quoted passages in the transcript
+}
+
+interface ChatEntry {
+  role: 'user' | 'assistant';
+  content: string;
+  quotes?: AnswerQuote[];
+}
+
+const exampleQuestions = ['Welke besluiten zijn er genomen?', 'Wie neemt welke actie?', 'Welke bedragen zijn genoemd?'];
+
+export default function TranscriptChat({ transcription, segments, summary, model, redactPii = false, onQuoteClick }: TranscriptChatProps) {
+  const [messages, setMessages] = useState<ChatEntry[]>([]);
+  const [question, setQuestion] = useState<string>('');
+  const [streamedAnswer, setStreamedAnswer] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+  const isAsking = streamedAnswer !== null;
+
+  // A new transcript starts a new conversation; a running answer stops when the screen is left
+  useEffect(() => { setMessages([]); setError(null); }, [transcription]);
+  useEffect(() => () => abortRef.current?.abort(), []);
+  useEffect(() => { endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' }); }, [messages.length, streamedAnswer]);
+
+  const ask = async (text: string) => {
+    const asked = text.trim();
+    if (!asked || isAsking) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const history = messages.map(({ role, content }) => ({ role, content }));
+    setMessages([...messages, { role: 'user', content: asked }]);
+    setQuestion('');
+    setError(null);
+    setStreamedAnswer('');
+
+    let streamed = '';
+    try {
+      const response = await fetch('/api/ask', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+        body: JSON.stringify({
+          question: asked,
+          history,
+          summary,
+          text: transcription,
+          segments: segments.length > 0 ? segments : undefined,
+          model,
+          redactPii
+        }),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Serverfout ${response.status}`);
+      }
+
+      let result = null as { answer: string; quotes: AnswerQuote[] } | null;
+      let streamError = null as string | null;
+      await readEventStream(response, (event, data) => {
+        if (event === 'delta') { streamed += data.text; setStreamedAnswer(streamed); }
+        else if (event === 'result') result = data;
+        else if (event === 'error') streamError = data.error;
+      });
+      if (streamError) throw new Error(streamError);
+      if (!result) throw new Error('Geen antwoord ontvangen van de server');
+
+      setMessages(current => [...current, { role: 'assistant', content: result!.answer, quotes: result!.quotes }]);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep what was written so far so the conversation stays readable
+        if (streamed) setMessages(current => [...current, { role: 'assistant', content: `${streamed}\n\n*(gestopt)*` }]);
+        toast.info('Antwoord gestopt');
+      } else {
+        setError(error instanceof Error ? error.message : 'Beantwoorden mislukt');
+      }
+    } finally {
+      abortRef.current = null;
+      setStreamedAnswer(null);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      ask(question);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center">
+            <MessageSquare className="w-5 h-5 mr-2 text-primary" />
+            Vragen over het gesprek
+          </CardTitle>
+          <CardDescription>
+            Stel vragen over de transcriptie. Antwoorden worden onderbouwd met citaten; klik op een citaat om het in de transcriptie te zien.
+          </CardDescription>
+        </div>
+        {messages.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setMessages([])} disabled={isAsking}>
+            <Trash2 className="mr-2 h-4 w-4" /> Wissen
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {messages.length === 0 && !isAsking && (
+          <div className="flex flex-wrap gap-2">
+            {exampleQuestions.map(example => (
+              <Button key={example} variant="outline" size="sm" onClick={() => ask(example)}>
+                {example}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {(messages.length > 0 || isAsking) && (
+          <div className="max-h-[500px] space-y-3 overflow-y-auto">
+            {messages.map((message, index) => (
+              message.role === 'user' ? (
+                <div key={index} className="ml-auto w-fit max-w-[85%] rounded-lg bg-primary px-3 py-2 text-sm text-primary-foreground">
+                  {message.content}
+                </div>
+              ) : (
+                <div key={index} className="max-w-[95%] space-y-2 rounded-lg border bg-muted/30 px-3 py-2 text-sm">
+                  <div className="prose prose-sm max-w-none">
+                    <Markdown>{message.content}</Markdown>
+                  </div>
+                  {message.quotes && message.quotes.length > 0 && (
+                    <div className="flex flex-wrap gap-2 border-t pt-2">
+                      {message.quotes.map((quote, quoteIndex) => quote.found ? (
+                        <button
+                          key={quoteIndex}
+                          type="button"
+                          onClick={() => onQuoteClick?.(quote.passageIds)}
+                          disabled={!onQuoteClick}
+                          className="inline-flex items-center rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-700 hover:bg-blue-100"
+                          title={quote.text}
+                        >
+                          <Quote className="mr-1 h-3 w-3" />
+                          {[quote.speaker, quote.start !== undefined ? formatTimestamp(quote.start) : null].filter(Boolean).join(' · ') || 'Bekijk in transcriptie'}
+                        </button>
+                      ) : (
+                        <span key={quoteIndex} className="inline-flex items-center rounded-full bg-amber-50 px-2 py-0.5 text-xs text-amber-800" title={quote.text}>
+                          <AlertTriangle className="mr-1 h-3 w-3" /> Citaat niet letterlijk gevonden
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            ))}
+            {isAsking && (
+              <div className="max-w-[95%] rounded-lg border bg-muted/30 px-3 py-2 text-sm">
+                {streamedAnswer ? (
+                  <div className="prose prose-sm max-w-none"><Markdown>{streamedAnswer}</Markdown></div>
+                ) : (
+                  <span className="flex items-center text-muted-foreground"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Transcriptie doorzoeken...</span>
+                )}
+              </div>
+            )}
+            <div ref={endRef} />
+          </div>
+        )}
+
+        {error && <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">{error}</div>}
+
+        <div className="flex items-end gap-2">
+          <Textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Bijvoorbeeld: wat is er afgesproken over de rentevaste periode?"
+            rows={2}
+            className="flex-1"
+            aria-label="Vraag"
+          />
+          {isAsking ? (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+              <Square className="mr-2 h-4 w-4" /> Stoppen
+            </Button>
+          ) : (
+            <Button onClick={() => ask(question)} disabled={!question.trim() || !transcription}>
+              <Send className="mr-2 h-4 w-4" /> Vragen
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
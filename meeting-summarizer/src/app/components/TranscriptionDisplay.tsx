@@ -1,8 +1,10 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence, MotionProps } from 'framer-motion';
 import React, { HTMLAttributes, forwardRef } from 'react';
+import { TranscriptSegment, groupTurns, listSpeakers, findSegmentAtTime, formatTimestamp } from '@/lib/transcript';
+import { languageName } from '@/lib/language';
 
 type MotionDivProps = HTMLAttributes<HTMLDivElement> & MotionProps;
 const MotionDiv = forwardRef<HTMLDivElement, MotionDivProps>((props, ref) => (
@@ -24,11 +26,66 @@ interface TranscriptionDisplayProps {
   isLoading: boolean;
   chunked?: boolean;
   chunksCount?: number;
+  segments?: TranscriptSegment[]; // Timestamped segments, rendered as speaker turns instead of plain paragraphs when present
+  audioUrl?: string; // Recording the segments were transcribed from; enables playback and click-to-seek
+  languages?: string[]; // Detected languages, most spoken first
+  onRenameSpeaker?: (from: string, to: string) => void;
+  focusedPassages?: { ids: number[]; requestedAt: number } | null; // Passages cited in the summary to scroll to (segment ids, or line indexes without segments)
 }
 
-export default function TranscriptionDisplay({ text, isLoading, chunked, chunksCount }: TranscriptionDisplayProps) {
+// Rotating colors so each speaker is recognizable in the transcript
+const speakerColors = ['text-blue-700', 'text-emerald-700', 'text-purple-700', 'text-amber-700', 'text-rose-700', 'text-cyan-700'];
+
+export default function TranscriptionDisplay({ text, isLoading, chunked, chunksCount, segments, audioUrl, languages, onRenameSpeaker, focusedPassages }: TranscriptionDisplayProps) {
   const [copied, setCopied] = useState<boolean>(false);
   const [isExpanded, setIsExpanded] = useState<boolean>(false); // Added state for expansion
+  const [speakerDrafts, setSpeakerDrafts] = useState<Record<string, string>>({}); // Pending speaker renames
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null); // null until the audio has been played
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const segmentRefs = useRef<Map<number, HTMLElement>>(new Map()); // Segments, or paragraphs without segments
+
+  const turns = segments ? groupTurns(segments) : [];
+  const speakers = segments ? listSpeakers(segments) : [];
+  const canPlay = Boolean(audioUrl) && turns.length > 0;
+  const activeSegmentId = segments && playbackTime !== null ? findSegmentAtTime(segments, playbackTime)?.id : undefined;
+
+  // Keep the segment being played in view while the audio runs
+  useEffect(() => {
+    if (activeSegmentId === undefined || !audioRef.current || audioRef.current.paused) return;
+    segmentRefs.current.get(activeSegmentId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeSegmentId]);
+
+  // Show the passages a citation points to: expand the transcript, then scroll them into view
+  const focusedIds = focusedPassages?.ids || [];
+  useEffect(() => {
+    if (!focusedPassages) return;
+    setIsExpanded(true);
+    const timer = setTimeout(() => {
+      segmentRefs.current.get(focusedPassages.ids[0])?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }, 350); // After the expand animation
+    return () => clearTimeout(timer);
+  }, [focusedPassages]);
+
+  // Jump to the start of a segment and play from there
+  const seekTo = (segment: TranscriptSegment) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = segment.start;
+    setPlaybackTime(segment.start);
+    audio.play().catch(error => console.warn('Audio playback failed:', error));
+  };
+  const speakerColor = (speaker: string) => speakerColors[Math.max(0, speakers.indexOf(speaker)) % speakerColors.length];
+
+  const commitRename = (speaker: string) => {
+    const newName = speakerDrafts[speaker];
+    if (onRenameSpeaker && newName !== undefined && newName.trim() && newName.trim() !== speaker) {
+      onRenameSpeaker(speaker, newName.trim());
+    }
+    setSpeakerDrafts(prev => {
+      const { [speaker]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
 
   const copyToClipboard = () => {
     navigator.clipboard.writeText(text);
@@ -88,6 +145,11 @@ export default function TranscriptionDisplay({ text, isLoading, chunked, chunksC
               Verwerkt in {chunksCount} delen
             </div>
           )}
+          {languages && languages.length > 0 && (
+            <div className="bg-gray-100 text-gray-700 text-xs px-2 py-1 rounded-full" title="Gedetecteerde taal">
+              {languages.map(languageName).join(', ')}
+            </div>
+          )}
         </div>
         <div className="flex items-center gap-2">
           <MotionButton 
@@ -203,12 +265,76 @@ export default function TranscriptionDisplay({ text, isLoading, chunked, chunksC
             transition={{ duration: 0.3 }}
             className="overflow-hidden"
           >
+            {/* Speaker names - renaming updates the turns that are sent to the summary */}
+            {speakers.length > 0 && onRenameSpeaker && (
+              <div className="mb-4 p-3 bg-gray-50 rounded-lg">
+                <div className="text-xs font-medium text-gray-500 mb-2">Sprekers hernoemen</div>
+                <div className="flex flex-wrap gap-2">
+                  {speakers.map(speaker => (
+                    <input
+                      key={speaker}
+                      type="text"
+                      value={speakerDrafts[speaker] ?? speaker}
+                      onChange={(e) => setSpeakerDrafts(prev => ({ ...prev, [speaker]: e.target.value }))}
+                      onBlur={() => commitRename(speaker)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); commitRename(speaker); } }}
+                      className={`text-sm px-2 py-1 border border-gray-300 rounded-md w-40 font-medium ${speakerColor(speaker)}`}
+                      aria-label={`Naam voor ${speaker}`}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+            {/* Audio player - clicking a segment seeks here, the segment being played is highlighted */}
+            {canPlay && (
+              <div className="mb-4">
+                <audio
+                  ref={audioRef}
+                  src={audioUrl}
+                  controls
+                  preload="metadata"
+                  className="w-full"
+                  onTimeUpdate={(e) => setPlaybackTime(e.currentTarget.currentTime)}
+                  onSeeked={(e) => setPlaybackTime(e.currentTarget.currentTime)}
+                />
+                <div className="text-xs text-gray-500 mt-1">Klik op een zin om de audio vanaf dat punt af te spelen.</div>
+              </div>
+            )}
             <div className="max-h-96 overflow-y-auto pr-2 custom-scrollbar">
-              {text.split('\n').map((paragraph, i) => (
-                <p key={i} className="mb-4 text-gray-700 leading-relaxed">
-                  {paragraph}
-                </p>
-              ))}
+              {turns.length > 0 ? (
+                turns.map((turn, i) => (
+                  <p key={i} className="mb-4 text-gray-700 leading-relaxed">
+                    <span className={`font-semibold mr-2 ${speakerColor(turn.speaker)}`}>{turn.speaker}:</span>
+                    {canPlay && (
+                      <span className="text-xs text-gray-400 mr-2 tabular-nums">[{formatTimestamp(turn.start)}]</span>
+                    )}
+                    {languages && languages.length > 1 && turn.segments[0].language && (
+                      <span className="text-xs text-gray-400 mr-2 uppercase">{turn.segments[0].language}</span>
+                    )}
+                    {turn.segments.map(segment => (
+                      <span
+                        key={segment.id}
+                        ref={(el) => { if (el) segmentRefs.current.set(segment.id, el); else segmentRefs.current.delete(segment.id); }}
+                        onClick={canPlay ? () => seekTo(segment) : undefined}
+                        title={canPlay ? `Afspelen vanaf ${formatTimestamp(segment.start)}` : undefined}
+                        className={`${canPlay ? 'cursor-pointer hover:bg-blue-50 rounded' : ''} ${segment.id === activeSegmentId ? 'bg-yellow-100 rounded' : focusedIds.includes(segment.id) ? 'bg-blue-100 rounded' : ''}`}
+                      >
+                        {segment.text}{' '}
+                      </span>
+                    ))}
+                  </p>
+                ))
+              ) : (
+                text.split('\n').map((paragraph, i) => (
+                  <p
+                    key={i}
+                    ref={(el) => { if (el) segmentRefs.current.set(i, el); else segmentRefs.current.delete(i); }}
+                    className={`mb-4 text-gray-700 leading-relaxed ${focusedIds.includes(i) ? 'bg-blue-100 rounded' : ''}`}
+                  >
+                    {paragraph}
+                  </p>
+                ))
+              )}
             </div>
           </MotionDiv>
         )}
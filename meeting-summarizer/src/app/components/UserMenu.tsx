@@ -0,0 +1,59 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { LogOut, User, Users, Shield } from 'lucide-react';
+import { toast } from "sonner";
+import { type CurrentUser, fetchCurrentUser, switchTeam } from '@/lib/currentUser';
+
+// The signed-in user with their team, a team switcher and a sign-out button; shows nothing when nobody is signed in
+export default function UserMenu() {
+  const [current, setCurrent] = useState<CurrentUser | null>(null);
+
+  useEffect(() => {
+    fetchCurrentUser().then(setCurrent);
+  }, []);
+
+  const handleLogout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined);
+    window.location.assign('/login');
+  };
+
+  const handleSwitchTeam = (teamId: string) =>
+    switchTeam(teamId).catch(error => toast.error(error instanceof Error ? error.message : 'Team wisselen mislukt'));
+
+  if (!current) return null;
+  const { user, isAdmin, teams, activeTeam } = current;
+  const linkClassName = "inline-flex items-center rounded-md px-3 py-2 text-sm text-slate-200 hover:bg-slate-700 hover:text-white";
+
+  return (
+    <span className="inline-flex items-center">
+      {teams.length > 1 ? (
+        <label className="inline-flex items-center px-3 py-2 text-sm text-slate-300">
+          <Users className="mr-2 h-4 w-4" />
+          <span className="sr-only">Team</span>
+          <select value={activeTeam?.id || ''} onChange={(e) => handleSwitchTeam(e.target.value)} className="rounded-md bg-slate-700 px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-slate-400">
+            {teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+          </select>
+        </label>
+      ) : activeTeam && (
+        <span className="inline-flex items-center px-3 py-2 text-sm text-slate-300"><Users className="mr-2 h-4 w-4" /> {activeTeam.name}</span>
+      )}
+      {isAdmin && (
+        <Link href="/admin" className={linkClassName}>
+          <Shield className="mr-2 h-4 w-4" /> Beheer
+        </Link>
+      )}
+      {user.provider !== 'none' && (
+        <>
+          <span className="inline-flex items-center px-3 py-2 text-sm text-slate-300" title={user.email}>
+            <User className="mr-2 h-4 w-4" /> {user.name}
+          </span>
+          <button type="button" onClick={handleLogout} className={linkClassName}>
+            <LogOut className="mr-2 h-4 w-4" /> Uitloggen
+          </button>
+        </>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,18 @@
+// src/app/login/page.tsx
+import Header from '../components/Header';
+import LoginForm from '../components/LoginForm';
+import { safeNextPath } from '@/lib/session';
+
+export const metadata = {
+  title: 'Inloggen - Super Kees Online',
+};
+
+export default async function LoginPage({ searchParams }: { searchParams: Promise<{ next?: string; error?: string }> }) {
+  const { next, error } = await searchParams;
+  return (
+    <main className="min-h-screen bg-background text-foreground pb-20">
+      <Header />
+      <LoginForm next={safeNextPath(next)} error={error} />
+    </main>
+  );
+}
@@ -0,0 +1,16 @@
+// src/app/meetings/page.tsx
+import Header from '../components/Header';
+import MeetingLibrary from '../components/MeetingLibrary';
+
+export const metadata = {
+  title: 'Geschiedenis - Super Kees Online',
+};
+
+export default function MeetingsPage() {
+  return (
+    <main className="min-h-screen bg-background text-foreground pb-20">
+      <Header />
+      <MeetingLibrary />
+    </main>
+  );
+}
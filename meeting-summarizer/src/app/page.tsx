@@ -17,12 +17,26 @@ import ProcessingPipeline, { PipelineStatus, PipelineStage } from './components/
 import PromptSelector from '@/app/components/PromptSelector';
 import { Textarea } from "@/components/ui/textarea"; // Import Shadcn Textarea
 import { chatModels, whisperModels, defaultConfig } from '@/lib/config';
-import { calculateEstimatedTime, estimateChunks, calculateProgressFromTime, getInitialStageMessage } from '../lib/pipelineHelpers';
+import { calculateEstimatedTime, estimateChunks, getInitialStageMessage } from '../lib/pipelineHelpers';
 import { type PutBlobResult } from '@vercel/blob';
 import { upload } from '@vercel/blob/client'; // Import the client-side upload function
 import FinalScreen from '@/app/components/FinalScreen';
 import Header from './components/Header'; // Import Header if not already (it should be)
 import PrivacyBanner from './components/PrivacyBanner'; // Import the new banner component
+import SettingsPanel from './components/SettingsPanel';
+import { TranscriptSegment, formatTranscript, renameSpeaker } from '@/lib/transcript';
+import { readEventStream } from '@/lib/sse';
+import { type ActionItem } from '@/lib/actionItems';
+import { type SummaryCitation } from '@/lib/citations';
+import { type VerifiedClaim } from '@/lib/claims';
+import { missingRequiredVariables, valuesForPrompt } from '@/lib/templateVariables';
+import { userUploadPathname, uploadRecordingChunks, recordingPlaybackUrl } from '@/lib/uploadPath';
+import type { RecordingChunk } from '@/lib/recordings';
+import { fetchCurrentUser } from '@/lib/currentUser';
+import RedactionPreview from '@/app/components/RedactionPreview';
+import { type DeletionReceipt } from '@/lib/retention';
+import { progressMessage } from '@/lib/progress';
+import { submitJob, fetchJob, followJob, cancelJob, activeJobId, forgetActiveJob, isJobFinished } from '@/lib/jobClient';
 // Removed marked import
 
 // Motion components...
@@ -41,21 +55,30 @@ interface PromptType { id: string; name: string; description: string; prompt: st
 
 export default function Home() {
   const [uploadedBlobInfo, setUploadedBlobInfo] = useState<PutBlobResult | null>(null);
+  const [recordingDeletion, setRecordingDeletion] = useState<DeletionReceipt | null>(null); // Set once the uploaded recording has been deleted (retention)
   const [audioFileName, setAudioFileName] = useState<string>('');
   const [transcription, setTranscription] = useState<string>('');
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]); // Timestamped, speaker-attributed transcript segments
   const [summary, setSummary] = useState<string>(''); // Only raw Markdown state needed now
+  const [actionItems, setActionItems] = useState<ActionItem[] | null>(null); // Extracted from the summary on request
+  const [citations, setCitations] = useState<SummaryCitation[]>([]); // Sources of the summary statements, when requested
+  const [verification, setVerification] = useState<VerifiedClaim[] | null>(null); // Result of the verification stage for the current summary
+  const [templateVariables, setTemplateVariables] = useState<Record<string, string>>({}); // Values for the template's {{variables}}; dates as YYYY-MM-DD. Only those of the selected template are sent (promptVariables)
   // Removed summaryHtml state
   const [selectedPrompt, setSelectedPrompt] = useState<PromptType>({ id: 'default', name: 'Algemene Samenvatting', description: 'Standaard samenvatting...', prompt: '' });
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [transcriptionCost, setTranscriptionCost] = useState<number>(0);
   const [summaryCost, setSummaryCost] = useState<number>(0);
-  const [transcriptionInfo, setTranscriptionInfo] = useState<{ chunked: boolean; chunks: number; }>({ chunked: false, chunks: 1 });
+  const [transcriptionInfo, setTranscriptionInfo] = useState<{ chunked: boolean; chunks: number; detectedLanguages?: string[]; }>({ chunked: false, chunks: 1 });
   const [pipelineActive, setPipelineActive] = useState<boolean>(false);
   const [pipelineStatus, setPipelineStatus] = useState<PipelineStatus>({ stage: 'uploading', progress: 0, message: 'Wachten op bestand...' });
   const [pipelineStartTime, setPipelineStartTime] = useState<number | null>(null);
   const [stageStartTime, setStageStartTime] = useState<number | null>(null);
   const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const [settings, setSettings] = useState({ transcriptionModel: defaultConfig.transcriptionModel, summarizationModel: defaultConfig.summarizationModel, temperature: defaultConfig.temperature, showCosts: defaultConfig.showCosts });
+  const summaryAbortRef = useRef<AbortController | null>(null); // Aborting stops the summary generation on the server
+  const jobRef = useRef<{ id: string; follow: AbortController } | null>(null); // The server-side job the page follows; aborting `follow` only stops following, the job continues
+  const [isStreamingSummary, setIsStreamingSummary] = useState<boolean>(false);
+  const [settings, setSettings] = useState({ transcriptionProvider: defaultConfig.transcriptionProvider, transcriptionModel: defaultConfig.transcriptionModel, transcriptionLanguage: defaultConfig.transcriptionLanguage, summarizationModel: defaultConfig.summarizationModel, summaryLanguage: defaultConfig.summaryLanguage, temperature: defaultConfig.temperature, showCosts: defaultConfig.showCosts, citations: defaultConfig.citations, verifySummary: defaultConfig.verifySummary, redactPii: defaultConfig.redactPii });
   const [currentStep, setCurrentStep] = useState<number>(1);
   const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
   const [isEmailModalOpen, setIsEmailModalOpen] = useState<boolean>(false);
@@ -63,63 +86,109 @@ export default function Home() {
   const [inputType, setInputType] = useState<'audio' | 'text'>('audio');
   const [inputText, setInputText] = useState<string>('');
   const mainContainerRef = useRef<HTMLDivElement>(null);
+  const [meetingId, setMeetingId] = useState<string | null>(null); // The meeting in the history this result is saved as
+  const [pendingMeetingAction, setPendingMeetingAction] = useState<'resummarize' | 'retranscribe' | null>(null); // Requested from the history, run once the meeting is restored
+  const [teamRecipients, setTeamRecipients] = useState<string[]>([]); // Suggested e-mail recipients of the active team
+  const meetingSaveRef = useRef<{ id: string | null; lastSaved: string | null; queue: Promise<void>; summaryEdited: boolean }>({ id: null, lastSaved: null, queue: Promise.resolve(), summaryEdited: false }); // summaryEdited: the next save carries a manual edit, for the audit log
 
+  const promptVariables = valuesForPrompt(selectedPrompt.prompt, templateVariables); // The values of the variables the selected template uses
   const clearProgressInterval = () => { if (progressIntervalRef.current) { clearInterval(progressIntervalRef.current); progressIntervalRef.current = null; } };
   const updatePipeline = (update: Partial<PipelineStatus>) => { setPipelineStatus(prev => ({ ...prev, ...update })); if (update.stage && update.stage !== pipelineStatus.stage) { setStageStartTime(Date.now()); clearProgressInterval(); } if (update.stage === 'completed' || update.stage === 'error') { clearProgressInterval(); } };
 
-  const startPipelineProcessing = (blobInfo: PutBlobResult) => {
+  const startPipelineProcessing = (blobInfo: PutBlobResult, chunks: RecordingChunk[]) => {
     console.log('Pipeline starting with Blob info:', blobInfo);
-    setTranscription(''); setSummary(''); setTranscriptionCost(0); setSummaryCost(0); // Reset summary
-    setUploadedBlobInfo(blobInfo); setAudioFileName(blobInfo.pathname.split('/').pop() || 'audio_file');
+    setTranscription(''); setSegments([]); setSummary(''); setTranscriptionCost(0); setSummaryCost(0); // Reset summary
+    startNewMeeting();
+    setUploadedBlobInfo(blobInfo); setRecordingDeletion(null); setAudioFileName(blobInfo.pathname.split('/').pop() || 'audio_file');
     setIsProcessing(true); setPipelineActive(true); const now = Date.now(); setPipelineStartTime(now); setStageStartTime(now);
-    updatePipeline({ stage: 'transcribing', progress: 0, message: getInitialStageMessage('transcribing'), estimatedTimeLeft: calculateEstimatedTime(15 * 1024 * 1024, 'transcribing', settings.transcriptionModel), details: { fileName: blobInfo.pathname.split('/').pop() || 'audio_file', } });
+    updatePipeline({ stage: 'transcribing', progress: 0, message: getInitialStageMessage('transcribing'), estimatedTimeLeft: undefined, details: { fileName: blobInfo.pathname.split('/').pop() || 'audio_file', } });
     setCurrentStep(2); setTimeout(() => { document.getElementById('transcribe-section')?.scrollIntoView({ behavior: 'smooth' }); }, 300);
-    transcribeAudioWithProgress(blobInfo);
+    processRecordingOnServer(blobInfo, blobInfo.pathname.split('/').pop() || 'audio_file', chunks);
   };
 
-  const handleFileUploadComplete = (blobInfo: PutBlobResult) => {
+  const handleFileUploadComplete = (blobInfo: PutBlobResult, chunks: RecordingChunk[]) => {
      console.log('File upload complete, received blob info:', blobInfo);
-     if (!blobInfo || !blobInfo.url || !blobInfo.downloadUrl) { console.error("Invalid blobInfo received from upload", blobInfo); updatePipeline({ stage: 'error', error: '...', message: '...' }); showNotification('error', '...'); setIsProcessing(false); return; }
-     startPipelineProcessing(blobInfo);
+     if (!blobInfo || !blobInfo.pathname) { console.error("Invalid blobInfo received from upload", blobInfo); updatePipeline({ stage: 'error', error: '...', message: '...' }); showNotification('error', '...'); setIsProcessing(false); return; }
+     startPipelineProcessing(blobInfo, chunks);
   };
 
-  const transcribeAudioWithProgress = async (blobInfo: PutBlobResult) => {
-    console.log(`Starting transcription for: ${blobInfo.downloadUrl}`);
-    if (!stageStartTime) setStageStartTime(Date.now());
+  // Recordings are transcribed, summarized and saved by a job on the server, so closing the tab or a sleeping laptop does not lose the work; the page follows the job
+  const processRecordingOnServer = async (blobInfo: PutBlobResult, fileName: string, chunks: RecordingChunk[]) => {
+    console.log(`Starting processing job for: ${blobInfo.pathname}`);
     try {
-      clearProgressInterval();
-      progressIntervalRef.current = setInterval(() => { if (stageStartTime) { const elapsedSeconds = Math.floor((Date.now() - stageStartTime) / 1000); const estimatedSize = 15 * 1024 * 1024; const estimatedTotal = calculateEstimatedTime(estimatedSize, 'transcribing', settings.transcriptionModel); const progress = calculateProgressFromTime(elapsedSeconds, estimatedTotal); const timeLeft = Math.max(1, estimatedTotal - elapsedSeconds); updatePipeline({ progress, estimatedTimeLeft: timeLeft, message: `Transcriptie bezig... (${progress}%)` }); } }, 1000);
-      const response = await fetch('/api/direct-transcribe', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ audioUrl: blobInfo.downloadUrl, model: settings.transcriptionModel, language: 'nl', }) });
-      clearProgressInterval();
-      if (!response.ok) { let errorMessage = 'Transcriptie mislukt'; try { const errorData = await response.json(); errorMessage = errorData.error || `Serverfout ${response.status}`; } catch (e) { errorMessage = `Serverfout ${response.status}`; } throw new Error(errorMessage); }
-      const data = await response.json(); if (data.error) throw new Error(data.error);
-      console.log('Transcription successful.'); setTranscription(data.transcription);
-      proceedToSummarization(data.transcription);
-    } catch (error) { console.error('❌ Transcriptie fout:', error); clearProgressInterval(); updatePipeline({ stage: 'error', message: 'Fout tijdens transcriptie', error: error instanceof Error ? error.message : 'Onbekende fout' }); showNotification('error', `Fout tijdens transcriptie: ${error instanceof Error ? error.message : 'Onbekende fout'}`); setIsProcessing(false); }
+      const missingVariables = missingRequiredVariables(selectedPrompt.variables || [], templateVariables);
+      if (missingVariables.length > 0) showNotification('warning', `Niet ingevuld: ${missingVariables.join(', ')}. Deze gegevens worden niet uit het gesprek afgeleid.`);
+      const job = await submitJob({ pathname: blobInfo.pathname, chunks, contentType: blobInfo.contentType, audioFileName: fileName, meetingId: meetingSaveRef.current.id, template: selectedPrompt, variables: promptVariables, settings: { transcriptionProvider: settings.transcriptionProvider, transcriptionModel: settings.transcriptionModel, transcriptionLanguage: settings.transcriptionLanguage, summarizationModel: settings.summarizationModel, summaryLanguage: settings.summaryLanguage, temperature: settings.temperature, citations: settings.citations, redactPii: settings.redactPii } });
+      await followProcessingJob(job);
+    } catch (error) { console.error('❌ Verwerking fout:', error); updatePipeline({ stage: 'error', message: 'Fout tijdens verwerking', error: error instanceof Error ? error.message : 'Onbekende fout' }); showNotification('error', `Fout tijdens verwerking: ${error instanceof Error ? error.message : 'Onbekende fout'}`); setIsProcessing(false); }
   };
+  // Shows the job's stages as they finish: the transcript as soon as it is there, the summary as it is written (when the job runs in the server process the page is connected to)
+  const followProcessingJob = async (initialJob) => {
+    jobRef.current?.follow.abort(); const follow = new AbortController(); jobRef.current = { id: initialJob.id, follow };
+    let transcriptShown = false; let streamedSummary = '';
+    const applyJob = job => {
+      if (job.transcription && !transcriptShown) { transcriptShown = true; setTranscription(job.transcription.transcription); setSegments(job.transcription.segments || []); setTranscriptionInfo(prev => ({ ...prev, detectedLanguages: job.transcription.detectedLanguages || [] })); setRecordingDeletion(job.transcription.recordingDeletion || null); setTranscriptionCost(job.transcription.cost || 0); setCurrentStep(3); setTimeout(() => { document.getElementById('summary-section')?.scrollIntoView({ behavior: 'smooth' }); }, 300); }
+      if (!isJobFinished(job) && !streamedSummary) updatePipeline({ stage: job.stage === 'transcribing' ? 'transcribing' : 'summarizing', progress: job.progress, message: job.message, estimatedTimeLeft: job.stageProgress?.estimatedTimeLeft, details: { fileName: job.input.audioFileName, currentChunk: job.stageProgress?.completed, totalChunks: job.stageProgress?.total, unit: job.stageProgress?.unit } });
+    };
+    try {
+      const job = await followJob(initialJob.id, { onJob: applyJob, onDelta: text => { if (!streamedSummary) { setIsStreamingSummary(true); setPipelineActive(false); } streamedSummary += text; setSummary(streamedSummary); } }, follow.signal);
+      if (!job) return; // Stopped following; the job continues on the server
+      forgetActiveJob(); applyJob(job); setIsStreamingSummary(false);
+      if (job.status === 'cancelled') { setPipelineActive(false); setIsProcessing(false); return; }
+      if (job.status === 'failed') throw new Error(job.error || 'Verwerking mislukt');
+      console.log('Processing job completed.');
+      // The job saved the meeting; later changes (refinements, action items) update it
+      meetingSaveRef.current.id = job.meetingId; meetingSaveRef.current.lastSaved = null; setMeetingId(job.meetingId); showNotification('success', 'Opgeslagen in de geschiedenis');
+      setSummary(job.summary.summary); setCitations(job.summary.citations || []); setActionItems(null); setVerification(null); setSummaryCost(job.summary.usage?.cost || 0);
+      if (settings.verifySummary && job.summary.summary) await verifyWithProgress(job.summary.summary, job.transcription.transcription, job.transcription.segments || []);
+      updatePipeline({ stage: 'completed', progress: 100, message: 'Verwerking voltooid!', estimatedTimeLeft: 0 });
+      setTimeout(() => { setPipelineActive(false); setIsProcessing(false); }, 2000);
+    } catch (error) { forgetActiveJob(); setIsStreamingSummary(false); throw error; }
+    finally { if (jobRef.current?.follow === follow) jobRef.current = null; }
+  };
+  const stopFollowingJob = () => { jobRef.current?.follow.abort(); jobRef.current = null; forgetActiveJob(); };
+  // Cancels the job on the server; the page learns it is cancelled from the job itself
+  const cancelActiveJob = () => { const id = jobRef.current?.id; if (id) cancelJob(id).catch(error => showNotification('error', `Annuleren mislukt: ${error instanceof Error ? error.message : 'Onbekende fout'}`)); };
 
-  const proceedToSummarization = (transcriptText: string) => {
+  const proceedToSummarization = (transcriptText: string, transcriptSegments: TranscriptSegment[] = []) => {
     const now = Date.now(); setStageStartTime(now); setCurrentStep(3); setTimeout(() => { document.getElementById('summary-section')?.scrollIntoView({ behavior: 'smooth' }); }, 300);
-    updatePipeline({ stage: 'summarizing', progress: 0, message: getInitialStageMessage('summarizing'), estimatedTimeLeft: calculateEstimatedTime(transcriptText.length * 2, 'summarizing'), details: { fileName: audioFileName } });
-    summarizeWithProgress(transcriptText);
+    updatePipeline({ stage: 'summarizing', progress: 0, message: getInitialStageMessage('summarizing'), estimatedTimeLeft: undefined, details: { fileName: audioFileName } });
+    summarizeWithProgress(transcriptText, transcriptSegments);
   };
 
-  const summarizeWithProgress = async (text: string) => {
+  const summarizeWithProgress = async (text: string, transcriptSegments: TranscriptSegment[] = []) => {
     if (!text || text.trim() === '') { updatePipeline({ stage: 'error', message: 'Transcriptie is leeg', error: '...' }); showNotification('error', '...'); setIsProcessing(false); return; }
     if (!stageStartTime) setStageStartTime(Date.now());
     try {
       clearProgressInterval();
-      progressIntervalRef.current = setInterval(() => { if (stageStartTime) { const elapsedSeconds = Math.floor((Date.now() - stageStartTime) / 1000); const estimatedTotal = calculateEstimatedTime(text.length * 2, 'summarizing'); const progress = calculateProgressFromTime(elapsedSeconds, estimatedTotal); const timeLeft = Math.max(1, estimatedTotal - elapsedSeconds); updatePipeline({ progress, estimatedTimeLeft: timeLeft, message: `Samenvatting genereren... (${progress}%)` }); } }, 1000);
-      const response = await fetch('/api/summarize', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ text: text, model: settings.summarizationModel, temperature: settings.temperature, prompt: selectedPrompt.prompt }) });
+      const controller = new AbortController(); summaryAbortRef.current = controller;
+      updatePipeline({ message: 'Wachten op het taalmodel...' });
+      const missingVariables = missingRequiredVariables(selectedPrompt.variables || [], templateVariables);
+      if (missingVariables.length > 0) showNotification('warning', `Niet ingevuld: ${missingVariables.join(', ')}. Deze gegevens worden niet uit het gesprek afgeleid.`);
+      const response = await fetch('/api/summarize', { method: 'POST', headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' }, body: JSON.stringify({ text: text, segments: transcriptSegments.length > 0 ? transcriptSegments : undefined, model: settings.summarizationModel, temperature: settings.temperature, summaryLanguage: settings.summaryLanguage, prompt: selectedPrompt.prompt, variables: promptVariables, citations: settings.citations, redactPii: settings.redactPii, meetingId: meetingSaveRef.current.id }), signal: controller.signal });
+      if (!response.ok) { clearProgressInterval(); let errorMessage = 'Samenvatting mislukt'; try { const errorData = await response.json(); errorMessage = errorData.error || `Serverfout ${response.status}`; } catch (e) { errorMessage = `Serverfout ${response.status}`; } throw new Error(errorMessage); }
+      // The server reports real progress: transcript parts summarized (map-reduce) and tokens written, with the time left from the measured throughput
+      // The summary text is streamed: once the first text arrives the pipeline makes way for the summary itself
+      let data = null; let streamError = null; let streamedSummary = '';
+      await readEventStream(response, (event, payload) => {
+        if (event === 'delta') { if (!streamedSummary) { setIsStreamingSummary(true); setPipelineActive(false); } streamedSummary += payload.text; setSummary(streamedSummary); }
+        else if (event === 'progress') { clearProgressInterval(); updatePipeline({ progress: payload.percentage, message: progressMessage(payload), estimatedTimeLeft: payload.estimatedTimeLeft, details: { fileName: audioFileName, currentChunk: payload.completed, totalChunks: payload.total, unit: payload.unit } }); }
+        else if (event === 'result') data = payload;
+        else if (event === 'error') streamError = payload.error;
+      });
       clearProgressInterval();
-      if (!response.ok) { let errorMessage = 'Samenvatting mislukt'; try { const errorData = await response.json(); errorMessage = errorData.error || `Serverfout ${response.status}`; } catch (e) { errorMessage = `Serverfout ${response.status}`; } throw new Error(errorMessage); }
-      const data = await response.json(); if (data.error) throw new Error(data.error);
+      if (streamError) throw new Error(streamError); if (!data) throw new Error('Geen samenvatting ontvangen van de server');
       console.log('Summarization successful.');
-      setSummary(data.summary || ''); // Store raw Markdown ONLY
+      setSummary(data.summary || ''); setCitations(data.citations || []); setIsStreamingSummary(false); setActionItems(null); setVerification(null); setSummaryCost(data.usage?.cost || 0); // Store raw Markdown ONLY
       // Removed setSummaryHtml
+      if (settings.verifySummary && data.summary) await verifyWithProgress(data.summary, text, transcriptSegments);
       updatePipeline({ stage: 'completed', progress: 100, message: 'Verwerking voltooid!', estimatedTimeLeft: 0 });
       setTimeout(() => { setPipelineActive(false); setIsProcessing(false); }, 2000);
-    } catch (error) { console.error('❌ Samenvatting fout:', error); clearProgressInterval(); updatePipeline({ stage: 'error', message: 'Fout tijdens samenvatting', error: error instanceof Error ? error.message : 'Onbekende fout' }); showNotification('error', `Fout tijdens samenvatting: ${error instanceof Error ? error.message : 'Onbekende fout'}`); setIsProcessing(false); }
+    } catch (error) {
+      // Stopped by the user: keep whatever was written so far
+      if (summaryAbortRef.current?.signal.aborted) { setIsStreamingSummary(false); updatePipeline({ stage: 'completed', progress: 100, message: 'Samenvatting gestopt', estimatedTimeLeft: 0 }); setPipelineActive(false); setIsProcessing(false); return; }
+      console.error('❌ Samenvatting fout:', error); clearProgressInterval(); setIsStreamingSummary(false); updatePipeline({ stage: 'error', message: 'Fout tijdens samenvatting', error: error instanceof Error ? error.message : 'Onbekende fout' }); showNotification('error', `Fout tijdens samenvatting: ${error instanceof Error ? error.message : 'Onbekende fout'}`); setIsProcessing(false); }
+    finally { summaryAbortRef.current = null; }
   };
 
   const handleTextSubmit = () => {
@@ -128,14 +197,16 @@ export default function Home() {
       return;
     }
     console.log('Text to summarize:', inputText);
+    startNewMeeting(); setUploadedBlobInfo(null); setRecordingDeletion(null); setAudioFileName('');
     setTranscription(inputText); // Use inputText as the "transcription"
+    setSegments([]); // Typed text has no timestamped segments
     setIsProcessing(true);
     setPipelineActive(true);
     const now = Date.now();
     setPipelineStartTime(now);
     setStageStartTime(now);
     // Set pipeline to summarizing stage directly for text input
-    updatePipeline({ stage: 'summarizing', progress: 0, message: getInitialStageMessage('summarizing'), estimatedTimeLeft: calculateEstimatedTime(inputText.length * 2, 'summarizing'), details: { fileName: "Ingevoerde Tekst" } });
+    updatePipeline({ stage: 'summarizing', progress: 0, message: getInitialStageMessage('summarizing'), estimatedTimeLeft: undefined, details: { fileName: "Ingevoerde Tekst" } });
     setCurrentStep(3); // Advance to the summary display step
     setTimeout(() => { document.getElementById('summary-section')?.scrollIntoView({ behavior: 'smooth' }); }, 300);
     summarizeWithProgress(inputText); // Directly summarize the input text
@@ -150,10 +221,10 @@ export default function Home() {
 
         // Use the client-side upload helper from @vercel/blob/client
         const blobInfo = await upload(
-            file.name, // Suggested filename for the blob
+            await userUploadPathname(file.name), // Suggested filename for the blob, under the user's upload prefix
             file,      // The File object to upload
             {
-                access: 'public', // Set access level (public or private)
+                access: 'private', // Only readable with the store token; recordings are played and transcribed by pathname (see recordings.ts)
                 handleUploadUrl: '/api/upload-blob', // API route endpoint
                 // Optional: Add clientPayload for extra data if needed by onBeforeGenerateToken
                 // clientPayload: JSON.stringify({ customData: 'example' }),
@@ -165,11 +236,13 @@ export default function Home() {
         );
 
         // Upload succeeded
+        // A recording too large to transcribe in one call is also uploaded in chunks
+        const chunks = await uploadRecordingChunks(file, (uploaded, total) => updatePipeline({ message: `Opname opdelen voor transcriptie... (${uploaded}/${total})` }));
         updatePipeline({ progress: 100, message: 'Upload voltooid!' });
         console.log('✅ Audio capture uploaded successfully:', blobInfo);
         setAudioFileName(file.name); // Use original file name for display
         setCurrentStep(2);
-        setTimeout(() => { startPipelineProcessing(blobInfo); }, 500); // Proceed to next step
+        setTimeout(() => { startPipelineProcessing(blobInfo, chunks); }, 500); // Proceed to next step
 
     } catch (error) {
         // Handle errors from the upload function
@@ -183,35 +256,119 @@ export default function Home() {
     }
 };
 
-  const handleCancelPipeline = () => { clearProgressInterval(); setPipelineActive(false); setIsProcessing(false); setPipelineStartTime(null); setStageStartTime(null); showNotification('info', 'Verwerking geannuleerd'); };
-  const handleSummarize = async () => { if (!transcription || transcription.trim() === '') { showNotification('error', 'Transcriptie is leeg of ontbreekt'); return; } setIsProcessing(true); proceedToSummarization(transcription); };
-  const handleRegenerateSummary = () => { if (!transcription || transcription.trim() === '') { showNotification('error', 'Transcriptie is leeg of ontbreekt om opnieuw te genereren.'); return; } setIsProcessing(true); proceedToSummarization(transcription); };
+  const handleStopSummary = () => { if (jobRef.current) { cancelActiveJob(); showNotification('info', 'Samenvatting gestopt'); } if (summaryAbortRef.current) { summaryAbortRef.current.abort(); showNotification('info', 'Samenvatting gestopt'); } };
+  const handleCancelPipeline = () => { cancelActiveJob(); summaryAbortRef.current?.abort(); clearProgressInterval(); setPipelineActive(false); setIsProcessing(false); setPipelineStartTime(null); setStageStartTime(null); showNotification('info', 'Verwerking geannuleerd'); };
+  const handleSummarize = async () => { if (!transcription || transcription.trim() === '') { showNotification('error', 'Transcriptie is leeg of ontbreekt'); return; } setIsProcessing(true); proceedToSummarization(transcription, segments); };
+  const handleRegenerateSummary = () => { if (!transcription || transcription.trim() === '') { showNotification('error', 'Transcriptie is leeg of ontbreekt om opnieuw te genereren.'); return; } setIsProcessing(true); proceedToSummarization(transcription, segments); };
   const handleRegenerateTranscript = async () => {
       if (!uploadedBlobInfo) { showNotification('error', 'Originele audio-informatie niet beschikbaar om opnieuw te transcriberen.'); return; }
+      if (recordingDeletion) { showNotification('error', 'De opname is na het transcriberen verwijderd en kan niet opnieuw worden getranscribeerd.'); return; }
       setIsProcessing(true); const now = Date.now(); setPipelineStartTime(now); setStageStartTime(now);
       setSummary(''); // Clear raw summary
       // Removed setSummaryHtml
       setSummaryCost(0);
-      updatePipeline({ stage: 'transcribing', progress: 0, message: getInitialStageMessage('transcribing'), estimatedTimeLeft: calculateEstimatedTime(15 * 1024 * 1024, 'transcribing', settings.transcriptionModel), details: { fileName: audioFileName }, error: undefined, });
-      setPipelineActive(true); setCurrentStep(2); transcribeAudioWithProgress(uploadedBlobInfo);
+      updatePipeline({ stage: 'transcribing', progress: 0, message: getInitialStageMessage('transcribing'), estimatedTimeLeft: undefined, details: { fileName: audioFileName }, error: undefined, });
+      setPipelineActive(true); setCurrentStep(2); processRecordingOnServer(uploadedBlobInfo, audioFileName, []); // The chunks were deleted after the first transcription
   };
 
   const handleReset = () => {
-    setUploadedBlobInfo(null); setAudioFileName(''); setTranscription(''); setSummary(''); // Reset summary
+    setUploadedBlobInfo(null); setRecordingDeletion(null); setAudioFileName(''); setTranscription(''); setSegments([]); setSummary(''); setActionItems(null); setCitations([]); setVerification(null); // Reset summary
     // Removed setSummaryHtml
+    summaryAbortRef.current?.abort(); stopFollowingJob(); setIsStreamingSummary(false);
     setTranscriptionCost(0); setSummaryCost(0); setCurrentStep(1); setPipelineActive(false); setIsProcessing(false); setPipelineStartTime(null); setStageStartTime(null); clearProgressInterval(); window.scrollTo({ top: 0, behavior: 'smooth' });
+    startNewMeeting(); // The meeting itself stays in the history
   };
 
+  // --- Meeting history ---
+  // The next result is saved as a new meeting
+  const startNewMeeting = () => { meetingSaveRef.current.id = null; meetingSaveRef.current.lastSaved = null; meetingSaveRef.current.summaryEdited = false; setMeetingId(null); };
+  // Saves the current result: creates the meeting on the first save, then updates it. Saves run one after the other so a meeting is never created twice; title and tags are left to the history page
+  const saveMeeting = () => {
+    const body = { source: uploadedBlobInfo || recordingDeletion ? 'audio' : 'text', audio: uploadedBlobInfo ? { pathname: uploadedBlobInfo.pathname, contentType: uploadedBlobInfo.contentType } : null, audioFileName, transcription, segments, detectedLanguages: transcriptionInfo.detectedLanguages || [], summary, citations, actionItems, verification, template: selectedPrompt, variables: promptVariables, costs: { transcription: transcriptionCost, summary: summaryCost } };
+    const saving = meetingSaveRef.current; const summaryEdited = saving.summaryEdited; saving.summaryEdited = false;
+    saving.queue = saving.queue.then(async () => {
+      const serialized = JSON.stringify(body); if (serialized === saving.lastSaved) return;
+      const response = await fetch(saving.id ? `/api/meetings/${saving.id}` : '/api/meetings', { method: saving.id ? 'PATCH' : 'POST', headers: { 'Content-Type': 'application/json' }, body: summaryEdited ? JSON.stringify({ ...body, summaryEdited }) : serialized });
+      const data = await response.json().catch(() => ({})); if (!response.ok || data.error) throw new Error(data.error || `Serverfout ${response.status}`);
+      if (!saving.id) { saving.id = data.meeting.id; setMeetingId(data.meeting.id); showNotification('success', `Opgeslagen in de geschiedenis als "${data.meeting.title}"`); }
+      saving.lastSaved = serialized;
+    }).catch(error => { if (summaryEdited) saving.summaryEdited = true; console.error('❌ Gesprek opslaan mislukt:', error); showNotification('error', `Gesprek opslaan mislukt: ${error instanceof Error ? error.message : 'Onbekende fout'}`); });
+  };
+  // Every finished result (summary, refinement, action items, check, renamed speakers) is saved shortly after it changes
+  useEffect(() => { if (!summary || !transcription || isStreamingSummary || isProcessing) return; const timer = setTimeout(saveMeeting, 1000); return () => clearTimeout(timer); }, [summary, transcription, segments, citations, actionItems, verification, isStreamingSummary, isProcessing]);
+  // Restores a meeting from the history; the link may ask to summarize or transcribe it again
+  const openMeeting = (meeting, action) => {
+    summaryAbortRef.current?.abort(); stopFollowingJob(); clearProgressInterval(); setPipelineActive(false); setIsProcessing(false); setIsStreamingSummary(false);
+    setUploadedBlobInfo(meeting.audio ? { ...meeting.audio, contentDisposition: '' } : null); setRecordingDeletion(meeting.audioDeletion || null); setAudioFileName(meeting.audioFileName);
+    setTranscription(meeting.transcription); setSegments(meeting.segments || []); setSummary(meeting.summary); setCitations(meeting.citations || []); setActionItems(meeting.actionItems); setVerification(meeting.verification);
+    if (meeting.template) setSelectedPrompt(meeting.template); setTemplateVariables(meeting.variables || {});
+    setTranscriptionInfo({ chunked: false, chunks: 1, detectedLanguages: meeting.detectedLanguages || [] }); setTranscriptionCost(meeting.costs?.transcription || 0); setSummaryCost(meeting.costs?.summary || 0);
+    meetingSaveRef.current.id = meeting.id; meetingSaveRef.current.lastSaved = null; setMeetingId(meeting.id); setCurrentStep(3);
+    if (action === 'resummarize' || (action === 'retranscribe' && meeting.audio)) setPendingMeetingAction(action);
+  };
+  const loadMeeting = (id: string, action = null) => fetch(`/api/meetings/${encodeURIComponent(id)}`).then(async response => { const data = await response.json().catch(() => ({})); if (!response.ok || data.error) throw new Error(data.error || `Serverfout ${response.status}`); openMeeting(data.meeting, action); })
+    .catch(error => showNotification('error', `Gesprek openen mislukt: ${error instanceof Error ? error.message : 'Onbekende fout'}`));
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search); const id = params.get('meeting'); if (!id) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    loadMeeting(id, params.get('action'));
+  }, []);
+  // A job that was still running when the page was closed is followed again; one that finished meanwhile is opened from the history
+  useEffect(() => {
+    const id = activeJobId(); if (!id || new URLSearchParams(window.location.search).get('meeting')) return;
+    fetchJob(id).then(job => {
+      if (isJobFinished(job)) { forgetActiveJob(); if (job.status === 'completed' && job.meetingId) { showNotification('success', `Verwerking van "${job.input.audioFileName}" is klaar`); loadMeeting(job.meetingId); } return; }
+      setUploadedBlobInfo({ pathname: job.input.pathname, contentType: job.input.contentType, contentDisposition: '' }); setAudioFileName(job.input.audioFileName); if (job.input.template) setSelectedPrompt(job.input.template); setTemplateVariables(job.input.variables || {});
+      setIsProcessing(true); setPipelineActive(true); const now = Date.now(); setPipelineStartTime(now); setStageStartTime(now); setCurrentStep(2);
+      followProcessingJob(job).catch(error => { updatePipeline({ stage: 'error', message: 'Fout tijdens verwerking', error: error instanceof Error ? error.message : 'Onbekende fout' }); showNotification('error', `Fout tijdens verwerking: ${error instanceof Error ? error.message : 'Onbekende fout'}`); setIsProcessing(false); });
+    }).catch(() => forgetActiveJob()); // The job is gone
+  }, []);
+  // The active team's model settings are the defaults; the settings panel can still change them
+  useEffect(() => { fetchCurrentUser().then(current => { const team = current?.activeTeam; if (!team) return; setSettings(prev => ({ ...prev, ...team.settings })); setTeamRecipients(team.recipients); }); }, []);
+  // Runs after the restored state has been rendered, so the handlers see the meeting's transcript, template and recording
+  useEffect(() => { if (!pendingMeetingAction) return; const action = pendingMeetingAction; setPendingMeetingAction(null); if (action === 'resummarize') handleRegenerateSummary(); else handleRegenerateTranscript(); }, [pendingMeetingAction]);
+
   const toggleSettings = () => setIsSettingsOpen(!isSettingsOpen);
   const updateSettings = (newSettings: Partial<typeof settings>) => setSettings(prev => ({ ...prev, ...newSettings }));
   const handleOpenEmailModal = () => setIsEmailModalOpen(true);
   const handleCloseEmailModal = () => setIsEmailModalOpen(false);
   // Handle refined summary - Just update the raw summary state
+  // Optional verification stage: checks every claim of the summary against the transcript. A failed check leaves the summary as it is
+  const verifyWithProgress = async (summaryText: string, text: string, transcriptSegments: TranscriptSegment[] = []) => {
+    const controller = new AbortController(); summaryAbortRef.current = controller;
+    setPipelineActive(true); updatePipeline({ stage: 'verifying', progress: 0, message: getInitialStageMessage('verifying'), estimatedTimeLeft: undefined, details: { fileName: audioFileName } });
+    try {
+      const response = await fetch('/api/verify-summary', { method: 'POST', headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' }, body: JSON.stringify({ summary: summaryText, text, segments: transcriptSegments.length > 0 ? transcriptSegments : undefined, model: settings.summarizationModel, variables: promptVariables, redactPii: settings.redactPii }), signal: controller.signal });
+      if (!response.ok) { let errorMessage = 'Controle mislukt'; try { const errorData = await response.json(); errorMessage = errorData.error || `Serverfout ${response.status}`; } catch (e) { errorMessage = `Serverfout ${response.status}`; } throw new Error(errorMessage); }
+      let data = null; let streamError = null;
+      await readEventStream(response, (event, payload) => {
+        if (event === 'progress') updatePipeline({ progress: Math.round((payload.completed / Math.max(1, payload.total)) * 100), details: { fileName: audioFileName, currentChunk: payload.completed, totalChunks: payload.total } });
+        else if (event === 'result') data = payload;
+        else if (event === 'error') streamError = payload.error;
+      });
+      if (streamError) throw new Error(streamError); if (!data) throw new Error('Geen controleresultaat ontvangen van de server');
+      setVerification(data.claims); const flagged = data.claims.filter(claim => claim.verdict !== 'supported').length;
+      showNotification(flagged > 0 ? 'warning' : 'success', flagged > 0 ? `${flagged} bewering${flagged === 1 ? '' : 'en'} niet onderbouwd door de transcriptie` : 'Alle beweringen worden ondersteund door de transcriptie');
+    } catch (error) {
+      if (controller.signal.aborted) showNotification('info', 'Controle gestopt');
+      else { console.error('❌ Controle fout:', error); showNotification('error', `Controle van de samenvatting mislukt: ${error instanceof Error ? error.message : 'Onbekende fout'}`); }
+    }
+  };
+  const handleVerifySummary = async () => { if (!summary || !transcription) return; setIsProcessing(true); await verifyWithProgress(summary, transcription, segments); updatePipeline({ stage: 'completed', progress: 100, message: 'Controle voltooid', estimatedTimeLeft: 0 }); setPipelineActive(false); setIsProcessing(false); summaryAbortRef.current = null; };
+
   const handleRefinedSummary = async (refinedMarkdownSummary: string) => {
-      setSummary(refinedMarkdownSummary); // Update raw summary state ONLY
+      setSummary(refinedMarkdownSummary); setVerification(null); // Update raw summary state ONLY; an earlier check no longer applies
       showNotification('success', 'Samenvatting succesvol bijgewerkt');
       // Removed client-side HTML conversion
   };
+  // A summary edited by hand is saved like a refinement, marked as a manual edit for the audit log
+  const handleEditedSummary = (editedMarkdownSummary: string) => { meetingSaveRef.current.summaryEdited = true; handleRefinedSummary(editedMarkdownSummary); };
+  // Rename a speaker in all segments; the renamed segments are what the next summary receives
+  const handleRenameSpeaker = (from: string, to: string) => {
+      const renamedSegments = renameSpeaker(segments, from, to);
+      setSegments(renamedSegments);
+      setTranscription(formatTranscript(renamedSegments));
+  };
   const handleEmailNotification = (success: boolean, message: string) => showNotification(success ? 'success' : 'error', message);
   // Updated showNotification to use sonner toast
   const showNotification = (type: 'success' | 'error' | 'info' | 'warning', message: string) => {
@@ -240,7 +397,7 @@ export default function Home() {
     <main ref={mainContainerRef} className="min-h-screen bg-background text-foreground pb-20">
       {/* Removed Notification component usage */}
       {/* Use Shadcn Dialog for EmailModal later */}
-      <EmailModal isOpen={isEmailModalOpen} onClose={handleCloseEmailModal} summary={summary} /* Pass only raw summary */ transcription={transcription} onSendEmail={handleEmailNotification} />
+      <EmailModal isOpen={isEmailModalOpen} onClose={handleCloseEmailModal} summary={summary} /* Pass only raw summary */ transcription={transcription} actionItems={actionItems} suggestedRecipients={teamRecipients} meetingId={meetingId} redactPii={settings.redactPii} onSendEmail={handleEmailNotification} />
       <ProcessingPipeline isActive={pipelineActive} status={pipelineStatus} onCancel={handleCancelPipeline} />
 
       <Header /> {/* Ensure Header is rendered */}
@@ -252,16 +409,33 @@ export default function Home() {
            summary={summary} // Pass raw summary
            // Removed summaryHtml prop
            transcription={transcription}
+           segments={segments}
+           audioUrl={recordingDeletion || !uploadedBlobInfo ? undefined : recordingPlaybackUrl(uploadedBlobInfo.pathname)}
            audioFileName={audioFileName}
+           meetingId={meetingId}
+           actionItems={actionItems}
+           citations={citations}
+           verification={verification}
+           isVerifying={pipelineStatus.stage === 'verifying'}
+           onVerifySummary={handleVerifySummary}
+           promptTemplate={selectedPrompt}
+           templateVariables={promptVariables}
+           summarySettings={settings}
            isSummarizing={pipelineStatus.stage === 'summarizing'}
+           isStreamingSummary={isStreamingSummary}
            isTranscribing={pipelineStatus.stage === 'transcribing'}
            transcriptionInfo={transcriptionInfo}
            onRefinedSummary={handleRefinedSummary}
+           onEditedSummary={handleEditedSummary}
+           onActionItems={setActionItems}
+           onTemplatePromoted={setSelectedPrompt}
            onOpenEmailModal={handleOpenEmailModal}
+           onStopSummary={handleStopSummary}
            onReset={handleReset}
            onToggleSettings={toggleSettings}
            onRegenerateSummary={handleRegenerateSummary}
            onRegenerateTranscript={handleRegenerateTranscript}
+           onRenameSpeaker={handleRenameSpeaker}
          />
       ) : (
         // Main flow when no summary yet
@@ -271,7 +445,7 @@ export default function Home() {
           {/* Main content area */}
            <div className="max-w-6xl mx-auto px-4 pt-8">
              {/* Settings button */} <div className="flex justify-end mb-4">...</div>
-             {/* Settings panel */} <AnimatePresence>{isSettingsOpen && ( <MotionDiv>...</MotionDiv> )}</AnimatePresence>
+             {/* Settings panel */} <AnimatePresence>{isSettingsOpen && ( <MotionDiv initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} exit={{ opacity: 0, height: 0 }} className="overflow-hidden"><SettingsPanel settings={settings} onChange={updateSettings} /></MotionDiv> )}</AnimatePresence>
              {/* Step 1: Audio Input Section */}
             <AnimatePresence mode="wait">
               {currentStep === 1 && (
@@ -282,7 +456,7 @@ export default function Home() {
                       <CardDescription>Kies een prompt, neem audio op of upload een bestand.</CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-6">
-                      <PromptSelector onSelectPrompt={(prompt) => setSelectedPrompt(prompt)} selectedPromptId={selectedPrompt.id} />
+                      <PromptSelector onSelectPrompt={(prompt) => setSelectedPrompt(prompt)} selectedPromptId={selectedPrompt.id} variableValues={templateVariables} onVariablesChange={setTemplateVariables} />
 
                       {/* Input Type Selector */}
                       <div className="flex space-x-2 mb-4">
@@ -310,6 +484,7 @@ export default function Home() {
                             rows={10}
                             className="w-full p-2 border rounded-md"
                           />
+                          {settings.redactPii && inputText.trim() && <RedactionPreview text={inputText} />}
                           <Button onClick={handleTextSubmit} disabled={isProcessing || !inputText.trim()}>
                             Vat Tekst Samen
                           </Button>
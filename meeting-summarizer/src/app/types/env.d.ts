@@ -13,6 +13,43 @@ declare global {
         EMAIL_USER?: string;
         EMAIL_PASSWORD?: string;
         EMAIL_FROM?: string;
+
+        // Transcription provider ('openai' | 'local' | 'fake') and the self-hosted Whisper server
+        TRANSCRIPTION_PROVIDER?: 'openai' | 'local' | 'fake';
+        LOCAL_WHISPER_URL?: string;
+        LOCAL_WHISPER_API_KEY?: string;
+        NEXT_PUBLIC_ENABLE_FAKE_TRANSCRIPTION?: string; // 'true' offers the fake provider in production
+
+        // Chat model providers (see src/lib/chatProvider.ts)
+        AZURE_OPENAI_ENDPOINT?: string;
+        AZURE_OPENAI_API_KEY?: string;
+        AZURE_OPENAI_API_VERSION?: string;
+        ANTHROPIC_API_KEY?: string;
+        OPENAI_COMPATIBLE_BASE_URL?: string;
+        OPENAI_COMPATIBLE_API_KEY?: string;
+
+        // Speaker diarization
+        DIARIZATION_PROVIDER?: 'none' | 'pause' | 'http';
+        DIARIZATION_API_URL?: string;
+        DIARIZATION_API_KEY?: string;
+
+        // Storage for templates and other app data (default: .data in the project directory)
+        DATA_DIR?: string;
+
+        // Authentication (see src/lib/session.ts and src/lib/authProvider.ts)
+        AUTH_SECRET?: string;
+        AUTH_DISABLED?: string;
+        AUTH_PROVIDERS?: string;
+        AUTH_USERS?: string;
+        OIDC_ISSUER?: string;
+        OIDC_CLIENT_ID?: string;
+        OIDC_CLIENT_SECRET?: string;
+        OIDC_NAME?: string;
+        OIDC_ALLOWED_DOMAINS?: string; // Comma-separated e-mail domains that may sign in via OIDC
+        OIDC_ALLOWED_TENANTS?: string; // Comma-separated Entra ID tenant ids (`tid`) that may sign in via OIDC
+
+        // E-mail addresses that are always organization admins (see src/lib/organization.ts)
+        ORG_ADMINS?: string;
         
         NODE_ENV: 'development' | 'production' | 'test';
       }
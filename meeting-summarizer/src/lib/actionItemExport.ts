@@ -0,0 +1,136 @@
+// src/lib/actionItemExport.ts
+import type { ActionItem } from './actionItems';
+import { toCsv } from './csv';
+
+/**
+ * Export formats for tracked action items: CSV for spreadsheets, iCalendar (.ics) for
+ * task lists (VTODO) and calendars (VEVENT), and a formatted list for e-mail.
+ * Kept free of server imports so the action item panel can export in the browser.
+ */
+
+export type IcsKind = 'todo' | 'event';
+
+// --- CSV ---
+
+/**
+ * Converts action items to CSV with a header row
+ */
+export function actionItemsToCsv(items: ActionItem[]): string {
+  const header = ['Omschrijving', 'Eigenaar', 'Deadline', 'Status', 'Citaat'];
+  const rows = items.map(item => [
+    item.description,
+    item.owner,
+    item.dueDate,
+    item.done ? 'Afgerond' : 'Open',
+    item.sourceQuote,
+  ]);
+  return toCsv([header, ...rows]);
+}
+
+// --- iCalendar (RFC 5545) ---
+
+const icsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded: CRLF followed by a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (date: string) => date.replace(/-/g, '');
+
+const icsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const nextDay = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
+
+const itemDescription = (item: ActionItem) =>
+  [
+    item.owner ? `Eigenaar: ${item.owner}` : null,
+    item.sourceQuote ? `Citaat: "${item.sourceQuote}"` : null,
+  ].filter(Boolean).join('\n');
+
+/**
+ * Converts action items to an iCalendar file. 'todo' creates a VTODO per item (with the deadline
+ * as due date); 'event' creates an all-day VEVENT on the deadline and skips items without one.
+ */
+export function actionItemsToIcs(items: ActionItem[], kind: IcsKind, title: string = 'Actiepunten'): string {
+  const stamp = icsTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Meeting Summarizer//Actiepunten//NL',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${icsText(title)}`,
+  ];
+
+  items.forEach(item => {
+    const description = itemDescription(item);
+    const common = [
+      `UID:${item.id}@meeting-summarizer`,
+      `DTSTAMP:${stamp}`,
+      `SUMMARY:${icsText(item.description)}`,
+      ...(description ? [`DESCRIPTION:${icsText(description)}`] : []),
+    ];
+
+    if (kind === 'todo') {
+      lines.push(
+        'BEGIN:VTODO',
+        ...common,
+        ...(item.dueDate ? [`DUE;VALUE=DATE:${icsDate(item.dueDate)}`] : []),
+        `STATUS:${item.done ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+        'END:VTODO'
+      );
+    } else if (item.dueDate) {
+      lines.push(
+        'BEGIN:VEVENT',
+        ...common,
+        `DTSTART;VALUE=DATE:${icsDate(item.dueDate)}`,
+        `DTEND;VALUE=DATE:${icsDate(nextDay(item.dueDate))}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT'
+      );
+    }
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// --- E-mail ---
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('nl-NL', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const itemDetails = (item: ActionItem) =>
+  [item.owner || 'niet toegewezen', item.dueDate ? `deadline ${formatDate(item.dueDate)}` : null, item.done ? 'afgerond' : null]
+    .filter(Boolean).join(', ');
+
+/**
+ * Formats action items as a list for the HTML and plain text parts of an e-mail
+ */
+export function formatActionItemsForEmail(items: ActionItem[]): { html: string; text: string } {
+  const html = `<h3>Actiepunten</h3><ul>${items.map(item =>
+    `<li>${item.done ? `<s>${escapeHtml(item.description)}</s>` : escapeHtml(item.description)} <em>(${escapeHtml(itemDetails(item))})</em></li>`
+  ).join('')}</ul>`;
+  const text = `Actiepunten:\n${items.map(item => `- [${item.done ? 'x' : ' '}] ${item.description} (${itemDetails(item)})`).join('\n')}`;
+  return { html, text };
+}
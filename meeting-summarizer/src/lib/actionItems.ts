@@ -0,0 +1,149 @@
+// src/lib/actionItems.ts
+import { completeChat, ChatResult } from './chatProvider';
+import { nanoid } from './nanoid';
+
+/**
+ * Structured action items extracted from a summary and its transcript.
+ * The model answers with JSON matching `actionItemsSchema`; the answer is always validated
+ * with `validateActionItems`, also for providers that enforce the schema themselves.
+ */
+
+export interface ActionItem {
+  id: string;
+  description: string;
+  owner: string | null;       // Person or party responsible, as named in the meeting
+  dueDate: string | null;     // YYYY-MM-DD
+  sourceQuote: string | null; // Literal quote from the transcript or summary the item is based on
+  done: boolean;              // Tracked in the action item panel; always false when extracted
+}
+
+// Strict JSON schema: every property is required, optional values are null
+export const actionItemsSchema = {
+  name: 'action_items',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['actionItems'],
+    properties: {
+      actionItems: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['description', 'owner', 'dueDate', 'sourceQuote'],
+          properties: {
+            description: { type: 'string', description: 'Wat er moet gebeuren, als korte opdracht' },
+            owner: { type: ['string', 'null'], description: 'Wie het oppakt, of null als dat niet genoemd is' },
+            dueDate: { type: ['string', 'null'], description: 'Deadline als YYYY-MM-DD, of null als er geen deadline is genoemd' },
+            sourceQuote: { type: ['string', 'null'], description: 'Letterlijk citaat waarop het actiepunt is gebaseerd' },
+          },
+        },
+      },
+    },
+  },
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const optionalString = (value: unknown, field: string, index: number): string | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') throw new Error(`Actiepunt ${index + 1}: '${field}' moet tekst of null zijn`);
+  return value.trim() || null;
+};
+
+/**
+ * Validates a parsed model answer, or action items sent by the client, against the action item
+ * schema and gives every item an id. `done` is false unless the item says otherwise. Throws an
+ * error describing the first violation.
+ */
+export function validateActionItems(value: unknown): ActionItem[] {
+  const list = (value as { actionItems?: unknown })?.actionItems;
+  if (!Array.isArray(list)) {
+    throw new Error("Het antwoord bevat geen lijst 'actionItems'");
+  }
+
+  return list.map((item, index) => {
+    if (!item || typeof item !== 'object') {
+      throw new Error(`Actiepunt ${index + 1} is geen object`);
+    }
+    const { description, owner, dueDate, sourceQuote, done } = item as Record<string, unknown>;
+    if (typeof description !== 'string' || !description.trim()) {
+      throw new Error(`Actiepunt ${index + 1} heeft geen omschrijving`);
+    }
+    const date = optionalString(dueDate, 'dueDate', index);
+    if (date && (!DATE_PATTERN.test(date) || isNaN(Date.parse(date)))) {
+      throw new Error(`Actiepunt ${index + 1}: deadline '${date}' is geen geldige datum (YYYY-MM-DD)`);
+    }
+    if (done !== undefined && done !== null && typeof done !== 'boolean') {
+      throw new Error(`Actiepunt ${index + 1}: 'done' moet waar of onwaar zijn`);
+    }
+
+    return {
+      id: nanoid(10),
+      description: description.trim(),
+      owner: optionalString(owner, 'owner', index),
+      dueDate: date,
+      sourceQuote: optionalString(sourceQuote, 'sourceQuote', index),
+      done: done === true,
+    };
+  });
+}
+
+/**
+ * Parses the model's text answer, tolerating a Markdown code fence around the JSON
+ */
+export function parseActionItems(text: string): ActionItem[] {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Het antwoord van het model is geen geldige JSON');
+  }
+  return validateActionItems(value);
+}
+
+const extractionPrompt = (today: string) =>
+  `Je haalt actiepunten uit een vergadering. Een actiepunt is een concrete taak of afspraak die na de vergadering door iemand uitgevoerd moet worden.
+
+Geef voor elk actiepunt:
+- description: wat er moet gebeuren, als korte opdracht
+- owner: de naam (of rol) van wie het oppakt zoals genoemd in het gesprek, of null als dat niet duidelijk is
+- dueDate: de deadline als YYYY-MM-DD, of null als er geen deadline is genoemd. Reken relatieve data ("volgende week vrijdag") om vanaf vandaag, ${today}
+- sourceQuote: een letterlijk citaat uit de transcriptie (of anders de samenvatting) waarop het actiepunt is gebaseerd, of null
+
+Afspraken en vervolgstappen staan vaak in secties als "Gemaakte afspraken" of "Vervolgstappen" van de samenvatting; controleer ze met de transcriptie. Verzin geen actiepunten, eigenaren of deadlines die niet in de tekst staan. Antwoord uitsluitend met JSON in de vorm {"actionItems": [...]}; een lege lijst als er geen actiepunten zijn.`;
+
+export interface ActionItemExtraction {
+  actionItems: ActionItem[];
+  result: ChatResult; // For usage and costs
+  prompt: string;     // Everything sent to the model, for token counting when the provider reports no usage
+}
+
+/**
+ * Asks the model for the action items in a summary (and the transcript it was based on).
+ * `instructions` are added to the system prompt, e.g. how to treat redacted personal data.
+ */
+export async function extractActionItems(
+  modelId: string,
+  summary: string,
+  transcript: string | undefined,
+  { instructions, signal }: { instructions?: string; signal?: AbortSignal } = {}
+): Promise<ActionItemExtraction> {
+  const prompt = extractionPrompt(new Date().toISOString().slice(0, 10));
+  const system = instructions ? `${prompt}\n\n${instructions}` : prompt;
+  const user = `Samenvatting:\n\n${summary}${transcript ? `\n\nTranscriptie:\n\n${transcript}` : ''}`;
+
+  const result = await completeChat(modelId, {
+    messages: [
+      { role: 'system', content: system },
+      { role: 'user', content: user },
+    ],
+    temperature: 0,
+    maxTokens: 4096,
+    jsonSchema: actionItemsSchema,
+    signal,
+  });
+
+  return { actionItems: parseActionItems(result.text), result, prompt: system + user };
+}
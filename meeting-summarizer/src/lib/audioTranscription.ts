@@ -0,0 +1,219 @@
+// src/lib/audioTranscription.ts
+import { formatBytes } from './enhancedAudioChunker';
+import { whisperModels } from './config';
+import { estimateAudioDuration, calculateTranscriptionCost } from './tokenCounter';
+import { getTranscriptionProvider } from './transcriptionProvider';
+import { TranscriptSegment, offsetSegments, renumberSegments, formatTranscript } from './transcript';
+import { diarizeSegments } from './diarization';
+import { resolveTranscriptionLanguage, detectedLanguageFromResult } from './language';
+import { getRetentionPolicy, deleteRecording, type DeletionReceipt } from './retention';
+import { type RecordingChunk, blobPathname, isUploadOf, findRecording, readRecording } from './recordings';
+import { recordAudioDeletions } from './meetings';
+import { type StageProgress, createProgressTracker, withPartialProgress } from './progress';
+import { expectedSeconds, recordThroughput } from './throughput';
+
+/**
+ * Transcription of a whole recording: fetching it, sending it to the transcription provider and
+ * attributing the segments to speakers. Used by /api/direct-transcribe and by the job worker.
+ * Recordings too large for one call are transcribed from the chunks the browser uploaded with
+ * them (see createAudioChunks).
+ */
+
+// OpenAI Whisper limit (slightly less for safety margin)
+const WHISPER_MAX_SIZE_BYTES = 25 * 1024 * 1024 * 0.98; // ~24.5 MB
+
+export interface AudioTranscriptionOptions {
+  model: string;
+  provider?: string;      // Transcription provider ('openai' | 'local' | 'fake'), defaults to the model's provider
+  language?: string;      // ISO 639-1 language code, or 'auto' (default) to detect it
+  prompt?: string;        // Prompt for context
+  diarization?: string;   // Diarization provider override ('none' | 'pause' | 'http')
+  offsetSeconds?: number; // Start time of this audio within the full recording (for chunks)
+  onProgress?: (progress: StageProgress) => void; // Chunks transcribed, the running one partly by the time it is expected to take
+}
+
+export interface AudioTranscription {
+  transcription: string;
+  segments: TranscriptSegment[];
+  usage: {
+    model: string;
+    provider: string;
+    language: string;
+    detectedLanguage: string | undefined;
+    detectedLanguages: string[];
+    duration: number; // Seconds of audio transcribed
+    cost: number;     // From the model's cost per minute
+  };
+}
+
+const tooLarge = (fileSize: number) =>
+  new Error(`Audio file (${formatBytes(fileSize)}) exceeds Whisper API limit (${formatBytes(WHISPER_MAX_SIZE_BYTES)}). Please use segmented transcription.`);
+
+/**
+ * Reads a recording from the blob store as a file for the transcription provider. Errors mention
+ * 'Failed to fetch' or 'exceeds Whisper API limit', which the routes map to a status code.
+ */
+export async function fetchAudioFile(pathname: string): Promise<File> {
+  console.log(`⬇️ Reading audio ${pathname} from Vercel Blob...`);
+  const recording = await readRecording(pathname);
+  if (!recording) {
+    throw new Error('Failed to fetch audio from source: the recording does not exist');
+  }
+
+  // Check the size against the Whisper limit before reading the whole blob, when the header allows it
+  const contentLength = recording.headers.get('content-length');
+  if (contentLength) {
+    console.log(`📄 Audio file size from header: ${formatBytes(parseInt(contentLength, 10))}`);
+    if (parseInt(contentLength, 10) > WHISPER_MAX_SIZE_BYTES) {
+      await recording.stream.cancel();
+      throw tooLarge(parseInt(contentLength, 10));
+    }
+  }
+  const audioBlob = await new Response(recording.stream).blob();
+  if (!contentLength) {
+    console.warn(`⚠️ Content-Length header missing. Read blob size: ${formatBytes(audioBlob.size)}`);
+    if (audioBlob.size > WHISPER_MAX_SIZE_BYTES) throw tooLarge(audioBlob.size);
+  }
+  console.log('✅ Audio read successfully from Vercel Blob.');
+
+  // The file name comes from the pathname, with an extension so the provider accepts it
+  let filename = (pathname.split('/').pop() || 'audio_from_blob').replace(/[^a-zA-Z0-9_.-]/g, '_');
+  if (!filename.includes('.')) filename += '.mp3'; // Assume mp3 if missing
+
+  return new File([audioBlob], filename, { type: recording.blob.contentType || 'audio/mpeg' });
+}
+
+/**
+ * Transcribes a file with the selected provider, attributes the segments to speakers and shifts
+ * them to their position in the full recording. The file is transcribed in one call, so progress
+ * is one chunk, which counts as partly done while the call runs: by the throughput of earlier
+ * transcriptions with the model, including the earlier chunks of the same recording.
+ */
+export async function transcribeAudioFile(audioFile: File, options: AudioTranscriptionOptions): Promise<AudioTranscription> {
+  const { model, language, diarization, onProgress } = options;
+  const provider = getTranscriptionProvider(options.provider, model);
+  const startedAt = Date.now();
+  const expected = onProgress ? await expectedSeconds('transcription', model, audioFile.size) : null;
+  const tracker = createProgressTracker('chunks', expected);
+  onProgress?.(tracker.update(0, 1));
+  console.log(`🤖 Sending audio (${audioFile.name}, size: ${formatBytes(audioFile.size)}) to ${provider.name} (${model})...`);
+
+  // Without a language the model detects it and reports which language it found
+  const transcriptionResult = await withPartialProgress(provider.transcribe({
+    file: audioFile,
+    model,
+    language: resolveTranscriptionLanguage(language),
+    prompt: options.prompt,
+  }), expected, partial => onProgress?.(tracker.update(0, 1, partial)));
+  console.log('🔍 Raw Transcription Result:', transcriptionResult);
+
+  const segments = transcriptionResult.segments;
+  if (segments.length === 0 && !transcriptionResult.text) {
+    console.error('❌ Failed to extract transcription from provider response:', transcriptionResult);
+    throw new Error(`Failed to extract transcription string from ${provider.name} response.`);
+  }
+
+  // Diarize on chunk-relative times, then shift to the position in the full recording
+  const detectedLanguage = detectedLanguageFromResult(transcriptionResult, language);
+  const diarizedSegments = await diarizeSegments(segments, { provider: diarization, audio: audioFile });
+  const transcriptSegments = offsetSegments(diarizedSegments, Number(options.offsetSeconds) || 0)
+    .map(segment => ({ ...segment, language: detectedLanguage }));
+  const transcription = formatTranscript(transcriptSegments);
+  // The provider reports the duration; otherwise the last segment or the file size tells it
+  const duration = transcriptionResult.duration ?? segments[segments.length - 1]?.end ?? estimateAudioDuration(audioFile.size) * 60;
+  const cost = calculateTranscriptionCost(duration / 60, whisperModels.find(whisperModel => whisperModel.id === model)?.costPerMinute ?? 0);
+  console.log(`✅ Transcription received from ${provider.name} (${transcription.length} characters, ${transcriptSegments.length} segments, language: ${detectedLanguage || 'unknown'}).`);
+  await recordThroughput('transcription', model, audioFile.size, (Date.now() - startedAt) / 1000);
+  onProgress?.(tracker.update(1, 1));
+
+  return {
+    transcription,
+    segments: transcriptSegments,
+    usage: {
+      model,
+      provider: provider.id,
+      language: language || 'auto',
+      detectedLanguage,
+      detectedLanguages: detectedLanguage ? [detectedLanguage] : [],
+      duration,
+      cost,
+    },
+  };
+}
+
+/**
+ * Transcribes a recording from its chunks, one after the other. Every chunk is shifted to its
+ * start time in the recording, or to where the previous chunk ended when that is unknown.
+ * Speakers are attributed per chunk. Progress counts the chunks transcribed, and the running
+ * chunk as far as it is expected to be done.
+ */
+export async function transcribeAudioChunks(chunks: RecordingChunk[], options: AudioTranscriptionOptions): Promise<AudioTranscription> {
+  const { onProgress } = options;
+  const tracker = createProgressTracker('chunks');
+  onProgress?.(tracker.update(0, chunks.length));
+
+  const results: AudioTranscription[] = [];
+  let previousEnd = 0;
+  for (let index = 0; index < chunks.length; index++) {
+    const chunk = chunks[index];
+    const offsetSeconds = chunk.startTime ?? previousEnd;
+    console.log(`🧩 Transcribing chunk ${index + 1}/${chunks.length} (from ${Math.round(offsetSeconds)}s)`);
+    const result = await transcribeAudioFile(await fetchAudioFile(chunk.pathname), {
+      ...options,
+      offsetSeconds,
+      onProgress: onProgress && (progress => onProgress(tracker.update(index, chunks.length, progress.percentage / 100))),
+    });
+    results.push(result);
+    const lastSegment = result.segments[result.segments.length - 1];
+    previousEnd = chunk.duration !== undefined ? offsetSeconds + chunk.duration : lastSegment?.end ?? previousEnd;
+    onProgress?.(tracker.update(index + 1, chunks.length));
+  }
+
+  const segments = renumberSegments(results.flatMap(result => result.segments));
+  const detectedLanguages = Array.from(new Set(results.flatMap(result => result.usage.detectedLanguages)));
+  return {
+    transcription: formatTranscript(segments),
+    segments,
+    usage: {
+      ...results[0].usage,
+      detectedLanguage: detectedLanguages[0],
+      detectedLanguages,
+      duration: results.reduce((total, result) => total + result.usage.duration, 0),
+      cost: results.reduce((total, result) => total + result.usage.cost, 0),
+    },
+  };
+}
+
+/**
+ * Deletes a transcribed recording (see retention.ts). Only the user's own uploads are deleted; a
+ * failure does not fail the transcription, the scheduled cleanup removes the recording later.
+ */
+export async function deleteTranscribedRecording(userId: string, audioUrl: string): Promise<DeletionReceipt | null> {
+  if (!getRetentionPolicy().deleteAfterTranscription) return null;
+  const pathname = blobPathname(audioUrl);
+  if (!pathname || !(await isUploadOf(userId, pathname))) return null;
+  try {
+    const receipt = await deleteRecording(audioUrl, 'transcribed', userId);
+    await recordAudioDeletions([receipt]);
+    return receipt;
+  } catch (error) {
+    console.error('❌ Recording could not be deleted after transcription:', error);
+    return null;
+  }
+}
+
+/**
+ * Deletes the chunks of a transcribed recording. They only exist for the transcription, so they
+ * are deleted whatever the retention policy; a chunk that cannot be deleted is left to the
+ * scheduled cleanup.
+ */
+export async function deleteRecordingChunks(userId: string, chunks: RecordingChunk[]): Promise<void> {
+  await Promise.all(chunks.map(async chunk => {
+    try {
+      const blob = (await isUploadOf(userId, chunk.pathname)) ? await findRecording(chunk.pathname) : null;
+      if (blob) await deleteRecording(blob.url, 'transcribed', userId);
+    } catch (error) {
+      console.error(`❌ Chunk ${chunk.pathname} could not be deleted after transcription:`, error);
+    }
+  }));
+}
@@ -0,0 +1,187 @@
+// src/lib/audit.ts
+import { createHash } from 'crypto';
+import { getAppendLog } from './storage';
+import { nanoid } from './nanoid';
+import { toCsv } from './csv';
+import { getMeeting, canAccessMeeting } from './meetings';
+import type { UserContext } from './organization';
+
+/**
+ * Audit log of who generated, read, refined, edited and e-mailed each summary, for compliance
+ * with financial advice regulations. Entries are appended to the 'audit' log and never changed
+ * or removed by the application.
+ *
+ * Summaries themselves are not copied into the log: entries hold a SHA-256 hash of the text, so
+ * an entry can be matched to the version of a summary that was generated, edited or sent.
+ */
+
+export type AuditAction =
+  | 'summary.generated'
+  | 'summary.refined'
+  | 'summary.edited'
+  | 'summary.replaced'
+  | 'email.sent'
+  | 'email.failed'
+  | 'meeting.created'
+  | 'meeting.read'
+  | 'meeting.deleted';
+
+export const AUDIT_ACTIONS: { id: AuditAction; label: string }[] = [
+  { id: 'summary.generated', label: 'Samenvatting gemaakt' },
+  { id: 'summary.refined', label: 'Samenvatting verfijnd' },
+  { id: 'summary.edited', label: 'Samenvatting handmatig bewerkt' },
+  { id: 'summary.replaced', label: 'Samenvatting vervangen' },
+  { id: 'email.sent', label: 'E-mail verzonden' },
+  { id: 'email.failed', label: 'E-mail mislukt' },
+  { id: 'meeting.created', label: 'Gesprek opgeslagen' },
+  { id: 'meeting.read', label: 'Gesprek geopend' },
+  { id: 'meeting.deleted', label: 'Gesprek verwijderd' },
+];
+
+export type AuditDetails = Record<string, string | number | boolean | string[] | null>;
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  action: AuditAction;
+  actor: { id: string; email: string; name: string };
+  teamId: string | null;    // Active team of the actor
+  meetingId: string | null; // Null for summaries that were not saved (yet)
+  details: AuditDetails;
+}
+
+export interface AuditFilter {
+  from?: string;      // YYYY-MM-DD, inclusive
+  to?: string;        // YYYY-MM-DD, inclusive
+  action?: AuditAction;
+  actor?: string;     // Part of the e-mail address or name
+  meetingId?: string;
+  limit?: number | null; // null returns every match (exports)
+}
+
+const DEFAULT_QUERY_LIMIT = 500;
+const MAX_QUERY_LIMIT = 5000;
+
+const auditLog = () => getAppendLog<AuditEntry>('audit');
+
+export const isAuditAction = (value: unknown): value is AuditAction =>
+  AUDIT_ACTIONS.some(action => action.id === value);
+
+/**
+ * SHA-256 of a text, to record which version of a summary an entry is about
+ */
+export const contentHash = (text: string) => createHash('sha256').update(text, 'utf8').digest('hex');
+
+/**
+ * The meeting id a client sent along, when the user may access that meeting; other ids are
+ * dropped so nobody can add entries to the trail of a meeting they cannot see
+ */
+export async function auditMeetingId(context: UserContext | null, value: unknown): Promise<string | null> {
+  if (!context || typeof value !== 'string' || !value) return null;
+  const meeting = await getMeeting(value).catch(() => null);
+  return meeting && canAccessMeeting(context, meeting) ? meeting.id : null;
+}
+
+/**
+ * A failed write to the audit log. The action it is about has already happened; it is passed on
+ * so the request fails instead of leaving an unnoticed gap in the log.
+ */
+export class AuditWriteError extends Error {
+  constructor(action: AuditAction) {
+    super(`De actie is uitgevoerd, maar kon niet worden vastgelegd in de auditlog (${action})`);
+    this.name = 'AuditWriteError';
+  }
+}
+
+/**
+ * Appends an entry for the signed-in user. Throws an AuditWriteError when the entry cannot be
+ * written.
+ */
+export async function recordAudit(
+  context: UserContext | null,
+  action: AuditAction,
+  entry: { meetingId?: string | null; details?: AuditDetails } = {}
+): Promise<void> {
+  const user = context?.user;
+  try {
+    await auditLog().append({
+      id: nanoid(12),
+      timestamp: new Date().toISOString(),
+      action,
+      actor: user ? { id: user.id, email: user.email, name: user.name } : { id: 'unknown', email: '', name: 'Onbekend' },
+      teamId: context?.activeTeam?.id ?? null,
+      meetingId: entry.meetingId || null,
+      details: entry.details ?? {},
+    });
+  } catch (error) {
+    console.error(`❌ Audit entry ${action} could not be written:`, error);
+    throw new AuditWriteError(action);
+  }
+}
+
+/**
+ * Records that the summary of a saved meeting changed. Every change is recorded, whatever the
+ * client says; `edited` (the client's `summaryEdited` flag) only labels it as a manual edit
+ * instead of a generated or refined summary that replaced the previous one.
+ */
+export async function recordSummaryChange(
+  context: UserContext | null,
+  meetingId: string,
+  previous: string,
+  summary: string,
+  edited: boolean
+): Promise<void> {
+  const previousHash = contentHash(previous);
+  const summaryHash = contentHash(summary);
+  if (previousHash === summaryHash) return;
+  await recordAudit(context, edited ? 'summary.edited' : 'summary.replaced', {
+    meetingId,
+    details: { previousHash, summaryHash, length: summary.length },
+  });
+}
+
+/**
+ * Entries that match the filter, newest first, and how many matched before the limit was applied
+ */
+export async function queryAudit(filter: AuditFilter = {}): Promise<{ entries: AuditEntry[]; total: number }> {
+  const actor = filter.actor?.trim().toLowerCase();
+  const matches = (await auditLog().read()).filter(entry => {
+    const day = entry.timestamp.slice(0, 10);
+    if (filter.from && day < filter.from) return false;
+    if (filter.to && day > filter.to) return false;
+    if (filter.action && entry.action !== filter.action) return false;
+    if (filter.meetingId && entry.meetingId !== filter.meetingId) return false;
+    if (actor && !entry.actor.email.toLowerCase().includes(actor) && !entry.actor.name.toLowerCase().includes(actor)) return false;
+    return true;
+  });
+  const entries = matches.reverse();
+  if (filter.limit === null) return { entries, total: matches.length };
+  const limit = Math.min(Math.max(1, filter.limit ?? DEFAULT_QUERY_LIMIT), MAX_QUERY_LIMIT);
+  return { entries: entries.slice(0, limit), total: matches.length };
+}
+
+const formatDetails = (details: AuditDetails) =>
+  Object.keys(details)
+    .map(key => {
+      const value = details[key];
+      return `${key}: ${Array.isArray(value) ? value.join(', ') : value ?? ''}`;
+    })
+    .join(' | ');
+
+/**
+ * Converts entries to CSV with a header row
+ */
+export function auditToCsv(entries: AuditEntry[], teamNames: Record<string, string> = {}): string {
+  const header = ['Tijdstip', 'Actie', 'Gebruiker', 'E-mail', 'Team', 'Gesprek', 'Details', 'Id'];
+  const rows = entries.map(entry => [
+    entry.timestamp,
+    AUDIT_ACTIONS.find(action => action.id === entry.action)?.label || entry.action,
+    entry.actor.name,
+    entry.actor.email,
+    entry.teamId ? teamNames[entry.teamId] || entry.teamId : null,
+    entry.meetingId,
+    formatDetails(entry.details),
+    entry.id,
+  ]);
+  return toCsv([header, ...rows]);
+}
@@ -0,0 +1,230 @@
+// src/lib/authProvider.ts
+import { scrypt, randomBytes, timingSafeEqual, createHash } from 'crypto';
+import { SessionUser } from './session';
+
+/**
+ * Pluggable sign-in methods. AUTH_PROVIDERS lists the enabled providers (default: 'credentials').
+ *
+ * Providers:
+ * - 'credentials': e-mail address and password, checked against AUTH_USERS
+ *                  (`email:hash[:name]`, comma-separated; create a hash with `node scripts/hash-password.js`)
+ * - 'oidc':        any OpenID Connect identity provider (Microsoft Entra ID, Google, Keycloak, ...)
+ *                  at OIDC_ISSUER with OIDC_CLIENT_ID and OIDC_CLIENT_SECRET; OIDC_NAME is the button label.
+ *                  Only users with a verified e-mail address in OIDC_ALLOWED_DOMAINS, or of a tenant in
+ *                  OIDC_ALLOWED_TENANTS (Entra ID `tid`), get a session: a multi-tenant issuer signs in
+ *                  anyone, and members and admins are matched by e-mail address.
+ */
+
+export type AuthProviderId = 'credentials' | 'oidc';
+
+// What the sign-in page needs to know about a provider
+export interface AuthProviderInfo {
+  id: AuthProviderId;
+  name: string;
+  type: 'credentials' | 'redirect';
+}
+
+const SCRYPT_KEY_LENGTH = 64;
+
+export function enabledAuthProviders(): AuthProviderInfo[] {
+  const ids = (process.env.AUTH_PROVIDERS || 'credentials').split(',').map(id => id.trim().toLowerCase());
+  const providers: AuthProviderInfo[] = [];
+  if (ids.includes('credentials')) providers.push({ id: 'credentials', name: 'E-mail en wachtwoord', type: 'credentials' });
+  if (ids.includes('oidc')) providers.push({ id: 'oidc', name: process.env.OIDC_NAME || 'Single sign-on', type: 'redirect' });
+  return providers;
+}
+
+export function isProviderEnabled(id: AuthProviderId): boolean {
+  return enabledAuthProviders().some(provider => provider.id === id);
+}
+
+// --- Credentials ---
+
+const deriveKey = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, SCRYPT_KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+
+/**
+ * Hashes a password for AUTH_USERS: `scrypt.<salt>.<key>` (base64url, no characters that env files expand)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  return `scrypt.${salt.toString('base64url')}.${(await deriveKey(password, salt)).toString('base64url')}`;
+}
+
+async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [algorithm, salt, key] = hash.split('.');
+  if (algorithm !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'base64url');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64url'));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+interface ConfiguredUser {
+  email: string;
+  hash: string;
+  name?: string;
+}
+
+const configuredUsers = (): ConfiguredUser[] =>
+  (process.env.AUTH_USERS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [email, hash, name] = entry.split(':');
+      return { email: email.trim().toLowerCase(), hash: (hash || '').trim(), ...(name?.trim() ? { name: name.trim() } : {}) };
+    });
+
+// Checked for unknown users too, so the response time does not reveal which addresses exist
+const DUMMY_HASH = 'scrypt.AAAAAAAAAAAAAAAAAAAAAA.AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA';
+
+/**
+ * Returns the user when the e-mail address and password match a configured user
+ */
+export async function verifyCredentials(email: string, password: string): Promise<SessionUser | null> {
+  const user = configuredUsers().find(candidate => candidate.email === email.trim().toLowerCase());
+  const valid = await verifyPassword(password, user?.hash || DUMMY_HASH);
+  if (!user || !valid) return null;
+  return { id: `credentials:${user.email}`, email: user.email, name: user.name || user.email.split('@')[0], provider: 'credentials' };
+}
+
+// --- OpenID Connect ---
+
+interface OidcConfiguration {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+// State kept in a signed cookie between the redirect to the identity provider and the callback
+export interface OidcState {
+  state: string;
+  nonce: string;
+  verifier: string; // PKCE code verifier
+  next: string;     // Path to return to after signing in
+  expiresAt: number;
+}
+
+const OIDC_STATE_MAX_AGE_SECONDS = 10 * 60;
+
+let discovery: { issuer: string; configuration: Promise<OidcConfiguration> } | null = null;
+
+const oidcSettings = () => {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/$/, '');
+  const clientId = process.env.OIDC_CLIENT_ID;
+  const clientSecret = process.env.OIDC_CLIENT_SECRET;
+  if (!issuer || !clientId || !clientSecret) {
+    throw new Error('OIDC is niet geconfigureerd: stel OIDC_ISSUER, OIDC_CLIENT_ID en OIDC_CLIENT_SECRET in');
+  }
+  return { issuer, clientId, clientSecret };
+};
+
+// The discovery document is fetched once per issuer
+const oidcConfiguration = (issuer: string): Promise<OidcConfiguration> => {
+  if (!discovery || discovery.issuer !== issuer) {
+    const configuration = fetch(`${issuer}/.well-known/openid-configuration`).then(async response => {
+      if (!response.ok) throw new Error(`OIDC-configuratie ophalen mislukt (${response.status})`);
+      return response.json() as Promise<OidcConfiguration>;
+    });
+    configuration.catch(() => { discovery = null; });
+    discovery = { issuer, configuration };
+  }
+  return discovery.configuration;
+};
+
+const listSetting = (value: string | undefined) =>
+  (value || '').split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+
+// The sign-in must come from an allowed e-mail domain or tenant; without an allow-list nobody gets in
+function checkOidcAllowed(email: string, claims: Record<string, unknown>): void {
+  const domains = listSetting(process.env.OIDC_ALLOWED_DOMAINS);
+  const tenants = listSetting(process.env.OIDC_ALLOWED_TENANTS);
+  if (domains.length === 0 && tenants.length === 0) {
+    throw new Error('OIDC is niet geconfigureerd: stel OIDC_ALLOWED_DOMAINS of OIDC_ALLOWED_TENANTS in');
+  }
+  const domain = email.split('@').pop() || '';
+  const tenant = typeof claims.tid === 'string' ? claims.tid.toLowerCase() : '';
+  if (!domains.includes(domain) && !(tenant && tenants.includes(tenant))) {
+    throw new Error('Dit account heeft geen toegang');
+  }
+}
+
+const randomToken = () => randomBytes(32).toString('base64url');
+
+export const oidcCallbackUrl = (origin: string) => `${origin}/api/auth/oidc/callback`;
+
+/**
+ * Starts an OIDC sign-in: the URL to send the user to, and the state to keep until the callback
+ */
+export async function startOidcLogin(origin: string, next: string): Promise<{ url: string; state: OidcState; maxAge: number }> {
+  const { issuer, clientId } = oidcSettings();
+  const configuration = await oidcConfiguration(issuer);
+  const state: OidcState = { state: randomToken(), nonce: randomToken(), verifier: randomToken(), next, expiresAt: Date.now() + OIDC_STATE_MAX_AGE_SECONDS * 1000 };
+
+  const url = new URL(configuration.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: clientId,
+    redirect_uri: oidcCallbackUrl(origin),
+    scope: 'openid email profile',
+    state: state.state,
+    nonce: state.nonce,
+    code_challenge: createHash('sha256').update(state.verifier).digest('base64url'),
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return { url: url.toString(), state, maxAge: OIDC_STATE_MAX_AGE_SECONDS };
+}
+
+/**
+ * Completes an OIDC sign-in: exchanges the code for an ID token and returns the user in it.
+ * The ID token comes straight from the token endpoint over TLS, authenticated with the client
+ * secret, so its claims are checked but its signature is not (OpenID Connect Core 3.1.3.7).
+ */
+export async function completeOidcLogin(origin: string, params: URLSearchParams, state: OidcState | null): Promise<SessionUser> {
+  const { issuer, clientId, clientSecret } = oidcSettings();
+  if (params.get('error')) throw new Error(`Inloggen geweigerd: ${params.get('error_description') || params.get('error')}`);
+  if (!state || state.expiresAt < Date.now() || params.get('state') !== state.state) throw new Error('Ongeldige of verlopen inlogpoging; probeer opnieuw');
+  const code = params.get('code');
+  if (!code) throw new Error('Geen autorisatiecode ontvangen');
+
+  const configuration = await oidcConfiguration(issuer);
+  const response = await fetch(configuration.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: oidcCallbackUrl(origin),
+      client_id: clientId,
+      client_secret: clientSecret,
+      code_verifier: state.verifier,
+    }),
+  });
+  const tokens = await response.json().catch(() => ({}));
+  if (!response.ok || typeof tokens.id_token !== 'string') {
+    throw new Error(`Token ophalen mislukt: ${tokens.error_description || tokens.error || response.status}`);
+  }
+
+  const claims = JSON.parse(Buffer.from(tokens.id_token.split('.')[1] || '', 'base64url').toString('utf8'));
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== configuration.issuer || !audiences.includes(clientId) || claims.nonce !== state.nonce || !(claims.exp * 1000 > Date.now())) {
+    throw new Error('Het ID-token van de identity provider is ongeldig');
+  }
+
+  // Members and admins are matched by e-mail address, so only an address the provider verified counts;
+  // preferred_username is a free-form login name that is not necessarily an address of the user
+  if (typeof claims.email !== 'string' || !claims.email.includes('@') || claims.email_verified !== true) {
+    throw new Error('De identity provider gaf geen geverifieerd e-mailadres door');
+  }
+  const email = claims.email.trim().toLowerCase();
+  checkOidcAllowed(email, claims);
+  return {
+    id: `oidc:${claims.sub}`,
+    email,
+    name: String(claims.name || email.split('@')[0]),
+    provider: 'oidc',
+  };
+}
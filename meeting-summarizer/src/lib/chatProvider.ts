@@ -0,0 +1,289 @@
+// src/lib/chatProvider.ts
+import OpenAI, { AzureOpenAI } from 'openai';
+import openai from './openai';
+import { chatModels, ChatModel, ChatProviderId } from './config';
+import { readEventStream } from './sse';
+
+/**
+ * Pluggable chat model layer used by summarization and refinement.
+ * Each entry in `chatModels` declares its provider and capabilities; the providers
+ * translate a provider-neutral request into the right API call.
+ *
+ * Providers:
+ * - 'openai':            OpenAI (Responses API for reasoning models, Chat Completions otherwise)
+ * - 'azure':             Azure OpenAI at AZURE_OPENAI_ENDPOINT with AZURE_OPENAI_API_KEY
+ * - 'anthropic':         Anthropic Messages API with ANTHROPIC_API_KEY
+ * - 'openai-compatible': any OpenAI-compatible server (e.g. Ollama) at OPENAI_COMPATIBLE_BASE_URL
+ *
+ * Requests with an `onDelta` callback are streamed: every piece of generated text is passed to the
+ * callback as it arrives, and the full text is still returned at the end.
+ *
+ * Requests with a `jsonSchema` ask for JSON matching that schema. OpenAI-style providers enforce it
+ * with structured outputs; Anthropic only gets the prompt, so callers always validate the answer.
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number; // Ignored for models without the temperature capability
+  maxTokens?: number;   // Capped at the model's maxOutputTokens
+  signal?: AbortSignal; // Cancels the request at the provider, e.g. when the client disconnects
+  onDelta?: (text: string) => void; // Streams the answer; called with every new piece of text
+  jsonSchema?: { name: string; schema: Record<string, unknown> }; // Requests JSON output matching the schema
+}
+
+export interface ChatResult {
+  text: string;
+  model: ChatModel; // The model that produced the result (may be a fallback)
+  usage?: { inputTokens: number; outputTokens: number }; // As reported by the provider
+}
+
+export interface ChatProvider {
+  id: ChatProviderId;
+  name: string;
+  complete(model: ChatModel, request: ChatRequest): Promise<Omit<ChatResult, 'model'>>;
+}
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+const apiModelName = (model: ChatModel) => model.apiModel || model.id;
+const maxTokensFor = (model: ChatModel, request: ChatRequest) =>
+  Math.min(request.maxTokens || DEFAULT_MAX_TOKENS, model.capabilities.maxOutputTokens);
+const systemPrompt = (messages: ChatMessage[]) =>
+  messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+const conversation = (messages: ChatMessage[]) =>
+  messages.filter(message => message.role !== 'system') as { role: 'user' | 'assistant'; content: string }[];
+
+/**
+ * Chat Completions call shared by all OpenAI-style clients
+ */
+async function completeWithChatCompletions(client: OpenAI, model: ChatModel, request: ChatRequest) {
+  const params = {
+    model: apiModelName(model),
+    messages: request.messages,
+    ...(model.capabilities.temperature && request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(model.capabilities.reasoning
+      ? { max_completion_tokens: maxTokensFor(model, request) }
+      : { max_tokens: maxTokensFor(model, request) }),
+    ...(request.jsonSchema
+      ? { response_format: { type: 'json_schema' as const, json_schema: { ...request.jsonSchema, strict: true } } }
+      : {}),
+  };
+
+  if (request.onDelta) {
+    const stream = await client.chat.completions.create(
+      { ...params, stream: true, stream_options: { include_usage: true } },
+      { signal: request.signal }
+    );
+    let text = '';
+    let usage: ChatResult['usage'];
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        request.onDelta(delta);
+      }
+      // The usage arrives in a final chunk without choices
+      if (chunk.usage) usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+    }
+    return { text, usage };
+  }
+
+  const response = await client.chat.completions.create(params, { signal: request.signal });
+  return {
+    text: response.choices[0]?.message?.content || '',
+    usage: response.usage ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens } : undefined,
+  };
+}
+
+const openaiChat: ChatProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  async complete(model, request) {
+    if (!model.capabilities.reasoning) {
+      return completeWithChatCompletions(openai, model, request);
+    }
+
+    // Reasoning models go through the Responses API
+    const params = {
+      model: apiModelName(model),
+      instructions: systemPrompt(request.messages) || undefined,
+      input: conversation(request.messages),
+      reasoning: { effort: 'medium' as const },
+      text: {
+        format: request.jsonSchema
+          ? { type: 'json_schema' as const, ...request.jsonSchema, strict: true }
+          : { type: 'text' as const },
+      },
+      store: true,
+    };
+
+    if (request.onDelta) {
+      const stream = await openai.responses.create({ ...params, stream: true }, { signal: request.signal });
+      let text = '';
+      let usage: ChatResult['usage'];
+      for await (const event of stream) {
+        if (event.type === 'response.output_text.delta') {
+          text += event.delta;
+          request.onDelta(event.delta);
+        } else if (event.type === 'response.completed' && event.response.usage) {
+          usage = { inputTokens: event.response.usage.input_tokens, outputTokens: event.response.usage.output_tokens };
+        } else if (event.type === 'response.failed') {
+          throw new Error(event.response.error?.message || 'OpenAI response mislukt');
+        }
+      }
+      return { text, usage };
+    }
+
+    const response = await openai.responses.create(params, { signal: request.signal });
+    return {
+      text: response.output_text || '',
+      usage: response.usage ? { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens } : undefined,
+    };
+  },
+};
+
+let azureClient: AzureOpenAI | null = null;
+const azureChat: ChatProvider = {
+  id: 'azure',
+  name: 'Azure OpenAI',
+  async complete(model, request) {
+    if (!process.env.AZURE_OPENAI_ENDPOINT || !process.env.AZURE_OPENAI_API_KEY) {
+      throw new Error('AZURE_OPENAI_ENDPOINT en AZURE_OPENAI_API_KEY zijn niet geconfigureerd');
+    }
+    azureClient ??= new AzureOpenAI({
+      endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+      apiKey: process.env.AZURE_OPENAI_API_KEY,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+      timeout: 600000,
+      maxRetries: 2,
+    });
+    return completeWithChatCompletions(azureClient, model, request);
+  },
+};
+
+const anthropicChat: ChatProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  async complete(model, request) {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error('ANTHROPIC_API_KEY is niet geconfigureerd');
+    }
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: apiModelName(model),
+        system: systemPrompt(request.messages) || undefined,
+        messages: conversation(request.messages),
+        max_tokens: maxTokensFor(model, request),
+        ...(model.capabilities.temperature && request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.onDelta ? { stream: true } : {}),
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`Anthropic API gaf status ${response.status}: ${errorText}`);
+    }
+
+    if (request.onDelta) {
+      let text = '';
+      let inputTokens = 0;
+      let outputTokens = 0;
+      let streamError: string | null = null;
+      await readEventStream(response, (event, data) => {
+        if (event === 'message_start') {
+          inputTokens = data.message?.usage?.input_tokens ?? 0;
+        } else if (event === 'content_block_delta' && data.delta?.type === 'text_delta') {
+          text += data.delta.text;
+          request.onDelta!(data.delta.text);
+        } else if (event === 'message_delta') {
+          outputTokens = data.usage?.output_tokens ?? outputTokens;
+        } else if (event === 'error') {
+          streamError = data.error?.message || 'Onbekende fout';
+        }
+      });
+      if (streamError) throw new Error(`Anthropic API gaf een fout: ${streamError}`);
+      return { text, usage: inputTokens || outputTokens ? { inputTokens, outputTokens } : undefined };
+    }
+
+    const data = await response.json();
+    const text = Array.isArray(data?.content)
+      ? data.content.filter((block: any) => block.type === 'text').map((block: any) => block.text).join('')
+      : '';
+    return {
+      text,
+      usage: data?.usage ? { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens } : undefined,
+    };
+  },
+};
+
+let compatibleClient: OpenAI | null = null;
+const openaiCompatibleChat: ChatProvider = {
+  id: 'openai-compatible',
+  name: 'OpenAI-compatibele server',
+  async complete(model, request) {
+    if (!process.env.OPENAI_COMPATIBLE_BASE_URL) {
+      throw new Error('OPENAI_COMPATIBLE_BASE_URL is niet geconfigureerd');
+    }
+    compatibleClient ??= new OpenAI({
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed', // Ollama ignores the key but the SDK requires one
+      timeout: 600000,
+      maxRetries: 1,
+    });
+    return completeWithChatCompletions(compatibleClient, model, request);
+  },
+};
+
+const providers: Record<ChatProviderId, ChatProvider> = {
+  openai: openaiChat,
+  azure: azureChat,
+  anthropic: anthropicChat,
+  'openai-compatible': openaiCompatibleChat,
+};
+
+/**
+ * Returns the configured chat model, or the default model when the id is unknown
+ */
+export function getChatModel(id?: string | null, defaultId: string = 'o3-mini'): ChatModel {
+  return chatModels.find(model => model.id === id) ||
+         chatModels.find(model => model.id === defaultId) ||
+         chatModels[0];
+}
+
+/**
+ * Sends a chat request to the model's provider. When the model fails and declares a fallback
+ * model, the request is retried once with the fallback - unless the request was cancelled or
+ * part of a streamed answer was already delivered.
+ */
+export async function completeChat(modelId: string, request: ChatRequest): Promise<ChatResult> {
+  const model = getChatModel(modelId);
+  let streamed = false;
+  const onDelta = request.onDelta;
+  const tracked: ChatRequest = onDelta ? { ...request, onDelta: text => { streamed = true; onDelta(text); } } : request;
+
+  try {
+    const result = await providers[model.provider].complete(model, tracked);
+    return { ...result, model };
+  } catch (error) {
+    const fallback = model.fallback ? chatModels.find(candidate => candidate.id === model.fallback) : undefined;
+    if (!fallback || streamed || request.signal?.aborted) throw error;
+
+    console.warn(`Chat model '${model.id}' failed, retrying with fallback '${fallback.id}':`, error);
+    const result = await providers[fallback.provider].complete(fallback, request);
+    return { ...result, model: fallback };
+  }
+}
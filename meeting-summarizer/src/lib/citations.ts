@@ -0,0 +1,134 @@
+// src/lib/citations.ts
+import { TranscriptSegment, groupTurns, formatTimestamp } from './transcript';
+
+/**
+ * Source citations: links from summary statements to the transcript passages they are based on.
+ *
+ * The model gets the transcript with numbered passages ("[#12]") and puts the numbers of its
+ * sources after every bullet, table row and paragraph. A passage is a transcript segment when
+ * segments are available (id = segment id, with timestamps), otherwise a line of the plain text
+ * (id = line index). The markers stay in the summary so the display can make them clickable.
+ * Kept free of server imports so the display can use the same helpers.
+ */
+
+export interface TranscriptPassage {
+  id: number;
+  text: string;
+  speaker?: string;
+  start?: number; // seconds
+  end?: number;
+}
+
+export interface CitationSource {
+  passageId: number;
+  quote: string;
+  speaker?: string;
+  start?: number;
+  end?: number;
+}
+
+// One cited statement of the summary (a bullet, table row or paragraph)
+export interface SummaryCitation {
+  statement: string;
+  sources: CitationSource[];
+}
+
+// [#12], [#12, #15] or [#12-#14]
+const MARKER_PATTERN = /\[#\d+(?:\s*[,-]\s*#?\d+)*\]/g;
+const MAX_QUOTE_LENGTH = 300;
+const MAX_RANGE = 20; // Passages in one [#a-#b] range
+
+export const CITATION_INSTRUCTION = `**Bronvermelding:** De transcriptie is opgedeeld in genummerde passages ([#12]). Zet achter elk opsommingspunt, elke alinea en in de laatste cel van elke tabelrij de nummers van de passages waarop die bewering gebaseerd is, bijvoorbeeld [#12] of [#12, #15]. Gebruik alleen nummers die in de transcriptie voorkomen en verwijs naar de passage waarin het gezegd wordt. Staan er al nummers in notities, neem die dan over. Zet geen nummers in koppen.`;
+
+/**
+ * Splits the transcript into the passages that can be cited
+ */
+export function transcriptPassages(text: string, segments: TranscriptSegment[] | null): TranscriptPassage[] {
+  if (segments && segments.length > 0) {
+    return segments.map(({ id, text, speaker, start, end }) => ({ id, text: text.trim(), speaker, start, end }));
+  }
+  return text
+    .split('\n')
+    .map((line, index) => ({ id: index, text: line.trim() }))
+    .filter(passage => passage.text);
+}
+
+/**
+ * Formats the transcript with a number before every passage, one paragraph per speaker turn
+ */
+export function formatNumberedTranscript(text: string, segments: TranscriptSegment[] | null): string {
+  if (segments && segments.length > 0) {
+    return groupTurns(segments)
+      .map(turn => `${turn.speaker}: ${turn.segments.map(segment => `[#${segment.id}] ${segment.text.trim()}`).join(' ')}`)
+      .join('\n\n');
+  }
+  return transcriptPassages(text, null).map(passage => `[#${passage.id}] ${passage.text}`).join('\n\n');
+}
+
+/**
+ * Returns the passage ids in a marker such as "[#12, #15]" or "[#12-#14]"
+ */
+export function parseCitationMarker(marker: string): number[] {
+  const ids: number[] = [];
+  for (const part of marker.slice(1, -1).split(',')) {
+    const [from, to] = part.split('-').map(value => parseInt(value.replace(/[#\s]/g, ''), 10));
+    if (Number.isNaN(from)) continue;
+    if (to !== undefined && !Number.isNaN(to) && to >= from && to - from < MAX_RANGE) {
+      for (let id = from; id <= to; id++) ids.push(id);
+    } else {
+      ids.push(from);
+    }
+  }
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Removes the citation markers, e.g. for e-mail or the clipboard
+ */
+export function stripCitationMarkers(text: string): string {
+  return text.replace(/[ \t]*\[#\d+(?:\s*[,-]\s*#?\d+)*\]/g, '');
+}
+
+/**
+ * Replaces every citation marker with the result of the callback (or removes it for an empty string)
+ */
+export function replaceCitationMarkers(text: string, replace: (ids: number[]) => string): string {
+  return text.replace(MARKER_PATTERN, marker => replace(parseCitationMarker(marker)));
+}
+
+const toSource = (passage: TranscriptPassage): CitationSource => ({
+  passageId: passage.id,
+  quote: passage.text.length > MAX_QUOTE_LENGTH ? `${passage.text.slice(0, MAX_QUOTE_LENGTH)}…` : passage.text,
+  ...(passage.speaker ? { speaker: passage.speaker } : {}),
+  ...(passage.start !== undefined ? { start: passage.start, end: passage.end } : {}),
+});
+
+/**
+ * Removes markers that point to passages that do not exist and collects the citations per
+ * statement (line) of the summary
+ */
+export function resolveCitations(summary: string, passages: TranscriptPassage[]): { summary: string; citations: SummaryCitation[] } {
+  const byId = new Map(passages.map(passage => [passage.id, passage]));
+  const cleaned = replaceCitationMarkers(summary, ids => {
+    const known = ids.filter(id => byId.has(id));
+    return known.length > 0 ? `[${known.map(id => `#${id}`).join(', ')}]` : '';
+  }).replace(/[ \t]+$/gm, '');
+
+  const citations: SummaryCitation[] = [];
+  for (const line of cleaned.split('\n')) {
+    const markers = line.match(MARKER_PATTERN);
+    if (!markers) continue;
+    const ids = Array.from(new Set(markers.flatMap(parseCitationMarker)));
+    const statement = stripCitationMarkers(line).replace(/\|/g, ' ').replace(/^[\s>*+-]*(\d+\.\s+)?/, '').replace(/\s+/g, ' ').trim();
+    citations.push({ statement, sources: ids.map(id => toSource(byId.get(id)!)) });
+  }
+
+  return { summary: cleaned, citations };
+}
+
+/**
+ * Short label for a source: its timestamp when the transcript has timestamps, otherwise its number
+ */
+export function citationLabel(source: Pick<CitationSource, 'passageId' | 'start'>): string {
+  return source.start !== undefined ? formatTimestamp(source.start) : `#${source.passageId}`;
+}
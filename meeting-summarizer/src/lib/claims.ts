@@ -0,0 +1,63 @@
+// src/lib/claims.ts
+import { stripCitationMarkers } from './citations';
+
+/**
+ * Claims of a summary as checked by the verification pass (`verification.ts`). Every bullet,
+ * paragraph and table row is one claim; headings and lines that only introduce a list are not.
+ * Kept free of server imports so the summary display can place the warnings.
+ */
+
+export type ClaimVerdict = 'supported' | 'unsupported' | 'contradicted';
+
+export interface SummaryClaim {
+  id: number;
+  text: string; // The summary line without Markdown and citation markers
+}
+
+export interface VerifiedClaim extends SummaryClaim {
+  verdict: ClaimVerdict;
+  reason: string;       // Why the claim is (not) supported
+  quote: string | null; // Transcript passage the verdict is based on
+}
+
+const MAX_CLAIMS = 150;
+
+const isTableSeparator = (line: string) => /^\|?[\s:|-]+\|?$/.test(line) && line.includes('-');
+
+/**
+ * The text of a summary line as it is compared: without list markers, emphasis, table pipes,
+ * citation markers and surrounding whitespace
+ */
+export function claimText(line: string): string {
+  return stripCitationMarkers(line)
+    .replace(/<[^>]+>/g, '')
+    .replace(/^\s*(?:[-*+>]|\d+\.)\s+/, '')
+    .replace(/\*\*|__|`/g, '')
+    .replace(/\|/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Splits a summary into the claims to verify
+ */
+export function summaryClaims(summary: string): SummaryClaim[] {
+  const lines = summary.split('\n');
+  const claims: SummaryClaim[] = [];
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || isTableSeparator(trimmed)) return;
+    // The header row of a table is followed by its separator
+    if (trimmed.startsWith('|') && isTableSeparator(lines[index + 1]?.trim() || '')) return;
+
+    const text = claimText(trimmed);
+    // Lines that only introduce a list ("Klantprofiel:") or are a bold heading claim nothing
+    if (text.length < 3 || text.endsWith(':') || /^\*\*[^*]+\*\*:?$/.test(trimmed)) return;
+    if (claims.length < MAX_CLAIMS && !claims.some(claim => claim.text === text)) {
+      claims.push({ id: claims.length + 1, text });
+    }
+  });
+
+  return claims;
+}
@@ -1,44 +1,156 @@
 // src/lib/config.ts
 
-// Define whisper models
+// The fake provider returns a fixed script instead of a transcript, so production only offers it
+// when NEXT_PUBLIC_ENABLE_FAKE_TRANSCRIPTION is 'true' (e.g. for a test deployment)
+export const fakeTranscriptionEnabled =
+  process.env.NODE_ENV !== 'production' || process.env.NEXT_PUBLIC_ENABLE_FAKE_TRANSCRIPTION === 'true';
+
+// Transcription providers that can be selected in the settings panel
+export const transcriptionProviders = [
+  { id: 'openai', name: 'OpenAI', description: 'Audio wordt verwerkt door OpenAI' },
+  { id: 'local', name: 'Lokale server', description: 'Eigen whisper.cpp/faster-whisper server; audio verlaat het netwerk niet' },
+  { id: 'fake', name: 'Test', description: 'Vaste testtranscriptie zonder externe aanroepen' }
+].filter(provider => provider.id !== 'fake' || fakeTranscriptionEnabled);
+
+// Define whisper models; each model belongs to a transcription provider
 export const whisperModels = [
   {
     id: 'whisper-1',
     name: 'Whisper v1',
     description: 'Standaard model (Engels & Nederlands)',
-    costPerMinute: 0.006
+    costPerMinute: 0.006,
+    provider: 'openai'
+  },
+  {
+    id: 'large-v3',
+    name: 'Whisper large-v3 (lokaal)',
+    description: 'Hoogste kwaliteit op eigen server',
+    costPerMinute: 0,
+    provider: 'local'
+  },
+  {
+    id: 'small',
+    name: 'Whisper small (lokaal)',
+    description: 'Snel op eigen server, zonder GPU',
+    costPerMinute: 0,
+    provider: 'local'
+  },
+  {
+    id: 'fake',
+    name: 'Testtranscriptie',
+    description: 'Deterministische uitvoer voor tests',
+    costPerMinute: 0,
+    provider: 'fake'
   }
-];
+].filter(model => model.provider !== 'fake' || fakeTranscriptionEnabled);
+
+// Chat model providers; see src/lib/chatProvider.ts for the required environment variables
+export type ChatProviderId = 'openai' | 'azure' | 'anthropic' | 'openai-compatible';
+
+export interface ChatModelCapabilities {
+  reasoning: boolean;      // Reasoning model: no temperature, OpenAI models use the Responses API
+  temperature: boolean;    // Accepts a temperature setting
+  contextWindow: number;   // tokens
+  maxOutputTokens: number; // tokens
+}
 
-// Define chat models with updated list and pricing
-export const chatModels = [
+export interface ChatModel {
+  id: string;
+  name: string;
+  description: string;
+  inputCost: number;  // per token
+  outputCost: number; // per token
+  provider: ChatProviderId;
+  apiModel?: string;  // Model or deployment name at the provider, defaults to id
+  fallback?: string;  // Model id to retry with when this model fails
+  capabilities: ChatModelCapabilities;
+}
+
+// Define chat models with updated list and pricing.
+// Adding a model only requires an entry here; the provider layer handles the API differences.
+export const chatModels: ChatModel[] = [
   {
     id: 'o3-mini',
     name: 'O3-mini',
     description: 'Efficiënt en snel model (standaard)',
     inputCost: 0.000015,
-    outputCost: 0.000060
+    outputCost: 0.000060,
+    provider: 'openai',
+    fallback: 'gpt-4o-mini',
+    capabilities: { reasoning: true, temperature: false, contextWindow: 200000, maxOutputTokens: 100000 }
   },
   {
     id: 'gpt-4o-mini',
     name: 'GPT-4o mini',
     description: 'Snel en kosteneffectief',
     inputCost: 0.000015,
-    outputCost: 0.000060
+    outputCost: 0.000060,
+    provider: 'openai',
+    capabilities: { reasoning: false, temperature: true, contextWindow: 128000, maxOutputTokens: 16384 }
   },
   {
     id: 'gpt-4o',
     name: 'GPT-4o',
     description: 'Meest capabele model',
     inputCost: 0.000050,
-    outputCost: 0.000150
+    outputCost: 0.000150,
+    provider: 'openai',
+    capabilities: { reasoning: false, temperature: true, contextWindow: 128000, maxOutputTokens: 16384 }
+  },
+  {
+    id: 'azure-gpt-4o',
+    name: 'GPT-4o (Azure)',
+    description: 'GPT-4o via onze Azure OpenAI-omgeving (EU)',
+    inputCost: 0.000050,
+    outputCost: 0.000150,
+    provider: 'azure',
+    apiModel: 'gpt-4o', // Deployment name
+    capabilities: { reasoning: false, temperature: true, contextWindow: 128000, maxOutputTokens: 16384 }
+  },
+  {
+    id: 'claude-sonnet-4-5',
+    name: 'Claude Sonnet 4.5',
+    description: 'Anthropic-model, sterk in lange documenten',
+    inputCost: 0.000003,
+    outputCost: 0.000015,
+    provider: 'anthropic',
+    capabilities: { reasoning: false, temperature: true, contextWindow: 200000, maxOutputTokens: 8192 }
+  },
+  {
+    id: 'llama3.1',
+    name: 'Llama 3.1 (lokaal)',
+    description: 'Draait op eigen server (Ollama); tekst verlaat het netwerk niet',
+    inputCost: 0,
+    outputCost: 0,
+    provider: 'openai-compatible',
+    capabilities: { reasoning: false, temperature: true, contextWindow: 128000, maxOutputTokens: 4096 }
   }
 ];
 
+// Languages for transcription; 'auto' lets the model detect the language (per chunk for long recordings)
+export const transcriptionLanguages = [
+  { code: 'auto', name: 'Automatisch detecteren' },
+  { code: 'nl', name: 'Nederlands' },
+  { code: 'en', name: 'Engels' },
+  { code: 'de', name: 'Duits' },
+  { code: 'fr', name: 'Frans' },
+  { code: 'es', name: 'Spaans' },
+  { code: 'it', name: 'Italiaans' }
+];
+
+// Languages the summary can be written in, independent of the transcript language
+export const summaryLanguages = transcriptionLanguages.filter(language => language.code !== 'auto');
+
 // Default configuration
 export const defaultConfig = {
+  transcriptionProvider: 'openai',
   transcriptionModel: 'whisper-1',
+  transcriptionLanguage: 'nl',
   summarizationModel: 'o3-mini',
+  summaryLanguage: 'nl',
   temperature: 0.3,
-  showCosts: false // Changed default to false
+  showCosts: false, // Changed default to false
+  citations: false, // Source citations per statement of the summary
+  verifySummary: false, // Check the summary's claims against the transcript after summarizing
+  redactPii: true // Replace personal data (BSN, IBAN, phone numbers, ...) with placeholders before text goes to a model
 };
\ No newline at end of file
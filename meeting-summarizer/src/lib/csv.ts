@@ -0,0 +1,25 @@
+// src/lib/csv.ts
+
+/**
+ * CSV in the format Dutch Excel opens directly: ';' as separator, a UTF-8 BOM and CRLF line
+ * endings. Kept free of server imports so it can be used in the browser.
+ */
+
+const CSV_SEPARATOR = ';';
+const CSV_BOM = '\uFEFF';
+// Excel runs a cell that starts with one of these as a formula; titles, names and other details
+// are user input, so such cells get a leading apostrophe and are shown as text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvField = (value: string | null) => {
+  const raw = value ?? '';
+  const text = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Converts rows (the first one being the header) to a CSV file
+ */
+export function toCsv(rows: (string | null)[][]): string {
+  return CSV_BOM + rows.map(row => row.map(csvField).join(CSV_SEPARATOR)).join('\r\n') + '\r\n';
+}
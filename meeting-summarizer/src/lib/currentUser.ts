@@ -0,0 +1,44 @@
+// src/lib/currentUser.ts
+import type { SessionUser } from './session';
+import type { MemberRole, Team } from './organization';
+
+/**
+ * Client helper for the signed-in user, their teams and the active team (`/api/me`). The
+ * request is shared by the components that need it and made once per page load.
+ */
+
+export interface CurrentUser {
+  user: SessionUser;
+  role: MemberRole;
+  isAdmin: boolean;
+  teams: { id: string; name: string }[];
+  activeTeam: Team | null;
+}
+
+let currentUser: Promise<CurrentUser | null> | null = null;
+
+/**
+ * The signed-in user, or null when nobody is signed in
+ */
+export function fetchCurrentUser(): Promise<CurrentUser | null> {
+  if (!currentUser) {
+    currentUser = fetch('/api/me')
+      .then(async response => (response.ok ? (await response.json()) as CurrentUser : null))
+      .catch(() => null);
+  }
+  return currentUser;
+}
+
+/**
+ * Switches the active team; the page reloads so templates, meetings and settings follow the team
+ */
+export async function switchTeam(teamId: string): Promise<void> {
+  const response = await fetch('/api/me', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ teamId })
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.error) throw new Error(data.error || 'Team wisselen mislukt');
+  window.location.reload();
+}
@@ -0,0 +1,149 @@
+// src/lib/diarization.ts
+import {
+  WhisperSegment,
+  TranscriptSegment,
+  defaultSpeakerLabel,
+} from './transcript';
+
+/**
+ * Pluggable diarization step: attributes each Whisper segment to a speaker.
+ *
+ * Providers:
+ * - 'none':  everything is attributed to one speaker
+ * - 'pause': heuristic based on pauses and questions (no external service needed)
+ * - 'http':  external diarization service (e.g. pyannote) at DIARIZATION_API_URL
+ */
+
+export type DiarizationProviderId = 'none' | 'pause' | 'http';
+
+export interface DiarizationInput {
+  segments: WhisperSegment[];
+  audio?: Blob; // Required for providers that analyse the audio itself
+}
+
+export interface DiarizationProvider {
+  id: DiarizationProviderId;
+  name: string;
+  diarize(input: DiarizationInput): Promise<TranscriptSegment[]>;
+}
+
+// A pause of this many seconds between segments is treated as a likely change of speaker
+const SPEAKER_CHANGE_PAUSE = 1.5;
+const PAUSE_HEURISTIC_SPEAKERS = 2;
+
+const noDiarization: DiarizationProvider = {
+  id: 'none',
+  name: 'Geen sprekerherkenning',
+  async diarize({ segments }) {
+    return segments.map((segment, index) => ({ ...segment, id: index, speaker: defaultSpeakerLabel(0) }));
+  },
+};
+
+const pauseDiarization: DiarizationProvider = {
+  id: 'pause',
+  name: 'Pauze-heuristiek',
+  async diarize({ segments }) {
+    let speakerIndex = 0;
+
+    return segments.map((segment, index) => {
+      if (index > 0) {
+        const previous = segments[index - 1];
+        const pause = segment.start - previous.end;
+        // A question followed by a new segment, or a long pause, usually means someone else speaks
+        if (previous.text.trim().endsWith('?') || pause >= SPEAKER_CHANGE_PAUSE) {
+          speakerIndex = (speakerIndex + 1) % PAUSE_HEURISTIC_SPEAKERS;
+        }
+      }
+      return { ...segment, id: index, speaker: defaultSpeakerLabel(speakerIndex) };
+    });
+  },
+};
+
+const httpDiarization: DiarizationProvider = {
+  id: 'http',
+  name: 'Externe diarisatieservice',
+  async diarize({ segments, audio }) {
+    const apiUrl = process.env.DIARIZATION_API_URL;
+    if (!apiUrl) {
+      throw new Error('DIARIZATION_API_URL is niet geconfigureerd');
+    }
+    if (!audio) {
+      throw new Error('Audio is vereist voor externe diarisatie');
+    }
+
+    const formData = new FormData();
+    formData.append('file', audio, 'audio');
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: process.env.DIARIZATION_API_KEY ? { Authorization: `Bearer ${process.env.DIARIZATION_API_KEY}` } : undefined,
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Diarisatieservice gaf status ${response.status}`);
+    }
+
+    // Expected format: { segments: [{ start, end, speaker }] }
+    const data = await response.json();
+    const speakerSegments: Array<{ start: number; end: number; speaker: string }> = Array.isArray(data?.segments) ? data.segments : [];
+
+    // Map the service's speaker ids (e.g. SPEAKER_00) to "Spreker N" in order of appearance
+    const labels = new Map<string, string>();
+    const labelFor = (id: string) => {
+      if (!labels.has(id)) labels.set(id, defaultSpeakerLabel(labels.size));
+      return labels.get(id)!;
+    };
+
+    return segments.map((segment, index) => {
+      // Attribute the segment to the speaker with the largest overlap
+      let bestSpeaker: string | null = null;
+      let bestOverlap = 0;
+      for (const speakerSegment of speakerSegments) {
+        const overlap = Math.min(segment.end, speakerSegment.end) - Math.max(segment.start, speakerSegment.start);
+        if (overlap > bestOverlap) {
+          bestOverlap = overlap;
+          bestSpeaker = String(speakerSegment.speaker);
+        }
+      }
+      return { ...segment, id: index, speaker: bestSpeaker !== null ? labelFor(bestSpeaker) : defaultSpeakerLabel(0) };
+    });
+  },
+};
+
+const providers: Record<DiarizationProviderId, DiarizationProvider> = {
+  none: noDiarization,
+  pause: pauseDiarization,
+  http: httpDiarization,
+};
+
+/**
+ * Returns the requested diarization provider. Defaults to the external service when
+ * DIARIZATION_API_URL is configured and to the pause heuristic otherwise.
+ */
+export function getDiarizationProvider(id?: string): DiarizationProvider {
+  const requested = (id || process.env.DIARIZATION_PROVIDER) as DiarizationProviderId | undefined;
+  if (requested && providers[requested]) {
+    return providers[requested];
+  }
+  return process.env.DIARIZATION_API_URL ? httpDiarization : pauseDiarization;
+}
+
+/**
+ * Runs diarization with the selected provider, falling back to the pause heuristic
+ * if the provider fails so transcription never breaks because of diarization.
+ */
+export async function diarizeSegments(
+  segments: WhisperSegment[],
+  options: { provider?: string; audio?: Blob } = {}
+): Promise<TranscriptSegment[]> {
+  if (segments.length === 0) return [];
+
+  const provider = getDiarizationProvider(options.provider);
+  try {
+    return await provider.diarize({ segments, audio: options.audio });
+  } catch (error) {
+    console.warn(`Diarization with provider '${provider.id}' failed, falling back to pause heuristic:`, error);
+    return pauseDiarization.diarize({ segments });
+  }
+}
@@ -27,18 +27,27 @@ export interface ChunkStatus {
   retries: number;
 }
 
+// A piece of the original recording together with its position in that recording,
+// so transcript timestamps can be shifted back to the timeline of the full file
+export interface AudioChunk {
+  blob: Blob;
+  startTime?: number; // seconds from the start of the recording; undefined when it cannot be determined
+  duration?: number;  // seconds
+}
+
 /**
  * Creates audio chunks from a file using AudioContext for reliable splitting
  * This approach creates clean breaks at silence points where possible
+ * Each chunk carries its start time in the original file
  */
 export async function createAudioChunks(
   audioFile: File,
   targetDuration: number = RECOMMENDED_CHUNK_DURATION
-): Promise<Blob[]> {
+): Promise<AudioChunk[]> {
   // For very small files, return as-is, but ensure medium-sized files are chunked
   if (audioFile.size <= MIN_CHUNK_SIZE) {
     console.log(`Audio file size (${formatBytes(audioFile.size)}) is smaller than minimum chunk threshold. Using as-is.`);
-    return [audioFile];
+    return [{ blob: audioFile, startTime: 0 }];
   }
   
   // For medium-sized files, still chunk but not too aggressively
@@ -80,7 +89,7 @@ export async function createAudioChunks(
     console.log(`Audio duration: ${Math.round(duration)}s, Creating ${numChunks} chunks of ~${targetDuration}s each`);
     
     // Create chunks
-    const chunks: Blob[] = [];
+    const chunks: AudioChunk[] = [];
     
     for (let i = 0; i < numChunks; i++) {
       // Calculate segment times
@@ -220,12 +229,15 @@ export async function createAudioChunks(
         const chunkFile = new File([chunkBlob], `chunk_${i+1}.wav`, { type: 'audio/wav' });
         // Recursively call createAudioChunks with a reduced target duration.
         const subChunks = await createAudioChunks(chunkFile, targetDuration / 2);
-        // Append all sub-chunks to our chunks array.
-        chunks.push(...subChunks);
+        // Append all sub-chunks to our chunks array, shifted to this chunk's position in the original file.
+        chunks.push(...subChunks.map(subChunk => ({
+          ...subChunk,
+          startTime: subChunk.startTime !== undefined ? startTime + subChunk.startTime : undefined,
+        })));
         continue; // Skip normal processing of this chunk.
       }
       
-      chunks.push(chunkBlob);
+      chunks.push({ blob: chunkBlob, startTime, duration: chunkDuration });
       console.log(`Created chunk ${i+1}/${numChunks}: ${formatBytes(chunkBlob.size)}`);
     }
     
@@ -242,13 +254,13 @@ export async function createAudioChunks(
  * Fallback method that splits audio blob based on binary size
  * Less optimal but more reliable as a fallback
  */
-async function fallbackBinaryChunking(audioBlob: Blob): Promise<Blob[]> {
+async function fallbackBinaryChunking(audioBlob: Blob): Promise<AudioChunk[]> {
   console.log(`Using fallback binary chunking for ${formatBytes(audioBlob.size)}`);
   
   // For small files, return as-is
   if (audioBlob.size <= MIN_CHUNK_SIZE) {
     console.log(`Small audio file (${formatBytes(audioBlob.size)}), using as-is.`);
-    return [audioBlob];
+    return [{ blob: audioBlob, startTime: 0 }];
   }
   
   try {
@@ -277,7 +289,7 @@ async function fallbackBinaryChunking(audioBlob: Blob): Promise<Blob[]> {
     console.log(`Fallback: Creating ${numChunks} chunks of ~${chunkDuration}s each (${formatBytes(chunkDuration * sizePerSecond)} each)`);
     
     // Create chunks by binary splitting based on the calculated duration
-    const chunks: Blob[] = [];
+    const chunks: AudioChunk[] = [];
     for (let i = 0; i < numChunks; i++) {
       const startTime = i * chunkDuration;
       const endTime = Math.min(startTime + chunkDuration, duration);
@@ -287,7 +299,7 @@ async function fallbackBinaryChunking(audioBlob: Blob): Promise<Blob[]> {
       const end = Math.min(Math.floor(endTime * sizePerSecond), audioBlob.size);
       
       const chunk = audioBlob.slice(start, end, audioBlob.type);
-      chunks.push(chunk);
+      chunks.push({ blob: chunk, startTime, duration: endTime - startTime });
       
       console.log(`Created binary chunk ${i+1}/${numChunks}: ${formatBytes(chunk.size)}`);
     }
@@ -301,14 +313,15 @@ async function fallbackBinaryChunking(audioBlob: Blob): Promise<Blob[]> {
     const safeChunkSize = OPENAI_MAX_SIZE_LIMIT * 0.75; // 75% of the max limit (14.25MB)
     const numChunks = Math.ceil(audioBlob.size / safeChunkSize);
     
-    // Create chunks
-    const chunks: Blob[] = [];
+    // Create chunks - without decoded audio the start times are unknown,
+    // so consumers continue from the end of the previous chunk's transcript
+    const chunks: AudioChunk[] = [];
     for (let i = 0; i < numChunks; i++) {
       const start = i * safeChunkSize;
       const end = Math.min(start + safeChunkSize, audioBlob.size);
       
       const chunk = audioBlob.slice(start, end, audioBlob.type);
-      chunks.push(chunk);
+      chunks.push({ blob: chunk, startTime: i === 0 ? 0 : undefined });
       
       console.log(`Created safe binary chunk ${i+1}/${numChunks}: ${formatBytes(chunk.size)}`);
     }
@@ -394,8 +407,8 @@ function writeString(view: DataView, offset: number, string: string): void {
  * Process chunks in parallel with controlled concurrency
  */
 export async function processChunksWithProgress<T>(
-  chunks: Blob[],
-  processFn: (chunk: Blob, index: number) => Promise<T>,
+  chunks: AudioChunk[],
+  processFn: (chunk: AudioChunk, index: number) => Promise<T>,
   onProgress: (progress: number, currentChunk: number, totalChunks: number) => void,
   maxConcurrent: number = MAX_CONCURRENT_UPLOADS
 ): Promise<T[]> {
@@ -0,0 +1,87 @@
+// src/lib/jobClient.ts
+import { readEventStream } from './sse';
+import type { Job, JobInput } from './jobs';
+
+/**
+ * Client helpers for processing jobs (`/api/jobs`, see jobs.ts). The page remembers the job it
+ * follows in localStorage, so it can follow it again after the tab was closed or reloaded.
+ */
+
+const ACTIVE_JOB_KEY = 'activeJobId';
+const RECONNECT_DELAY_MS = 3000;
+
+export type JobRequest = Omit<JobInput, 'audioFileName' | 'settings'> & {
+  audioFileName?: string;
+  settings?: Partial<JobInput['settings']>;
+};
+
+export const isJobFinished = (job: Pick<Job, 'status'>) =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+const errorFrom = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  return new Error(data.error || `${fallback} (${response.status})`);
+};
+
+/**
+ * Starts processing an uploaded recording on the server and remembers the job
+ */
+export async function submitJob(request: JobRequest): Promise<Job> {
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+  if (!response.ok) throw await errorFrom(response, 'Verwerking starten mislukt');
+  const { job } = await response.json();
+  localStorage.setItem(ACTIVE_JOB_KEY, job.id);
+  return job;
+}
+
+export async function fetchJob(id: string): Promise<Job> {
+  const response = await fetch(`/api/jobs/${encodeURIComponent(id)}`);
+  if (!response.ok) throw await errorFrom(response, 'Verwerking laden mislukt');
+  return (await response.json()).job;
+}
+
+export async function cancelJob(id: string): Promise<Job> {
+  const response = await fetch(`/api/jobs/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (!response.ok) throw await errorFrom(response, 'Verwerking annuleren mislukt');
+  return (await response.json()).job;
+}
+
+export const activeJobId = () => localStorage.getItem(ACTIVE_JOB_KEY);
+export const forgetActiveJob = () => localStorage.removeItem(ACTIVE_JOB_KEY);
+
+/**
+ * Follows a job's event stream until the job is finished. The stream is opened again when it
+ * ends early (request time limit, lost connection, a sleeping laptop). Resolves with the finished
+ * job, or null when the signal stopped following it; the job itself keeps running.
+ */
+export async function followJob(
+  id: string,
+  handlers: { onJob: (job: Job) => void; onDelta?: (text: string) => void },
+  signal?: AbortSignal
+): Promise<Job | null> {
+  while (!signal?.aborted) {
+    let job = null as Job | null; // Assigned in the event handler
+    try {
+      const response = await fetch(`/api/jobs/${encodeURIComponent(id)}`, { headers: { Accept: 'text/event-stream' }, signal });
+      // The job is gone or not the user's: opening the stream again does not help
+      if (response.status >= 400 && response.status < 500) throw await errorFrom(response, 'Verwerking volgen mislukt');
+      if (response.ok) {
+        await readEventStream(response, (event, data) => {
+          if (event === 'job') { job = data; handlers.onJob(data); }
+          else if (event === 'delta') handlers.onDelta?.(data.text);
+        });
+      }
+    } catch (error) {
+      if (signal?.aborted) return null;
+      if (!(error instanceof TypeError)) throw error; // TypeError: the connection failed, try again
+      console.warn('Lost the connection to the job, reconnecting...', error);
+    }
+    if (job && isJobFinished(job)) return job;
+    await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS));
+  }
+  return null;
+}
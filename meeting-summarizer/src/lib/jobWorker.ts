@@ -0,0 +1,216 @@
+// src/lib/jobWorker.ts
+import { after } from 'next/server';
+import { type Job, getJob, updateJob, isFinished, publishJobEvent } from './jobs';
+import { type UserContext, userContext } from './organization';
+import { findRecording, isUploadOf } from './recordings';
+import { fetchAudioFile, transcribeAudioFile, transcribeAudioChunks, deleteTranscribedRecording, deleteRecordingChunks } from './audioTranscription';
+import { prepareSummary } from './summarizer';
+import { type Meeting, type MeetingInput, canAccessRecording, getMeeting, canAccessMeeting, createMeeting, updateMeeting } from './meetings';
+import { recordAudit, recordSummaryChange, auditMeetingId, contentHash } from './audit';
+import { type StageProgress, progressMessage } from './progress';
+
+/**
+ * The worker of processing jobs (see jobs.ts). A job runs after the response of the request that
+ * started it (Next.js `after`), for as long as the function's maxDuration allows:
+ *
+ *   transcribing → summarizing → saving
+ *
+ * The result of every stage is stored before the next one starts. While it runs the worker
+ * writes a heartbeat; a job without heartbeat has lost its worker and is resumed from the last
+ * finished stage by the next request that looks at it, at most MAX_ATTEMPTS times.
+ */
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const STALE_AFTER_MS = 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const TOKEN_PROGRESS_INTERVAL_MS = 2000; // Tokens written are stored at most this often
+
+class JobCancelledError extends Error {}
+
+// Jobs running in this process, with the controller that stops their model calls
+const running: Record<string, AbortController> = ((globalThis as any).__runningJobs ??= {});
+
+/**
+ * Starts a job after the current response, unless it already runs in this process. Only call
+ * it from a request handler.
+ */
+export function startJob(id: string): void {
+  if (running[id]) return;
+  const controller = new AbortController();
+  running[id] = controller;
+  after(() => runJob(id, controller));
+}
+
+/**
+ * Resumes a job whose worker stopped (no heartbeat for STALE_AFTER_MS), or fails it when it was
+ * interrupted too often. Returns the job as it is now.
+ */
+export async function resumeStaleJob(job: Job): Promise<Job> {
+  if (isFinished(job) || running[job.id] || Date.now() - new Date(job.heartbeatAt).getTime() < STALE_AFTER_MS) return job;
+  if (job.attempts >= MAX_ATTEMPTS) {
+    return (await updateJob(job.id, { status: 'failed', message: 'Verwerking mislukt', error: 'De verwerking is te vaak onderbroken', completedAt: new Date().toISOString() })) || job;
+  }
+  console.log(`🔁 Resuming job ${job.id} (${job.stage})`);
+  startJob(job.id);
+  return job;
+}
+
+/**
+ * Cancels a job. A worker in this process stops right away, one elsewhere at its next write.
+ */
+export async function cancelJob(job: Job): Promise<Job> {
+  if (isFinished(job)) return job;
+  const cancelled = await updateJob(job.id, { status: 'cancelled', message: 'Verwerking geannuleerd', completedAt: new Date().toISOString() });
+  running[job.id]?.abort();
+  return cancelled || job;
+}
+
+// The meeting is saved as the job's owner would have saved it from the browser
+async function saveMeeting(job: Job, context: UserContext): Promise<Meeting> {
+  const { input } = job;
+  const transcription = job.transcription!;
+  const summary = job.summary!;
+  const meetingInput: MeetingInput = {
+    source: 'audio',
+    audio: { pathname: input.pathname, ...(input.contentType ? { contentType: input.contentType } : {}) },
+    audioFileName: input.audioFileName,
+    transcription: transcription.transcription,
+    segments: transcription.segments,
+    detectedLanguages: transcription.detectedLanguages,
+    summary: summary.summary,
+    citations: summary.citations || [],
+    actionItems: null,
+    verification: null,
+    template: input.template,
+    variables: input.variables,
+    costs: { transcription: transcription.cost, summary: summary.usage.cost },
+  };
+
+  // A recording that is processed again updates its meeting
+  const existing = input.meetingId ? await getMeeting(input.meetingId) : null;
+  if (existing && canAccessMeeting(context, existing)) {
+    const result = await updateMeeting(existing.id, meetingInput, context);
+    if (result && 'error' in result) throw new Error(result.error);
+    const meeting = result ? result.meeting : existing;
+    await recordSummaryChange(context, meeting.id, existing.summary, meeting.summary, false);
+    return meeting;
+  }
+  const result = await createMeeting(meetingInput, context);
+  if ('error' in result) throw new Error(result.error);
+  const { meeting } = result;
+  await recordAudit(context, 'meeting.created', { meetingId: meeting.id, details: { title: meeting.title, summaryHash: contentHash(meeting.summary) } });
+  console.log(`🗂️ Meeting saved: ${meeting.id} (${meeting.title})`);
+  return meeting;
+}
+
+async function runJob(id: string, controller: AbortController): Promise<void> {
+  const { signal } = controller;
+
+  // Writes go one after the other, so a late progress update never overwrites a stage result.
+  // Every write checks the stored status first: a job cancelled elsewhere stops at its next write.
+  let writes: Promise<unknown> = Promise.resolve();
+  const save = (changes: Parameters<typeof updateJob>[1]): Promise<Job> => {
+    const write = writes.then(async () => {
+      const current = await getJob(id);
+      if (!current || current.status === 'cancelled') {
+        controller.abort();
+        throw new JobCancelledError(`Job ${id} is cancelled`);
+      }
+      return (await updateJob(id, { ...changes, heartbeatAt: new Date().toISOString() }))!;
+    });
+    writes = write.catch(() => {});
+    return write;
+  };
+  const heartbeat = setInterval(() => { save({}).catch(() => {}); }, HEARTBEAT_INTERVAL_MS);
+  let progressSavedAt = 0;
+  const saveProgress = (progress: StageProgress & { phase?: string }) => {
+    if (progress.unit === 'tokens' && progress.completed < progress.total && Date.now() - progressSavedAt < TOKEN_PROGRESS_INTERVAL_MS) return;
+    progressSavedAt = Date.now();
+    save({ progress: progress.percentage, message: progressMessage(progress), stageProgress: progress }).catch(() => {});
+  };
+
+  try {
+    let job = await getJob(id);
+    if (!job || isFinished(job)) return;
+    job = await save({ status: 'running', attempts: job.attempts + 1, error: null });
+    const { input } = job;
+    const { settings } = input;
+    const context = await userContext({ user: job.owner, expiresAt: Date.now() }, job.teamId);
+    console.log(`🚀 Job ${id} running (attempt ${job.attempts}, ${input.pathname})`);
+
+    // 1. Transcription, unless an earlier run finished it
+    if (!job.transcription) {
+      job = await save({ stage: 'transcribing', progress: 0, message: 'Opname ophalen...', stageProgress: null });
+      if (!(await canAccessRecording(context, input.pathname))) throw new Error('Opname niet gevonden');
+      const recording = await findRecording(input.pathname);
+      if (!recording) throw new Error('De opname bestaat niet meer; mogelijk is die al verwijderd');
+      const chunks = input.chunks || [];
+      for (const chunk of chunks) {
+        if (!(await isUploadOf(job.owner.id, chunk.pathname))) throw new Error('Deel van de opname niet gevonden');
+      }
+      const transcriptionOptions = {
+        model: settings.transcriptionModel,
+        provider: settings.transcriptionProvider,
+        language: settings.transcriptionLanguage,
+        onProgress: saveProgress,
+      };
+      // A recording too large for one call is transcribed from the chunks the browser uploaded with it
+      const { transcription, segments, usage } = chunks.length > 0
+        ? await transcribeAudioChunks(chunks, transcriptionOptions)
+        : await transcribeAudioFile(await fetchAudioFile(recording.pathname), transcriptionOptions);
+      if (chunks.length > 0) await deleteRecordingChunks(job.owner.id, chunks);
+      const recordingDeletion = await deleteTranscribedRecording(job.owner.id, recording.url);
+      job = await save({
+        progress: 100,
+        message: 'Transcriptie voltooid',
+        transcription: { transcription, segments, detectedLanguages: usage.detectedLanguages, recordingDeletion, cost: usage.cost },
+      });
+    }
+
+    // 2. Summary
+    if (!job.summary) {
+      const { transcription, segments } = job.transcription!;
+      job = await save({ stage: 'summarizing', progress: 0, message: 'Wachten op het taalmodel...', stageProgress: null });
+      const { generate } = prepareSummary({
+        text: transcription,
+        segments: segments.length > 0 ? segments : null,
+        model: settings.summarizationModel,
+        temperature: settings.temperature,
+        prompt: input.template?.prompt || '',
+        summaryLanguage: settings.summaryLanguage,
+        variables: input.variables,
+        citations: settings.citations,
+        redactPii: settings.redactPii,
+      }, { context, meetingId: await auditMeetingId(context, input.meetingId) });
+
+      const summary = await generate({
+        onProgress: saveProgress,
+        // The text as it is written only reaches followers in this process; it is not stored
+        onDelta: text => publishJobEvent(id, 'delta', { text }),
+        signal,
+      });
+      job = await save({ progress: 100, message: 'Samenvatting voltooid', summary });
+    }
+
+    // 3. Saving as a meeting
+    job = await save({ stage: 'saving', progress: 0, message: 'Opslaan in de geschiedenis...', stageProgress: null });
+    const meeting = await saveMeeting(job, context);
+    await save({ status: 'completed', progress: 100, message: 'Verwerking voltooid', meetingId: meeting.id, completedAt: new Date().toISOString() });
+    console.log(`✅ Job ${id} completed (meeting ${meeting.id})`);
+  } catch (error) {
+    if (error instanceof JobCancelledError || signal.aborted) {
+      console.log(`🛑 Job ${id} cancelled`);
+      return;
+    }
+    console.error(`❌ Job ${id} failed:`, error);
+    await save({
+      status: 'failed',
+      message: 'Verwerking mislukt',
+      error: error instanceof Error ? error.message : 'Onbekende fout',
+      completedAt: new Date().toISOString(),
+    }).catch(() => {});
+  } finally {
+    clearInterval(heartbeat);
+    delete running[id];
+  }
+}
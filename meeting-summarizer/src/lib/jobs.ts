@@ -0,0 +1,257 @@
+// src/lib/jobs.ts
+import { getCollection } from './storage';
+import { nanoid } from './nanoid';
+import { defaultConfig, whisperModels } from './config';
+import { type TranscriptSegment } from './transcript';
+import { transcriptionPairError } from './transcriptionProvider';
+import { type SessionUser } from './session';
+import { type UserContext } from './organization';
+import { type MeetingTemplate } from './meetings';
+import { type DeletionReceipt } from './retention';
+import { type RecordingChunk } from './recordings';
+import { type SummaryResult } from './summarizer';
+import { type StageProgress } from './progress';
+
+/**
+ * Processing jobs: an uploaded recording is transcribed, summarized and saved as a meeting on the
+ * server (see jobWorker.ts), so closing the tab or a sleeping laptop no longer loses the work.
+ * Jobs are stored in the 'jobs' collection together with the result of every finished stage;
+ * a job whose worker stopped (a restarted server, a timed-out function) continues from the last
+ * finished stage.
+ *
+ * The browser polls GET /api/jobs/:id or follows its event stream. Events of a job running in
+ * the same process (progress, the summary text as it is written) are passed on directly; the
+ * stored job is the source of truth for everything else.
+ */
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type JobStage = 'transcribing' | 'summarizing' | 'saving';
+
+export interface JobSettings {
+  transcriptionProvider: string;
+  transcriptionModel: string;
+  transcriptionLanguage: string;
+  summarizationModel: string;
+  summaryLanguage: string;
+  temperature: number;
+  citations: boolean;
+  redactPii: boolean;
+}
+
+export interface JobInput {
+  pathname: string;         // The uploaded recording in Vercel Blob (see recordings.ts)
+  chunks?: RecordingChunk[]; // Pieces of a recording too large to transcribe in one call; transcribed instead of the recording
+  contentType?: string;
+  audioFileName: string;
+  meetingId: string | null; // The meeting to update when a recording is processed again; null saves a new one
+  template: MeetingTemplate | null;
+  variables: Record<string, string>;
+  settings: JobSettings;
+}
+
+// Result of the transcription stage
+export interface JobTranscription {
+  transcription: string;
+  segments: TranscriptSegment[];
+  detectedLanguages: string[];
+  recordingDeletion: DeletionReceipt | null;
+  cost: number;
+}
+
+export interface Job {
+  id: string;
+  owner: SessionUser;    // The worker acts as this user (audit log, meeting owner)
+  teamId: string | null;
+  status: JobStatus;
+  stage: JobStage;
+  progress: number;      // 0-100 within the stage
+  message: string;
+  stageProgress: StageProgress | null; // Units finished within the stage and the time left, as last reported
+  input: JobInput;
+  transcription: JobTranscription | null;
+  summary: SummaryResult | null;
+  meetingId: string | null; // The saved meeting, once completed
+  error: string | null;
+  attempts: number;      // Runs started, including resumed ones
+  heartbeatAt: string;   // Updated while a worker runs the job; ISO timestamps
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export type JobEvent = 'job' | 'delta';
+type JobListener = (event: JobEvent, data: unknown) => void;
+
+const MAX_LISTED_JOBS = 20;
+const MAX_PATHNAME_LENGTH = 1000;
+const MAX_CHUNKS = 100;
+
+const jobs = () => getCollection<Job>('jobs');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Route handlers can be bundled separately, so the listeners live on the global object
+const listeners: Record<string, JobListener[]> = ((globalThis as any).__jobListeners ??= {});
+
+export function isFinished(job: Pick<Job, 'status'>): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+const isPathname = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= MAX_PATHNAME_LENGTH;
+
+// Chunks with a valid pathname, with their times when those are non-negative numbers; null when the value is not a list
+function validateChunks(value: unknown): RecordingChunk[] | null {
+  if (!Array.isArray(value) || value.length > MAX_CHUNKS || !value.every(chunk => isRecord(chunk) && isPathname(chunk.pathname))) return null;
+  const time = (seconds: unknown) => (typeof seconds === 'number' && Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined);
+  return value.map(chunk => {
+    const startTime = time(chunk.startTime);
+    const duration = time(chunk.duration);
+    return { pathname: chunk.pathname, ...(startTime !== undefined ? { startTime } : {}), ...(duration !== undefined ? { duration } : {}) };
+  });
+}
+
+// Settings with the defaults of the config filled in; without a provider the provider of the model is used.
+// Returns the reason when the model belongs to another provider than the one given.
+function validateJobSettings(value: unknown): { settings: JobSettings } | { error: string } {
+  const settings = isRecord(value) ? value : {};
+  const text = (field: keyof JobSettings, fallback: string) =>
+    typeof settings[field] === 'string' && settings[field] ? (settings[field] as string) : fallback;
+  const temperature = Number(settings.temperature);
+  const transcriptionModel = text('transcriptionModel', defaultConfig.transcriptionModel);
+  const transcriptionProvider = text(
+    'transcriptionProvider',
+    whisperModels.find(model => model.id === transcriptionModel)?.provider || defaultConfig.transcriptionProvider
+  );
+  const pairError = transcriptionPairError(transcriptionProvider, transcriptionModel);
+  if (pairError) return { error: pairError };
+  return {
+    settings: {
+      transcriptionProvider,
+      transcriptionModel,
+      transcriptionLanguage: text('transcriptionLanguage', defaultConfig.transcriptionLanguage),
+      summarizationModel: text('summarizationModel', defaultConfig.summarizationModel),
+      summaryLanguage: text('summaryLanguage', defaultConfig.summaryLanguage),
+      temperature: settings.temperature !== undefined && Number.isFinite(temperature) ? temperature : defaultConfig.temperature,
+      citations: typeof settings.citations === 'boolean' ? settings.citations : defaultConfig.citations,
+      redactPii: typeof settings.redactPii === 'boolean' ? settings.redactPii : defaultConfig.redactPii,
+    },
+  };
+}
+
+/**
+ * Checks a create request body. Settings that are missing get the defaults of the config.
+ * Returns the reason when a field is invalid.
+ */
+export function validateJobInput(value: unknown): { input: JobInput } | { error: string } {
+  if (!isRecord(value)) return { error: 'Ongeldige gegevens' };
+  if (!isPathname(value.pathname)) {
+    return { error: 'Ongeldige verwijzing naar de opname' };
+  }
+  const chunks = value.chunks === undefined ? [] : validateChunks(value.chunks);
+  if (!chunks) return { error: 'Ongeldige delen van de opname' };
+  if (value.meetingId !== undefined && value.meetingId !== null && typeof value.meetingId !== 'string') {
+    return { error: 'Ongeldig veld: meetingId' };
+  }
+  const template = value.template ?? null;
+  if (template !== null && (!isRecord(template) || typeof template.id !== 'string' || typeof template.name !== 'string' || typeof template.prompt !== 'string')) {
+    return { error: 'Ongeldige template' };
+  }
+  if (value.variables !== undefined && !isRecord(value.variables)) return { error: 'Ongeldig veld: variables' };
+  const settings = validateJobSettings(value.settings);
+  if ('error' in settings) return settings;
+
+  return {
+    input: {
+      pathname: value.pathname,
+      ...(chunks.length > 0 ? { chunks } : {}),
+      ...(typeof value.contentType === 'string' ? { contentType: value.contentType } : {}),
+      audioFileName: typeof value.audioFileName === 'string' && value.audioFileName ? value.audioFileName : value.pathname.split('/').pop() || 'audio_file',
+      meetingId: (value.meetingId as string | undefined) || null,
+      template: template as MeetingTemplate | null,
+      variables: Object.fromEntries(
+        Object.entries(isRecord(value.variables) ? value.variables : {}).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+      ),
+      settings: settings.settings,
+    },
+  };
+}
+
+export async function createJob(input: JobInput, context: UserContext): Promise<Job> {
+  const now = new Date().toISOString();
+  return jobs().put({
+    id: nanoid(12),
+    owner: context.user,
+    teamId: context.activeTeam?.id ?? null,
+    status: 'queued',
+    stage: 'transcribing',
+    progress: 0,
+    message: 'Wachten op verwerking...',
+    stageProgress: null,
+    input,
+    transcription: null,
+    summary: null,
+    meetingId: null,
+    error: null,
+    attempts: 0,
+    heartbeatAt: now,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+  });
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  return jobs().get(id);
+}
+
+/**
+ * Applies changes to the stored job and passes the new state on to the listeners. Returns null
+ * when the job does not exist.
+ */
+export async function updateJob(id: string, changes: Partial<Omit<Job, 'id' | 'owner' | 'createdAt'>>): Promise<Job | null> {
+  const existing = await getJob(id);
+  if (!existing) return null;
+  const job = await jobs().put({ ...existing, ...changes, id, updatedAt: new Date().toISOString() });
+  publishJobEvent(id, 'job', job);
+  return job;
+}
+
+/**
+ * Whether the user may follow and cancel a job: their own, or any as admin
+ */
+export function canAccessJob(context: UserContext, job: Job): boolean {
+  return context.isAdmin || job.owner.id === context.user.id;
+}
+
+/**
+ * Returns the user's most recent jobs, newest first
+ */
+export async function listJobs(context: UserContext): Promise<Job[]> {
+  return (await jobs().list())
+    .filter(job => job.owner.id === context.user.id)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, MAX_LISTED_JOBS);
+}
+
+/**
+ * Follows the events of a job that runs in this process. Returns the function that stops it.
+ */
+export function subscribeToJob(id: string, listener: JobListener): () => void {
+  listeners[id] = (listeners[id] || []).concat(listener);
+  return () => {
+    listeners[id] = (listeners[id] || []).filter(candidate => candidate !== listener);
+    if (listeners[id].length === 0) delete listeners[id];
+  };
+}
+
+export function publishJobEvent(id: string, event: JobEvent, data: unknown): void {
+  (listeners[id] || []).forEach(listener => {
+    try {
+      listener(event, data);
+    } catch (error) {
+      console.error(`Error in listener of job ${id}:`, error);
+    }
+  });
+}
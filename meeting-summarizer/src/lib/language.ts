@@ -0,0 +1,80 @@
+// src/lib/language.ts
+import { transcriptionLanguages } from './config';
+
+/**
+ * Helpers for the transcription language setting, language detection and
+ * the language the summary is written in.
+ */
+
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+// Whisper's verbose_json reports the detected language by its English name
+const languageNameToCode: Record<string, string> = {
+  dutch: 'nl',
+  flemish: 'nl',
+  english: 'en',
+  german: 'de',
+  french: 'fr',
+  spanish: 'es',
+  italian: 'it',
+  portuguese: 'pt',
+  polish: 'pl',
+  turkish: 'tr',
+  arabic: 'ar',
+};
+
+/**
+ * Returns the language to pass to the transcription API, or undefined to let the model detect it
+ */
+export function resolveTranscriptionLanguage(language?: string | null): string | undefined {
+  if (!language || language === AUTO_DETECT_LANGUAGE) return undefined;
+  return language;
+}
+
+/**
+ * Normalizes a language as reported by the transcription API ("dutch", "nl", "NL") to an ISO 639-1 code
+ */
+export function normalizeLanguageCode(language?: string | null): string | undefined {
+  if (!language) return undefined;
+  const value = language.trim().toLowerCase();
+  if (languageNameToCode[value]) return languageNameToCode[value];
+  return /^[a-z]{2}$/.test(value) ? value : undefined;
+}
+
+/**
+ * Determines the language of a transcription result: the detected language when the model reports one,
+ * otherwise the language that was requested (undefined when auto-detect was used without a result)
+ */
+export function detectedLanguageFromResult(result: any, requestedLanguage?: string): string | undefined {
+  return normalizeLanguageCode(result?.language) || resolveTranscriptionLanguage(requestedLanguage);
+}
+
+/**
+ * Returns the distinct languages of a set of segments, ordered by total spoken duration (longest first)
+ */
+export function languagesByDuration(segments: { start: number; end: number; language?: string }[]): string[] {
+  const durations = new Map<string, number>();
+  segments.forEach(segment => {
+    if (!segment.language) return;
+    durations.set(segment.language, (durations.get(segment.language) || 0) + Math.max(0, segment.end - segment.start));
+  });
+  return Array.from(durations.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([language]) => language);
+}
+
+/**
+ * Returns the Dutch display name of a language code, falling back to the code itself
+ */
+export function languageName(code: string): string {
+  return transcriptionLanguages.find(language => language.code === code)?.name || code.toUpperCase();
+}
+
+/**
+ * Instruction appended to the summary prompt so the summary is written in the chosen language,
+ * regardless of the language(s) spoken in the transcript
+ */
+export function summaryLanguageInstruction(summaryLanguage?: string | null): string {
+  const code = normalizeLanguageCode(summaryLanguage) || 'nl';
+  return `Schrijf de samenvatting in het ${languageName(code)}, ongeacht de taal of talen die in de transcriptie gesproken worden.`;
+}
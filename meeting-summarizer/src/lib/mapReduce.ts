@@ -0,0 +1,277 @@
+// src/lib/mapReduce.ts
+import { ChatModel } from './config';
+import { completeChat, ChatResult } from './chatProvider';
+import { countTextTokens } from './tokenizer';
+import { TranscriptSegment, groupTurns } from './transcript';
+
+/**
+ * Hierarchical (map-reduce) summarization for transcripts that are too long for one prompt.
+ *
+ * 1. Split the transcript into parts at topic boundaries (long pauses) or speaker turns
+ * 2. Map: summarize every part with the selected template in mind
+ * 3. Reduce: merge the part summaries into one summary in the template's structure,
+ *    in several rounds when the part summaries together are still too long
+ */
+
+// Above this many tokens a single pass loses detail, even if the context window is larger
+const SINGLE_PASS_MAX_TOKENS = 60000;
+// Target size of one part in the map step
+const PART_MAX_TOKENS = 20000;
+// Room kept free in the context window for the prompt and the answer
+const PROMPT_RESERVE_TOKENS = 4000;
+// A silence this long between turns is treated as a likely change of topic
+const TOPIC_PAUSE_SECONDS = 8;
+// Parts are summarized in parallel, but not too many at once to respect rate limits
+const MAP_CONCURRENCY = 3;
+// Merge rounds before the remaining notes are merged in one final pass
+const MAX_REDUCE_ROUNDS = 5;
+
+export interface MapReduceProgress {
+  phase: 'map' | 'reduce';
+  completed: number;
+  total: number;
+}
+
+interface TranscriptUnit {
+  text: string;
+  tokens: number;
+  topicBoundary: boolean; // A new topic likely starts with this unit
+}
+
+/**
+ * Maximum number of transcript tokens the model gets in one prompt
+ */
+export function singlePassLimit(model: ChatModel): number {
+  const { contextWindow, maxOutputTokens } = model.capabilities;
+  const available = contextWindow - Math.min(maxOutputTokens, 16384) - PROMPT_RESERVE_TOKENS;
+  return Math.max(1000, Math.min(SINGLE_PASS_MAX_TOKENS, available));
+}
+
+/**
+ * Returns true when the transcript should be summarized with map-reduce instead of in one prompt
+ */
+export function needsMapReduce(transcriptTokens: number, model: ChatModel): boolean {
+  return transcriptTokens > singlePassLimit(model);
+}
+
+/**
+ * Splits text that is too long for one part at sentence boundaries
+ */
+export function splitLongText(text: string, maxTokens: number): string[] {
+  const sentences = text.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [text];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && countTextTokens(current + sentence) > maxTokens) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) pieces.push(current.trim());
+
+  return pieces;
+}
+
+/**
+ * Turns the transcript into units that are never split: speaker turns when segments are available,
+ * otherwise paragraphs
+ */
+function transcriptUnits(text: string, segments: TranscriptSegment[] | null): TranscriptUnit[] {
+  if (segments && segments.length > 0) {
+    const turns = groupTurns(segments);
+    return turns.map((turn, index) => {
+      const unitText = `${turn.speaker}: ${turn.text.trim()}`;
+      const pause = index > 0 ? turn.start - turns[index - 1].end : 0;
+      return { text: unitText, tokens: countTextTokens(unitText), topicBoundary: pause >= TOPIC_PAUSE_SECONDS };
+    });
+  }
+
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => ({ text: paragraph, tokens: countTextTokens(paragraph), topicBoundary: false }));
+}
+
+/**
+ * Splits a transcript into parts of at most maxTokens. Parts end at a topic boundary when one
+ * is available in the second half of the part, otherwise at a speaker turn (or paragraph).
+ */
+export function splitTranscript(
+  text: string,
+  segments: TranscriptSegment[] | null,
+  maxTokens: number = PART_MAX_TOKENS
+): string[] {
+  const units = transcriptUnits(text, segments).flatMap(unit =>
+    unit.tokens > maxTokens
+      ? splitLongText(unit.text, maxTokens).map(piece => ({ text: piece, tokens: countTextTokens(piece), topicBoundary: false }))
+      : [unit]
+  );
+
+  const parts: string[] = [];
+  let current: TranscriptUnit[] = [];
+  let currentTokens = 0;
+
+  const flush = (count: number) => {
+    parts.push(current.slice(0, count).map(unit => unit.text).join('\n\n'));
+    current = current.slice(count);
+    currentTokens = current.reduce((sum, unit) => sum + unit.tokens, 0);
+  };
+
+  for (const unit of units) {
+    if (current.length > 0 && currentTokens + unit.tokens > maxTokens) {
+      // Prefer cutting at the last topic boundary in the second half of the part
+      let cut = current.length;
+      let tokensBefore = 0;
+      for (let i = 0; i < current.length; i++) {
+        if (i > 0 && current[i].topicBoundary && tokensBefore >= maxTokens / 2) cut = i;
+        tokensBefore += current[i].tokens;
+      }
+      flush(cut);
+    }
+    current.push(unit);
+    currentTokens += unit.tokens;
+  }
+  if (current.length > 0) flush(current.length);
+
+  return parts;
+}
+
+/**
+ * Runs tasks with a maximum number in flight, preserving the order of the results
+ */
+async function runWithConcurrency<T>(tasks: (() => Promise<T>)[], limit: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+}
+
+const mapPrompt = (templatePrompt: string, part: number, total: number) =>
+  `Je maakt notities van deel ${part} van ${total} van een lange transcriptie. Deze notities worden later samengevoegd tot één samenvatting volgens de onderstaande opdracht.
+
+Noteer alles uit dit deel dat voor die opdracht relevant is: onderwerpen, argumenten, standpunten per spreker, cijfers, bedragen, data, besluiten, afspraken en vervolgstappen met verantwoordelijken. Wees volledig en feitelijk, verzin niets en laat inleidingen of conclusies over het hele gesprek weg.
+
+**Opdracht voor de uiteindelijke samenvatting:**
+${templatePrompt}`;
+
+const reducePrompt = (templatePrompt: string, finalRound: boolean) =>
+  `${templatePrompt}
+
+De transcriptie was te lang voor één keer en is in delen verwerkt. Hieronder staan de notities per deel, in chronologische volgorde. ${finalRound
+    ? 'Voeg ze samen tot één samenhangende samenvatting in precies de structuur die hierboven gevraagd wordt. Haal dubbelingen weg, maar laat geen details, afspraken of actiepunten weg.'
+    : 'Voeg ze samen tot gecombineerde notities. Haal dubbelingen weg, maar behoud alle details, afspraken en actiepunten.'}`;
+
+export interface MapReduceOptions {
+  model: ChatModel;
+  templatePrompt: string;        // The selected PromptType's prompt (or the default prompt)
+  languageInstruction: string;   // Appended to the final prompt
+  temperature?: number;
+  onProgress?: (progress: MapReduceProgress) => void;
+  onDelta?: (text: string) => void; // Streams the final summary as it is written
+  signal?: AbortSignal;             // Cancels all outstanding model calls
+}
+
+export interface MapReduceResult {
+  summary: string;
+  parts: number;
+  inputTokens: number;
+  outputTokens: number;
+  model: ChatModel;
+}
+
+/**
+ * Summarizes a long transcript hierarchically. Reports progress after every model call; only the
+ * final merge is streamed, the notes in between are never shown.
+ */
+export async function mapReduceSummarize(
+  text: string,
+  segments: TranscriptSegment[] | null,
+  options: MapReduceOptions
+): Promise<MapReduceResult> {
+  const { model, templatePrompt, languageInstruction, temperature, onProgress, onDelta, signal } = options;
+  const partLimit = Math.min(PART_MAX_TOKENS, singlePassLimit(model));
+  const parts = splitTranscript(text, segments, partLimit);
+
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let answeredBy = model;
+  const track = (result: ChatResult, prompt: string) => {
+    inputTokens += result.usage?.inputTokens ?? countTextTokens(prompt);
+    outputTokens += result.usage?.outputTokens ?? countTextTokens(result.text);
+    answeredBy = result.model;
+    return result.text;
+  };
+
+  // Map: notes per part
+  let completed = 0;
+  onProgress?.({ phase: 'map', completed, total: parts.length });
+  let notes = await runWithConcurrency(parts.map((part, index) => async () => {
+    const system = mapPrompt(templatePrompt, index + 1, parts.length);
+    const result = await completeChat(model.id, {
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: `Deel ${index + 1} van de transcriptie:\n\n${part}` },
+      ],
+      temperature,
+      maxTokens: 4096,
+      signal,
+    });
+    onProgress?.({ phase: 'map', completed: ++completed, total: parts.length });
+    return track(result, system + part);
+  }), MAP_CONCURRENCY);
+
+  // Reduce: merge groups of notes until one group fits in a single prompt, then write the final summary
+  let round = 0;
+  let stalled = false;
+  while (true) {
+    round++;
+    let groups = splitTranscript(notes.join('\n\n'), null, partLimit);
+    // Merging no longer shrinks the notes: the rest gets one final pass, so the summary is always
+    // written with the template's structure and the language instruction
+    if (groups.length > 1 && (stalled || round > MAX_REDUCE_ROUNDS)) {
+      const remaining = notes.join('\n\n');
+      if (countTextTokens(remaining) > singlePassLimit(model)) {
+        throw new Error(`De deelsamenvattingen zijn na ${round - 1} samenvoegrondes nog te lang voor één samenvatting`);
+      }
+      groups = [remaining];
+    }
+    const finalRound = groups.length === 1;
+    onProgress?.({ phase: 'reduce', completed: 0, total: groups.length });
+
+    let merged = 0;
+    const mergedNotes = await runWithConcurrency(groups.map(group => async () => {
+      const system = finalRound
+        ? `${reducePrompt(templatePrompt, true)}\n\n${languageInstruction}`
+        : reducePrompt(templatePrompt, false);
+      const result = await completeChat(model.id, {
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: `Notities per deel:\n\n${group}` },
+        ],
+        temperature,
+        maxTokens: finalRound ? 16384 : 4096,
+        signal,
+        onDelta: finalRound ? onDelta : undefined,
+      });
+      onProgress?.({ phase: 'reduce', completed: ++merged, total: groups.length });
+      return track(result, system + group);
+    }), MAP_CONCURRENCY);
+
+    if (finalRound) {
+      return { summary: mergedNotes[0], parts: parts.length, inputTokens, outputTokens, model: answeredBy };
+    }
+    stalled = mergedNotes.length >= notes.length;
+    notes = mergedNotes;
+  }
+}
@@ -0,0 +1,330 @@
+// src/lib/meetings.ts
+import { getCollection } from './storage';
+import { nanoid } from './nanoid';
+import { TranscriptSegment, parseSegments } from './transcript';
+import { type ActionItem } from './actionItems';
+import { type SummaryCitation } from './citations';
+import { type VerifiedClaim } from './claims';
+import { type TemplateVariable } from './templateVariables';
+import { type UserContext, isTeamMember } from './organization';
+import { type DeletionReceipt, getDeletionReceipt } from './retention';
+import { isUploadOf } from './recordings';
+
+/**
+ * Meeting history: every processed recording or text with its transcript, summary and results,
+ * stored in the 'meetings' collection so it can be reopened, renamed, tagged and summarized again.
+ *
+ * Audio meetings keep the pathname of the uploaded blob (not its URL, see `recordings.ts`), so
+ * the recording can be played and transcribed again later. Once the recording has been deleted (see `retention.ts`) the meeting keeps the
+ * deletion receipt instead.
+ *
+ * A meeting belongs to the user who processed it and the team they worked in; it is visible to
+ * both (and to admins). Meetings saved before there were users are visible to everyone.
+ */
+
+export interface MeetingAudio {
+  pathname: string; // In Vercel Blob
+  contentType?: string;
+}
+
+// The template a summary was made with, kept as it was so summarizing again gives a comparable result
+export interface MeetingTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  prompt: string;
+  variables?: TemplateVariable[];
+  version?: number;
+  builtIn?: boolean;
+}
+
+export interface MeetingCosts {
+  transcription: number; // USD
+  summary: number;
+}
+
+export interface Meeting {
+  id: string;
+  ownerId: string | null; // Id of the user who processed the meeting
+  teamId: string | null;
+  title: string;
+  tags: string[];
+  source: 'audio' | 'text';
+  audio: MeetingAudio | null;
+  audioDeletion?: DeletionReceipt | null; // Set when the recording has been deleted
+  audioFileName: string;
+  transcription: string;
+  segments: TranscriptSegment[];
+  detectedLanguages: string[];
+  summary: string;
+  citations: SummaryCitation[];
+  actionItems: ActionItem[] | null;
+  verification: VerifiedClaim[] | null;
+  template: MeetingTemplate | null;
+  variables: Record<string, string>;
+  costs: MeetingCosts;
+  createdAt: string; // ISO timestamps
+  updatedAt: string;
+}
+
+// What the library shows per meeting, without the transcript and results
+export interface MeetingListItem {
+  id: string;
+  title: string;
+  tags: string[];
+  source: Meeting['source'];
+  hasAudio: boolean;
+  audioDeletedAt: string | null;
+  audioFileName: string;
+  templateName: string | null;
+  preview: string; // Start of the summary
+  costs: MeetingCosts;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MeetingInput = Partial<Omit<Meeting, 'id' | 'ownerId' | 'teamId' | 'audioDeletion' | 'createdAt' | 'updatedAt'>>;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+const PREVIEW_LENGTH = 200;
+
+const meetings = () => getCollection<Meeting>('meetings');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Normalizes tags: trimmed, lowercase, without duplicates
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Checks a create or update request body. Only the fields that are present are returned, so an
+ * update can change just the title or the tags. Returns the reason when a field is invalid.
+ */
+export function validateMeetingInput(value: unknown): { input: MeetingInput } | { error: string } {
+  if (!isRecord(value)) return { error: 'Ongeldige gegevens' };
+  const input: MeetingInput = {};
+
+  if (value.title !== undefined) {
+    if (typeof value.title !== 'string') return { error: 'De titel moet tekst zijn' };
+    if (value.title.trim().length > MAX_TITLE_LENGTH) return { error: `De titel mag maximaal ${MAX_TITLE_LENGTH} tekens zijn` };
+    input.title = value.title.trim();
+  }
+  if (value.tags !== undefined) {
+    if (!Array.isArray(value.tags) || value.tags.some(tag => typeof tag !== 'string')) return { error: 'Tags moeten een lijst met tekst zijn' };
+    const tags = normalizeTags(value.tags as string[]);
+    if (tags.length > MAX_TAGS) return { error: `Maximaal ${MAX_TAGS} tags per gesprek` };
+    if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) return { error: `Een tag mag maximaal ${MAX_TAG_LENGTH} tekens zijn` };
+    input.tags = tags;
+  }
+  if (value.source !== undefined) {
+    if (value.source !== 'audio' && value.source !== 'text') return { error: 'Ongeldige bron' };
+    input.source = value.source;
+  }
+  if (value.audio !== undefined) {
+    const audio = value.audio;
+    if (audio !== null && (!isRecord(audio) || typeof audio.pathname !== 'string' || !audio.pathname)) {
+      return { error: 'Ongeldige verwijzing naar de opname' };
+    }
+    input.audio = audio && {
+      pathname: audio.pathname as string,
+      ...(typeof audio.contentType === 'string' ? { contentType: audio.contentType } : {}),
+    };
+  }
+  for (const field of ['audioFileName', 'transcription', 'summary'] as const) {
+    if (value[field] === undefined) continue;
+    if (typeof value[field] !== 'string') return { error: `Ongeldig veld: ${field}` };
+    input[field] = value[field] as string;
+  }
+  if (value.segments !== undefined) {
+    input.segments = parseSegments(value.segments) || [];
+  }
+  if (value.detectedLanguages !== undefined) {
+    if (!Array.isArray(value.detectedLanguages)) return { error: 'Ongeldig veld: detectedLanguages' };
+    input.detectedLanguages = value.detectedLanguages.filter((language): language is string => typeof language === 'string');
+  }
+  // Results of the processing steps are stored as the API returned them
+  if (value.citations !== undefined) {
+    if (!Array.isArray(value.citations)) return { error: 'Ongeldig veld: citations' };
+    input.citations = value.citations as SummaryCitation[];
+  }
+  if (value.actionItems !== undefined) {
+    if (value.actionItems !== null && !Array.isArray(value.actionItems)) return { error: 'Ongeldig veld: actionItems' };
+    input.actionItems = value.actionItems as ActionItem[] | null;
+  }
+  if (value.verification !== undefined) {
+    if (value.verification !== null && !Array.isArray(value.verification)) return { error: 'Ongeldig veld: verification' };
+    input.verification = value.verification as VerifiedClaim[] | null;
+  }
+  if (value.template !== undefined) {
+    const template = value.template;
+    if (template !== null && (!isRecord(template) || typeof template.id !== 'string' || typeof template.name !== 'string' || typeof template.prompt !== 'string')) {
+      return { error: 'Ongeldige template' };
+    }
+    input.template = template as MeetingTemplate | null;
+  }
+  if (value.variables !== undefined) {
+    if (!isRecord(value.variables)) return { error: 'Ongeldig veld: variables' };
+    input.variables = Object.fromEntries(
+      Object.entries(value.variables).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    );
+  }
+  if (value.costs !== undefined) {
+    if (!isRecord(value.costs)) return { error: 'Ongeldig veld: costs' };
+    input.costs = {
+      transcription: Number(value.costs.transcription) || 0,
+      summary: Number(value.costs.summary) || 0,
+    };
+  }
+
+  return { input };
+}
+
+const defaultTitle = (input: MeetingInput, createdAt: string) => {
+  const fileName = input.audioFileName?.replace(/\.[^.]+$/, '').trim();
+  return fileName || `Gesprek van ${new Date(createdAt).toLocaleDateString('nl-NL', { day: 'numeric', month: 'long', year: 'numeric' })}`;
+};
+
+const toListItem = (meeting: Meeting): MeetingListItem => ({
+  id: meeting.id,
+  title: meeting.title,
+  tags: meeting.tags,
+  source: meeting.source,
+  hasAudio: meeting.audio !== null,
+  audioDeletedAt: meeting.audioDeletion?.deletedAt ?? null,
+  audioFileName: meeting.audioFileName,
+  templateName: meeting.template?.name ?? null,
+  preview: meeting.summary.replace(/[#*_>`|]/g, '').replace(/\s+/g, ' ').trim().slice(0, PREVIEW_LENGTH),
+  costs: meeting.costs,
+  createdAt: meeting.createdAt,
+  updatedAt: meeting.updatedAt,
+});
+
+/**
+ * Whether the user may open and change a meeting: their own, their teams', or any as admin
+ */
+export function canAccessMeeting(context: UserContext, meeting: Meeting): boolean {
+  return context.isAdmin || !meeting.ownerId || meeting.ownerId === context.user.id || isTeamMember(context, meeting.teamId);
+}
+
+/**
+ * Returns the user's own meetings and those of their active team, newest first. `tag` keeps the
+ * meetings with that tag; `query` searches the title, tags, file name and summary.
+ */
+export async function listMeetings(context: UserContext, filter: { tag?: string; query?: string } = {}): Promise<MeetingListItem[]> {
+  const tag = filter.tag?.trim().toLowerCase();
+  const query = filter.query?.trim().toLowerCase();
+  return (await meetings().list())
+    .filter(meeting => !meeting.ownerId || meeting.ownerId === context.user.id || (Boolean(meeting.teamId) && meeting.teamId === context.activeTeam?.id))
+    .filter(meeting => !tag || meeting.tags.includes(tag))
+    .filter(meeting => !query || [meeting.title, meeting.audioFileName, meeting.summary, ...meeting.tags].some(text => text.toLowerCase().includes(query)))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toListItem);
+}
+
+// Meetings saved before recordings were private also stored the blob URL, which is not handed out
+const withoutBlobUrl = (meeting: Meeting): Meeting =>
+  meeting.audio ? { ...meeting, audio: { pathname: meeting.audio.pathname, ...(meeting.audio.contentType ? { contentType: meeting.audio.contentType } : {}) } } : meeting;
+
+export async function getMeeting(id: string): Promise<Meeting | null> {
+  const meeting = await meetings().get(id);
+  return meeting && withoutBlobUrl(meeting);
+}
+
+/**
+ * Whether the user may play or transcribe a recording: their own upload, or the recording of a
+ * meeting they can access
+ */
+export async function canAccessRecording(context: UserContext, pathname: string): Promise<boolean> {
+  if (await isUploadOf(context.user.id, pathname)) return true;
+  return (await meetings().list()).some(meeting => meeting.audio?.pathname === pathname && canAccessMeeting(context, meeting));
+}
+
+// A recording that has already been deleted is replaced by its deletion receipt
+async function resolveAudio(audio: MeetingAudio): Promise<Pick<Meeting, 'audio' | 'audioDeletion'>> {
+  const receipt = await getDeletionReceipt(audio.pathname);
+  return receipt ? { audio: null, audioDeletion: receipt } : { audio, audioDeletion: null };
+}
+
+/**
+ * The recording a meeting refers to comes from the client, so it must be the user's own upload
+ * or the recording the meeting already has; otherwise anyone could reach a recording by putting
+ * its pathname in a meeting (see canAccessRecording). Returns the reason when it is not allowed.
+ */
+async function checkAudio(context: UserContext, input: MeetingInput, existing: Meeting | null): Promise<string | null> {
+  const pathname = input.audio?.pathname;
+  if (!pathname || await isUploadOf(context.user.id, pathname)) return null;
+  if (existing && (existing.audio?.pathname === pathname || existing.audioDeletion?.pathname === pathname)) return null;
+  return 'Deze opname hoort niet bij jouw uploads';
+}
+
+/**
+ * Saves a new meeting for the user and their active team. Returns an error when the recording
+ * may not be attached.
+ */
+export async function createMeeting(input: MeetingInput, context: UserContext): Promise<{ meeting: Meeting } | { error: string }> {
+  const audioError = await checkAudio(context, input, null);
+  if (audioError) return { error: audioError };
+  const now = new Date().toISOString();
+  const meeting: Meeting = {
+    id: nanoid(12),
+    ownerId: context.user.id,
+    teamId: context.activeTeam?.id ?? null,
+    title: input.title || defaultTitle(input, now),
+    tags: input.tags ?? [],
+    source: input.source ?? (input.audio ? 'audio' : 'text'),
+    audio: null,
+    audioDeletion: null,
+    ...(input.audio ? await resolveAudio(input.audio) : {}),
+    audioFileName: input.audioFileName ?? '',
+    transcription: input.transcription ?? '',
+    segments: input.segments ?? [],
+    detectedLanguages: input.detectedLanguages ?? [],
+    summary: input.summary ?? '',
+    citations: input.citations ?? [],
+    actionItems: input.actionItems ?? null,
+    verification: input.verification ?? null,
+    template: input.template ?? null,
+    variables: input.variables ?? {},
+    costs: input.costs ?? { transcription: 0, summary: 0 },
+    createdAt: now,
+    updatedAt: now,
+  };
+  return { meeting: await meetings().put(meeting) };
+}
+
+/**
+ * Applies the fields of the input to a meeting. Returns null when the meeting does not exist, and
+ * an error when the recording may not be attached.
+ */
+export async function updateMeeting(id: string, input: MeetingInput, context: UserContext): Promise<{ meeting: Meeting } | { error: string } | null> {
+  const existing = await getMeeting(id);
+  if (!existing) return null;
+  const audioError = await checkAudio(context, input, existing);
+  if (audioError) return { error: audioError };
+  const title = input.title === '' ? defaultTitle({ ...existing, ...input }, existing.createdAt) : input.title;
+  const audio = input.audio ? await resolveAudio(input.audio) : {};
+  return { meeting: await meetings().put({ ...existing, ...input, ...audio, ...(title !== undefined ? { title } : {}), id, updatedAt: new Date().toISOString() }) };
+}
+
+/**
+ * Replaces the audio of the meetings whose recording was deleted with the deletion receipt.
+ * Returns how many meetings were changed.
+ */
+export async function recordAudioDeletions(deleted: DeletionReceipt[]): Promise<number> {
+  if (deleted.length === 0) return 0;
+  const byPathname: Record<string, DeletionReceipt> = {};
+  deleted.forEach(receipt => { byPathname[receipt.pathname] = receipt; });
+  const affected = (await meetings().list()).filter(meeting => meeting.audio && byPathname[meeting.audio.pathname]);
+  await Promise.all(affected.map(meeting => meetings().put({ ...meeting, audio: null, audioDeletion: byPathname[meeting.audio!.pathname] })));
+  return affected.length;
+}
+
+export async function deleteMeeting(id: string): Promise<boolean> {
+  return meetings().remove(id);
+}
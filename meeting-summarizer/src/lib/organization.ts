@@ -0,0 +1,296 @@
+// src/lib/organization.ts
+import { getCollection } from './storage';
+import { nanoid } from './nanoid';
+import { Session, SessionUser, authDisabled, getSession, readCookie } from './session';
+import { chatModels, whisperModels, transcriptionLanguages, summaryLanguages } from './config';
+
+/**
+ * The organization on top of authentication: teams (e.g. hypotheek, pensioen, casemanagement)
+ * with their own templates, recipient lists and model settings, and the members that belong to
+ * them. The deployment is the organization; teams and members are stored in the 'teams' and
+ * 'members' collections.
+ *
+ * Members are matched to signed-in users by e-mail address, so they can be added before their
+ * first sign-in. Admins manage teams and members and see everything; ORG_ADMINS lists e-mail
+ * addresses that are always admin, so the first admin can get in.
+ *
+ * Each request works in one active team (chosen in the header, kept in a cookie). Templates and
+ * meetings are scoped to it; see `templates.ts` and `meetings.ts`.
+ */
+
+export type MemberRole = 'admin' | 'member';
+
+// Defaults a team starts its sessions with; users can still change them in the settings
+export interface TeamSettings {
+  transcriptionProvider?: string;
+  transcriptionModel?: string;
+  transcriptionLanguage?: string;
+  summarizationModel?: string;
+  summaryLanguage?: string;
+  temperature?: number;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  description: string;
+  templateIds: string[];           // Built-in and shared templates the team uses; empty shows all of them
+  defaultTemplateId: string | null; // Selected when a member starts
+  recipients: string[];            // Suggested e-mail recipients for summaries
+  settings: TeamSettings;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Member {
+  id: string;
+  email: string; // Lowercase; matched to the signed-in user
+  name: string;
+  role: MemberRole;
+  teamIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TeamInput = Partial<Pick<Team, 'name' | 'description' | 'templateIds' | 'defaultTemplateId' | 'recipients' | 'settings'>>;
+export type MemberInput = Partial<Pick<Member, 'email' | 'name' | 'role' | 'teamIds'>>;
+
+// The signed-in user with their role and teams, for scoping a request
+export interface UserContext {
+  user: SessionUser;
+  role: MemberRole;
+  isAdmin: boolean;
+  teams: Team[];       // Admins can work in every team
+  activeTeam: Team | null;
+}
+
+export const ACTIVE_TEAM_COOKIE = 'team';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 300;
+const MAX_RECIPIENTS = 50;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const teams = () => getCollection<Team>('teams');
+const members = () => getCollection<Member>('members');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const configuredAdmins = () =>
+  (process.env.ORG_ADMINS || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean);
+
+function validateTeamSettings(value: unknown): { settings: TeamSettings } | { error: string } {
+  if (!isRecord(value)) return { error: 'Ongeldige teaminstellingen' };
+  const settings: TeamSettings = {};
+  const options: [keyof TeamSettings, string[]][] = [
+    ['transcriptionProvider', Array.from(new Set(whisperModels.map(model => model.provider)))],
+    ['transcriptionModel', whisperModels.map(model => model.id)],
+    ['transcriptionLanguage', transcriptionLanguages.map(language => language.code)],
+    ['summarizationModel', chatModels.map(model => model.id)],
+    ['summaryLanguage', summaryLanguages.map(language => language.code)],
+  ];
+  for (const [key, allowed] of options) {
+    if (value[key] === undefined || value[key] === '') continue;
+    if (typeof value[key] !== 'string' || !allowed.includes(value[key] as string)) return { error: `Ongeldige instelling: ${key}` };
+    (settings as Record<string, unknown>)[key] = value[key];
+  }
+  if (value.temperature !== undefined && value.temperature !== null) {
+    const temperature = Number(value.temperature);
+    if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) return { error: 'De temperatuur moet tussen 0 en 2 liggen' };
+    settings.temperature = temperature;
+  }
+  return { settings };
+}
+
+/**
+ * Checks a create or update request body for a team. Only the fields that are present are
+ * returned; creating a team requires a name.
+ */
+export function validateTeamInput(value: unknown): { input: TeamInput } | { error: string } {
+  if (!isRecord(value)) return { error: 'Ongeldige gegevens' };
+  const input: TeamInput = {};
+
+  if (value.name !== undefined) {
+    if (typeof value.name !== 'string' || !value.name.trim()) return { error: 'Geef het team een naam' };
+    if (value.name.trim().length > MAX_NAME_LENGTH) return { error: `De naam mag maximaal ${MAX_NAME_LENGTH} tekens zijn` };
+    input.name = value.name.trim();
+  }
+  if (value.description !== undefined) {
+    if (typeof value.description !== 'string') return { error: 'De omschrijving moet tekst zijn' };
+    if (value.description.trim().length > MAX_DESCRIPTION_LENGTH) return { error: `De omschrijving mag maximaal ${MAX_DESCRIPTION_LENGTH} tekens zijn` };
+    input.description = value.description.trim();
+  }
+  if (value.templateIds !== undefined) {
+    if (!isStringList(value.templateIds)) return { error: 'Templates moeten een lijst met ids zijn' };
+    input.templateIds = Array.from(new Set(value.templateIds));
+  }
+  if (value.defaultTemplateId !== undefined) {
+    if (value.defaultTemplateId !== null && typeof value.defaultTemplateId !== 'string') return { error: 'Ongeldige standaardtemplate' };
+    input.defaultTemplateId = value.defaultTemplateId || null;
+  }
+  if (value.recipients !== undefined) {
+    if (!isStringList(value.recipients)) return { error: 'Ontvangers moeten een lijst met e-mailadressen zijn' };
+    const recipients = Array.from(new Set(value.recipients.map(email => email.trim().toLowerCase()).filter(Boolean)));
+    const invalid = recipients.find(email => !EMAIL_PATTERN.test(email));
+    if (invalid) return { error: `Ongeldig e-mailadres: ${invalid}` };
+    if (recipients.length > MAX_RECIPIENTS) return { error: `Maximaal ${MAX_RECIPIENTS} ontvangers per team` };
+    input.recipients = recipients;
+  }
+  if (value.settings !== undefined) {
+    const validation = validateTeamSettings(value.settings);
+    if ('error' in validation) return validation;
+    input.settings = validation.settings;
+  }
+
+  return { input };
+}
+
+/**
+ * Checks a create or update request body for a member. Only the fields that are present are
+ * returned; adding a member requires an e-mail address.
+ */
+export function validateMemberInput(value: unknown): { input: MemberInput } | { error: string } {
+  if (!isRecord(value)) return { error: 'Ongeldige gegevens' };
+  const input: MemberInput = {};
+
+  if (value.email !== undefined) {
+    if (typeof value.email !== 'string' || !EMAIL_PATTERN.test(value.email.trim())) return { error: 'Ongeldig e-mailadres' };
+    input.email = value.email.trim().toLowerCase();
+  }
+  if (value.name !== undefined) {
+    if (typeof value.name !== 'string') return { error: 'De naam moet tekst zijn' };
+    if (value.name.trim().length > MAX_NAME_LENGTH) return { error: `De naam mag maximaal ${MAX_NAME_LENGTH} tekens zijn` };
+    input.name = value.name.trim();
+  }
+  if (value.role !== undefined) {
+    if (value.role !== 'admin' && value.role !== 'member') return { error: 'Ongeldige rol' };
+    input.role = value.role;
+  }
+  if (value.teamIds !== undefined) {
+    if (!isStringList(value.teamIds)) return { error: 'Teams moeten een lijst met ids zijn' };
+    input.teamIds = Array.from(new Set(value.teamIds));
+  }
+
+  return { input };
+}
+
+// --- Teams ---
+
+export async function listTeams(): Promise<Team[]> {
+  return (await teams().list()).sort((a, b) => a.name.localeCompare(b.name, 'nl'));
+}
+
+export async function getTeam(id: string): Promise<Team | null> {
+  return teams().get(id);
+}
+
+export async function createTeam(input: TeamInput & { name: string }): Promise<Team> {
+  const now = new Date().toISOString();
+  return teams().put({
+    id: nanoid(12),
+    name: input.name,
+    description: input.description ?? '',
+    templateIds: input.templateIds ?? [],
+    defaultTemplateId: input.defaultTemplateId ?? null,
+    recipients: input.recipients ?? [],
+    settings: input.settings ?? {},
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export async function updateTeam(id: string, input: TeamInput): Promise<Team | null> {
+  const existing = await teams().get(id);
+  if (!existing) return null;
+  return teams().put({ ...existing, ...input, id, updatedAt: new Date().toISOString() });
+}
+
+/**
+ * Deletes a team and removes it from its members. Templates and meetings of the team stay and
+ * are only visible to admins (and, for meetings, their owners) afterwards.
+ */
+export async function deleteTeam(id: string): Promise<boolean> {
+  const removed = await teams().remove(id);
+  if (removed) {
+    const affected = (await members().list()).filter(member => member.teamIds.includes(id));
+    await Promise.all(affected.map(member => members().put({ ...member, teamIds: member.teamIds.filter(teamId => teamId !== id) })));
+  }
+  return removed;
+}
+
+// --- Members ---
+
+export async function listMembers(): Promise<Member[]> {
+  return (await members().list()).sort((a, b) => a.email.localeCompare(b.email));
+}
+
+export async function getMember(id: string): Promise<Member | null> {
+  return members().get(id);
+}
+
+export async function findMemberByEmail(email: string): Promise<Member | null> {
+  const normalized = email.trim().toLowerCase();
+  return normalized ? (await members().list()).find(member => member.email === normalized) || null : null;
+}
+
+/**
+ * Adds a member. Returns an error when the e-mail address is already a member.
+ */
+export async function createMember(input: MemberInput & { email: string }): Promise<{ member: Member } | { error: string }> {
+  if (await findMemberByEmail(input.email)) return { error: 'Dit e-mailadres is al lid' };
+  const now = new Date().toISOString();
+  const member = await members().put({
+    id: nanoid(12),
+    email: input.email,
+    name: input.name ?? '',
+    role: input.role ?? 'member',
+    teamIds: input.teamIds ?? [],
+    createdAt: now,
+    updatedAt: now,
+  });
+  return { member };
+}
+
+export async function updateMember(id: string, input: MemberInput): Promise<{ member: Member } | { error: string } | null> {
+  const existing = await members().get(id);
+  if (!existing) return null;
+  if (input.email && input.email !== existing.email && await findMemberByEmail(input.email)) return { error: 'Dit e-mailadres is al lid' };
+  return { member: await members().put({ ...existing, ...input, id, updatedAt: new Date().toISOString() }) };
+}
+
+export async function deleteMember(id: string): Promise<boolean> {
+  return members().remove(id);
+}
+
+// --- Request context ---
+
+/**
+ * The role, teams and active team of a signed-in user. The active team is the requested one
+ * when the user may work in it, otherwise their first team.
+ */
+export async function userContext(session: Session, requestedTeamId?: string | null): Promise<UserContext> {
+  const { user } = session;
+  const member = await findMemberByEmail(user.email);
+  const isAdmin = authDisabled() || member?.role === 'admin' || configuredAdmins().includes(user.email.toLowerCase());
+  const allTeams = await listTeams();
+  const userTeams = isAdmin ? allTeams : allTeams.filter(team => member?.teamIds.includes(team.id));
+  const activeTeam = userTeams.find(team => team.id === requestedTeamId) || userTeams[0] || null;
+  return { user, role: isAdmin ? 'admin' : 'member', isAdmin, teams: userTeams, activeTeam };
+}
+
+/**
+ * The user context of a request (session cookie and active team cookie), or null when the user
+ * is not signed in
+ */
+export async function getUserContext(request: Request): Promise<UserContext | null> {
+  const session = await getSession(request);
+  return session && userContext(session, readCookie(request, ACTIVE_TEAM_COOKIE));
+}
+
+export function isTeamMember(context: UserContext, teamId: string | null | undefined): boolean {
+  return Boolean(teamId) && context.teams.some(team => team.id === teamId);
+}
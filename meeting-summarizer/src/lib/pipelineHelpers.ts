@@ -73,22 +73,6 @@ export function estimateChunks(fileSize: number): number {
   return Math.ceil(fileSize / MAX_CHUNK_SIZE);
 }
 
-/**
- * Calculates progress percentage based on elapsed time and estimated total time
- * 
- * @param elapsedTime Time elapsed so far in seconds
- * @param estimatedTotalTime Total estimated time for the stage in seconds
- * @returns Progress percentage (0-100)
- */
-export function calculateProgressFromTime(
-  elapsedTime: number, 
-  estimatedTotalTime: number
-): number {
-  if (estimatedTotalTime <= 0) return 100;
-  const progress = (elapsedTime / estimatedTotalTime) * 100;
-  return Math.min(99, Math.round(progress)); // Cap at 99% to avoid showing 100% before completion
-}
-
 /**
  * Determines the appropriate initial message for a pipeline stage
  * 
@@ -114,6 +98,8 @@ export function getInitialStageMessage(
       return 'Spraak wordt omgezet naar tekst...';
     case 'summarizing':
       return 'AI analyseert transcriptie en genereert een samenvatting...';
+    case 'verifying':
+      return 'Beweringen in de samenvatting worden vergeleken met de transcriptie...';
     case 'completed':
       return 'Alle stappen succesvol afgerond!';
     case 'error':
@@ -0,0 +1,94 @@
+// src/lib/progress.ts
+
+/**
+ * Progress of a long-running stage as the server reports it: units that are really finished
+ * (chunks transcribed, transcript parts summarized, tokens written) out of the total, and the
+ * time left computed from the throughput measured so far. Before the first unit is finished the
+ * time left comes from the duration measured in earlier runs (see throughput.ts), when known.
+ * A unit that is a single call (a transcription) counts as partly done while it runs, by the
+ * time it is expected to take. Shared by the routes, the job worker and the pipeline display.
+ */
+
+export type ProgressUnit = 'chunks' | 'parts' | 'tokens';
+
+export interface StageProgress {
+  completed: number;
+  total: number;
+  unit: ProgressUnit;
+  percentage: number;          // completed / total, 0-100
+  estimatedTimeLeft?: number;  // Seconds; missing while there is nothing to measure
+}
+
+export interface ProgressTracker {
+  // `partial`: the part of the next unit that is done, 0-1
+  update(completed: number, total: number, partial?: number): StageProgress;
+}
+
+// A unit that is partly done never shows as finished before it is
+const MAX_PARTIAL = 0.99;
+// How often a running call reports the part expected to be done
+const PARTIAL_PROGRESS_INTERVAL_MS = 5000;
+
+/**
+ * Tracks the progress of one stage from the moment it is created. `expectedSeconds` is the
+ * duration of the whole stage measured in earlier runs.
+ */
+export function createProgressTracker(unit: ProgressUnit, expectedSeconds?: number | null): ProgressTracker {
+  const startedAt = Date.now();
+  // Tokens are measured from the first one: the wait before the model starts writing says nothing about its speed
+  let measuredFrom: { at: number; completed: number } | null = unit === 'tokens' ? null : { at: startedAt, completed: 0 };
+  return {
+    update(completed, total, partial = 0) {
+      const now = Date.now();
+      const done = completed + Math.min(MAX_PARTIAL, Math.max(0, partial));
+      if (!measuredFrom && done > 0) measuredFrom = { at: now, completed: done };
+      const elapsedSeconds = (now - startedAt) / 1000;
+      const measuredSeconds = measuredFrom ? (now - measuredFrom.at) / 1000 : 0;
+      const measuredUnits = measuredFrom ? done - measuredFrom.completed : 0;
+      const remaining = Math.max(0, total - done);
+      let estimatedTimeLeft: number | undefined;
+      if (measuredUnits > 0 && measuredSeconds > 0) {
+        estimatedTimeLeft = Math.round(remaining / (measuredUnits / measuredSeconds));
+      } else if (expectedSeconds) {
+        estimatedTimeLeft = Math.max(0, Math.round(expectedSeconds - elapsedSeconds));
+      }
+      return {
+        completed,
+        total,
+        unit,
+        percentage: total > 0 ? Math.min(completed < total ? 99 : 100, Math.round((done / total) * 100)) : 0,
+        ...(estimatedTimeLeft !== undefined ? { estimatedTimeLeft } : {}),
+      };
+    },
+  };
+}
+
+/**
+ * Reports the part of one unit that is expected to be done while `work` runs, every few seconds,
+ * from the seconds the unit is expected to take. Without an expectation nothing is reported.
+ */
+export async function withPartialProgress<T>(work: Promise<T>, expectedSeconds: number | null | undefined, report: (partial: number) => void): Promise<T> {
+  if (!expectedSeconds) return work;
+  const startedAt = Date.now();
+  const timer = setInterval(() => report((Date.now() - startedAt) / 1000 / expectedSeconds), PARTIAL_PROGRESS_INTERVAL_MS);
+  try {
+    return await work;
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+/**
+ * The status line for a progress report; `phase` tells map-reduce summaries apart
+ */
+export function progressMessage(progress: StageProgress & { phase?: string }): string {
+  const { completed, total } = progress;
+  switch (progress.unit) {
+    case 'chunks':
+      return total > 1 ? `Transcriptie: ${completed} van ${total} delen klaar` : completed >= total ? 'Transcriptie voltooid' : 'Transcriptie bezig...';
+    case 'parts':
+      return progress.phase === 'reduce' ? `Deelsamenvattingen samenvoegen (${completed}/${total})` : `Deel ${completed} van ${total} samengevat`;
+    case 'tokens':
+      return completed > 0 ? `Samenvatting schrijven (${completed} van ~${total} tokens)` : 'Wachten op het taalmodel...';
+  }
+}
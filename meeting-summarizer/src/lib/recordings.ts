@@ -0,0 +1,64 @@
+// src/lib/recordings.ts
+import { get, list, type GetBlobResult, type ListBlobResultBlob } from '@vercel/blob';
+import { userUploadPrefix } from './session';
+
+/**
+ * Access to uploaded recordings. Recordings are private blobs: their URL only works with the
+ * store token (BLOB_READ_WRITE_TOKEN), which only the server has.
+ * - uploads are stored as `users/<key>/<name>-<random suffix>` (see /api/upload-blob)
+ * - the browser refers to a recording by its pathname only. Server routes read it with the store
+ *   token, after checking that the user may use the recording.
+ * - the audio player streams recordings through /api/recordings, which requires a session
+ * - meetings store the pathname, not the URL
+ */
+
+// A piece of a recording that is too large to transcribe in one call, uploaded next to it by the
+// browser (see createAudioChunks), with its position in the recording
+export interface RecordingChunk {
+  pathname: string;
+  startTime?: number; // seconds from the start of the recording; undefined when it could not be determined
+  duration?: number;  // seconds
+}
+
+/**
+ * The pathname of a Vercel Blob URL (`https://<store>.private.blob.vercel-storage.com/<pathname>`),
+ * or null for any other URL
+ */
+export function blobPathname(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' || !parsed.hostname.endsWith('.blob.vercel-storage.com')) return null;
+    return decodeURIComponent(parsed.pathname.replace(/^\//, '')) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a blob was uploaded by the user, i.e. is stored under the user's `users/<key>/`
+ */
+export async function isUploadOf(userId: string, pathname: string): Promise<boolean> {
+  const owner = pathname.match(/^(users\/[0-9a-f]+\/)/);
+  return Boolean(owner) && owner![1] === (await userUploadPrefix({ id: userId }));
+}
+
+/**
+ * Looks up a recording in the blob store by its pathname. Returns null when it does not exist
+ * (anymore), e.g. because it was deleted after transcription.
+ */
+export async function findRecording(pathname: string): Promise<ListBlobResultBlob | null> {
+  if (!pathname) return null;
+  // A pathname sorts before the longer pathnames it is a prefix of
+  const { blobs } = await list({ prefix: pathname, limit: 10 });
+  return blobs.find(blob => blob.pathname === pathname) ?? null;
+}
+
+/**
+ * Reads a private recording with the store token. Returns null when it does not exist (anymore).
+ * `headers` are sent along, e.g. the range request of the audio player.
+ */
+export async function readRecording(pathname: string, headers?: HeadersInit): Promise<Extract<GetBlobResult, { statusCode: 200 }> | null> {
+  if (!pathname) return null;
+  const result = await get(pathname, { access: 'private', ...(headers ? { headers } : {}) });
+  return result && result.statusCode === 200 ? result : null;
+}
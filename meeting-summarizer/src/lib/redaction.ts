@@ -0,0 +1,261 @@
+// src/lib/redaction.ts
+
+/**
+ * Redaction of personal data before a transcript goes to a language model. Detected values are
+ * replaced with placeholders ("[BSN_1]", "[IBAN_2]") and the model's answer is restored with the
+ * original values, so the summary reads as if nothing was redacted.
+ *
+ * The detectors are written for Dutch conversations:
+ * - BSN: nine digits (optionally grouped as 123.456.789) that pass the elfproef
+ * - IBAN: any country, validated with the ISO 13616 mod-97 checksum
+ * - phone numbers: Dutch numbers (06, 0xx, +31, 0031), written with or without separators
+ * - e-mail addresses
+ * - postcodes: 1234 AB
+ * - addresses: a street name ending in straat, laan, weg, ... followed by a house number
+ * - birth dates: dates in a sentence about a birth ("geboren op 12 maart 1975", "geboortedatum")
+ *
+ * One redactor is used for everything sent in a request (transcript, summary, instructions), so
+ * the same value gets the same placeholder everywhere. Kept free of server imports so the
+ * interface can preview what will be redacted.
+ */
+
+export type RedactionType = 'bsn' | 'iban' | 'phone' | 'email' | 'postcode' | 'address' | 'birthDate';
+
+export interface Redaction {
+  placeholder: string; // e.g. "[BSN_1]"
+  type: RedactionType;
+  value: string;       // The original text (its first occurrence)
+  count: number;       // Occurrences replaced
+}
+
+export interface Redactor {
+  redact(text: string): string;
+  restore(text: string): string;
+  // For streamed answers: holds back a placeholder that is split over two deltas
+  createStreamRestorer(): { push(delta: string): string; flush(): string };
+  redactions(): Redaction[];
+}
+
+export const REDACTION_TYPES: { id: RedactionType; tag: string; label: string }[] = [
+  { id: 'bsn', tag: 'BSN', label: 'BSN' },
+  { id: 'iban', tag: 'IBAN', label: 'IBAN' },
+  { id: 'phone', tag: 'TELEFOON', label: 'Telefoonnummer' },
+  { id: 'email', tag: 'EMAIL', label: 'E-mailadres' },
+  { id: 'postcode', tag: 'POSTCODE', label: 'Postcode' },
+  { id: 'address', tag: 'ADRES', label: 'Adres' },
+  { id: 'birthDate', tag: 'GEBOORTEDATUM', label: 'Geboortedatum' },
+];
+
+/**
+ * Added to the instructions when anything was redacted, so the model keeps the placeholders intact
+ */
+export const REDACTION_INSTRUCTION =
+  'Persoonsgegevens in de tekst zijn vervangen door placeholders tussen vierkante haken, zoals [BSN_1], [IBAN_1] of [ADRES_1]. Neem een placeholder letterlijk over (met de haken) wanneer je het gegeven noemt; verzin geen waarden en verander de nummering niet.';
+
+interface Match {
+  start: number;
+  end: number;
+  type: RedactionType;
+}
+
+// Longest placeholder ("[GEBOORTEDATUM_999]"), for the stream restorer
+const MAX_PLACEHOLDER_LENGTH = 24;
+const PLACEHOLDER_PATTERN = /\[(BSN|IBAN|TELEFOON|EMAIL|POSTCODE|ADRES|GEBOORTEDATUM)_(\d+)\]/g;
+
+// --- Checksums ---
+
+// Elfproef: 9*d1 + 8*d2 + ... + 2*d8 - d9 is divisible by 11
+export function isValidBsn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 9 || /^0+$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < 8; i++) sum += Number(digits[i]) * (9 - i);
+  sum -= Number(digits[8]);
+  return sum % 11 === 0;
+}
+
+// ISO 13616: move the first four characters to the end, letters to 10..35, the number mod 97 is 1
+export function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (let i = 0; i < rearranged.length; i++) {
+    const code = rearranged.charCodeAt(i);
+    const digits = code >= 65 ? String(code - 55) : rearranged[i];
+    for (let j = 0; j < digits.length; j++) remainder = (remainder * 10 + Number(digits[j])) % 97;
+  }
+  return remainder === 1;
+}
+
+// --- Detectors ---
+
+// Runs a pattern whose first group is the character before the value (or the start of the text)
+// and whose second group is the value itself
+function findAll(text: string, pattern: RegExp, type: RedactionType, accept: (value: string) => boolean = () => true): Match[] {
+  const matches: Match[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    const start = match.index + match[1].length;
+    if (accept(match[2])) matches.push({ start, end: start + match[2].length, type });
+    if (match[0].length === 0) regex.lastIndex++;
+  }
+  return matches;
+}
+
+const findBsns = (text: string) =>
+  findAll(text, /(^|[^\dA-Za-z])(\d{3}([ .-]?)\d{3}\3\d{3})(?![\d])/g, 'bsn', isValidBsn);
+
+// A candidate runs on as long as it could be an IBAN; the longest prefix with a valid checksum is taken
+function findIbans(text: string): Match[] {
+  const matches: Match[] = [];
+  const regex = /(^|[^A-Za-z0-9])([A-Za-z]{2}\d{2}(?: ?[A-Za-z0-9]){11,30})/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    const start = match.index + match[1].length;
+    const candidate = match[2];
+    // Position in the candidate of every character that is not a space
+    const positions: number[] = [];
+    for (let i = 0; i < candidate.length; i++) if (candidate[i] !== ' ') positions.push(i);
+    for (let length = positions.length; length >= 15; length--) {
+      const end = positions[length - 1] + 1;
+      const next = candidate[end];
+      // The IBAN has to end at a word boundary, not in the middle of a word or number
+      if (next !== undefined && next !== ' ') continue;
+      if (isValidIban(candidate.slice(0, end))) {
+        matches.push({ start, end: start + end, type: 'iban' });
+        regex.lastIndex = start + end;
+        break;
+      }
+    }
+  }
+  return matches;
+}
+
+// A date followed by a number ("01-02-2023 12") has as many digits as a phone number
+const findPhoneNumbers = (text: string) =>
+  findAll(
+    text,
+    /(^|[^\d+])((?:\+31|0031)[\s-]?(?:\(0\)[\s-]?)?[1-9](?:[\s-]?\d){8}|0[1-9](?:[\s-]?\d){8})(?![\d])/g,
+    'phone',
+    value => !/\d{1,2}[-/.]\d{1,2}[-/.]\d{4}/.test(value)
+  );
+
+const findEmails = (text: string) =>
+  findAll(text, /(^|[^A-Za-z0-9._%+-])([A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,})/g, 'email');
+
+// Upper case only: "1500 en" is an amount, not a postcode. SA, SD and SS are not used.
+const findPostcodes = (text: string) =>
+  findAll(text, /(^|[^\dA-Za-z])([1-9]\d{3} ?(?!SA|SD|SS)[A-Z]{2})(?![A-Za-z\d])/g, 'postcode');
+
+const STREET_SUFFIXES = 'straat|straatweg|laan|weg|plein|gracht|kade|singel|dijk|hof|dreef|steeg|markt|pad|park|allee|boulevard|wal|plantsoen';
+const findAddresses = (text: string) =>
+  findAll(
+    text,
+    new RegExp(`(^|[^A-Za-zÀ-ÿ])([A-Za-zÀ-ÿ'-]{2,}(?:${STREET_SUFFIXES}) \\d{1,5}(?: ?[A-Za-z](?![A-Za-z])| ?- ?\\d{1,4}(?!\\d))?)`, 'gi'),
+    'address'
+  );
+
+const MONTHS = 'januari|februari|maart|april|mei|juni|juli|augustus|september|oktober|november|december|jan|feb|mrt|apr|jun|jul|aug|sep|sept|okt|nov|dec';
+const DATE_PATTERN = new RegExp(`(^|[^\\d])(\\d{1,2}[-/.]\\d{1,2}[-/.](?:19|20)\\d{2}|(?:19|20)\\d{2}-\\d{2}-\\d{2}|\\d{1,2} (?:${MONTHS})\\.? (?:19|20)\\d{2})(?![\\d])`, 'gi');
+const BIRTH_CONTEXT = /geboren|geboorte|geb\.|verjaardag|jarig/i;
+const BIRTH_CONTEXT_LENGTH = 40; // Characters before the date that are searched for a birth word
+
+// Only dates about a birth; other dates (deadlines, the meeting date) are needed in the summary
+const findBirthDates = (text: string) =>
+  findAll(text, DATE_PATTERN, 'birthDate').filter(match =>
+    BIRTH_CONTEXT.test(text.slice(Math.max(0, match.start - BIRTH_CONTEXT_LENGTH), match.start))
+  );
+
+const DETECTORS: ((text: string) => Match[])[] = [findEmails, findIbans, findBsns, findPhoneNumbers, findPostcodes, findAddresses, findBirthDates];
+
+/**
+ * The personal data in a text, in order and without overlaps (the earliest, then longest, match wins)
+ */
+export function detectPersonalData(text: string): Match[] {
+  const all = DETECTORS.reduce<Match[]>((matches, detect) => matches.concat(detect(text)), []);
+  all.sort((a, b) => a.start - b.start || b.end - a.end);
+  const selected: Match[] = [];
+  all.forEach(match => {
+    if (selected.length === 0 || match.start >= selected[selected.length - 1].end) selected.push(match);
+  });
+  return selected;
+}
+
+// Different spellings of the same value ("06-12345678", "06 1234 5678") get the same placeholder
+const normalizedValue = (type: RedactionType, value: string) =>
+  type === 'email' || type === 'address' || type === 'birthDate'
+    ? value.toLowerCase().replace(/\s+/g, ' ')
+    : value.replace(/[\s.()-]/g, '').replace(/^(?:\+31|0031)0?/, '0').toUpperCase();
+
+export function createRedactor(): Redactor {
+  const redactions: Redaction[] = [];
+  const byKey: Record<string, Redaction> = {};
+  const byPlaceholder: Record<string, Redaction> = {};
+  const counters: Record<string, number> = {};
+
+  const placeholderFor = (type: RedactionType, value: string) => {
+    const key = `${type}:${normalizedValue(type, value)}`;
+    if (!byKey[key]) {
+      const tag = REDACTION_TYPES.find(candidate => candidate.id === type)!.tag;
+      counters[tag] = (counters[tag] || 0) + 1;
+      const redaction: Redaction = { placeholder: `[${tag}_${counters[tag]}]`, type, value, count: 0 };
+      byKey[key] = redaction;
+      byPlaceholder[redaction.placeholder] = redaction;
+      redactions.push(redaction);
+    }
+    byKey[key].count++;
+    return byKey[key].placeholder;
+  };
+
+  const restore = (text: string) =>
+    text.replace(PLACEHOLDER_PATTERN, placeholder => byPlaceholder[placeholder]?.value ?? placeholder);
+
+  return {
+    redact(text) {
+      let result = '';
+      let position = 0;
+      detectPersonalData(text).forEach(match => {
+        result += text.slice(position, match.start) + placeholderFor(match.type, text.slice(match.start, match.end));
+        position = match.end;
+      });
+      return result + text.slice(position);
+    },
+
+    restore,
+
+    createStreamRestorer() {
+      let pending = '';
+      return {
+        push(delta) {
+          pending += delta;
+          const open = pending.lastIndexOf('[');
+          if (open !== -1 && pending.indexOf(']', open) === -1 && pending.length - open < MAX_PLACEHOLDER_LENGTH) {
+            const ready = pending.slice(0, open);
+            pending = pending.slice(open);
+            return restore(ready);
+          }
+          const ready = pending;
+          pending = '';
+          return restore(ready);
+        },
+        flush() {
+          const ready = pending;
+          pending = '';
+          return restore(ready);
+        },
+      };
+    },
+
+    redactions: () => redactions.slice(),
+  };
+}
+
+/**
+ * Redacts a single text, for previews
+ */
+export function previewRedaction(text: string): { text: string; redactions: Redaction[] } {
+  const redactor = createRedactor();
+  return { text: redactor.redact(text), redactions: redactor.redactions() };
+}
@@ -0,0 +1,113 @@
+// src/lib/retention.ts
+import { createHash } from 'crypto';
+import { del, list, type ListBlobResultBlob } from '@vercel/blob';
+import { getCollection } from './storage';
+import { blobPathname } from './recordings';
+
+/**
+ * Retention of uploaded recordings. Recordings are kept in Vercel Blob only as long as they are
+ * needed:
+ * - after a successful transcription the recording is deleted (RETENTION_DELETE_AFTER_TRANSCRIPTION,
+ *   default true; set it to false to keep recordings so they can be transcribed again)
+ * - the scheduled cleanup (/api/retention/cleanup, daily through Vercel Cron) deletes every blob
+ *   older than RETENTION_DAYS days (default 30, 0 turns it off), including uploads that were never
+ *   transcribed. It lists the whole blob store, so the store must only hold recordings.
+ * - deleting a meeting deletes its recording
+ *
+ * Every deletion leaves a receipt in the 'recordingDeletions' collection, and meetings that
+ * referred to the recording keep the receipt in place of the audio.
+ */
+
+export type DeletionReason = 'transcribed' | 'expired' | 'meeting-deleted';
+
+export interface DeletionReceipt {
+  id: string;               // Derived from the pathname, see `receiptId`
+  pathname: string;
+  url: string;
+  reason: DeletionReason;
+  deletedAt: string;        // ISO timestamp
+  deletedBy: string | null; // Id of the user; null for the scheduled cleanup
+  uploadedAt: string | null;
+  size: number | null;      // Bytes, when known
+}
+
+export interface RetentionPolicy {
+  deleteAfterTranscription: boolean;
+  retentionDays: number; // 0: recordings are not deleted because of their age
+}
+
+const DEFAULT_RETENTION_DAYS = 30;
+const LIST_PAGE_SIZE = 1000;
+const DELETE_BATCH_SIZE = 100;
+
+const receipts = () => getCollection<DeletionReceipt>('recordingDeletions');
+
+// Pathnames contain slashes and can be long; a hash fits the id pattern of the storage
+const receiptId = (pathname: string) => createHash('sha256').update(pathname, 'utf8').digest('hex').slice(0, 32);
+
+export function getRetentionPolicy(): RetentionPolicy {
+  const days = Number(process.env.RETENTION_DAYS);
+  return {
+    deleteAfterTranscription: process.env.RETENTION_DELETE_AFTER_TRANSCRIPTION !== 'false',
+    retentionDays: process.env.RETENTION_DAYS && Number.isFinite(days) && days >= 0 ? Math.floor(days) : DEFAULT_RETENTION_DAYS,
+  };
+}
+
+export async function getDeletionReceipt(pathname: string): Promise<DeletionReceipt | null> {
+  return receipts().get(receiptId(pathname));
+}
+
+const storeReceipt = (
+  blob: { url: string; pathname: string; uploadedAt?: Date | null; size?: number | null },
+  reason: DeletionReason,
+  deletedBy: string | null
+) =>
+  receipts().put({
+    id: receiptId(blob.pathname),
+    pathname: blob.pathname,
+    url: blob.url,
+    reason,
+    deletedAt: new Date().toISOString(),
+    deletedBy,
+    uploadedAt: blob.uploadedAt ? new Date(blob.uploadedAt).toISOString() : null,
+    size: blob.size ?? null,
+  });
+
+/**
+ * Deletes a recording and stores the receipt. Vercel Blob accepts deleting a blob that is already
+ * gone, so a failed attempt can simply be repeated.
+ */
+export async function deleteRecording(url: string, reason: DeletionReason, deletedBy: string | null): Promise<DeletionReceipt> {
+  const pathname = blobPathname(url);
+  if (!pathname) throw new Error(`Geen Vercel Blob-URL: ${url}`);
+  const blobUrl = url.split('?')[0]; // Without `?download=1` of download URLs
+  await del(blobUrl);
+  const receipt = await storeReceipt({ url: blobUrl, pathname }, reason, deletedBy);
+  console.log(`🗑️ Recording deleted (${reason}): ${pathname}`);
+  return receipt;
+}
+
+/**
+ * Deletes every blob that was uploaded more than `retentionDays` days ago, in batches, and returns
+ * the receipts
+ */
+export async function deleteExpiredRecordings(policy: RetentionPolicy = getRetentionPolicy()): Promise<DeletionReceipt[]> {
+  if (policy.retentionDays <= 0) return [];
+  const cutoff = Date.now() - policy.retentionDays * 24 * 60 * 60 * 1000;
+
+  let expired: ListBlobResultBlob[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await list({ cursor, limit: LIST_PAGE_SIZE });
+    expired = expired.concat(page.blobs.filter(blob => new Date(blob.uploadedAt).getTime() < cutoff));
+    cursor = page.hasMore ? page.cursor : undefined;
+  } while (cursor);
+
+  const deleted: DeletionReceipt[] = [];
+  for (let start = 0; start < expired.length; start += DELETE_BATCH_SIZE) {
+    const batch = expired.slice(start, start + DELETE_BATCH_SIZE);
+    await del(batch.map(blob => blob.url));
+    deleted.push(...(await Promise.all(batch.map(blob => storeReceipt(blob, 'expired', null)))));
+  }
+  return deleted;
+}
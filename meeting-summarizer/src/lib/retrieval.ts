@@ -0,0 +1,174 @@
+// src/lib/retrieval.ts
+import { countTextTokens } from './tokenizer';
+import { TranscriptSegment, formatTimestamp } from './transcript';
+import { transcriptPassages } from './citations';
+import { splitLongText } from './mapReduce';
+
+/**
+ * Retrieval over transcript chunks, so questions and refinements can use the relevant parts of
+ * a transcript of any length instead of its first few thousand characters.
+ *
+ * The transcript is cut into chunks of a few hundred tokens (consecutive segments, or lines of
+ * the plain text) that are ranked with BM25. Chunks keep the passage ids they cover (segment ids,
+ * or line indexes; see `citations.ts`) so answers can point back into the transcript.
+ */
+
+export interface TranscriptChunk {
+  id: number;           // Position in the transcript
+  text: string;         // With speaker labels
+  passageIds: number[];
+  start?: number;       // seconds, when the transcript has timestamps
+  end?: number;
+  tokens: number;
+}
+
+// Target size of one chunk
+const CHUNK_TOKENS = 300;
+// BM25 parameters
+const K1 = 1.5;
+const B = 0.75;
+
+// Frequent Dutch and English words that say nothing about the topic
+const STOPWORDS = new Set(`de het een en van in op te dat die is was er aan met voor niet zijn ook als dan maar om bij of uit nog wel naar je ik we wij jij u hij zij ze hun hem haar mijn ons onze zo al wat wie hoe waar waarom welke deze dit daar hier heb heeft hebben had kan kunnen zou zal wordt worden werd door over tot toch nu even gewoon ja nee oké ok dus want eh uh the a an and of to in is are was were it that this for on with as be at by or from what who how about did does do said zei zegt`.split(/\s+/));
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFD').replace(/[̀-ͯ]/g, '');
+
+/**
+ * Splits text into search terms: lowercase, without accents and stopwords, with a light stemming
+ * of Dutch plural and inflection endings ("afspraken" and "afspraak" both become "afsprak")
+ */
+export function searchTerms(text: string): string[] {
+  return normalize(text)
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOPWORDS.has(term))
+    .map(term => (term.length > 5 ? term.replace(/(en|s|e)$/, '') : term))
+    .map(term => term.replace(/(aa|ee|oo|uu)([^aeiou])$/, (_, vowels: string, consonant: string) => vowels[0] + consonant));
+}
+
+/**
+ * Cuts the transcript into chunks of about `maxTokens` tokens. With segments a chunk holds
+ * consecutive segments ("Spreker 1 [2:15]: ..." per turn), otherwise consecutive lines.
+ */
+export function chunkTranscript(text: string, segments: TranscriptSegment[] | null, maxTokens: number = CHUNK_TOKENS): TranscriptChunk[] {
+  // A passage longer than a chunk (a transcript without line breaks) is split at sentences
+  const passages = transcriptPassages(text, segments).flatMap(passage =>
+    countTextTokens(passage.text) > maxTokens
+      ? splitLongText(passage.text, maxTokens).map(piece => ({ ...passage, text: piece }))
+      : [passage]
+  );
+  const chunks: TranscriptChunk[] = [];
+  let current: typeof passages = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const lines: string[] = [];
+    current.forEach((passage, index) => {
+      const previous = current[index - 1];
+      if (passage.speaker && previous?.speaker === passage.speaker) {
+        lines[lines.length - 1] += ` ${passage.text}`;
+      } else if (passage.speaker) {
+        lines.push(`${passage.speaker}${passage.start !== undefined ? ` [${formatTimestamp(passage.start)}]` : ''}: ${passage.text}`);
+      } else {
+        lines.push(passage.text);
+      }
+    });
+    const chunkText = lines.join('\n');
+    chunks.push({
+      id: chunks.length,
+      text: chunkText,
+      passageIds: Array.from(new Set(current.map(passage => passage.id))),
+      ...(current[0].start !== undefined ? { start: current[0].start, end: current[current.length - 1].end } : {}),
+      tokens: countTextTokens(chunkText),
+    });
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const passage of passages) {
+    // Speaker label and timestamp included
+    const tokens = countTextTokens(passage.text) + (passage.speaker ? 8 : 0);
+    if (current.length > 0 && currentTokens + tokens > maxTokens) flush();
+    current.push(passage);
+    currentTokens += tokens;
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Ranks chunks by BM25 relevance to the query. Returns the matching chunks, best first.
+ */
+export function rankChunks(chunks: TranscriptChunk[], query: string): { chunk: TranscriptChunk; score: number }[] {
+  const queryTerms = Array.from(new Set(searchTerms(query)));
+  if (queryTerms.length === 0 || chunks.length === 0) return [];
+
+  const documents = chunks.map(chunk => searchTerms(chunk.text));
+  const averageLength = documents.reduce((sum, terms) => sum + terms.length, 0) / documents.length || 1;
+  const documentFrequency = new Map(queryTerms.map(term => [term, documents.filter(terms => terms.includes(term)).length]));
+
+  return chunks
+    .map((chunk, index) => {
+      const terms = documents[index];
+      const score = queryTerms.reduce((sum, term) => {
+        const frequency = terms.filter(candidate => candidate === term).length;
+        if (frequency === 0) return sum;
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+        return sum + idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * terms.length / averageLength));
+      }, 0);
+      return { chunk, score };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Selects the transcript context for a query within a token budget. The whole transcript is used
+ * when it fits; otherwise the best matching chunks, with their neighbours for context, in
+ * transcript order. Falls back to evenly spread chunks when nothing matches.
+ */
+export function selectChunks(chunks: TranscriptChunk[], query: string, maxTokens: number): { chunks: TranscriptChunk[]; complete: boolean } {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.tokens, 0);
+  if (total <= maxTokens) return { chunks, complete: true };
+
+  const ranked = rankChunks(chunks, query).map(result => result.chunk);
+  const candidates = ranked.length > 0
+    ? ranked.flatMap(chunk => [chunk, chunks[chunk.id - 1], chunks[chunk.id + 1]].filter((neighbour): neighbour is TranscriptChunk => Boolean(neighbour)))
+    : chunks.filter((_, index) => index % Math.ceil(total / maxTokens) === 0);
+
+  const selected = new Map<number, TranscriptChunk>();
+  let used = 0;
+  for (const chunk of candidates) {
+    // The best chunk is always included, even when it alone exceeds the budget
+    if (selected.has(chunk.id) || (selected.size > 0 && used + chunk.tokens > maxTokens)) continue;
+    selected.set(chunk.id, chunk);
+    used += chunk.tokens;
+  }
+
+  return { chunks: Array.from(selected.values()).sort((a, b) => a.id - b.id), complete: false };
+}
+
+/**
+ * Formats selected chunks for a prompt, marking the gaps between them
+ */
+export function formatChunks(chunks: TranscriptChunk[]): string {
+  return chunks
+    .map((chunk, index) => `${index > 0 && chunks[index - 1].id !== chunk.id - 1 ? '[...]\n\n' : ''}${chunk.text}`)
+    .join('\n\n');
+}
+
+/**
+ * The transcript context for a prompt: the whole transcript when it fits in `maxTokens`, otherwise
+ * the chunks that are most relevant to the query
+ */
+export function retrieveContext(
+  text: string,
+  segments: TranscriptSegment[] | null,
+  query: string,
+  maxTokens: number
+): { context: string; complete: boolean } {
+  const { chunks, complete } = selectChunks(chunkTranscript(text, segments), query, maxTokens);
+  return { context: formatChunks(chunks), complete };
+}
@@ -0,0 +1,139 @@
+// src/lib/session.ts
+
+/**
+ * Sessions for the authentication layer (see `authProvider.ts` for the sign-in methods).
+ *
+ * A session is a signed cookie: the user and the expiry time as base64url JSON, followed by an
+ * HMAC-SHA256 signature made with AUTH_SECRET. Only Web Crypto is used, so the middleware (edge
+ * runtime) and the Node.js routes check sessions the same way.
+ *
+ * Authentication is required unless AUTH_DISABLED=true (for local development).
+ */
+
+export const SESSION_COOKIE = 'session';
+// Holds the signed state of an OIDC sign-in until the identity provider redirects back
+export const OIDC_STATE_COOKIE = 'oidc_state';
+
+// A session lasts a working day; signing in again after that is acceptable
+export const SESSION_MAX_AGE_SECONDS = 12 * 60 * 60;
+
+export interface SessionUser {
+  id: string;       // Unique per provider, e.g. 'credentials:jan@kantoor.nl'
+  email: string;
+  name: string;
+  provider: string; // Id of the provider the user signed in with
+}
+
+export interface Session {
+  user: SessionUser;
+  expiresAt: number; // ms since epoch
+}
+
+// The user of every request when authentication is disabled
+const DEVELOPMENT_USER: SessionUser = { id: 'development', email: 'dev@localhost', name: 'Ontwikkelaar', provider: 'none' };
+
+export function authDisabled(): boolean {
+  return process.env.AUTH_DISABLED === 'true';
+}
+
+export function authConfigured(): boolean {
+  return authDisabled() || Boolean(process.env.AUTH_SECRET);
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), character => character.charCodeAt(0));
+
+const signingKey = () => {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) throw new Error('AUTH_SECRET is niet ingesteld');
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+};
+
+/**
+ * Signs a value: `<base64url JSON>.<base64url signature>`. Also used for the short-lived OIDC state.
+ */
+export async function signValue(value: unknown): Promise<string> {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(value)));
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Returns the signed value, or null when the signature does not match or the token is malformed
+ */
+export async function verifySignedValue<T>(token: string | undefined | null): Promise<T | null> {
+  if (!token || !process.env.AUTH_SECRET) return null;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await signingKey(), fromBase64Url(signature), encoder.encode(payload));
+    return valid ? JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as T : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function createSessionToken(user: SessionUser): Promise<string> {
+  const session: Session = { user, expiresAt: Date.now() + SESSION_MAX_AGE_SECONDS * 1000 };
+  return signValue(session);
+}
+
+export async function verifySessionToken(token: string | undefined | null): Promise<Session | null> {
+  const session = await verifySignedValue<Session>(token);
+  return session && session.user?.id && session.expiresAt > Date.now() ? session : null;
+}
+
+/**
+ * Reads a cookie from the request headers
+ */
+export function readCookie(request: Request, name: string): string | undefined {
+  const cookies = request.headers.get('cookie') || '';
+  for (const cookie of cookies.split(';')) {
+    const [key, ...value] = cookie.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
+/**
+ * The session of the request, or null when the user is not signed in
+ */
+export async function getSession(request: Request): Promise<Session | null> {
+  if (authDisabled()) return { user: DEVELOPMENT_USER, expiresAt: Date.now() + SESSION_MAX_AGE_SECONDS * 1000 };
+  return verifySessionToken(readCookie(request, SESSION_COOKIE));
+}
+
+/**
+ * The blob path prefix for a user's uploads: `users/<key>/`, with a short hash of the user id as
+ * key so paths do not contain e-mail addresses
+ */
+export async function userUploadPrefix(user: Pick<SessionUser, 'id'>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(user.id));
+  return `users/${Array.from(new Uint8Array(digest).slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('')}/`;
+}
+
+/**
+ * The page to return to after signing in: only paths on this site, so the login page cannot be
+ * used to redirect to another site
+ */
+export function safeNextPath(next: string | null | undefined): string {
+  return next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : '/';
+}
+
+/**
+ * Cookie options: not readable from scripts, only sent over HTTPS in production
+ */
+export function cookieOptions(maxAgeSeconds: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge: maxAgeSeconds,
+  };
+}
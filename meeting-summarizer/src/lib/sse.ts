@@ -0,0 +1,113 @@
+// src/lib/sse.ts
+
+/**
+ * Minimal Server-Sent Events helpers shared by the streaming API routes and the client.
+ * Events are sent as `event: <name>` with a JSON `data:` payload.
+ */
+
+export type SSESend = (event: string, data: unknown) => void;
+
+/**
+ * Returns true when the client asked for an event stream instead of a single JSON response
+ */
+export function wantsEventStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false;
+}
+
+/**
+ * Creates an SSE response. The handler sends events while it runs; the stream closes when it
+ * resolves. A thrown error is sent as an 'error' event so the client always gets an answer.
+ * The handler's signal aborts when the client disconnects or cancels the stream, so pass it on
+ * to the model calls to stop generating for nobody.
+ */
+export function createEventStream(
+  handler: (send: SSESend, signal: AbortSignal) => Promise<void>,
+  requestSignal?: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  requestSignal?.addEventListener('abort', () => abortController.abort(), { once: true });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send: SSESend = (event, data) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          closed = true; // Client went away
+        }
+      };
+
+      try {
+        await handler(send, abortController.signal);
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          console.log('🛑 Event stream cancelled by the client');
+        } else {
+          console.error('Error in event stream:', error);
+          send('error', { error: error instanceof Error ? error.message : 'Onbekende fout' });
+        }
+      } finally {
+        closed = true;
+        try { controller.close(); } catch { /* already closed */ }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Reads an SSE response on the client and calls onEvent for every event until the stream ends
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: any) => void
+): Promise<void> {
+  if (!response.body) throw new Error('Lege response van de server');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    block.split('\n').forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+    });
+    if (dataLines.length === 0) return;
+    try {
+      onEvent(event, JSON.parse(dataLines.join('\n')));
+    } catch (error) {
+      console.warn('Could not parse event data:', error);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let separator = buffer.indexOf('\n\n');
+    while (separator !== -1) {
+      dispatch(buffer.slice(0, separator));
+      buffer = buffer.slice(separator + 2);
+      separator = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (buffer.trim()) dispatch(buffer);
+}
@@ -0,0 +1,142 @@
+// src/lib/storage.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Small persistence layer for app data (templates and everything that follows), stored as one
+ * JSON file per document under DATA_DIR (default: `.data` in the project directory):
+ *
+ *   DATA_DIR/<collection>/<id>.json
+ *
+ * Writes go to a temporary file that is renamed into place, so a crash never leaves half a
+ * document behind. Only usable from the Node.js runtime; on serverless hosting DATA_DIR must
+ * point to a persistent volume.
+ *
+ * Logs (e.g. the audit log) are append-only: one JSON entry per line, one file per month:
+ *
+ *   DATA_DIR/<log>/<YYYY-MM>.jsonl
+ */
+
+export interface StoredDocument {
+  id: string;
+}
+
+export interface Collection<T extends StoredDocument> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  put(document: T): Promise<T>;
+  remove(id: string): Promise<boolean>;
+}
+
+export interface AppendLog<T> {
+  append(entry: T): Promise<void>;
+  read(): Promise<T[]>; // All entries, oldest first
+}
+
+// Ids end up in file names, so only a safe subset of characters is allowed
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isValidId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+export function dataDirectory(): string {
+  return path.resolve(process.env.DATA_DIR || path.join(process.cwd(), '.data'));
+}
+
+/**
+ * Returns the collection with the given name; its directory is created on the first write
+ */
+export function getCollection<T extends StoredDocument>(name: string): Collection<T> {
+  const directory = () => path.join(dataDirectory(), name);
+  const filePath = (id: string) => {
+    if (!isValidId(id)) throw new Error(`Ongeldig id: ${id}`);
+    return path.join(directory(), `${id}.json`);
+  };
+
+  const read = async (file: string): Promise<T | null> => {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  return {
+    async list() {
+      let files: string[];
+      try {
+        files = await fs.readdir(directory());
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return [];
+        throw error;
+      }
+      const documents: (T | null)[] = await Promise.all(
+        files.filter(file => file.endsWith('.json')).map(file => read(path.join(directory(), file)))
+      );
+      return documents.filter((document): document is T => document !== null);
+    },
+
+    async get(id) {
+      return isValidId(id) ? read(filePath(id)) : null;
+    },
+
+    async put(document) {
+      const file = filePath(document.id);
+      await fs.mkdir(directory(), { recursive: true });
+      const temporaryFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(temporaryFile, JSON.stringify(document, null, 2), 'utf8');
+      await fs.rename(temporaryFile, file);
+      return document;
+    },
+
+    async remove(id) {
+      if (!isValidId(id)) return false;
+      try {
+        await fs.unlink(filePath(id));
+        return true;
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return false;
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Returns the append-only log with the given name. Entries can be added but never changed or
+ * removed through this interface; every entry is written with a single append.
+ */
+export function getAppendLog<T>(name: string): AppendLog<T> {
+  const directory = () => path.join(dataDirectory(), name);
+
+  return {
+    async append(entry) {
+      await fs.mkdir(directory(), { recursive: true });
+      const file = path.join(directory(), `${new Date().toISOString().slice(0, 7)}.jsonl`);
+      await fs.appendFile(file, `${JSON.stringify(entry)}\n`, { encoding: 'utf8', flag: 'a' });
+    },
+
+    async read() {
+      let files: string[];
+      try {
+        files = await fs.readdir(directory());
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return [];
+        throw error;
+      }
+      const contents = await Promise.all(
+        files.filter(file => file.endsWith('.jsonl')).sort().map(file => fs.readFile(path.join(directory(), file), 'utf8'))
+      );
+      // A line cut off by a crash is skipped instead of making the whole log unreadable
+      return contents.flatMap(content => content.split('\n').filter(Boolean).flatMap(line => {
+        try {
+          return [JSON.parse(line) as T];
+        } catch {
+          return [];
+        }
+      }));
+    },
+  };
+}
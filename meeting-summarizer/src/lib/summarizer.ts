@@ -0,0 +1,263 @@
+// src/lib/summarizer.ts
+import { calculateTextCost } from './tokenCounter';
+import { countTextTokens } from './tokenizer';
+import { getChatModel, completeChat } from './chatProvider';
+import { TranscriptSegment, formatTranscript } from './transcript';
+import { summaryLanguageInstruction } from './language';
+import { needsMapReduce, mapReduceSummarize, MapReduceProgress } from './mapReduce';
+import { applyTemplateVariables } from './templateVariables';
+import { CITATION_INSTRUCTION, SummaryCitation, formatNumberedTranscript, transcriptPassages, resolveCitations } from './citations';
+import { type UserContext } from './organization';
+import { recordAudit, contentHash } from './audit';
+import { createRedactor, REDACTION_INSTRUCTION } from './redaction';
+import { type StageProgress, createProgressTracker } from './progress';
+import { expectedSeconds, getThroughput, recordThroughput } from './throughput';
+
+/**
+ * Generation of a meeting summary from a transcript with a template prompt, in one pass or
+ * hierarchically (map-reduce) for long transcripts. Used by /api/summarize and by the job worker.
+ * Every generated summary is recorded in the audit log.
+ */
+
+export interface SummaryOptions {
+  text: string;
+  segments: TranscriptSegment[] | null; // Speaker-attributed segments; preferred over the plain text
+  model: string;
+  temperature: number;
+  prompt: string;                       // Template prompt; empty for the default prompt
+  summaryLanguage: string;
+  variables: Record<string, string>;    // Values for the template's {{variables}}
+  citations: boolean;
+  redactPii: boolean;
+}
+
+export interface SummaryUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+  mapReduce?: { parts: number };
+}
+
+export interface SummaryResult {
+  summary: string;                // Markdown
+  citations?: SummaryCitation[];  // With `citations` only
+  usage: SummaryUsage;
+}
+
+// Progress in transcript parts summarized (map-reduce) and tokens written. `percentage` covers the
+// whole summary: with map-reduce the parts count for 80%, merging and writing for the rest.
+export interface SummaryProgress extends StageProgress {
+  phase: 'map' | 'reduce' | 'generate';
+}
+
+export interface GenerateOptions {
+  onProgress?: (progress: SummaryProgress) => void;
+  onDelta?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface SummaryGeneration {
+  useMapReduce: boolean;
+  transcriptTokens: number;
+  generate(options?: GenerateOptions): Promise<SummaryResult>;
+}
+
+const DEFAULT_PROMPT = `Je bent een expert in het samenvatten van vergaderingen. Maak een gedetailleerde en inzichtelijke samenvatting van de volgende transcriptie.
+
+**Instructies:**
+1.  **Focus op Inhoud:** Concentreer je uitsluitend op de informatie die daadwerkelijk in de transcriptie aanwezig is. **Vermeld NIET expliciet dat standaard vergaderinformatie (zoals datum, tijd, voorzitter, formele besluiten) ontbreekt.** Vat in plaats daarvan de inhoud, de belangrijkste discussiepunten en de flow van het gesprek samen.
+2.  **Synthese en Interpretatie:** Identificeer de kernthema's en onderwerpen die besproken zijn. Leid impliciete overeenkomsten, conclusies of volgende stappen af die door de deelnemers worden genoemd, zelfs als ze niet formeel zijn vastgelegd.
+3.  **Detail en Nuance:** Wees gedetailleerd. Extraheer specifieke voorbeelden, argumenten, cijfers en verschillende standpunten die tijdens de discussie naar voren komen. Ga dieper dan oppervlakkige vermeldingen.
+4.  **Structuur:** Organiseer de samenvatting logisch rond de belangrijkste besproken onderwerpen of thema's. Gebruik duidelijke koppen en opsommingstekens voor leesbaarheid. Een chronologische volgorde is vaak nuttig, maar groepeer gerelateerde punten.
+5.  **Taalgebruik:** Gebruik heldere, actieve taal. Wees objectief bij het weergeven van verschillende meningen.
+6.  **Deelnemers:** De transcriptie is opgedeeld in beurten per spreker (bijv. "Spreker 1:" of de naam van een deelnemer). Gebruik deze sprekers om bijdragen en standpunten aan de juiste deelnemer toe te schrijven.
+7.  **Resultaten:** Sluit af met een duidelijke sectie voor **Belangrijkste Conclusies** (zowel expliciet als impliciet) en **Actiepunten** (indien genoemd, met eventuele verantwoordelijken).
+8.  **Tabellen:** Als de transcriptie gegevens bevat die het beste in een tabel kunnen worden weergegeven (bijv. vergelijkingen, lijsten met eigenschappen), formatteer deze dan als een standaard Markdown-tabel. Zorg ervoor dat je de koptekstscheidingslijn (|---|---|...) opneemt.
+
+**Vermijd:**
+*   Hallucinaties of informatie die niet in de tekst staat.
+*   Zinnen zoals "Niet vermeld in transcript", "Voorzitter onbekend", etc. Focus op wat er *wel* is.
+*   Overdreven formaliteit als het gesprek informeel was.
+
+Vat nu de volgende transcriptie samen:`;
+
+const DEFAULT_SUMMARY_TOKENS = 1000; // Expected length of a summary until one has been measured
+const PROGRESS_INTERVAL_MS = 500;    // Token progress is reported at most this often
+
+/**
+ * Builds the prompt and decides between one pass and map-reduce. The audit entry is written for
+ * the user and meeting in `audit` once the summary is generated.
+ */
+export function prepareSummary(options: SummaryOptions, audit: { context: UserContext | null; meetingId: string | null }): SummaryGeneration {
+  const { segments, temperature, citations } = options;
+  const text = segments ? formatTranscript(segments) : options.text;
+
+  // Find the model details in the config
+  const selectedModel = getChatModel(options.model);
+
+  // With redactPii, personal data (BSN, IBAN, phone numbers, ...) is replaced with placeholders
+  // before anything goes to the model and restored in the summary. Citations keep pointing at
+  // the original transcript, which has the same passages.
+  const redactor = options.redactPii ? createRedactor() : null;
+  const modelSegments = redactor && segments ? segments.map(segment => ({ ...segment, text: redactor.redact(segment.text) })) : segments;
+  const modelText = redactor ? (modelSegments ? formatTranscript(modelSegments) : redactor.redact(text)) : text;
+
+  // Use the provided prompt if available, otherwise fallback to default.
+  // Template variables ({{klantnaam}}, {{datum}}, ...) are filled with the values the user entered
+  const basePrompt = options.prompt ? applyTemplateVariables(options.prompt, options.variables) : DEFAULT_PROMPT;
+
+  // Template variables can hold personal data too
+  const redactedPrompt = redactor ? redactor.redact(basePrompt) : basePrompt;
+  const instructedPrompt = redactor && redactor.redactions().length > 0 ? `${redactedPrompt}\n\n${REDACTION_INSTRUCTION}` : redactedPrompt;
+
+  // With citations the model gets numbered passages and cites them after every statement
+  const templatePrompt = citations ? `${instructedPrompt}\n\n${CITATION_INSTRUCTION}` : instructedPrompt;
+  const transcript = citations ? formatNumberedTranscript(modelText, modelSegments) : modelText;
+
+  // The summary language is chosen independently of the language(s) spoken in the transcript
+  const languageInstruction = summaryLanguageInstruction(options.summaryLanguage);
+  const meetingSummaryPrompt = `${templatePrompt}\n\n${languageInstruction}`;
+
+  // Long transcripts are summarized hierarchically; decided on the real token count
+  const transcriptTokens = countTextTokens(transcript);
+  const useMapReduce = needsMapReduce(transcriptTokens, selectedModel);
+  if (useMapReduce) {
+    console.log(`Transcript of ${transcriptTokens} tokens exceeds the single-pass limit of ${selectedModel.id}, using map-reduce`);
+  }
+
+  // Drops markers to passages that do not exist and lists the citations per statement
+  const withCitations = (summary: string): { summary: string; citations?: SummaryCitation[] } =>
+    citations ? resolveCitations(summary, transcriptPassages(text, segments)) : { summary };
+
+  const generateSummary = async ({ onProgress, onDelta, signal }: Omit<GenerateOptions, 'onProgress'> & { onProgress?: (progress: MapReduceProgress) => void } = {}): Promise<{ summary: string; usage: SummaryUsage }> => {
+    if (useMapReduce) {
+      // The numbered transcript is split on its turns, so the passage numbers stay intact
+      const result = await mapReduceSummarize(transcript, citations ? null : modelSegments, {
+        model: selectedModel,
+        templatePrompt,
+        languageInstruction,
+        temperature,
+        onProgress,
+        onDelta,
+        signal
+      });
+      const cost = calculateTextCost(result.inputTokens, result.outputTokens, result.model.inputCost, result.model.outputCost);
+      return {
+        summary: result.summary,
+        usage: {
+          model: result.model.name,
+          inputTokens: result.inputTokens,
+          outputTokens: result.outputTokens,
+          totalTokens: result.inputTokens + result.outputTokens,
+          cost,
+          mapReduce: { parts: result.parts }
+        }
+      };
+    }
+
+    // --- Get summary from the model's provider ---
+    const result = await completeChat(selectedModel.id, {
+      messages: [
+        { role: 'system', content: meetingSummaryPrompt },
+        { role: 'user', content: `Hier is de transcriptie van een vergadering:\n\n${transcript}` }
+      ],
+      temperature,
+      maxTokens: 16384,
+      signal,
+      onDelta
+    });
+    const summary = result.text; // Raw Markdown summary
+    // --- End Get summary ---
+
+    // Calculate costs with the model that answered (may be a fallback); count tokens if the provider reports none
+    const inputTokenCount = result.usage?.inputTokens ?? countTextTokens(meetingSummaryPrompt) + transcriptTokens;
+    const outputTokenCount = result.usage?.outputTokens ?? countTextTokens(summary);
+    const cost = calculateTextCost(
+      inputTokenCount, outputTokenCount, result.model.inputCost, result.model.outputCost
+    );
+
+    return {
+      summary, // Original Markdown
+      usage: {
+        model: result.model.name,
+        inputTokens: inputTokenCount,
+        outputTokens: outputTokenCount,
+        totalTokens: inputTokenCount + outputTokenCount,
+        cost
+      }
+    };
+  };
+
+  // Every summary that reaches the user is recorded in the audit log
+  const generate = async ({ onDelta, onProgress, signal }: GenerateOptions = {}): Promise<SummaryResult> => {
+    const startedAt = Date.now();
+    // Placeholders are restored in the streamed text as well; one split over two deltas is held back
+    const streamRestorer = redactor?.createStreamRestorer();
+    const emit = (text: string) => { if (text && onDelta) onDelta(text); };
+
+    // Until parts are summarized or tokens written, the time left and the length of the summary
+    // come from earlier summaries with the model
+    const [summarySeconds, output] = onProgress
+      ? await Promise.all([expectedSeconds('summary', selectedModel.id, transcriptTokens), getThroughput('summary-output', selectedModel.id)])
+      : [null, null];
+    const expectedTokens = Math.round(output?.averageUnits || DEFAULT_SUMMARY_TOKENS);
+    let phase: SummaryProgress['phase'] = useMapReduce ? 'map' : 'generate';
+    let tracker = createProgressTracker(useMapReduce ? 'parts' : 'tokens', summarySeconds);
+    const report = (progress: StageProgress) => {
+      const [from, to] = !useMapReduce ? [0, 100] : phase === 'map' ? [0, 80] : [80, 100];
+      onProgress?.({ ...progress, phase, percentage: Math.round(from + ((to - from) * progress.percentage) / 100) });
+    };
+    const reportParts = ({ phase: partPhase, completed, total }: MapReduceProgress) => {
+      if (partPhase !== phase || (partPhase === 'reduce' && completed === 0)) tracker = createProgressTracker('parts');
+      phase = partPhase;
+      report(tracker.update(completed, total));
+    };
+    let writtenTokens = 0;
+    let writingSince: number | null = null;
+    let reportedAt = 0;
+    const countWritten = (text: string) => {
+      if (!onProgress || !text) return;
+      if (phase !== 'generate') {
+        phase = 'generate';
+        tracker = createProgressTracker('tokens');
+      }
+      if (writingSince === null) writingSince = Date.now();
+      writtenTokens += countTextTokens(text);
+      if (Date.now() - reportedAt < PROGRESS_INTERVAL_MS) return;
+      reportedAt = Date.now();
+      report(tracker.update(writtenTokens, Math.max(expectedTokens, writtenTokens)));
+    };
+    if (onProgress && !useMapReduce) report(tracker.update(0, expectedTokens));
+
+    // Progress on tokens needs the streamed text, also when the caller does not show it
+    const generated = await generateSummary({
+      onProgress: onProgress && reportParts,
+      onDelta: onDelta || onProgress ? (delta => { countWritten(delta); emit(streamRestorer ? streamRestorer.push(delta) : delta); }) : undefined,
+      signal,
+    });
+    if (streamRestorer) emit(streamRestorer.flush());
+    if (phase === 'generate' && writtenTokens > 0) report(tracker.update(writtenTokens, writtenTokens));
+    await recordThroughput('summary', selectedModel.id, transcriptTokens, (Date.now() - startedAt) / 1000);
+    if (writingSince !== null) await recordThroughput('summary-output', selectedModel.id, writtenTokens, (Date.now() - writingSince) / 1000);
+
+    // The restored Markdown, plus citations when requested
+    const result = { ...withCitations(redactor ? redactor.restore(generated.summary) : generated.summary), usage: generated.usage };
+    await recordAudit(audit.context, 'summary.generated', {
+      meetingId: audit.meetingId,
+      details: {
+        model: result.usage.model,
+        mapReduce: useMapReduce,
+        citations: Boolean(citations),
+        transcriptTokens,
+        promptHash: contentHash(templatePrompt),
+        summaryHash: contentHash(result.summary),
+        redactions: redactor ? redactor.redactions().length : null,
+      },
+    });
+    return result;
+  };
+
+  return { useMapReduce, transcriptTokens, generate };
+}
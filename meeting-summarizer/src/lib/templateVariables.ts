@@ -0,0 +1,93 @@
+// src/lib/templateVariables.ts
+
+/**
+ * Variables in prompt templates, written as {{naam}} in the prompt. The user fills them in before
+ * processing, so facts like the client's name or the date of the meeting come from the user
+ * instead of being guessed from the transcript.
+ */
+
+export interface TemplateVariable {
+  name: string;           // As used in the placeholder: {{name}}
+  label: string;          // Shown in the form and in the prompt
+  type: 'text' | 'date';
+  required?: boolean;
+}
+
+// Labels and types for the variables the built-in templates use
+export const standardVariables: Record<string, Omit<TemplateVariable, 'name'>> = {
+  klantnaam: { label: 'Naam van de klant(en)', type: 'text', required: true },
+  adviseur: { label: 'Naam van de adviseur', type: 'text', required: true },
+  datum: { label: 'Datum van het gesprek', type: 'date', required: true },
+  dossiernummer: { label: 'Dossiernummer', type: 'text' },
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z][a-z0-9_]*)\s*\}\}/gi;
+const NOT_PROVIDED = '(niet opgegeven; alleen vermelden als het letterlijk in de transcriptie staat)';
+
+/**
+ * Returns the distinct variable names used in a prompt, in order of appearance
+ */
+export function findVariableNames(prompt: string): string[] {
+  const names = Array.from(prompt.matchAll(PLACEHOLDER_PATTERN), match => match[1].toLowerCase());
+  return Array.from(new Set(names));
+}
+
+/**
+ * Declares a variable for every placeholder in the prompt. Explicit declarations win; unknown
+ * names get a label derived from the name.
+ */
+export function declareVariables(prompt: string, declared: TemplateVariable[] = []): TemplateVariable[] {
+  return findVariableNames(prompt).map(name =>
+    declared.find(variable => variable.name === name) ||
+    { name, ...(standardVariables[name] || { label: name.charAt(0).toUpperCase() + name.slice(1).replace(/_/g, ' '), type: 'text' as const }) }
+  );
+}
+
+/**
+ * The values of the variables the prompt uses. Values left over from another template are dropped,
+ * so they never end up in the prompt as facts.
+ */
+export function valuesForPrompt(prompt: string, values: Record<string, string> = {}): Record<string, string> {
+  const names = findVariableNames(prompt);
+  return Object.fromEntries(
+    Object.entries(values)
+      .map(([name, value]) => [name.toLowerCase(), typeof value === 'string' ? value.trim() : ''] as const)
+      .filter(([name, value]) => value && names.includes(name))
+  );
+}
+
+/**
+ * Returns the labels of required variables without a value
+ */
+export function missingRequiredVariables(variables: TemplateVariable[], values: Record<string, string>): string[] {
+  return variables.filter(variable => variable.required && !values[variable.name]?.trim()).map(variable => variable.label);
+}
+
+// Dates are entered as YYYY-MM-DD; the prompt gets them written out
+const formatValue = (name: string, value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && standardVariables[name]?.type === 'date'
+    ? new Date(`${value}T00:00:00`).toLocaleDateString('nl-NL', { day: 'numeric', month: 'long', year: 'numeric' })
+    : value;
+
+/**
+ * Fills the placeholders in a prompt and adds the provided values of those placeholders as fixed
+ * facts the model must use. Placeholders without a value tell the model not to guess.
+ */
+export function applyTemplateVariables(prompt: string, values: Record<string, string> = {}): string {
+  const provided = Object.entries(valuesForPrompt(prompt, values));
+  const lookup = new Map(provided);
+
+  const filled = prompt.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const value = lookup.get(name.toLowerCase());
+    return value ? formatValue(name.toLowerCase(), value) : NOT_PROVIDED;
+  });
+
+  if (provided.length === 0) return filled;
+
+  const facts = provided.map(([name, value]) => `- ${standardVariables[name]?.label || name}: ${formatValue(name, value)}`);
+  return `${filled}
+
+**Vaststaande gegevens (opgegeven door de gebruiker):**
+${facts.join('\n')}
+Gebruik deze gegevens letterlijk en leid ze niet af uit de transcriptie, ook niet als daar iets anders lijkt te staan.`;
+}
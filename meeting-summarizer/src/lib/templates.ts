@@ -0,0 +1,232 @@
+// src/lib/templates.ts
+import { getCollection } from './storage';
+import { nanoid } from './nanoid';
+import { builtInTemplates } from './builtInTemplates';
+import { TemplateVariable, declareVariables } from './templateVariables';
+import { type UserContext, isTeamMember } from './organization';
+
+/**
+ * Prompt templates for the summary. Built-in templates ship with the app and are read-only;
+ * templates created by users are stored in the 'templates' collection.
+ *
+ * Every save of a stored template adds a version to the 'template-versions' collection. The
+ * template document itself holds the content of its default version, which is the latest one
+ * unless an older version was promoted.
+ *
+ * A stored template belongs to the team that created it, or is shared with everyone (no team).
+ * Listings show a team its own templates plus the built-in and shared templates it uses.
+ */
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+  prompt: string;
+  variables: TemplateVariable[]; // One per {{placeholder}} in the prompt
+  builtIn: boolean;
+  version: number;    // The default version, used when the template is selected
+  basedOn?: string;   // Id of the template this one was cloned from
+  teamId?: string | null; // Team the template belongs to; shared with everyone when absent
+  createdAt?: string; // ISO timestamps, only for stored templates
+  updatedAt?: string;
+}
+
+// Snapshot of a template's content at one save
+export interface TemplateVersion {
+  id: string;         // `${templateId}-v${version}`
+  templateId: string;
+  version: number;
+  name: string;
+  description: string;
+  prompt: string;
+  variables: TemplateVariable[];
+  createdAt: string;
+}
+
+export interface TemplateInput {
+  name: string;
+  description: string;
+  prompt: string;
+  variables: TemplateVariable[];
+  basedOn?: string;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 300;
+const MAX_PROMPT_LENGTH = 20000;
+
+const templates = () => getCollection<PromptTemplate>('templates');
+const templateVersions = () => getCollection<TemplateVersion>('template-versions');
+
+// Templates stored before variables or versions existed get them filled in
+const withVariables = (template: PromptTemplate): PromptTemplate => ({
+  ...template,
+  variables: template.variables || declareVariables(template.prompt),
+  version: template.version || 1,
+});
+
+const snapshot = (template: PromptTemplate, version: number, createdAt: string): TemplateVersion => ({
+  id: `${template.id}-v${version}`,
+  templateId: template.id,
+  version,
+  name: template.name,
+  description: template.description,
+  prompt: template.prompt,
+  variables: template.variables,
+  createdAt,
+});
+
+export function isBuiltInTemplate(id: string): boolean {
+  return builtInTemplates.some(template => template.id === id);
+}
+
+/**
+ * Checks a create or update request body. Returns the cleaned input, or the reason it is invalid.
+ */
+export function validateTemplateInput(value: unknown): { input: TemplateInput } | { error: string } {
+  const { name, description = '', prompt, variables = [], basedOn } = (value || {}) as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim()) return { error: 'Geef de template een naam' };
+  if (name.trim().length > MAX_NAME_LENGTH) return { error: `De naam mag maximaal ${MAX_NAME_LENGTH} tekens zijn` };
+  if (typeof description !== 'string') return { error: 'De omschrijving moet tekst zijn' };
+  if (description.trim().length > MAX_DESCRIPTION_LENGTH) return { error: `De omschrijving mag maximaal ${MAX_DESCRIPTION_LENGTH} tekens zijn` };
+  if (typeof prompt !== 'string' || !prompt.trim()) return { error: 'De prompt mag niet leeg zijn' };
+  if (prompt.length > MAX_PROMPT_LENGTH) return { error: `De prompt mag maximaal ${MAX_PROMPT_LENGTH} tekens zijn` };
+  if (basedOn !== undefined && typeof basedOn !== 'string') return { error: 'Ongeldige brontemplate' };
+  if (!Array.isArray(variables)) return { error: 'Variabelen moeten een lijst zijn' };
+
+  // Explicitly declared variables keep their label, type and required flag; other placeholders get defaults
+  const declared: TemplateVariable[] = [];
+  for (const variable of variables) {
+    if (!variable || typeof variable.name !== 'string' || typeof variable.label !== 'string' || !variable.label.trim()) {
+      return { error: 'Elke variabele heeft een naam en een label nodig' };
+    }
+    declared.push({
+      name: variable.name.toLowerCase(),
+      label: variable.label.trim(),
+      type: variable.type === 'date' ? 'date' : 'text',
+      ...(variable.required ? { required: true } : {}),
+    });
+  }
+
+  return {
+    input: {
+      name: name.trim(),
+      description: description.trim(),
+      prompt: prompt.trim(),
+      variables: declareVariables(prompt, declared),
+      ...(typeof basedOn === 'string' && basedOn ? { basedOn } : {}),
+    },
+  };
+}
+
+/**
+ * Returns the built-in templates followed by the stored templates, sorted by name. With a user
+ * context only the templates of the active team: its own, and the built-in and shared templates
+ * it uses (all of them when the team has not chosen).
+ */
+export async function listTemplates(context?: UserContext): Promise<PromptTemplate[]> {
+  const stored = await templates().list();
+  const all = [...builtInTemplates, ...stored.map(withVariables).sort((a, b) => a.name.localeCompare(b.name, 'nl'))];
+  if (!context) return all;
+
+  const team = context.activeTeam;
+  return all.filter(template =>
+    template.teamId
+      ? template.teamId === team?.id
+      : !team || team.templateIds.length === 0 || team.templateIds.includes(template.id)
+  );
+}
+
+/**
+ * Team templates are visible to the team (and admins); built-in and shared templates to everyone
+ */
+export function canViewTemplate(context: UserContext, template: PromptTemplate): boolean {
+  return !template.teamId || context.isAdmin || isTeamMember(context, template.teamId);
+}
+
+/**
+ * Team templates can be changed by the team, shared templates (used by every team) only by
+ * admins; built-in templates by nobody
+ */
+export function canManageTemplate(context: UserContext, template: PromptTemplate): boolean {
+  if (template.builtIn) return false;
+  if (context.isAdmin) return true;
+  return Boolean(template.teamId) && isTeamMember(context, template.teamId);
+}
+
+/**
+ * New templates belong to the active team; without one they are shared, which only admins may create
+ */
+export function canCreateTemplate(context: UserContext): boolean {
+  return context.isAdmin || Boolean(context.activeTeam);
+}
+
+export async function getTemplate(id: string): Promise<PromptTemplate | null> {
+  const builtIn = builtInTemplates.find(template => template.id === id);
+  if (builtIn) return builtIn;
+  const stored = await templates().get(id);
+  return stored && withVariables(stored);
+}
+
+export async function createTemplate(input: TemplateInput, teamId: string | null = null): Promise<PromptTemplate> {
+  const now = new Date().toISOString();
+  const template: PromptTemplate = { id: nanoid(12), ...input, builtIn: false, version: 1, teamId, createdAt: now, updatedAt: now };
+  await templateVersions().put(snapshot(template, 1, now));
+  return templates().put(template);
+}
+
+/**
+ * Returns the versions of a template, newest first, or null when the template does not exist.
+ * Built-in templates and templates saved before versioning have a single version.
+ */
+export async function listTemplateVersions(id: string): Promise<TemplateVersion[] | null> {
+  const template = await getTemplate(id);
+  if (!template) return null;
+  if (template.builtIn) return [snapshot(template, 1, '')];
+
+  const versions = (await templateVersions().list()).filter(version => version.templateId === id);
+  if (versions.length === 0) return [snapshot(template, template.version, template.updatedAt || '')];
+  return versions.sort((a, b) => b.version - a.version);
+}
+
+/**
+ * Saves the input as a new version of a stored template and makes it the default.
+ * Returns null when the template does not exist; built-in templates cannot be updated.
+ */
+export async function updateTemplate(id: string, input: TemplateInput): Promise<PromptTemplate | null> {
+  const stored = await templates().get(id);
+  if (!stored) return null;
+  const existing = withVariables(stored);
+  const now = new Date().toISOString();
+
+  // Keep the content from before versioning as the first version
+  const versions = await listTemplateVersions(id) || [];
+  if (!(await templateVersions().get(`${id}-v${existing.version}`))) {
+    await templateVersions().put(snapshot(existing, existing.version, existing.updatedAt || now));
+  }
+
+  const version = Math.max(existing.version, ...versions.map(candidate => candidate.version)) + 1;
+  const template: PromptTemplate = { ...existing, ...input, id, builtIn: false, version, updatedAt: now };
+  await templateVersions().put(snapshot(template, version, now));
+  return templates().put(template);
+}
+
+/**
+ * Makes an earlier (or later) version the default of a stored template. Returns null when the
+ * template or version does not exist.
+ */
+export async function promoteTemplateVersion(id: string, version: number): Promise<PromptTemplate | null> {
+  const existing = await templates().get(id);
+  const promoted = existing && await templateVersions().get(`${id}-v${version}`);
+  if (!existing || !promoted) return null;
+
+  const { name, description, prompt, variables } = promoted;
+  return templates().put({ ...existing, name, description, prompt, variables, version, updatedAt: new Date().toISOString() });
+}
+
+export async function deleteTemplate(id: string): Promise<boolean> {
+  const versions = (await templateVersions().list()).filter(version => version.templateId === id);
+  await Promise.all(versions.map(version => templateVersions().remove(version.id)));
+  return templates().remove(id);
+}
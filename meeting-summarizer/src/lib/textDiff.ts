@@ -0,0 +1,107 @@
+// src/lib/textDiff.ts
+
+/**
+ * Line-based diff for comparing two summaries side by side. Uses the longest common subsequence
+ * of the lines; removed lines directly followed by added lines are shown as changed rows.
+ * Kept free of server imports so the comparison can be made in the browser.
+ */
+
+export interface DiffOperation {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+}
+
+export interface DiffRow {
+  type: 'equal' | 'changed' | 'removed' | 'added';
+  left: string | null;  // Line in the first text
+  right: string | null; // Line in the second text
+}
+
+// Above this many line pairs the table gets too large to build in the browser
+const MAX_CELLS = 4_000_000;
+
+const toLines = (text: string) => (text ? text.replace(/\r\n/g, '\n').split('\n') : []);
+
+/**
+ * Returns the operations that turn `before` into `after`, line by line
+ */
+export function diffLines(before: string, after: string): DiffOperation[] {
+  const a = toLines(before);
+  const b = toLines(after);
+
+  if (a.length * b.length > MAX_CELLS) {
+    return [...a.map(text => ({ type: 'removed' as const, text })), ...b.map(text => ({ type: 'added' as const, text }))];
+  }
+
+  // lcs[i][j]: length of the common subsequence of a[i..] and b[j..] (flattened)
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const operations: DiffOperation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      operations.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      operations.push({ type: 'removed', text: a[i++] });
+    } else {
+      operations.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) operations.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) operations.push({ type: 'added', text: b[j++] });
+  return operations;
+}
+
+/**
+ * Aligns the operations in rows for a two-column view
+ */
+export function toSideBySide(operations: DiffOperation[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let index = 0;
+
+  while (index < operations.length) {
+    const operation = operations[index];
+    if (operation.type === 'equal') {
+      rows.push({ type: 'equal', left: operation.text, right: operation.text });
+      index++;
+      continue;
+    }
+
+    // Collect a block of changes and pair its removed and added lines
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < operations.length && operations[index].type !== 'equal') {
+      const change = operations[index++];
+      (change.type === 'removed' ? removed : added).push(change.text);
+    }
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      const left = removed[row] ?? null;
+      const right = added[row] ?? null;
+      rows.push({ type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added', left, right });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Counts the lines that differ between the two texts
+ */
+export function diffStats(operations: DiffOperation[]): { removed: number; added: number; unchanged: number } {
+  return {
+    removed: operations.filter(operation => operation.type === 'removed').length,
+    added: operations.filter(operation => operation.type === 'added').length,
+    unchanged: operations.filter(operation => operation.type === 'equal').length,
+  };
+}
@@ -0,0 +1,76 @@
+// src/lib/throughput.ts
+import { getCollection } from './storage';
+
+/**
+ * Throughput measured in earlier runs, per operation and model, so a stage that has nothing to
+ * measure yet (a transcription call, the wait for the first token of a summary) still gets an
+ * estimate of how long it takes:
+ * - 'transcription': audio bytes per second of transcribing
+ * - 'summary': transcript tokens per second of summarizing, from the request to the result
+ * - 'summary-output': summary tokens per second of writing; `averageUnits` is the usual length
+ *   of a summary
+ *
+ * Stored in the 'throughput' collection as moving averages, so the estimates follow the speed
+ * of the providers as it changes.
+ */
+
+export type ThroughputOperation = 'transcription' | 'summary' | 'summary-output';
+
+export interface Throughput {
+  id: string;
+  operation: ThroughputOperation;
+  model: string;
+  unitsPerSecond: number;
+  averageUnits: number; // Units per run
+  samples: number;
+  updatedAt: string;    // ISO timestamp
+}
+
+const SMOOTHING = 0.3;          // Weight of the newest measurement
+const MIN_MEASURED_SECONDS = 1; // Shorter runs say more about overhead than about throughput
+
+const measurements = () => getCollection<Throughput>('throughput');
+
+// Model ids may contain dots and slashes, which the storage does not accept in ids
+const throughputId = (operation: ThroughputOperation, model: string) =>
+  `${operation}-${model}`.replace(/[^A-Za-z0-9_-]/g, '_').slice(0, 64);
+
+export async function getThroughput(operation: ThroughputOperation, model: string): Promise<Throughput | null> {
+  try {
+    return await measurements().get(throughputId(operation, model));
+  } catch (error) {
+    console.error(`❌ Throughput of ${operation} (${model}) could not be read:`, error);
+    return null;
+  }
+}
+
+/**
+ * The seconds `units` are expected to take, or null when nothing has been measured yet
+ */
+export async function expectedSeconds(operation: ThroughputOperation, model: string, units: number): Promise<number | null> {
+  const throughput = await getThroughput(operation, model);
+  return throughput && throughput.unitsPerSecond > 0 ? units / throughput.unitsPerSecond : null;
+}
+
+/**
+ * Adds a measurement. Estimates are not worth failing a request for, so a failing write is logged.
+ */
+export async function recordThroughput(operation: ThroughputOperation, model: string, units: number, seconds: number): Promise<void> {
+  if (!(units > 0) || !(seconds >= MIN_MEASURED_SECONDS)) return;
+  try {
+    const existing = await getThroughput(operation, model);
+    const blend = (previous: number | undefined, next: number) =>
+      existing && previous ? previous * (1 - SMOOTHING) + next * SMOOTHING : next;
+    await measurements().put({
+      id: throughputId(operation, model),
+      operation,
+      model,
+      unitsPerSecond: blend(existing?.unitsPerSecond, units / seconds),
+      averageUnits: blend(existing?.averageUnits, units),
+      samples: (existing?.samples ?? 0) + 1,
+      updatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`❌ Throughput of ${operation} (${model}) could not be recorded:`, error);
+  }
+}
@@ -0,0 +1,13 @@
+// src/lib/tokenizer.ts
+import { countTokens as countO200kTokens } from 'gpt-tokenizer'; // o200k_base is the package's default encoding
+
+/**
+ * Exact token counts for deciding whether a text fits a model's context window.
+ * Uses the o200k_base encoding of the GPT-4o and o-series models; for other providers
+ * it is a close approximation. Kept separate from tokenCounter.ts so the encoding tables
+ * are only bundled into the routes that need them (not the edge transcription routes).
+ */
+export function countTextTokens(text: string): number {
+  if (!text) return 0;
+  return countO200kTokens(text);
+}
@@ -0,0 +1,184 @@
+// src/lib/transcript.ts
+
+/**
+ * Shared transcript types and helpers used by the transcription routes,
+ * the diarization step and the transcript display.
+ *
+ * The transcript is stored as timestamped segments (one per Whisper segment).
+ * Speaker turns are derived from the segments for display and for the plain-text version.
+ */
+
+// A single segment as returned by Whisper with response_format 'verbose_json'
+export interface WhisperSegment {
+  start: number; // seconds
+  end: number;   // seconds
+  text: string;
+}
+
+// A timestamped, speaker-attributed segment of the transcript
+export interface TranscriptSegment extends WhisperSegment {
+  id: number;      // Position in the full transcript, stable across renames
+  speaker: string; // Display label, e.g. "Spreker 1" or a renamed participant
+  language?: string; // ISO 639-1 code of the language detected for the chunk this segment came from
+}
+
+// Consecutive segments of the same speaker, grouped for display
+export interface SpeakerTurn {
+  speaker: string;
+  start: number; // seconds
+  end: number;   // seconds
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+/**
+ * Returns the default label for a speaker index (0-based)
+ */
+export function defaultSpeakerLabel(index: number): string {
+  return `Spreker ${index + 1}`;
+}
+
+/**
+ * Extracts the segments from a Whisper verbose_json response.
+ * Falls back to a single segment covering the full text when no segments are present
+ * (e.g. models that only support 'json' or 'text').
+ */
+export function segmentsFromTranscriptionResult(result: any): WhisperSegment[] {
+  if (result && Array.isArray(result.segments) && result.segments.length > 0) {
+    return result.segments
+      .map((segment: any) => ({
+        start: Number(segment.start) || 0,
+        end: Number(segment.end) || 0,
+        text: String(segment.text || '').trim(),
+      }))
+      .filter((segment: WhisperSegment) => segment.text !== '');
+  }
+
+  const text = typeof result === 'string' ? result : result?.text;
+  if (typeof text === 'string' && text.trim() !== '') {
+    return [{ start: 0, end: Number(result?.duration) || 0, text: text.trim() }];
+  }
+
+  return [];
+}
+
+/**
+ * Shifts segment timestamps by the start time of the audio chunk they were transcribed from,
+ * so timestamps stay relative to the start of the full recording
+ */
+export function offsetSegments<T extends WhisperSegment>(segments: T[], offsetSeconds: number): T[] {
+  if (!offsetSeconds) return segments;
+  return segments.map(segment => ({
+    ...segment,
+    start: segment.start + offsetSeconds,
+    end: segment.end + offsetSeconds,
+  }));
+}
+
+/**
+ * Renumbers segment ids sequentially, e.g. after joining the segments of several chunks
+ */
+export function renumberSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+  return segments.map((segment, index) => ({ ...segment, id: index }));
+}
+
+/**
+ * Groups consecutive segments of the same speaker into turns
+ */
+export function groupTurns(segments: TranscriptSegment[]): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+
+  for (const segment of segments) {
+    const previous = turns[turns.length - 1];
+    if (previous && previous.speaker === segment.speaker) {
+      previous.text = `${previous.text} ${segment.text}`.trim();
+      previous.end = segment.end;
+      previous.segments.push(segment);
+    } else {
+      turns.push({
+        speaker: segment.speaker,
+        start: segment.start,
+        end: segment.end,
+        text: segment.text,
+        segments: [segment],
+      });
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Formats speaker turns as plain text, one paragraph per turn ("Spreker 1: ...")
+ */
+export function formatTurns(turns: SpeakerTurn[]): string {
+  return turns
+    .filter(turn => turn.text && turn.text.trim() !== '')
+    .map(turn => `${turn.speaker}: ${turn.text.trim()}`)
+    .join('\n\n');
+}
+
+/**
+ * Formats transcript segments as plain text with one paragraph per speaker turn
+ */
+export function formatTranscript(segments: TranscriptSegment[]): string {
+  return formatTurns(groupTurns(segments));
+}
+
+/**
+ * Formats a position in seconds as m:ss, or h:mm:ss for recordings of an hour or longer
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Returns the segment that is being spoken at the given playback position, if any
+ */
+export function findSegmentAtTime(segments: TranscriptSegment[], time: number): TranscriptSegment | undefined {
+  return segments.find(segment => time >= segment.start && time < segment.end);
+}
+
+/**
+ * Returns the distinct speaker labels in order of first appearance
+ */
+export function listSpeakers(segments: { speaker: string }[]): string[] {
+  const speakers: string[] = [];
+  segments.forEach(segment => {
+    if (!speakers.includes(segment.speaker)) speakers.push(segment.speaker);
+  });
+  return speakers;
+}
+
+/**
+ * Renames a speaker in all segments. Returns a new array; the input is not mutated.
+ */
+export function renameSpeaker(segments: TranscriptSegment[], from: string, to: string): TranscriptSegment[] {
+  const newName = to.trim();
+  if (!newName || newName === from) return segments;
+  return segments.map(segment => (segment.speaker === from ? { ...segment, speaker: newName } : segment));
+}
+
+/**
+ * Validates and normalizes transcript segments received in a request body
+ */
+export function parseSegments(value: unknown): TranscriptSegment[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const segments = value
+    .filter(segment => segment && typeof segment.text === 'string' && typeof segment.speaker === 'string')
+    .map((segment, index) => ({
+      id: Number.isInteger(segment.id) ? segment.id : index,
+      speaker: String(segment.speaker),
+      start: Number(segment.start) || 0,
+      end: Number(segment.end) || 0,
+      text: String(segment.text),
+      ...(typeof segment.language === 'string' ? { language: segment.language } : {}),
+    }));
+
+  return segments.length > 0 ? segments : null;
+}
@@ -0,0 +1,175 @@
+// src/lib/transcriptQa.ts
+import { ChatModel } from './config';
+import { completeChat, ChatMessage } from './chatProvider';
+import { countTextTokens } from './tokenizer';
+import { TranscriptSegment, formatTranscript } from './transcript';
+import { TranscriptPassage, transcriptPassages } from './citations';
+import { singlePassLimit } from './mapReduce';
+import { retrieveContext } from './retrieval';
+import { createRedactor, REDACTION_INSTRUCTION } from './redaction';
+
+/**
+ * Questions about a transcript: the relevant chunks are retrieved for every question (see
+ * `retrieval.ts`), the model answers from those chunks with literal quotes, and the quotes are
+ * looked up in the transcript so the chat can link them to the passages they come from.
+ */
+
+export interface QaMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AnswerQuote {
+  text: string;
+  found: boolean;       // The quote occurs (nearly) literally in the transcript
+  passageIds: number[]; // Passages the quote spans; empty when not found
+  speaker?: string;
+  start?: number;       // seconds
+}
+
+// Transcript tokens per question; more context makes answers slower without making them better
+const CONTEXT_MAX_TOKENS = 12000;
+// Earlier messages sent along for follow-up questions
+const HISTORY_MESSAGES = 10;
+// Quotes shorter than this are not worth looking up
+const MIN_QUOTE_LENGTH = 8;
+
+const qaPrompt = (complete: boolean) =>
+  `Je beantwoordt vragen over een gesprek. Baseer je antwoord uitsluitend op de transcriptie${complete ? '' : ' (je krijgt de fragmenten die het meest relevant zijn voor de vraag; [...] markeert weggelaten delen)'} en de samenvatting. Staat het antwoord er niet in, zeg dat dan eerlijk en verzin niets.
+
+Antwoord in het Nederlands, beknopt en in Markdown. Onderbouw je antwoord met één of meer letterlijke citaten uit de transcriptie, elk als apart citaatblok met de spreker erachter, bijvoorbeeld:
+
+> "We verlengen de rentevaste periode naar twintig jaar." (Spreker 1)
+
+Neem citaten woordelijk over, zonder ze te verbeteren of in te korten met "...".`;
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[̀-ͯ]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Collects the quotes of an answer: the text of every block quote, without quotation marks and
+ * the speaker attribution after it
+ */
+export function answerQuotes(answer: string): string[] {
+  const quotes = answer
+    .split('\n')
+    .filter(line => line.trim().startsWith('>'))
+    .map(line => line.trim().replace(/^>\s*/, ''))
+    .map(line => {
+      const quoted = line.match(/["“„]([^"”]+)["”]/);
+      return (quoted ? quoted[1] : line.replace(/\s*(\([^()]*\)|[—–]\s.*)$/, '')).replace(/\*+/g, '').trim();
+    })
+    .filter(quote => quote.length >= MIN_QUOTE_LENGTH);
+  return Array.from(new Set(quotes));
+}
+
+/**
+ * Finds every quote in the transcript passages, ignoring case, accents and punctuation. A quote
+ * may span several passages.
+ */
+export function matchQuotes(quotes: string[], passages: TranscriptPassage[]): AnswerQuote[] {
+  // All passages in one normalized string, with the offset where every passage starts
+  let transcript = '';
+  const offsets: number[] = [];
+  passages.forEach(passage => {
+    offsets.push(transcript.length);
+    transcript += `${normalize(passage.text)} `;
+  });
+
+  return quotes.map(text => {
+    // A shortened quote ("begin ... end") is matched on its longest piece
+    const needle = text
+      .split(/\.\.\.|…/)
+      .map(normalize)
+      .sort((a, b) => b.length - a.length)[0];
+    const position = needle ? transcript.indexOf(needle) : -1;
+    if (position === -1) return { text, found: false, passageIds: [] };
+
+    const matched = passages.filter((_, index) =>
+      offsets[index] < position + needle.length && (offsets[index + 1] ?? transcript.length) > position
+    );
+    const first = matched[0];
+    return {
+      text,
+      found: true,
+      passageIds: matched.map(passage => passage.id),
+      ...(first?.speaker ? { speaker: first.speaker } : {}),
+      ...(first?.start !== undefined ? { start: first.start } : {}),
+    };
+  });
+}
+
+export interface AnswerOptions {
+  model: ChatModel;
+  summary?: string;
+  history?: QaMessage[];
+  redactPii?: boolean; // Replace personal data with placeholders before anything goes to the model
+  onDelta?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface AnswerResult {
+  answer: string;
+  quotes: AnswerQuote[];
+  complete: boolean;    // The whole transcript fitted in the prompt
+  inputTokens: number;
+  outputTokens: number;
+  model: ChatModel;     // The model that answered (may be a fallback)
+}
+
+/**
+ * Answers a question about the transcript, taking the earlier questions and answers into account
+ */
+export async function answerQuestion(
+  question: string,
+  text: string,
+  segments: TranscriptSegment[] | null,
+  options: AnswerOptions
+): Promise<AnswerResult> {
+  const { model, history = [], onDelta, signal } = options;
+
+  // With redactPii, personal data in the transcript, the summary and the conversation is replaced
+  // with placeholders, and restored in the answer. Quotes are looked up in the original transcript.
+  const redactor = options.redactPii ? createRedactor() : null;
+  const redact = (value: string) => (redactor ? redactor.redact(value) : value);
+  const modelSegments = redactor && segments ? segments.map(segment => ({ ...segment, text: redactor.redact(segment.text) })) : segments;
+  const modelText = redactor ? (modelSegments ? formatTranscript(modelSegments) : redactor.redact(text)) : text;
+  const summary = options.summary && redact(options.summary);
+  const modelQuestion = redact(question);
+  const recentHistory = history.slice(-HISTORY_MESSAGES).map(message => ({ ...message, content: redact(message.content) }));
+
+  // A follow-up ("en wanneer dan?") is searched together with the previous question
+  const previousQuestion = [...recentHistory].reverse().find(message => message.role === 'user')?.content || '';
+  const budget = Math.max(1000, Math.min(CONTEXT_MAX_TOKENS, singlePassLimit(model) - countTextTokens(summary || '')));
+  const { context, complete } = retrieveContext(modelText, modelSegments, `${modelQuestion} ${previousQuestion}`, budget);
+
+  const prompt = redactor && redactor.redactions().length > 0 ? `${qaPrompt(complete)}\n\n${REDACTION_INSTRUCTION}` : qaPrompt(complete);
+  const system = `${prompt}${summary ? `\n\nSamenvatting van het gesprek:\n\n${summary}` : ''}\n\nTranscriptie${complete ? '' : ' (fragmenten)'}:\n\n${context}`;
+  const messages: ChatMessage[] = [
+    { role: 'system', content: system },
+    ...recentHistory.map(message => ({ role: message.role, content: message.content })),
+    { role: 'user', content: modelQuestion },
+  ];
+
+  // Placeholders are restored in the streamed text as well; one split over two deltas is held back
+  const streamRestorer = redactor?.createStreamRestorer();
+  const emit = (delta: string) => { if (delta && onDelta) onDelta(delta); };
+  const result = await completeChat(model.id, {
+    messages,
+    temperature: 0.2,
+    maxTokens: 2048,
+    signal,
+    onDelta: onDelta ? (delta => emit(streamRestorer ? streamRestorer.push(delta) : delta)) : undefined,
+  });
+  if (streamRestorer) emit(streamRestorer.flush());
+  const answer = (redactor ? redactor.restore(result.text) : result.text).trim();
+
+  return {
+    answer,
+    quotes: matchQuotes(answerQuotes(answer), transcriptPassages(text, segments)),
+    complete,
+    inputTokens: result.usage?.inputTokens ?? countTextTokens(messages.map(message => message.content).join('\n')),
+    outputTokens: result.usage?.outputTokens ?? countTextTokens(result.text),
+    model: result.model,
+  };
+}
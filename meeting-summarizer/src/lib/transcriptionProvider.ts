@@ -0,0 +1,168 @@
+// src/lib/transcriptionProvider.ts
+import openai from './openai';
+import { whisperModels, transcriptionProviders, fakeTranscriptionEnabled } from './config';
+import { WhisperSegment, segmentsFromTranscriptionResult } from './transcript';
+import { normalizeLanguageCode } from './language';
+
+/**
+ * Pluggable speech-to-text step used by all transcription routes.
+ *
+ * Providers:
+ * - 'openai': OpenAI audio transcriptions (Whisper / gpt-4o transcribe models)
+ * - 'local':  self-hosted whisper.cpp or faster-whisper HTTP server at LOCAL_WHISPER_URL,
+ *             so confidential recordings never leave our network
+ * - 'fake':   deterministic transcript without any network calls, for tests and local development;
+ *             not available in production unless NEXT_PUBLIC_ENABLE_FAKE_TRANSCRIPTION is 'true'
+ */
+
+export type TranscriptionProviderId = 'openai' | 'local' | 'fake';
+
+export interface TranscriptionRequest {
+  file: File;
+  model: string;
+  language?: string; // ISO 639-1 code; undefined lets the provider detect the language
+  prompt?: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  segments: WhisperSegment[]; // Relative to the start of the file
+  language?: string;          // ISO 639-1 code of the detected (or requested) language
+  duration?: number;          // seconds
+}
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  name: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+/**
+ * Converts a Whisper-style response (verbose_json, json or plain text) to a TranscriptionResult
+ */
+function toTranscriptionResult(response: any, requestedLanguage?: string): TranscriptionResult {
+  const segments = segmentsFromTranscriptionResult(response);
+  const text = typeof response === 'string'
+    ? response.trim()
+    : typeof response?.text === 'string'
+      ? response.text.trim()
+      : segments.map(segment => segment.text).join(' ');
+
+  return {
+    text,
+    segments,
+    language: normalizeLanguageCode(response?.language) || requestedLanguage,
+    duration: Number(response?.duration) || undefined,
+  };
+}
+
+const openaiTranscription: TranscriptionProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  async transcribe({ file, model, language, prompt }) {
+    // Whisper models return timed segments with verbose_json, which diarization and playback need.
+    // The gpt-4o transcribe models only support 'json', so they yield a single segment.
+    const response = await openai.audio.transcriptions.create({
+      file,
+      model,
+      language,
+      prompt,
+      response_format: model.startsWith('whisper') ? 'verbose_json' : 'json',
+    });
+    return toTranscriptionResult(response, language);
+  },
+};
+
+const localTranscription: TranscriptionProvider = {
+  id: 'local',
+  name: 'Lokale Whisper-server',
+  async transcribe({ file, model, language, prompt }) {
+    const apiUrl = process.env.LOCAL_WHISPER_URL;
+    if (!apiUrl) {
+      throw new Error('LOCAL_WHISPER_URL is niet geconfigureerd');
+    }
+
+    // whisper.cpp (/inference) and faster-whisper-server (/v1/audio/transcriptions) both accept
+    // the OpenAI multipart fields and return verbose_json
+    const formData = new FormData();
+    formData.append('file', file, file.name);
+    formData.append('model', model);
+    formData.append('response_format', 'verbose_json');
+    if (language) formData.append('language', language);
+    if (prompt) formData.append('prompt', prompt);
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: process.env.LOCAL_WHISPER_API_KEY ? { Authorization: `Bearer ${process.env.LOCAL_WHISPER_API_KEY}` } : undefined,
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Lokale Whisper-server gaf status ${response.status}`);
+    }
+
+    return toTranscriptionResult(await response.json(), language);
+  },
+};
+
+// Fixed script for the fake provider; the question and the pause make the pause heuristic switch speakers
+const FAKE_SEGMENTS: WhisperSegment[] = [
+  { start: 0, end: 4.2, text: 'Welkom allemaal, laten we beginnen met de agenda.' },
+  { start: 4.2, end: 8.5, text: 'Zijn er nog aanvullingen op de notulen van vorige keer?' },
+  { start: 8.9, end: 12.6, text: 'Nee, die zijn akkoord. Ik heb wel een vraag over de planning.' },
+  { start: 14.4, end: 19.0, text: 'Prima, dan nemen we die mee als laatste punt.' },
+];
+
+const fakeTranscription: TranscriptionProvider = {
+  id: 'fake',
+  name: 'Testtranscriptie',
+  async transcribe({ file, language }) {
+    // Deterministic output: the same file always yields the same transcript
+    const segments = [
+      ...FAKE_SEGMENTS,
+      { start: 19.0, end: 22.0, text: `Dit is een testtranscriptie van ${file.name} (${file.size} bytes).` },
+    ];
+    return {
+      text: segments.map(segment => segment.text).join(' '),
+      segments,
+      language: language || 'nl',
+      duration: segments[segments.length - 1].end,
+    };
+  },
+};
+
+const providers: Record<TranscriptionProviderId, TranscriptionProvider> = {
+  openai: openaiTranscription,
+  local: localTranscription,
+  fake: fakeTranscription,
+};
+
+/**
+ * Why a provider cannot transcribe with a model: the model is listed under another provider, e.g.
+ * a local model sent to OpenAI. Returns null for a valid pair, and when the model is not listed.
+ */
+export function transcriptionPairError(id?: string | null, modelId?: string | null): string | null {
+  const model = id && modelId ? whisperModels.find(whisperModel => whisperModel.id === modelId) : undefined;
+  if (!model || model.provider === id) return null;
+  const providerName = (providerId: string) => transcriptionProviders.find(provider => provider.id === providerId)?.name || providerId;
+  return `Transcriptiemodel ${model.name} hoort bij ${providerName(model.provider)}, niet bij ${providerName(id!)}`;
+}
+
+/**
+ * Returns the requested transcription provider. Without an explicit provider the provider of the
+ * selected model is used, then TRANSCRIPTION_PROVIDER, then OpenAI. Throws when the fake provider
+ * is requested where it is not enabled, rather than passing its script off as a transcript, and
+ * when the model belongs to another provider (see transcriptionPairError).
+ */
+export function getTranscriptionProvider(id?: string | null, modelId?: string): TranscriptionProvider {
+  const pairError = transcriptionPairError(id, modelId);
+  if (pairError) throw new Error(pairError);
+  const requested = (id || (modelId === 'fake' ? 'fake' : whisperModels.find(model => model.id === modelId)?.provider) || process.env.TRANSCRIPTION_PROVIDER) as TranscriptionProviderId | undefined;
+  if (requested === 'fake' && !fakeTranscriptionEnabled) {
+    throw new Error('De testtranscriptie is niet beschikbaar in productie');
+  }
+  if (requested && providers[requested]) {
+    return providers[requested];
+  }
+  return openaiTranscription;
+}
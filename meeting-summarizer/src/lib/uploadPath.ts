@@ -0,0 +1,58 @@
+// src/lib/uploadPath.ts
+import { upload } from '@vercel/blob/client';
+import { createAudioChunks, MIN_CHUNK_SIZE } from './enhancedAudioChunker';
+import type { RecordingChunk } from './recordings';
+
+/**
+ * Client helpers for blob uploads. Upload tokens are only issued for paths under the signed-in
+ * user's prefix (`users/<key>/`, see `userUploadPrefix` in `session.ts`), so uploads ask the
+ * server for that prefix first. Uploaded recordings are played through the server, not from
+ * their blob URL (see `recordings.ts`).
+ */
+
+let prefix: Promise<string> | null = null;
+
+/**
+ * The blob pathname to upload a file to: the file name under the user's upload prefix
+ */
+export async function userUploadPathname(fileName: string): Promise<string> {
+  if (!prefix) {
+    prefix = fetch('/api/auth/session').then(async response => {
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data.uploadPrefix) throw new Error(data.error || 'Niet ingelogd');
+      return data.uploadPrefix as string;
+    });
+    prefix.catch(() => { prefix = null; });
+  }
+  return `${await prefix}${fileName}`;
+}
+
+/**
+ * The URL the audio player loads an uploaded recording from
+ */
+export const recordingPlaybackUrl = (pathname: string) => `/api/recordings?pathname=${encodeURIComponent(pathname)}`;
+
+/**
+ * Splits a recording that is too large to transcribe in one call (over MIN_CHUNK_SIZE) and
+ * uploads the chunks, which the job transcribes instead of the recording (see jobWorker.ts).
+ * Returns no chunks for recordings that are transcribed whole.
+ */
+export async function uploadRecordingChunks(file: File, onProgress?: (uploaded: number, total: number) => void): Promise<RecordingChunk[]> {
+  if (file.size <= MIN_CHUNK_SIZE) return [];
+  const audioChunks = await createAudioChunks(file);
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  const chunks: RecordingChunk[] = [];
+  onProgress?.(0, audioChunks.length);
+  for (let index = 0; index < audioChunks.length; index++) {
+    const { blob, startTime, duration } = audioChunks[index];
+    const extension = blob.type === 'audio/wav' ? 'wav' : file.name.split('.').pop() || 'bin';
+    const uploaded = await upload(await userUploadPathname(`${baseName}-part${index + 1}.${extension}`), blob, {
+      access: 'private',
+      handleUploadUrl: '/api/upload-blob',
+      contentType: blob.type || file.type,
+    });
+    chunks.push({ pathname: uploaded.pathname, ...(startTime !== undefined ? { startTime } : {}), ...(duration !== undefined ? { duration } : {}) });
+    onProgress?.(index + 1, audioChunks.length);
+  }
+  return chunks;
+}
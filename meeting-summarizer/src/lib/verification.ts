@@ -0,0 +1,200 @@
+// src/lib/verification.ts
+import { ChatModel } from './config';
+import { completeChat, ChatResult } from './chatProvider';
+import { countTextTokens } from './tokenizer';
+import { TranscriptSegment, formatTranscript } from './transcript';
+import { singlePassLimit, splitTranscript } from './mapReduce';
+import { ClaimVerdict, VerifiedClaim, summaryClaims } from './claims';
+import { standardVariables } from './templateVariables';
+import { createRedactor, REDACTION_INSTRUCTION } from './redaction';
+
+/**
+ * Faithfulness check of a summary: every claim (see `claims.ts`) is compared with the transcript
+ * and marked as supported, unsupported or contradicted, with a reason and a quote.
+ *
+ * Long transcripts are checked part by part (split like map-reduce summarization). A claim is
+ * supported when any part supports it, contradicted when a part contradicts it and none supports
+ * it, and unsupported otherwise.
+ */
+
+const VERDICTS: ClaimVerdict[] = ['supported', 'unsupported', 'contradicted'];
+
+// Strict JSON schema: every property is required, a missing quote is null
+export const claimVerdictsSchema = {
+  name: 'claim_verdicts',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['verdicts'],
+    properties: {
+      verdicts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['id', 'verdict', 'reason', 'quote'],
+          properties: {
+            id: { type: 'integer', description: 'Nummer van de bewering' },
+            verdict: { type: 'string', enum: VERDICTS },
+            reason: { type: 'string', description: 'Korte uitleg waarom de bewering wel of niet klopt' },
+            quote: { type: ['string', 'null'], description: 'Letterlijk citaat uit de transcriptie, of null' },
+          },
+        },
+      },
+    },
+  },
+};
+
+type Verdict = Pick<VerifiedClaim, 'verdict' | 'reason' | 'quote'>;
+
+/**
+ * Validates a parsed model answer against the schema. Verdicts for unknown claims are ignored;
+ * throws an error describing the first violation.
+ */
+export function validateVerdicts(value: unknown, claimIds: number[]): Map<number, Verdict> {
+  const list = (value as { verdicts?: unknown })?.verdicts;
+  if (!Array.isArray(list)) {
+    throw new Error("Het antwoord bevat geen lijst 'verdicts'");
+  }
+
+  const verdicts = new Map<number, Verdict>();
+  list.forEach((item, index) => {
+    const { id, verdict, reason, quote } = (item || {}) as Record<string, unknown>;
+    if (typeof id !== 'number' || !claimIds.includes(id)) return;
+    if (!VERDICTS.includes(verdict as ClaimVerdict)) {
+      throw new Error(`Oordeel ${index + 1}: '${verdict}' is geen geldig oordeel`);
+    }
+    if (typeof reason !== 'string') {
+      throw new Error(`Oordeel ${index + 1} heeft geen uitleg`);
+    }
+    verdicts.set(id, {
+      verdict: verdict as ClaimVerdict,
+      reason: reason.trim(),
+      quote: typeof quote === 'string' && quote.trim() ? quote.trim() : null,
+    });
+  });
+  return verdicts;
+}
+
+const parseVerdicts = (text: string, claimIds: number[]) => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Het antwoord van het model is geen geldige JSON');
+  }
+  return validateVerdicts(value, claimIds);
+};
+
+const verificationPrompt = (part: number, total: number, facts: string[]) =>
+  `Je controleert of een samenvatting van een gesprek klopt met de transcriptie. Beoordeel elke genummerde bewering uitsluitend aan de hand van de transcriptie${total > 1 ? ` (je ziet deel ${part} van ${total}; zegt dit deel niets over een bewering, kies dan "unsupported")` : ''}:
+- supported: de transcriptie bevestigt de bewering, ook als die in andere woorden is gesteld of redelijk is samengevat
+- contradicted: de transcriptie zegt iets anders, bijvoorbeeld een ander bedrag, een andere datum, een andere persoon of het tegenovergestelde besluit
+- unsupported: de transcriptie bevat niets waarop de bewering gebaseerd kan zijn
+
+Geef bij elke bewering een korte reden in het Nederlands en, als die er is, een letterlijk citaat uit de transcriptie waarop je oordeel rust.${facts.length > 0 ? `
+
+De volgende gegevens zijn door de gebruiker opgegeven en gelden als juist, ook als ze niet in de transcriptie staan:
+${facts.join('\n')}` : ''}
+
+Antwoord uitsluitend met JSON in de vorm {"verdicts": [{"id": 1, "verdict": "supported", "reason": "...", "quote": "..."}]}, met één oordeel per bewering.`;
+
+export interface VerificationProgress {
+  completed: number; // Transcript parts checked
+  total: number;
+}
+
+export interface VerificationOptions {
+  model: ChatModel;
+  facts?: Record<string, string>; // Values the user entered for the template variables
+  redactPii?: boolean;            // Replace personal data with placeholders before anything goes to the model
+  onProgress?: (progress: VerificationProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface VerificationResult {
+  claims: VerifiedClaim[];
+  parts: number;
+  inputTokens: number;
+  outputTokens: number;
+  model: ChatModel; // The model that answered last (may be a fallback)
+}
+
+const rank = (verdict: ClaimVerdict) => (verdict === 'supported' ? 2 : verdict === 'contradicted' ? 1 : 0);
+
+/**
+ * Checks every claim of the summary against the transcript
+ */
+export async function verifySummary(
+  summary: string,
+  text: string,
+  segments: TranscriptSegment[] | null,
+  options: VerificationOptions
+): Promise<VerificationResult> {
+  const { model, facts = {}, onProgress, signal } = options;
+  const claims = summaryClaims(summary);
+  if (claims.length === 0) {
+    return { claims: [], parts: 0, inputTokens: 0, outputTokens: 0, model };
+  }
+
+  // With redactPii, personal data in the transcript, the claims and the facts is replaced with
+  // placeholders; the reasons and quotes of the verdicts are restored
+  const redactor = options.redactPii ? createRedactor() : null;
+  const redact = (value: string) => (redactor ? redactor.redact(value) : value);
+  const restore = (value: string) => (redactor ? redactor.restore(value) : value);
+  const modelSegments = redactor && segments ? segments.map(segment => ({ ...segment, text: redactor.redact(segment.text) })) : segments;
+  const modelText = redactor ? (modelSegments ? formatTranscript(modelSegments) : redactor.redact(text)) : text;
+
+  const claimList = redact(claims.map(claim => `${claim.id}. ${claim.text}`).join('\n'));
+  const partLimit = Math.max(1000, singlePassLimit(model) - countTextTokens(claimList));
+  const parts = splitTranscript(modelText, modelSegments, partLimit);
+  const factLines = Object.entries(facts)
+    .filter(([, value]) => typeof value === 'string' && value.trim())
+    .map(([name, value]) => `- ${standardVariables[name]?.label || name}: ${redact(value.trim())}`);
+  const instruction = redactor && redactor.redactions().length > 0 ? `\n\n${REDACTION_INSTRUCTION}` : '';
+  const claimIds = claims.map(claim => claim.id);
+
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let answeredBy = model;
+  const best = new Map<number, Verdict>();
+
+  onProgress?.({ completed: 0, total: parts.length });
+  for (let index = 0; index < parts.length; index++) {
+    const part = parts[index];
+    const system = verificationPrompt(index + 1, parts.length, factLines) + instruction;
+    const user = `Beweringen uit de samenvatting:\n\n${claimList}\n\nTranscriptie${parts.length > 1 ? ` (deel ${index + 1} van ${parts.length})` : ''}:\n\n${part}`;
+    const result: ChatResult = await completeChat(model.id, {
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: user },
+      ],
+      temperature: 0,
+      maxTokens: 8192,
+      jsonSchema: claimVerdictsSchema,
+      signal,
+    });
+    inputTokens += result.usage?.inputTokens ?? countTextTokens(system + user);
+    outputTokens += result.usage?.outputTokens ?? countTextTokens(result.text);
+    answeredBy = result.model;
+
+    parseVerdicts(result.text, claimIds).forEach((modelVerdict, id) => {
+      const verdict = { ...modelVerdict, reason: restore(modelVerdict.reason), quote: modelVerdict.quote && restore(modelVerdict.quote) };
+      const current = best.get(id);
+      if (!current || rank(verdict.verdict) > rank(current.verdict)) best.set(id, verdict);
+    });
+    onProgress?.({ completed: index + 1, total: parts.length });
+  }
+
+  return {
+    claims: claims.map(claim => ({
+      ...claim,
+      ...(best.get(claim.id) || { verdict: 'unsupported' as const, reason: 'Het model heeft deze bewering niet beoordeeld', quote: null }),
+    })),
+    parts: parts.length,
+    inputTokens,
+    outputTokens,
+    model: answeredBy,
+  };
+}
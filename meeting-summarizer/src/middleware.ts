@@ -0,0 +1,54 @@
+// src/middleware.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE, authConfigured, authDisabled, verifySessionToken } from '@/lib/session';
+
+/**
+ * Requires a signed-in user for every page and API route, except the login page and the sign-in
+ * routes. API requests without a session get 401, pages redirect to /login.
+ */
+
+// Reachable without a session
+const PUBLIC_PATHS = ['/login', '/api/auth/'];
+
+// Vercel Blob calls these after an upload with a signed request (x-vercel-signature), which
+// `handleUpload` verifies itself
+const UPLOAD_CALLBACK_PATHS = ['/api/upload-blob', '/api/client-upload'];
+
+// Vercel Cron calls these with `Authorization: Bearer <CRON_SECRET>`, which the route verifies itself
+const CRON_PATHS = ['/api/retention/cleanup'];
+
+const isPublic = (request: NextRequest) => {
+  const { pathname } = request.nextUrl;
+  if (PUBLIC_PATHS.some(path => pathname === path || (path.endsWith('/') && pathname.startsWith(path)))) return true;
+  if (CRON_PATHS.includes(pathname) && request.headers.has('authorization')) return true;
+  return UPLOAD_CALLBACK_PATHS.includes(pathname) && request.headers.has('x-vercel-signature');
+};
+
+const isApi = (request: NextRequest) => request.nextUrl.pathname.startsWith('/api/');
+
+const toLogin = (request: NextRequest) => {
+  const url = new URL('/login', request.url);
+  url.searchParams.set('next', request.nextUrl.pathname + request.nextUrl.search);
+  return NextResponse.redirect(url);
+};
+
+export async function middleware(request: NextRequest) {
+  if (authDisabled() || isPublic(request)) return NextResponse.next();
+
+  if (!authConfigured()) {
+    console.error('❌ AUTH_SECRET is not set; set it or set AUTH_DISABLED=true for local development');
+    return isApi(request)
+      ? NextResponse.json({ error: 'Inloggen is niet geconfigureerd: AUTH_SECRET ontbreekt' }, { status: 500 })
+      : toLogin(request);
+  }
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (session) return NextResponse.next();
+
+  return isApi(request) ? NextResponse.json({ error: 'Niet ingelogd' }, { status: 401 }) : toLogin(request);
+}
+
+export const config = {
+  // Everything except Next.js assets, the FFmpeg files and static files
+  matcher: ['/((?!_next/static|_next/image|ffmpeg/|favicon\\.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico|wasm|js)$).*)'],
+};